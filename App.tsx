@@ -8,15 +8,32 @@ import ServicesPage from './components/ServicesPage';
 import AIConsultant from './components/AIConsultant';
 import InventoryPage from './components/InventoryPage';
 import POSPage from './components/POSPage';
+import PurchasingPage from './components/PurchasingPage';
+import CommissionPage from './components/CommissionPage';
+import StaffPage from './components/StaffPage';
+import NotificationsPage from './components/NotificationsPage';
+import TransactionsPage from './components/TransactionsPage';
+import PromotionsPage from './components/PromotionsPage';
+import GiftVouchersPage from './components/GiftVouchersPage';
+import CourseExpiryReportPage from './components/CourseExpiryReportPage';
+import ChartSearchPage from './components/ChartSearchPage';
+import ConsentTemplatesPage from './components/ConsentTemplatesPage';
 import LoginPage from './components/LoginPage';
 import SetupPage from './components/SetupPage';
 import SettingsPage from './components/SettingsPage';
 import DatabaseSetupGuide from './components/DatabaseSetupGuide';
 import { ClinicProvider, useClinic } from './context/ClinicContext';
-import { AuthProvider, useAuth } from './context/AuthContext';
+import { AuthProvider, useAuth, usePermission } from './context/AuthContext';
+import { Permission } from './lib/permissions';
 import { isConfigured } from './lib/supabaseClient';
 import { Menu, Sparkles, PanelLeftOpen } from 'lucide-react';
 
+// Sends users without the permission back to the dashboard (typed URLs included, not just hidden menu items)
+const RequirePermission: React.FC<{ permission: Permission; children: React.ReactNode }> = ({ permission, children }) => {
+  const { can } = usePermission();
+  return can(permission) ? <>{children}</> : <Navigate to="/" replace />;
+};
+
 // Inner layout to consume ClinicContext
 const ClinicLayout: React.FC = () => {
   const { dbConnectionError } = useClinic();
@@ -90,13 +107,23 @@ const ClinicLayout: React.FC = () => {
         <main className="flex-1 overflow-y-auto">
           <Routes>
             <Route path="/" element={<Dashboard />} />
-            <Route path="/appointments" element={<AppointmentPage />} />
-            <Route path="/customers" element={<CustomerPage />} />
-            <Route path="/services" element={<ServicesPage />} />
-            <Route path="/inventory" element={<InventoryPage />} />
-            <Route path="/pos" element={<POSPage />} />
-            <Route path="/ai-consultant" element={<AIConsultant />} />
-            <Route path="/settings" element={<SettingsPage />} />
+            <Route path="/appointments" element={<RequirePermission permission="appointments.manage"><AppointmentPage /></RequirePermission>} />
+            <Route path="/customers" element={<RequirePermission permission="customers.view"><CustomerPage /></RequirePermission>} />
+            <Route path="/charts" element={<RequirePermission permission="charts.manage"><ChartSearchPage /></RequirePermission>} />
+            <Route path="/services" element={<RequirePermission permission="catalog.manage"><ServicesPage /></RequirePermission>} />
+            <Route path="/consent-templates" element={<RequirePermission permission="catalog.manage"><ConsentTemplatesPage /></RequirePermission>} />
+            <Route path="/inventory" element={<RequirePermission permission="inventory.manage"><InventoryPage /></RequirePermission>} />
+            <Route path="/purchasing" element={<RequirePermission permission="purchasing.manage"><PurchasingPage /></RequirePermission>} />
+            <Route path="/staff" element={<RequirePermission permission="staff.manage"><StaffPage /></RequirePermission>} />
+            <Route path="/commissions" element={<RequirePermission permission="commissions.view"><CommissionPage /></RequirePermission>} />
+            <Route path="/course-expiry" element={<RequirePermission permission="revenue.view"><CourseExpiryReportPage /></RequirePermission>} />
+            <Route path="/transactions" element={<RequirePermission permission="pos.sell"><TransactionsPage /></RequirePermission>} />
+            <Route path="/vouchers" element={<RequirePermission permission="pos.sell"><GiftVouchersPage /></RequirePermission>} />
+            <Route path="/promotions" element={<RequirePermission permission="pricing.edit"><PromotionsPage /></RequirePermission>} />
+            <Route path="/notifications" element={<RequirePermission permission="notifications.manage"><NotificationsPage /></RequirePermission>} />
+            <Route path="/pos" element={<RequirePermission permission="pos.sell"><POSPage /></RequirePermission>} />
+            <Route path="/ai-consultant" element={<RequirePermission permission="ai.use"><AIConsultant /></RequirePermission>} />
+            <Route path="/settings" element={<RequirePermission permission="data.export"><SettingsPage /></RequirePermission>} />
           </Routes>
         </main>
       </div>
@@ -105,7 +132,7 @@ const ClinicLayout: React.FC = () => {
 };
 
 const ProtectedLayout: React.FC = () => {
-  const { session, loading } = useAuth();
+  const { session, loading, roleError, signOut } = useAuth();
 
   if (loading) {
     return <div className="flex h-screen items-center justify-center bg-gray-50 text-gray-400">Loading...</div>;
@@ -115,6 +142,19 @@ const ProtectedLayout: React.FC = () => {
     return <Navigate to="/login" replace />;
   }
 
+  if (roleError) {
+    return (
+      <div className="flex flex-col h-screen items-center justify-center bg-gray-50 gap-3 p-4 text-center">
+        <p className="text-red-600 font-medium">ไม่สามารถโหลดสิทธิ์การใช้งานได้</p>
+        <p className="text-sm text-gray-500">{roleError}</p>
+        <div className="flex gap-2">
+          <button onClick={() => window.location.reload()} className="px-4 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600">ลองใหม่</button>
+          <button onClick={signOut} className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100">ออกจากระบบ</button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <ClinicProvider>
         <ClinicLayout />
@@ -0,0 +1,180 @@
+import React from 'react';
+import { useClinic } from '../context/ClinicContext';
+import { Appointment, Status } from '../types';
+import { fromMinutes, getAppointmentDuration, toISODate, toMinutes } from '../lib/schedule';
+
+// One column of the grid: a day, optionally narrowed to one doctor or room ('' = unassigned)
+export interface CalendarColumn {
+  key: string;
+  label: string;
+  sublabel?: string;
+  date: string;
+  staffId?: string;
+  room?: string;
+}
+
+interface AppointmentCalendarProps {
+  columns: CalendarColumn[];
+  appointments: Appointment[];
+  onSlotClick: (column: CalendarColumn, time: string) => void;
+  onReschedule: (apt: Appointment, column: CalendarColumn, time: string) => void;
+  onSelect: (apt: Appointment) => void;
+}
+
+const START_HOUR = 8;
+const END_HOUR = 21;
+const SLOT_MINUTES = 15;
+const PX_PER_MINUTE = 1.6;
+
+const STATUS_STYLES: Record<string, string> = {
+  [Status.PENDING]: 'bg-amber-50 border-amber-400 text-amber-900',
+  [Status.CONFIRMED]: 'bg-rose-50 border-rose-400 text-rose-900',
+  [Status.RESCHEDULED]: 'bg-orange-50 border-orange-400 text-orange-900',
+  [Status.ARRIVED]: 'bg-sky-50 border-sky-400 text-sky-900',
+  [Status.IN_TREATMENT]: 'bg-violet-50 border-violet-400 text-violet-900',
+  [Status.COMPLETED]: 'bg-gray-100 border-gray-400 text-gray-600',
+  [Status.NO_SHOW]: 'bg-gray-50 border-gray-300 text-gray-400 line-through'
+};
+
+export const columnMatches = (column: CalendarColumn, apt: Appointment) =>
+  apt.date === column.date &&
+  (column.staffId === undefined || (apt.staffId || '') === column.staffId) &&
+  (column.room === undefined || (apt.room || '') === column.room);
+
+interface PositionedBlock {
+  apt: Appointment;
+  start: number;
+  end: number;
+  lane: number;
+  lanes: number;
+}
+
+// Overlapping appointments in one column are laid out side by side
+const layoutBlocks = (items: { apt: Appointment; start: number; end: number }[]): PositionedBlock[] => {
+  const result: PositionedBlock[] = [];
+  let cluster: { apt: Appointment; start: number; end: number; lane: number }[] = [];
+  let clusterEnd = -1;
+
+  const flush = () => {
+    const laneEnds: number[] = [];
+    cluster.forEach(item => {
+      let lane = laneEnds.findIndex(end => end <= item.start);
+      if (lane === -1) {
+        lane = laneEnds.length;
+        laneEnds.push(item.end);
+      } else {
+        laneEnds[lane] = item.end;
+      }
+      item.lane = lane;
+    });
+    cluster.forEach(item => result.push({ ...item, lanes: laneEnds.length }));
+    cluster = [];
+  };
+
+  [...items].sort((a, b) => a.start - b.start).forEach(item => {
+    if (item.start >= clusterEnd) flush();
+    cluster.push({ ...item, lane: 0 });
+    clusterEnd = Math.max(clusterEnd, item.end);
+  });
+  flush();
+  return result;
+};
+
+const AppointmentCalendar: React.FC<AppointmentCalendarProps> = ({ columns, appointments, onSlotClick, onReschedule, onSelect }) => {
+  const { customers, services } = useClinic();
+  const slotCount = ((END_HOUR - START_HOUR) * 60) / SLOT_MINUTES;
+  const gridHeight = (END_HOUR - START_HOUR) * 60 * PX_PER_MINUTE;
+  const today = toISODate(new Date());
+  const now = new Date();
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  const handleDrop = (e: React.DragEvent, column: CalendarColumn, time: string) => {
+    e.preventDefault();
+    const apt = appointments.find(a => a.id === e.dataTransfer.getData('text/plain'));
+    if (apt) onReschedule(apt, column, time);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-auto max-h-[75vh]">
+      <div className="flex min-w-max">
+        {/* Time gutter */}
+        <div className="w-16 flex-shrink-0 sticky left-0 z-20 bg-white border-r border-gray-100">
+          <div className="h-14 border-b border-gray-100 sticky top-0 bg-white"></div>
+          <div className="relative" style={{ height: gridHeight }}>
+            {[...Array(END_HOUR - START_HOUR)].map((_, i) => (
+              <span key={i} className="absolute right-2 -translate-y-1/2 text-xs text-gray-400" style={{ top: i * 60 * PX_PER_MINUTE }}>
+                {i > 0 && fromMinutes((START_HOUR + i) * 60)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {columns.map(column => {
+          const blocks = layoutBlocks(
+            appointments.filter(a => columnMatches(column, a)).map(apt => {
+              const start = toMinutes(apt.time);
+              return { apt, start, end: start + getAppointmentDuration(apt, services) };
+            })
+          );
+
+          return (
+            <div key={column.key} className="flex-1 min-w-[160px] border-r border-gray-100 last:border-r-0">
+              <div className={`h-14 border-b border-gray-100 sticky top-0 z-10 px-2 flex flex-col justify-center text-center ${column.date === today ? 'bg-rose-50' : 'bg-gray-50'}`}>
+                <p className="font-medium text-gray-800 text-sm truncate">{column.label}</p>
+                {column.sublabel && <p className="text-xs text-gray-500 truncate">{column.sublabel}</p>}
+              </div>
+              <div className="relative" style={{ height: gridHeight }}>
+                {/* Empty slots: click to book, drop to reschedule */}
+                {[...Array(slotCount)].map((_, i) => {
+                  const time = fromMinutes(START_HOUR * 60 + i * SLOT_MINUTES);
+                  return (
+                    <div
+                      key={i}
+                      className={`absolute inset-x-0 hover:bg-rose-50/60 cursor-pointer ${i % (60 / SLOT_MINUTES) === 0 ? 'border-t border-gray-100' : 'border-t border-dashed border-gray-50'}`}
+                      style={{ top: i * SLOT_MINUTES * PX_PER_MINUTE, height: SLOT_MINUTES * PX_PER_MINUTE }}
+                      title={time}
+                      onClick={() => onSlotClick(column, time)}
+                      onDragOver={e => e.preventDefault()}
+                      onDrop={e => handleDrop(e, column, time)}
+                    />
+                  );
+                })}
+
+                {column.date === today && nowMinutes >= START_HOUR * 60 && nowMinutes <= END_HOUR * 60 && (
+                  <div className="absolute inset-x-0 border-t-2 border-red-400 z-10 pointer-events-none" style={{ top: (nowMinutes - START_HOUR * 60) * PX_PER_MINUTE }} />
+                )}
+
+                {blocks.map(({ apt, start, end, lane, lanes }) => {
+                  const customer = customers.find(c => c.id === apt.customerId);
+                  const service = services.find(s => s.id === apt.serviceId);
+                  const top = Math.max(0, start - START_HOUR * 60) * PX_PER_MINUTE;
+                  return (
+                    <div
+                      key={apt.id}
+                      draggable={apt.status !== Status.COMPLETED && apt.status !== Status.NO_SHOW}
+                      onDragStart={e => e.dataTransfer.setData('text/plain', apt.id)}
+                      onClick={() => onSelect(apt)}
+                      className={`absolute rounded-lg border-l-4 px-2 py-1 text-xs shadow-sm overflow-hidden cursor-pointer hover:shadow-md z-10 ${STATUS_STYLES[apt.status] || STATUS_STYLES[Status.PENDING]}`}
+                      style={{
+                        top,
+                        height: Math.max(end - start, SLOT_MINUTES) * PX_PER_MINUTE - 2,
+                        left: `calc(${(lane / lanes) * 100}% + 2px)`,
+                        width: `calc(${100 / lanes}% - 4px)`
+                      }}
+                      title={`${apt.time.slice(0, 5)}-${fromMinutes(end)} ${customer?.name || ''} · ${service?.name || ''}`}
+                    >
+                      <p className="font-bold truncate">{apt.time.slice(0, 5)} {customer?.name}</p>
+                      <p className="truncate opacity-80">{service?.name}</p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AppointmentCalendar;
@@ -1,42 +1,288 @@
 import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useClinic } from '../context/ClinicContext';
-import { Status } from '../types';
-import { Clock, Calendar as CalendarIcon, User, CheckCircle, XCircle, Plus, Trash2 } from 'lucide-react';
+import { usePermission } from '../context/AuthContext';
+import { Appointment, ContraindicationHit, SafetyCheckContext, Status } from '../types';
+import { getActiveDoctors, getStaffName } from '../lib/staff';
+import { addDays, BOOKED_STATUSES, buildSeriesDates, countNoShows, DEFAULT_DURATION_MINUTES, findNextAvailableSlots, getSeriesAppointments, getWeekDates, toISODate } from '../lib/schedule';
+import { getUsableCourses, isBundle, isCourseExpired, pickEntitlement } from '../lib/courses';
+import { courseSources, findContraindications, serviceSources } from '../lib/medical';
+import AppointmentCalendar, { CalendarColumn, columnMatches } from './AppointmentCalendar';
+import ContraindicationModal from './ContraindicationModal';
+import ConsentRequirement from './ConsentRequirement';
+import { Clock, Calendar as CalendarIcon, CheckCircle, XCircle, Plus, Trash2, ChevronLeft, ChevronRight, List, CalendarDays, CalendarRange, Stethoscope, DoorOpen, AlertTriangle, LogIn, Activity, UserX, Receipt, Ticket, Repeat } from 'lucide-react';
+
+type ViewMode = 'day' | 'week' | 'list';
+
+const STATUS_BADGES: Record<string, string> = {
+  [Status.PENDING]: 'bg-amber-50 text-amber-700 border-amber-200',
+  [Status.CONFIRMED]: 'bg-green-50 text-green-700 border-green-200',
+  [Status.RESCHEDULED]: 'bg-orange-50 text-orange-700 border-orange-200',
+  [Status.ARRIVED]: 'bg-sky-50 text-sky-700 border-sky-200',
+  [Status.IN_TREATMENT]: 'bg-violet-50 text-violet-700 border-violet-200',
+  [Status.NO_SHOW]: 'bg-red-50 text-red-600 border-red-200'
+};
 
 const AppointmentPage: React.FC = () => {
-  const { appointments, customers, services, updateAppointmentStatus, addAppointment, deleteAppointment } = useClinic();
+  const { appointments, customers, services, updateAppointmentStatus, completeAppointment, addAppointment, updateAppointment, addAppointmentSeries, updateAppointmentSeries, cancelAppointmentSeries, deleteAppointment, getAppointmentConflicts, staff, holidays, inventory, courseDefinitions } = useClinic();
+  const { can } = usePermission();
+  const navigate = useNavigate();
+  const today = toISODate(new Date());
+
+  // View
+  const [view, setView] = useState<ViewMode>('day');
+  const [currentDate, setCurrentDate] = useState(today);
+  const [groupBy, setGroupBy] = useState<'doctor' | 'room'>('doctor');
+  const [weekFilter, setWeekFilter] = useState(''); // '' = everyone, 'staff:<id>' or 'room:<name>'
+  const [listFrom, setListFrom] = useState(today);
+  const [listTo, setListTo] = useState(addDays(today, 30));
+
+  // Modals
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedApt, setSelectedApt] = useState<Appointment | null>(null);
+  const [seriesScope, setSeriesScope] = useState<'one' | 'future'>('one');
+  const [moveTo, setMoveTo] = useState({ date: '', time: '' });
+  const [completingApt, setCompletingApt] = useState<Appointment | null>(null);
+  const [completeCourseId, setCompleteCourseId] = useState('');
+  const [completeEntitlementId, setCompleteEntitlementId] = useState(''); // Bundles only
+  // Contraindications awaiting acknowledgement; proceed runs once they are logged
+  const [safetyCheck, setSafetyCheck] = useState<{ customerId: string; context: SafetyCheckContext; itemName: string; hits: ContraindicationHit[]; proceed: (safetyNote: string) => void } | null>(null);
   const [newApt, setNewApt] = useState({
     customerId: '',
     serviceId: '',
-    date: new Date().toISOString().split('T')[0],
+    date: today,
     time: '10:00',
-    doctorName: 'หมอฟ้า'
+    staffId: '',
+    room: '',
+    customerCourseId: ''
   });
+  // Recurring booking for a course: one occurrence per remaining unit by default
+  const [series, setSeries] = useState({ enabled: false, intervalWeeks: 4, count: 1 });
+  const [seriesOverrides, setSeriesOverrides] = useState<Record<number, { date: string; time: string }>>({});
+
+  const rooms = Array.from(new Set<string>(appointments.map(a => a.room).filter((r): r is string => !!r))).sort();
+  const visibleAppointments = appointments.filter(a => a.status !== Status.CANCELLED);
+  // Includes courses other customers share with this one
+  const activeCoursesOf = (customerId: string) => getUsableCourses(customers, customerId).filter(c => c.remainingUnits > 0 && !isCourseExpired(c));
+
+  // --- Columns ---
+  const dayColumns = (): CalendarColumn[] => {
+      if (groupBy === 'room') {
+          return [
+              ...rooms.map(room => ({ key: room, label: room, date: currentDate, room })),
+              { key: '-', label: 'ไม่ระบุห้อง', date: currentDate, room: '' }
+          ];
+      }
+      // Active doctors plus anyone (e.g. since deactivated) who already has a booking that day
+      const bookedIds = visibleAppointments.filter(a => a.date === currentDate && a.staffId).map(a => a.staffId!);
+      const doctors = staff.filter(s => getActiveDoctors(staff).includes(s) || bookedIds.includes(s.id));
+      return [
+          ...doctors.map(d => ({ key: d.id, label: d.name, date: currentDate, staffId: d.id })),
+          { key: '-', label: 'ไม่ระบุแพทย์', date: currentDate, staffId: '' }
+      ];
+  };
+
+  const weekColumns = (): CalendarColumn[] => {
+      const [kind, value] = weekFilter ? [weekFilter.slice(0, weekFilter.indexOf(':')), weekFilter.slice(weekFilter.indexOf(':') + 1)] : ['', ''];
+      return getWeekDates(currentDate).map(date => ({
+          key: date,
+          label: new Date(date + 'T00:00:00').toLocaleDateString('th-TH', { weekday: 'short' }),
+          sublabel: new Date(date + 'T00:00:00').toLocaleDateString('th-TH', { day: 'numeric', month: 'short' }),
+          date,
+          staffId: kind === 'staff' ? value : undefined,
+          room: kind === 'room' ? value : undefined
+      }));
+  };
+
+  const shiftDate = (direction: number) => setCurrentDate(addDays(currentDate, direction * (view === 'week' ? 7 : 1)));
+
+  // --- Actions ---
+  const openBooking = (prefill: Partial<typeof newApt> = {}) => {
+      setNewApt({ customerId: '', serviceId: '', date: currentDate, time: '10:00', staffId: '', room: '', customerCourseId: '', ...prefill });
+      setSeries({ enabled: false, intervalWeeks: 4, count: 1 });
+      setSeriesOverrides({});
+      setIsModalOpen(true);
+  };
+
+  const handleSlotClick = (column: CalendarColumn, time: string) => {
+      openBooking({ date: column.date, time, staffId: column.staffId || '', room: column.room || '' });
+  };
+
+  const handleReschedule = (apt: Appointment, column: CalendarColumn, time: string) => {
+      const customer = customers.find(c => c.id === apt.customerId);
+      if (columnMatches(column, apt) && apt.time.slice(0, 5) === time) return;
+      if (!window.confirm(`ย้ายนัด ${customer?.name || ''} ไปวันที่ ${column.date} เวลา ${time}?`)) return;
+      updateAppointment(apt.id, {
+          date: column.date,
+          time,
+          ...(column.staffId !== undefined ? { staffId: column.staffId } : {}),
+          ...(column.room !== undefined ? { room: column.room } : {})
+      });
+  };
+
+  const bookingConflicts = isModalOpen && newApt.serviceId ? getAppointmentConflicts({ ...newApt, staffId: newApt.staffId || undefined, room: newApt.room || undefined }) : [];
+  const suggestedSlots = bookingConflicts.length > 0
+    ? findNextAvailableSlots({
+        date: newApt.date,
+        time: newApt.time,
+        durationMinutes: services.find(s => s.id === newApt.serviceId)?.durationMinutes || DEFAULT_DURATION_MINUTES,
+        staffId: newApt.staffId || undefined,
+        room: newApt.room || undefined
+      }, { appointments, services, staff, holidays })
+    : [];
+
+  const selectCourse = (customerCourseId: string) => {
+      const course = activeCoursesOf(newApt.customerId).find(c => c.id === customerCourseId);
+      const alreadyBooked = appointments.filter(a => a.customerCourseId === customerCourseId && BOOKED_STATUSES.includes(a.status)).length;
+      setNewApt({ ...newApt, customerCourseId });
+      setSeries({ ...series, enabled: series.enabled && !!course, count: Math.max(1, (course?.remainingUnits || 1) - alreadyBooked) });
+      setSeriesOverrides({});
+  };
+
+  const bookingBase = {
+      ...newApt,
+      staffId: newApt.staffId || undefined,
+      doctorName: getStaffName(staff, newApt.staffId),
+      room: newApt.room || undefined,
+      customerCourseId: newApt.customerCourseId || undefined,
+      status: Status.PENDING,
+      statusHistory: []
+  };
+
+  const seriesOccurrences = series.enabled && newApt.customerCourseId
+    ? buildSeriesDates(newApt.date, series.intervalWeeks * 7, series.count).map((date, i) => ({ ...bookingBase, date, ...(i > 0 ? seriesOverrides[i] : {}) }))
+    : [];
+  const seriesConflicts = isModalOpen && newApt.serviceId ? seriesOccurrences.map(o => getAppointmentConflicts(o)) : [];
+  const hasSeriesConflicts = seriesConflicts.some(c => c.length > 0);
+
+  const nextFreeSlot = (occurrence: { date: string; time: string }) =>
+      findNextAvailableSlots({
+          date: occurrence.date,
+          time: occurrence.time,
+          durationMinutes: services.find(s => s.id === newApt.serviceId)?.durationMinutes || DEFAULT_DURATION_MINUTES,
+          staffId: newApt.staffId || undefined,
+          room: newApt.room || undefined
+      }, { appointments, services, staff, holidays }, 1)[0];
+
+  // The service, plus the course's package line when it is done against a course
+  const findAppointmentContraindications = (customerId: string, serviceId: string, customerCourseId?: string, entitlementId?: string) => {
+      const course = activeCoursesOf(customerId).find(c => c.id === customerCourseId);
+      const courseDef = courseDefinitions.find(cd => cd.id === course?.courseId);
+      return findContraindications(customers.find(c => c.id === customerId), [
+          ...serviceSources(services.find(s => s.id === serviceId), inventory),
+          ...(course ? courseSources(courseDef, services, inventory, entitlementId || pickEntitlement(course, serviceId)?.entitlementId) : [])
+      ]);
+  };
+
+  const withSafetyCheck = (customerId: string, serviceId: string, customerCourseId: string | undefined, context: SafetyCheckContext, proceed: (safetyNote?: string) => void, entitlementId?: string) => {
+      const hits = findAppointmentContraindications(customerId, serviceId, customerCourseId, entitlementId);
+      if (hits.length === 0) return proceed();
+      setSafetyCheck({ customerId, context, itemName: services.find(s => s.id === serviceId)?.name || '', hits, proceed });
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (newApt.customerId && newApt.serviceId) {
-      addAppointment({
-        ...newApt,
-        status: Status.PENDING
-      });
-      setIsModalOpen(false);
+      withSafetyCheck(newApt.customerId, newApt.serviceId, newApt.customerCourseId, 'appointment', submitBooking);
     }
   };
-  
+
+  const submitBooking = async (safetyNote?: string) => {
+    if (newApt.customerId && newApt.serviceId) {
+      const ok = seriesOccurrences.length > 1
+        ? await addAppointmentSeries(seriesOccurrences, safetyNote)
+        : await addAppointment(bookingBase, safetyNote);
+      if (ok) setIsModalOpen(false);
+    }
+  };
+
+  const openDetail = (apt: Appointment) => {
+      setSelectedApt(apt);
+      setSeriesScope('one');
+      setMoveTo({ date: apt.date, time: apt.time.slice(0, 5) });
+  };
+
+  const handleMove = async () => {
+      if (!selectedApt || !moveTo.date || !moveTo.time) return;
+      const ok = seriesScope === 'future' && selectedApt.seriesId
+        ? await updateAppointmentSeries(selectedApt.id, moveTo)
+        : await updateAppointment(selectedApt.id, moveTo);
+      if (ok) setSelectedApt(null);
+  };
+
+  const handleCancel = (apt: Appointment) => {
+      if (seriesScope === 'future' && apt.seriesId) {
+          if (!window.confirm('ยกเลิกนัดนี้และนัดถัดไปทั้งหมดในชุด?')) return;
+          cancelAppointmentSeries(apt.id);
+          setSelectedApt(null);
+      } else {
+          changeStatus(apt, Status.CANCELLED);
+      }
+  };
+
   const handleDelete = (id: string) => {
       if (window.confirm('ต้องการลบนัดหมายนี้ออกจากระบบ?')) {
           deleteAppointment(id);
+          setSelectedApt(null);
       }
   }
 
+  const changeStatus = (apt: Appointment, status: Status) => {
+      updateAppointmentStatus(apt.id, status);
+      setSelectedApt(null);
+  };
+
+  // A bundle starts on the line for the booked service; with no match staff choose one
+  const chooseCompletionCourse = (apt: Appointment, courseId: string) => {
+      const course = activeCoursesOf(apt.customerId).find(c => c.id === courseId);
+      setCompleteCourseId(courseId);
+      setCompleteEntitlementId(course ? pickEntitlement(course, apt.serviceId)?.entitlementId || '' : '');
+  };
+
+  const openCompletion = (apt: Appointment) => {
+      const courses = activeCoursesOf(apt.customerId);
+      chooseCompletionCourse(apt, courses.some(c => c.id === apt.customerCourseId) ? apt.customerCourseId! : courses[0]?.id || '');
+      setCompletingApt(apt);
+      setSelectedApt(null);
+  };
+
+  const completingCourse = completingApt ? activeCoursesOf(completingApt.customerId).find(c => c.id === completeCourseId) : undefined;
+
+  const completingEntitlement = completingCourse?.entitlements?.find(e => e.entitlementId === completeEntitlementId);
+
+  const handleCompleteWithCourse = () => {
+      if (!completingApt || !completeCourseId) return;
+      const apt = completingApt;
+      const entitlementId = completeEntitlementId || undefined;
+      withSafetyCheck(apt.customerId, apt.serviceId, completeCourseId, 'course_use', async safetyNote => {
+          await completeAppointment(apt.id, completeCourseId, entitlementId, safetyNote);
+          setCompletingApt(null);
+      }, entitlementId);
+  };
+
+  // Billing happens in POS; the appointment is completed once the sale goes through
+  const handleCompleteWithSale = () => {
+      if (!completingApt) return;
+      navigate('/pos', { state: { appointmentId: completingApt.id, customerId: completingApt.customerId, serviceId: completingApt.serviceId, staffId: completingApt.staffId } });
+  };
+
+  const listAppointments = appointments.filter(a => (!listFrom || a.date >= listFrom) && (!listTo || a.date <= listTo));
+
+  const viewButton = (mode: ViewMode, label: string, icon: React.ReactNode) => (
+      <button
+          onClick={() => setView(mode)}
+          className={`px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition ${view === mode ? 'bg-white text-rose-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`}
+      >
+          {icon} {label}
+      </button>
+  );
+
   return (
     <div className="p-4 md:p-8 w-full">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
         <h2 className="text-2xl font-bold text-gray-800">ตารางนัดหมาย (Appointments)</h2>
         <button
-          onClick={() => setIsModalOpen(true)}
+          onClick={() => openBooking()}
           className="flex items-center gap-2 bg-rose-500 text-white px-4 py-2 rounded-lg hover:bg-rose-600 transition shadow-md shadow-rose-200 w-full md:w-auto justify-center"
         >
           <Plus size={20} />
@@ -44,6 +290,76 @@ const AppointmentPage: React.FC = () => {
         </button>
       </div>
 
+      {/* Toolbar */}
+      <div className="flex flex-col lg:flex-row gap-3 justify-between lg:items-center mb-4">
+        <div className="flex bg-gray-100 p-1 rounded-xl w-fit">
+            {viewButton('day', 'วัน', <CalendarDays size={16} />)}
+            {viewButton('week', 'สัปดาห์', <CalendarRange size={16} />)}
+            {viewButton('list', 'รายการ', <List size={16} />)}
+        </div>
+
+        {view !== 'list' ? (
+            <div className="flex flex-wrap items-center gap-2">
+                <button onClick={() => shiftDate(-1)} className="p-2 bg-white border border-gray-200 rounded-lg hover:bg-gray-50"><ChevronLeft size={18} /></button>
+                <button onClick={() => setCurrentDate(today)} className="px-3 py-2 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 text-sm">วันนี้</button>
+                <button onClick={() => shiftDate(1)} className="p-2 bg-white border border-gray-200 rounded-lg hover:bg-gray-50"><ChevronRight size={18} /></button>
+                <input
+                    type="date"
+                    className="border border-gray-200 rounded-lg p-2 bg-white text-gray-900 text-sm"
+                    value={currentDate}
+                    onChange={e => e.target.value && setCurrentDate(e.target.value)}
+                />
+                {view === 'day' ? (
+                    <div className="flex bg-gray-100 p-1 rounded-lg">
+                        <button onClick={() => setGroupBy('doctor')} className={`px-3 py-1 rounded-md text-sm flex items-center gap-1 ${groupBy === 'doctor' ? 'bg-white shadow-sm text-rose-600' : 'text-gray-500'}`}>
+                            <Stethoscope size={14} /> แพทย์
+                        </button>
+                        <button onClick={() => setGroupBy('room')} className={`px-3 py-1 rounded-md text-sm flex items-center gap-1 ${groupBy === 'room' ? 'bg-white shadow-sm text-rose-600' : 'text-gray-500'}`}>
+                            <DoorOpen size={14} /> ห้อง
+                        </button>
+                    </div>
+                ) : (
+                    <select
+                        className="border border-gray-200 rounded-lg p-2 bg-white text-gray-700 text-sm"
+                        value={weekFilter}
+                        onChange={e => setWeekFilter(e.target.value)}
+                    >
+                        <option value="">ทุกแพทย์ / ทุกห้อง</option>
+                        <optgroup label="แพทย์">
+                            {getActiveDoctors(staff).map(d => <option key={d.id} value={`staff:${d.id}`}>{d.name}</option>)}
+                        </optgroup>
+                        {rooms.length > 0 && (
+                            <optgroup label="ห้อง">
+                                {rooms.map(r => <option key={r} value={`room:${r}`}>{r}</option>)}
+                            </optgroup>
+                        )}
+                    </select>
+                )}
+            </div>
+        ) : (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                <span>ตั้งแต่</span>
+                <input type="date" className="border border-gray-200 rounded-lg p-2 bg-white text-gray-900" value={listFrom} onChange={e => setListFrom(e.target.value)} />
+                <span>ถึง</span>
+                <input type="date" className="border border-gray-200 rounded-lg p-2 bg-white text-gray-900" value={listTo} onChange={e => setListTo(e.target.value)} />
+            </div>
+        )}
+      </div>
+
+      {view !== 'list' && (
+        <>
+          <AppointmentCalendar
+              columns={view === 'day' ? dayColumns() : weekColumns()}
+              appointments={visibleAppointments}
+              onSlotClick={handleSlotClick}
+              onReschedule={handleReschedule}
+              onSelect={openDetail}
+          />
+          <p className="text-xs text-gray-400 mt-2">คลิกช่องว่างเพื่อสร้างนัด · ลากนัดหมายเพื่อเปลี่ยนเวลา{view === 'day' ? (groupBy === 'doctor' ? '/แพทย์' : '/ห้อง') : ''}</p>
+        </>
+      )}
+
+      {view === 'list' && (
       <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full text-left border-collapse whitespace-nowrap">
@@ -53,12 +369,13 @@ const AppointmentPage: React.FC = () => {
                 <th className="p-4 font-medium text-gray-500">ลูกค้า</th>
                 <th className="p-4 font-medium text-gray-500">บริการ</th>
                 <th className="p-4 font-medium text-gray-500">แพทย์ผู้ดูแล</th>
+                <th className="p-4 font-medium text-gray-500">ห้อง</th>
                 <th className="p-4 font-medium text-gray-500">สถานะ</th>
                 <th className="p-4 font-medium text-gray-500">จัดการ</th>
               </tr>
             </thead>
             <tbody>
-              {appointments.map((apt) => {
+              {listAppointments.map((apt) => {
                 const customer = customers.find(c => c.id === apt.customerId);
                 const service = services.find(s => s.id === apt.serviceId);
 
@@ -72,33 +389,21 @@ const AppointmentPage: React.FC = () => {
                     </td>
                     <td className="p-4 font-medium text-gray-900">{customer?.name}</td>
                     <td className="p-4 text-gray-600">{service?.name}</td>
-                    <td className="p-4 text-gray-600">{apt.doctorName}</td>
+                    <td className="p-4 text-gray-600">{getStaffName(staff, apt.staffId, apt.doctorName)}</td>
+                    <td className="p-4 text-gray-600">{apt.room || '-'}</td>
                     <td className="p-4">
-                      <span className={`px-3 py-1 rounded-full text-xs font-medium border ${
-                        apt.status === Status.CONFIRMED ? 'bg-green-50 text-green-700 border-green-200' :
-                        apt.status === Status.PENDING ? 'bg-amber-50 text-amber-700 border-amber-200' :
-                        'bg-gray-50 text-gray-600 border-gray-200'
-                      }`}>
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium border ${STATUS_BADGES[apt.status] || 'bg-gray-50 text-gray-600 border-gray-200'}`}>
                         {apt.status}
                       </span>
                     </td>
                     <td className="p-4">
                       <div className="flex gap-2">
-                          {apt.status === Status.PENDING && (
-                             <button
-                               onClick={() => updateAppointmentStatus(apt.id, Status.CONFIRMED)}
-                               className="p-1 hover:bg-green-100 text-green-600 rounded"
-                               title="Confirm"
-                             >
-                               <CheckCircle size={20} />
-                             </button>
-                          )}
                           <button
-                              onClick={() => updateAppointmentStatus(apt.id, Status.CANCELLED)}
-                              className="p-1 hover:bg-amber-100 text-amber-600 rounded"
-                              title="Cancel Status"
+                              onClick={() => openDetail(apt)}
+                              className="px-2 py-1 hover:bg-rose-50 text-rose-600 rounded text-sm border border-rose-100"
+                              title="Manage"
                           >
-                              <XCircle size={20} />
+                              จัดการ
                           </button>
                            <button
                               onClick={() => handleDelete(apt.id)}
@@ -112,20 +417,226 @@ const AppointmentPage: React.FC = () => {
                   </tr>
                 );
               })}
-              {appointments.length === 0 && (
+              {listAppointments.length === 0 && (
                   <tr>
-                      <td colSpan={6} className="p-8 text-center text-gray-400">ยังไม่มีการนัดหมาย</td>
+                      <td colSpan={7} className="p-8 text-center text-gray-400">ไม่มีการนัดหมายในช่วงวันที่นี้</td>
                   </tr>
               )}
             </tbody>
           </table>
         </div>
       </div>
+      )}
+
+      {/* Appointment Detail Modal (calendar) */}
+      {selectedApt && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white p-6 rounded-2xl w-full max-w-sm shadow-2xl">
+            <h3 className="text-lg font-bold text-gray-800 mb-1">{customers.find(c => c.id === selectedApt.customerId)?.name}</h3>
+            <p className="text-sm text-gray-500 mb-4">{services.find(s => s.id === selectedApt.serviceId)?.name}</p>
+            <div className="space-y-2 text-sm text-gray-700 mb-4">
+                <p className="flex items-center gap-2"><CalendarIcon size={16} className="text-gray-400" /> {selectedApt.date} {selectedApt.time}</p>
+                <p className="flex items-center gap-2"><Stethoscope size={16} className="text-gray-400" /> {getStaffName(staff, selectedApt.staffId, selectedApt.doctorName) || 'ไม่ระบุแพทย์'}</p>
+                <p className="flex items-center gap-2"><DoorOpen size={16} className="text-gray-400" /> {selectedApt.room || 'ไม่ระบุห้อง'}</p>
+                {countNoShows(appointments, selectedApt.customerId) > 0 && (
+                    <p className="flex items-center gap-2 text-red-600"><UserX size={16} /> ไม่มาตามนัด {countNoShows(appointments, selectedApt.customerId)} ครั้ง</p>
+                )}
+                {selectedApt.seriesId && (
+                    <p className="flex items-center gap-2"><Repeat size={16} className="text-gray-400" /> นัดต่อเนื่อง ครั้งที่ {selectedApt.seriesIndex}/{getSeriesAppointments(appointments, selectedApt.seriesId).length}</p>
+                )}
+                {selectedApt.customerCourseId && (
+                    <p className="flex items-center gap-2"><Ticket size={16} className="text-gray-400" /> {getUsableCourses(customers, selectedApt.customerId).find(c => c.id === selectedApt.customerCourseId)?.courseName || 'คอร์ส'}</p>
+                )}
+                <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium border ${STATUS_BADGES[selectedApt.status] || 'bg-gray-50 text-gray-600 border-gray-200'}`}>{selectedApt.status}</span>
+            </div>
+
+            {BOOKED_STATUSES.includes(selectedApt.status) && (
+                <div className="mb-4 p-3 bg-gray-50 rounded-xl space-y-2">
+                    {selectedApt.seriesId && (
+                        <div className="flex bg-white p-1 rounded-lg border border-gray-200 text-xs">
+                            <button onClick={() => setSeriesScope('one')} className={`flex-1 py-1 rounded-md ${seriesScope === 'one' ? 'bg-rose-500 text-white' : 'text-gray-500'}`}>เฉพาะนัดนี้</button>
+                            <button onClick={() => setSeriesScope('future')} className={`flex-1 py-1 rounded-md ${seriesScope === 'future' ? 'bg-rose-500 text-white' : 'text-gray-500'}`}>นัดนี้และนัดถัดไป</button>
+                        </div>
+                    )}
+                    <div className="flex gap-2">
+                        <input type="date" className="flex-1 min-w-0 border border-gray-300 rounded-lg p-1.5 text-sm text-gray-900" value={moveTo.date} onChange={e => setMoveTo({ ...moveTo, date: e.target.value })} />
+                        <input type="time" className="w-24 border border-gray-300 rounded-lg p-1.5 text-sm text-gray-900" value={moveTo.time} onChange={e => setMoveTo({ ...moveTo, time: e.target.value })} />
+                        <button onClick={handleMove} className="px-3 bg-gray-900 text-white rounded-lg text-sm hover:bg-gray-800">ย้าย</button>
+                    </div>
+                </div>
+            )}
+
+            {(selectedApt.status === Status.ARRIVED || selectedApt.status === Status.IN_TREATMENT) && customers.some(c => c.id === selectedApt.customerId) && (
+                <div className="mb-4">
+                    <ConsentRequirement
+                        customer={customers.find(c => c.id === selectedApt.customerId)!}
+                        serviceIds={[selectedApt.serviceId]}
+                        procedure={services.find(s => s.id === selectedApt.serviceId)?.name || ''}
+                        appointmentId={selectedApt.id}
+                    />
+                </div>
+            )}
+
+            {selectedApt.statusHistory.length > 0 && (
+                <div className="mb-6 border-l-2 border-gray-100 pl-3 space-y-1 max-h-32 overflow-y-auto">
+                    {selectedApt.statusHistory.map((h, i) => (
+                        <div key={i} className="text-xs">
+                            <span className="font-medium text-gray-700">{h.status}</span>
+                            <span className="text-gray-400"> · {new Date(h.at).toLocaleString('th-TH', { dateStyle: 'short', timeStyle: 'short' })}{h.by ? ` · ${h.by}` : ''}</span>
+                            {h.note && <p className="text-gray-500">{h.note}</p>}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+                {(selectedApt.status === Status.PENDING || selectedApt.status === Status.RESCHEDULED) && (
+                    <button
+                        onClick={() => changeStatus(selectedApt, Status.CONFIRMED)}
+                        className="py-2 bg-green-50 text-green-700 rounded-lg hover:bg-green-100 flex items-center justify-center gap-1 text-sm"
+                    >
+                        <CheckCircle size={16} /> ยืนยันนัด
+                    </button>
+                )}
+                {BOOKED_STATUSES.includes(selectedApt.status) && (
+                    <button
+                        onClick={() => changeStatus(selectedApt, Status.ARRIVED)}
+                        className="py-2 bg-sky-50 text-sky-700 rounded-lg hover:bg-sky-100 flex items-center justify-center gap-1 text-sm"
+                    >
+                        <LogIn size={16} /> เช็คอิน
+                    </button>
+                )}
+                {selectedApt.status === Status.ARRIVED && (
+                    <button
+                        onClick={() => changeStatus(selectedApt, Status.IN_TREATMENT)}
+                        className="py-2 bg-violet-50 text-violet-700 rounded-lg hover:bg-violet-100 flex items-center justify-center gap-1 text-sm"
+                    >
+                        <Activity size={16} /> เริ่มรักษา
+                    </button>
+                )}
+                {(selectedApt.status === Status.ARRIVED || selectedApt.status === Status.IN_TREATMENT) && (
+                    <button
+                        onClick={() => openCompletion(selectedApt)}
+                        className="py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 flex items-center justify-center gap-1 text-sm"
+                    >
+                        <CheckCircle size={16} /> เสร็จสิ้น
+                    </button>
+                )}
+                {BOOKED_STATUSES.includes(selectedApt.status) && (
+                    <button
+                        onClick={() => window.confirm('บันทึกว่าลูกค้าไม่มาตามนัด?') && changeStatus(selectedApt, Status.NO_SHOW)}
+                        className="py-2 bg-gray-50 text-gray-700 rounded-lg hover:bg-gray-100 flex items-center justify-center gap-1 text-sm"
+                    >
+                        <UserX size={16} /> ไม่มาตามนัด
+                    </button>
+                )}
+                {BOOKED_STATUSES.includes(selectedApt.status) && (
+                    <button
+                        onClick={() => handleCancel(selectedApt)}
+                        className="py-2 bg-amber-50 text-amber-700 rounded-lg hover:bg-amber-100 flex items-center justify-center gap-1 text-sm"
+                    >
+                        <XCircle size={16} /> ยกเลิกนัด
+                    </button>
+                )}
+                <button
+                    onClick={() => handleDelete(selectedApt.id)}
+                    className="py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 flex items-center justify-center gap-1 text-sm"
+                >
+                    <Trash2 size={16} /> ลบ
+                </button>
+                <button onClick={() => setSelectedApt(null)} className="py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 text-sm">ปิด</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Complete Appointment Modal */}
+      {completingApt && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white p-6 rounded-2xl w-full max-w-sm shadow-2xl">
+            <h3 className="text-lg font-bold text-gray-800 mb-1">ปิดนัดหมาย</h3>
+            <p className="text-sm text-gray-500 mb-4">
+                {customers.find(c => c.id === completingApt.customerId)?.name} · {services.find(s => s.id === completingApt.serviceId)?.name}
+            </p>
+
+            {customers.some(c => c.id === completingApt.customerId) && (
+                <div className="mb-4">
+                    <ConsentRequirement
+                        customer={customers.find(c => c.id === completingApt.customerId)!}
+                        serviceIds={[completingApt.serviceId, ...(completingEntitlement ? [completingEntitlement.serviceId] : [])]}
+                        courseId={completingCourse?.courseId}
+                        procedure={services.find(s => s.id === completingApt.serviceId)?.name || ''}
+                        appointmentId={completingApt.id}
+                    />
+                </div>
+            )}
+
+            {can('courses.use') && activeCoursesOf(completingApt.customerId).length > 0 && (
+                <div className="mb-4 p-3 bg-rose-50 rounded-xl border border-rose-100">
+                    <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1"><Ticket size={14} /> ตัดคอร์ส 1 ครั้ง</label>
+                    <select
+                        className="w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900 text-sm mb-2"
+                        value={completeCourseId}
+                        onChange={e => chooseCompletionCourse(completingApt, e.target.value)}
+                    >
+                        {activeCoursesOf(completingApt.customerId).map(c => (
+                            <option key={c.id} value={c.id}>
+                                {c.courseName} (เหลือ {c.remainingUnits}/{c.totalUnits})
+                            </option>
+                        ))}
+                    </select>
+                    {completingCourse && isBundle(completingCourse) && (
+                        <select
+                            className="w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900 text-sm mb-2"
+                            value={completeEntitlementId}
+                            onChange={e => setCompleteEntitlementId(e.target.value)}
+                        >
+                            <option value="">-- เลือกบริการในแพ็กเกจ --</option>
+                            {completingCourse.entitlements!.map(ent => (
+                                <option key={ent.entitlementId} value={ent.entitlementId} disabled={ent.remainingUnits <= 0}>
+                                    {ent.serviceName} (เหลือ {ent.remainingUnits}/{ent.totalUnits})
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                    <button
+                        onClick={handleCompleteWithCourse}
+                        disabled={!completeCourseId || (!!completingCourse && isBundle(completingCourse) && !completingEntitlement)}
+                        className="w-full py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 text-sm disabled:bg-gray-300"
+                    >
+                        ตัดคอร์สและปิดนัด
+                    </button>
+                </div>
+            )}
+
+            {can('pos.sell') && (
+                <button
+                    onClick={handleCompleteWithSale}
+                    className="w-full py-2 mb-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 flex items-center justify-center gap-2 text-sm"
+                >
+                    <Receipt size={16} /> ชำระเงินที่ POS
+                </button>
+            )}
+            <button onClick={() => setCompletingApt(null)} className="w-full py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 text-sm">ยกเลิก</button>
+          </div>
+        </div>
+      )}
 
       {/* Add Appointment Modal */}
+      {safetyCheck && (
+          <ContraindicationModal
+              customer={customers.find(c => c.id === safetyCheck.customerId)!}
+              context={safetyCheck.context}
+              itemName={safetyCheck.itemName}
+              hits={safetyCheck.hits}
+              onConfirm={note => { setSafetyCheck(null); safetyCheck.proceed(note); }}
+              onCancel={() => setSafetyCheck(null)}
+          />
+      )}
+
       {isModalOpen && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-md shadow-2xl">
+          <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-md shadow-2xl max-h-[90vh] overflow-y-auto">
             <h3 className="text-xl font-bold mb-6 text-gray-800">เพิ่มการนัดหมายใหม่</h3>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
@@ -133,25 +644,88 @@ const AppointmentPage: React.FC = () => {
                 <select
                   className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 focus:border-rose-500 text-gray-900"
                   value={newApt.customerId}
-                  onChange={e => setNewApt({...newApt, customerId: e.target.value})}
+                  onChange={e => setNewApt({...newApt, customerId: e.target.value, customerCourseId: ''})}
                   required
                 >
                   <option value="">เลือกลูกค้า</option>
                   {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
                 </select>
+                {newApt.customerId && countNoShows(appointments, newApt.customerId) > 0 && (
+                  <p className="text-xs text-red-600 mt-1 flex items-center gap-1"><UserX size={12} /> ลูกค้าไม่มาตามนัด {countNoShows(appointments, newApt.customerId)} ครั้ง</p>
+                )}
               </div>
+              {activeCoursesOf(newApt.customerId).length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">ใช้คอร์ส (ถ้ามี)</label>
+                  <select
+                    className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 focus:border-rose-500 text-gray-900"
+                    value={newApt.customerCourseId}
+                    onChange={e => selectCourse(e.target.value)}
+                  >
+                    <option value="">ไม่ใช้คอร์ส</option>
+                    {activeCoursesOf(newApt.customerId).map(c => <option key={c.id} value={c.id}>{c.courseName} (เหลือ {c.remainingUnits} ครั้ง)</option>)}
+                  </select>
+                  {newApt.customerCourseId && (
+                    <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+                      <input type="checkbox" checked={series.enabled} onChange={e => { setSeries({ ...series, enabled: e.target.checked }); setSeriesOverrides({}); }} className="accent-rose-500" />
+                      <Repeat size={14} /> จองเป็นชุดต่อเนื่อง
+                    </label>
+                  )}
+                  {series.enabled && newApt.customerCourseId && (
+                    <div className="grid grid-cols-2 gap-4 mt-2">
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">ทุกๆ (สัปดาห์)</label>
+                        <input type="number" min="1" className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={series.intervalWeeks} onChange={e => { setSeries({ ...series, intervalWeeks: Math.max(1, Number(e.target.value)) }); setSeriesOverrides({}); }} />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">จำนวนครั้ง</label>
+                        <input type="number" min="1" max="52" className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={series.count} onChange={e => setSeries({ ...series, count: Math.min(52, Math.max(1, Number(e.target.value))) })} />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">บริการ</label>
                 <select
                   className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 focus:border-rose-500 text-gray-900"
                   value={newApt.serviceId}
-                  onChange={e => setNewApt({...newApt, serviceId: e.target.value})}
+                  onChange={e => {
+                    const qualified = getActiveDoctors(staff, e.target.value).some(d => d.id === newApt.staffId);
+                    setNewApt({...newApt, serviceId: e.target.value, staffId: qualified ? newApt.staffId : ''});
+                  }}
                   required
                 >
                   <option value="">เลือกบริการ</option>
                   {services.map(s => <option key={s.id} value={s.id}>{s.name} ({s.price}฿)</option>)}
                 </select>
               </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">แพทย์ผู้ดูแล</label>
+                  <select
+                    className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 focus:border-rose-500 text-gray-900"
+                    value={newApt.staffId}
+                    onChange={e => setNewApt({...newApt, staffId: e.target.value})}
+                  >
+                    <option value="">ไม่ระบุแพทย์</option>
+                    {getActiveDoctors(staff, newApt.serviceId).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">ห้อง</label>
+                  <input
+                    list="appointment-rooms"
+                    placeholder="เช่น ห้อง 1"
+                    className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 focus:border-rose-500 text-gray-900"
+                    value={newApt.room}
+                    onChange={e => setNewApt({...newApt, room: e.target.value})}
+                  />
+                  <datalist id="appointment-rooms">
+                    {rooms.map(r => <option key={r} value={r} />)}
+                  </datalist>
+                </div>
+              </div>
               <div className="grid grid-cols-2 gap-4">
                 <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">วันที่</label>
@@ -159,7 +733,7 @@ const AppointmentPage: React.FC = () => {
                         type="date"
                         className="w-full border border-gray-300 rounded-lg p-2 text-gray-900"
                         value={newApt.date}
-                        onChange={e => setNewApt({...newApt, date: e.target.value})}
+                        onChange={e => { setNewApt({...newApt, date: e.target.value}); setSeriesOverrides({}); }}
                         required
                     />
                 </div>
@@ -169,12 +743,60 @@ const AppointmentPage: React.FC = () => {
                         type="time"
                         className="w-full border border-gray-300 rounded-lg p-2 text-gray-900"
                         value={newApt.time}
-                        onChange={e => setNewApt({...newApt, time: e.target.value})}
+                        onChange={e => { setNewApt({...newApt, time: e.target.value}); setSeriesOverrides({}); }}
                         required
                     />
                 </div>
               </div>
 
+              {bookingConflicts.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm">
+                  <p className="font-bold text-red-700 flex items-center gap-2 mb-1"><AlertTriangle size={16} /> ช่วงเวลานี้จองไม่ได้</p>
+                  <ul className="list-disc list-inside text-red-600 text-xs space-y-0.5">
+                    {bookingConflicts.map((c, i) => <li key={i}>{c}</li>)}
+                  </ul>
+                  {suggestedSlots.length > 0 && (
+                    <div className="mt-3">
+                      <p className="text-xs text-gray-600 mb-1">เวลาว่างถัดไป:</p>
+                      <div className="flex flex-wrap gap-1">
+                        {suggestedSlots.map(slot => (
+                          <button
+                            key={slot.date + slot.time}
+                            type="button"
+                            onClick={() => setNewApt({...newApt, date: slot.date, time: slot.time})}
+                            className="text-xs bg-white border border-gray-200 px-2 py-1 rounded hover:border-rose-400 hover:text-rose-600"
+                          >
+                            {slot.date === newApt.date ? '' : new Date(slot.date + 'T00:00:00').toLocaleDateString('th-TH', { day: 'numeric', month: 'short' }) + ' '}{slot.time}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {seriesOccurrences.length > 1 && (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-56 overflow-y-auto text-sm">
+                  {seriesOccurrences.map((o, i) => (
+                    <div key={i} className={`px-3 py-2 ${seriesConflicts[i]?.length ? 'bg-red-50' : ''}`}>
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-gray-700">ครั้งที่ {i + 1} · {new Date(o.date + 'T00:00:00').toLocaleDateString('th-TH', { weekday: 'short', day: 'numeric', month: 'short' })} {o.time}</span>
+                        {i > 0 && seriesConflicts[i]?.length > 0 && nextFreeSlot(o) && (
+                          <button
+                            type="button"
+                            onClick={() => setSeriesOverrides({ ...seriesOverrides, [i]: nextFreeSlot(o) })}
+                            className="text-xs bg-white border border-gray-200 px-2 py-0.5 rounded hover:border-rose-400 hover:text-rose-600 whitespace-nowrap"
+                          >
+                            ย้ายไปเวลาว่าง
+                          </button>
+                        )}
+                      </div>
+                      {seriesConflicts[i]?.length > 0 && <p className="text-xs text-red-600">{seriesConflicts[i].join(', ')}</p>}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               <div className="flex gap-3 mt-6">
                 <button
                   type="button"
@@ -185,7 +807,8 @@ const AppointmentPage: React.FC = () => {
                 </button>
                 <button
                   type="submit"
-                  className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 shadow-md shadow-rose-200"
+                  disabled={bookingConflicts.length > 0 || hasSeriesConflicts}
+                  className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 shadow-md shadow-rose-200 disabled:bg-gray-300 disabled:shadow-none"
                 >
                   บันทึก
                 </button>
@@ -198,4 +821,4 @@ const AppointmentPage: React.FC = () => {
   );
 };
 
-export default AppointmentPage;
\ No newline at end of file
+export default AppointmentPage;
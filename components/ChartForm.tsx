@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { ClipboardList, Trash2 } from 'lucide-react';
+import { useClinic } from '../context/ClinicContext';
+import { ChartTemplate, ClinicalChart, InjectionPoint, LaserSettings, VitalSigns } from '../types';
+import { CHART_TEMPLATE_LABELS, emptyChart, FACE_ZONES, zoneLabel } from '../lib/charting';
+import FaceMap from './FaceMap';
+
+interface ChartFormProps {
+  value: ClinicalChart;
+  onChange: (chart: ClinicalChart) => void;
+}
+
+const SOAP_FIELDS: { key: 'subjective' | 'objective' | 'assessment' | 'plan'; label: string }[] = [
+  { key: 'subjective', label: 'S - อาการที่ลูกค้าแจ้ง (Subjective)' },
+  { key: 'objective', label: 'O - ผลการตรวจ (Objective)' },
+  { key: 'assessment', label: 'A - การประเมิน (Assessment)' },
+  { key: 'plan', label: 'P - แผนการรักษา (Plan)' }
+];
+
+const LASER_FIELDS: { key: keyof LaserSettings; label: string; numeric: boolean }[] = [
+  { key: 'device', label: 'เครื่อง', numeric: false },
+  { key: 'energy', label: 'พลังงาน (J/cm²)', numeric: true },
+  { key: 'shots', label: 'จำนวนช็อต', numeric: true },
+  { key: 'spotSize', label: 'Spot size (mm)', numeric: true },
+  { key: 'passes', label: 'จำนวนรอบ (Pass)', numeric: true }
+];
+
+const VITAL_FIELDS: { key: keyof VitalSigns; label: string }[] = [
+  { key: 'bpSystolic', label: 'ความดันตัวบน' },
+  { key: 'bpDiastolic', label: 'ความดันตัวล่าง' },
+  { key: 'pulse', label: 'ชีพจร (ครั้ง/นาที)' },
+  { key: 'temperature', label: 'อุณหภูมิ (°C)' },
+  { key: 'spo2', label: 'SpO₂ (%)' }
+];
+
+const numberOrUndefined = (raw: string) => raw === '' ? undefined : Number(raw);
+
+// Structured chart entry; the sections shown follow the chosen template
+const ChartForm: React.FC<ChartFormProps> = ({ value, onChange }) => {
+  const { inventory } = useClinic();
+  const [selectedZone, setSelectedZone] = useState<string>();
+  const injections = value.injections || [];
+
+  // Switching template keeps whatever was already entered
+  const changeTemplate = (template: ChartTemplate) => onChange({ ...emptyChart(template), ...value, template });
+
+  const setInjections = (points: InjectionPoint[]) => onChange({ ...value, injections: points });
+  const updatePoint = (index: number, patch: Partial<InjectionPoint>) =>
+      setInjections(injections.map((p, i) => i === index ? { ...p, ...patch } : p));
+
+  // Clicking the diagram adds a row for that zone, carrying over the last product used
+  const addPointAt = (zone: string) => {
+      setSelectedZone(zone);
+      const last = injections[injections.length - 1];
+      setInjections([...injections, { zone, inventoryItemId: last?.inventoryItemId, lotNumber: last?.lotNumber, units: 0 }]);
+  };
+
+  const inputClass = 'w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900 text-sm focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 text-sm space-y-4">
+        <div className="flex items-center justify-between gap-2">
+            <h4 className="font-semibold text-gray-700 flex items-center gap-2"><ClipboardList size={14} /> บันทึกการรักษา (Chart)</h4>
+            <select className="border border-gray-300 rounded-lg p-1.5 bg-white text-gray-900 text-xs" value={value.template} onChange={e => changeTemplate(e.target.value as ChartTemplate)}>
+                {(Object.keys(CHART_TEMPLATE_LABELS) as ChartTemplate[]).map(t => <option key={t} value={t}>{CHART_TEMPLATE_LABELS[t]}</option>)}
+            </select>
+        </div>
+
+        {SOAP_FIELDS.map(field => (
+            <div key={field.key}>
+                <label className="block text-xs font-medium text-gray-600 mb-1">{field.label}</label>
+                <textarea
+                    className={`${inputClass} h-16`}
+                    value={value[field.key] || ''}
+                    onChange={e => onChange({ ...value, [field.key]: e.target.value })}
+                />
+            </div>
+        ))}
+
+        {value.template === 'injection' && (
+            <div className="space-y-3">
+                <p className="text-xs font-medium text-gray-600">ตำแหน่งที่ฉีด (คลิกบนภาพเพื่อเพิ่ม)</p>
+                <FaceMap points={injections} selectedZone={selectedZone} onSelectZone={addPointAt} />
+                {injections.map((point, i) => {
+                    const item = inventory.find(inv => inv.id === point.inventoryItemId);
+                    return (
+                        <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                            <select className={`${inputClass} col-span-3`} value={point.zone} onChange={e => updatePoint(i, { zone: e.target.value })}>
+                                {FACE_ZONES.map(z => <option key={z.id} value={z.id}>{z.label}</option>)}
+                            </select>
+                            <select
+                                className={`${inputClass} col-span-4`}
+                                value={point.inventoryItemId || ''}
+                                onChange={e => updatePoint(i, { inventoryItemId: e.target.value || undefined, lotNumber: undefined })}
+                            >
+                                <option value="">-- ผลิตภัณฑ์ --</option>
+                                {inventory.map(inv => <option key={inv.id} value={inv.id}>{inv.name}</option>)}
+                            </select>
+                            <select className={`${inputClass} col-span-2`} value={point.lotNumber || ''} onChange={e => updatePoint(i, { lotNumber: e.target.value || undefined })}>
+                                <option value="">Lot อัตโนมัติ</option>
+                                {(item?.lots || []).filter(l => l.quantity > 0 || l.lotNumber === point.lotNumber).map(l => <option key={l.id} value={l.lotNumber}>{l.lotNumber}</option>)}
+                            </select>
+                            <input
+                                type="number" min="0" step="0.1"
+                                className={`${inputClass} col-span-2`}
+                                placeholder={item?.unit || 'Units'}
+                                value={point.units || ''}
+                                onChange={e => updatePoint(i, { units: Number(e.target.value) })}
+                            />
+                            <button type="button" onClick={() => setInjections(injections.filter((_, j) => j !== i))} className="col-span-1 text-red-500 hover:text-red-700 flex justify-center">
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    );
+                })}
+                {injections.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                        รวม: {injections.reduce((sum, p) => sum + (p.units || 0), 0)} · {Array.from(new Set(injections.map(p => zoneLabel(p.zone)))).join(', ')}
+                    </p>
+                )}
+            </div>
+        )}
+
+        {value.template === 'laser' && (
+            <div className="grid grid-cols-2 gap-2">
+                {LASER_FIELDS.map(field => (
+                    <div key={field.key} className={field.key === 'device' ? 'col-span-2' : undefined}>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">{field.label}</label>
+                        <input
+                            type={field.numeric ? 'number' : 'text'}
+                            step="any"
+                            className={inputClass}
+                            value={value.laser?.[field.key] ?? ''}
+                            onChange={e => onChange({ ...value, laser: { ...value.laser, [field.key]: field.numeric ? numberOrUndefined(e.target.value) : e.target.value } })}
+                        />
+                    </div>
+                ))}
+            </div>
+        )}
+
+        {value.template === 'iv' && (
+            <div className="grid grid-cols-2 gap-2">
+                {VITAL_FIELDS.map(field => (
+                    <div key={field.key}>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">{field.label}</label>
+                        <input
+                            type="number"
+                            step="any"
+                            className={inputClass}
+                            value={value.vitals?.[field.key] ?? ''}
+                            onChange={e => onChange({ ...value, vitals: { ...value.vitals, [field.key]: numberOrUndefined(e.target.value) } })}
+                        />
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default ChartForm;
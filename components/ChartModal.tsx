@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Edit, X } from 'lucide-react';
+import { useClinic } from '../context/ClinicContext';
+import { usePermission } from '../context/AuthContext';
+import { ClinicalChart, TreatmentRecord } from '../types';
+import { CHART_TEMPLATE_LABELS, emptyChart, zoneLabel } from '../lib/charting';
+import ChartForm from './ChartForm';
+import FaceMap from './FaceMap';
+
+interface ChartModalProps {
+  record: TreatmentRecord;
+  onClose: () => void;
+}
+
+// Read-only chart for a past treatment, editable by clinical staff
+const ChartModal: React.FC<ChartModalProps> = ({ record, onClose }) => {
+  const { inventory, updateTreatmentChart } = useClinic();
+  const { can } = usePermission();
+  const [draft, setDraft] = useState<ClinicalChart | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const chart = record.chart;
+  const itemName = (id?: string) => inventory.find(i => i.id === id)?.name || '-';
+
+  const handleSave = async () => {
+      if (!draft) return;
+      setIsSaving(true);
+      const ok = await updateTreatmentChart(record.id, draft);
+      setIsSaving(false);
+      if (ok) setDraft(null);
+  };
+
+  const renderRow = (label: string, text?: string | number) =>
+      text !== undefined && text !== '' ? (
+          <div>
+              <p className="text-xs text-gray-500">{label}</p>
+              <p className="text-gray-800 whitespace-pre-wrap">{text}</p>
+          </div>
+      ) : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-2xl w-full max-w-lg shadow-2xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-start border-b pb-4 mb-4">
+                <div>
+                    <h3 className="text-xl font-bold text-gray-800">{record.treatmentName}</h3>
+                    <p className="text-gray-500 text-sm">{record.date.split('T')[0]} · {record.doctorName}{chart ? ` · ${CHART_TEMPLATE_LABELS[chart.template]}` : ''}</p>
+                </div>
+                <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+            </div>
+
+            {draft ? (
+                <div className="space-y-4">
+                    <ChartForm value={draft} onChange={setDraft} />
+                    <div className="flex gap-3">
+                        <button type="button" onClick={() => setDraft(null)} className="flex-1 py-2 border border-gray-300 rounded-lg hover:bg-gray-50">ยกเลิก</button>
+                        <button type="button" onClick={handleSave} disabled={isSaving} className="flex-1 py-2 bg-rose-500 text-white rounded-lg shadow-md hover:bg-rose-600 disabled:bg-gray-300">
+                            {isSaving ? 'กำลังบันทึก...' : 'บันทึก'}
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className="space-y-4 text-sm">
+                    {!chart && <p className="text-center text-gray-400 py-6">ยังไม่มีบันทึกการรักษา</p>}
+                    {chart && (
+                        <>
+                            {renderRow('S - Subjective', chart.subjective)}
+                            {renderRow('O - Objective', chart.objective)}
+                            {renderRow('A - Assessment', chart.assessment)}
+                            {renderRow('P - Plan', chart.plan)}
+                            {!!chart.injections?.length && (
+                                <div className="space-y-2">
+                                    <FaceMap points={chart.injections} />
+                                    <table className="w-full text-left text-xs">
+                                        <thead className="text-gray-500 border-b">
+                                            <tr><th className="py-1">ตำแหน่ง</th><th>ผลิตภัณฑ์</th><th>Lot</th><th className="text-right">จำนวน</th></tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-100">
+                                            {chart.injections.map((p, i) => (
+                                                <tr key={i}>
+                                                    <td className="py-1">{zoneLabel(p.zone)}</td>
+                                                    <td>{itemName(p.inventoryItemId)}</td>
+                                                    <td>{p.lotNumber || '-'}</td>
+                                                    <td className="text-right">{p.units}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                            {chart.laser && (
+                                <div className="grid grid-cols-2 gap-2">
+                                    {renderRow('เครื่อง', chart.laser.device)}
+                                    {renderRow('พลังงาน (J/cm²)', chart.laser.energy)}
+                                    {renderRow('จำนวนช็อต', chart.laser.shots)}
+                                    {renderRow('Spot size (mm)', chart.laser.spotSize)}
+                                    {renderRow('จำนวนรอบ (Pass)', chart.laser.passes)}
+                                </div>
+                            )}
+                            {chart.vitals && (
+                                <div className="grid grid-cols-2 gap-2">
+                                    {renderRow('ความดัน', chart.vitals.bpSystolic !== undefined || chart.vitals.bpDiastolic !== undefined
+                                        ? `${chart.vitals.bpSystolic ?? '-'}/${chart.vitals.bpDiastolic ?? '-'} mmHg` : undefined)}
+                                    {renderRow('ชีพจร (ครั้ง/นาที)', chart.vitals.pulse)}
+                                    {renderRow('อุณหภูมิ (°C)', chart.vitals.temperature)}
+                                    {renderRow('SpO₂ (%)', chart.vitals.spo2)}
+                                </div>
+                            )}
+                        </>
+                    )}
+                    {can('charts.manage') && (
+                        <button
+                            type="button"
+                            onClick={() => setDraft(chart || emptyChart('general'))}
+                            className="w-full py-2 border border-rose-200 text-rose-600 rounded-lg hover:bg-rose-50 flex items-center justify-center gap-1"
+                        >
+                            <Edit size={14} /> {chart ? 'แก้ไขบันทึก' : 'เพิ่มบันทึก'}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default ChartModal;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { useClinic } from '../context/ClinicContext';
+import { FileSearch, FileSpreadsheet } from 'lucide-react';
+import { TreatmentRecord } from '../types';
+import { ChartQuery, CHART_TEMPLATE_LABELS, FACE_ZONES, searchCharts, zoneLabel } from '../lib/charting';
+import ChartModal from './ChartModal';
+
+// Look up charted treatments, e.g. everyone injected in the glabella with a given lot
+const ChartSearchPage: React.FC = () => {
+  const { customers, inventory } = useClinic();
+  const [query, setQuery] = useState<ChartQuery>({});
+  const [viewing, setViewing] = useState<{ customerId: string; recordId: string } | null>(null);
+
+  const matches = searchCharts(customers, query);
+  const itemName = (id?: string) => inventory.find(i => i.id === id)?.name || '-';
+  const describePoints = (points: { zone: string; inventoryItemId?: string; lotNumber?: string; units: number }[]) =>
+      points.map(p => `${zoneLabel(p.zone)} ${p.units}${p.inventoryItemId ? ` ${itemName(p.inventoryItemId)}` : ''}${p.lotNumber ? ` (Lot ${p.lotNumber})` : ''}`).join(', ');
+
+  const viewingRecord: TreatmentRecord | undefined = viewing
+      ? customers.find(c => c.id === viewing.customerId)?.treatmentHistory.find(r => r.id === viewing.recordId)
+      : undefined;
+
+  const handleExport = () => {
+      const escape = (v: string | number) => `"${String(v).replace(/"/g, '""')}"`;
+      const rows = [
+          ['วันที่', 'ลูกค้า', 'เบอร์โทร', 'การรักษา', 'แพทย์', 'ตำแหน่ง/ผลิตภัณฑ์/Lot'],
+          ...matches.map(m => [m.record.date.slice(0, 10), m.customer.name, m.customer.phone, m.record.treatmentName, m.record.doctorName, describePoints(m.points)])
+      ];
+      // BOM so Excel opens the Thai text as UTF-8
+      const csv = '﻿' + rows.map(r => r.map(escape).join(',')).join('\n');
+      const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `chart_search_${new Date().toISOString().slice(0, 10)}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+  };
+
+  const filterClass = 'border border-gray-200 rounded-xl p-2 bg-white text-gray-900 outline-none focus:ring-2 focus:ring-rose-500 w-full';
+
+  return (
+    <div className="p-4 md:p-8 w-full">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <FileSearch className="text-rose-500" />
+            ค้นหาบันทึกการรักษา (Charts)
+        </h2>
+        <p className="text-gray-500 text-sm mt-1">ค้นหาตามตำแหน่งที่ฉีด ผลิตภัณฑ์ Lot หรือข้อความในบันทึก SOAP</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3 mb-4">
+          <select className={filterClass} value={query.zone || ''} onChange={e => setQuery({ ...query, zone: e.target.value || undefined })}>
+              <option value="">ทุกตำแหน่ง</option>
+              {FACE_ZONES.map(z => <option key={z.id} value={z.id}>{z.label}</option>)}
+          </select>
+          <select className={filterClass} value={query.inventoryItemId || ''} onChange={e => setQuery({ ...query, inventoryItemId: e.target.value || undefined })}>
+              <option value="">ทุกผลิตภัณฑ์</option>
+              {inventory.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+          </select>
+          <input className={filterClass} placeholder="Lot" value={query.lotNumber || ''} onChange={e => setQuery({ ...query, lotNumber: e.target.value })} />
+          <input className={filterClass} placeholder="ค้นหาข้อความ" value={query.text || ''} onChange={e => setQuery({ ...query, text: e.target.value })} />
+          <input type="date" className={filterClass} value={query.from || ''} onChange={e => setQuery({ ...query, from: e.target.value || undefined })} />
+          <input type="date" className={filterClass} value={query.to || ''} onChange={e => setQuery({ ...query, to: e.target.value || undefined })} />
+      </div>
+
+      <div className="flex justify-between items-center mb-4">
+          <p className="text-sm text-gray-500">พบ {matches.length} รายการ จากลูกค้า {new Set(matches.map(m => m.customer.id)).size} ราย</p>
+          <button
+              onClick={handleExport}
+              disabled={matches.length === 0}
+              className="bg-gray-900 text-white px-4 py-2 rounded-xl hover:bg-gray-800 transition shadow-md flex items-center gap-2 justify-center disabled:bg-gray-200 disabled:text-gray-400"
+          >
+              <FileSpreadsheet size={18} /> Export CSV
+          </button>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-x-auto">
+          <table className="w-full text-left">
+              <thead className="bg-gray-50 border-b border-gray-100">
+                  <tr>
+                      <th className="p-4 text-gray-500 font-medium">วันที่</th>
+                      <th className="p-4 text-gray-500 font-medium">ลูกค้า</th>
+                      <th className="p-4 text-gray-500 font-medium">การรักษา</th>
+                      <th className="p-4 text-gray-500 font-medium">แบบบันทึก</th>
+                      <th className="p-4 text-gray-500 font-medium">ตำแหน่ง / ผลิตภัณฑ์ / Lot</th>
+                  </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                  {matches.map(m => (
+                      <tr
+                          key={m.record.id}
+                          onClick={() => setViewing({ customerId: m.customer.id, recordId: m.record.id })}
+                          className="hover:bg-gray-50 cursor-pointer"
+                      >
+                          <td className="p-4 text-gray-600 text-sm whitespace-nowrap">{m.record.date.slice(0, 10)}</td>
+                          <td className="p-4 font-medium text-gray-800">
+                              {m.customer.name}
+                              <p className="text-xs text-gray-400">{m.customer.phone}</p>
+                          </td>
+                          <td className="p-4 text-gray-600 text-sm">{m.record.treatmentName}</td>
+                          <td className="p-4 text-gray-600 text-sm">{m.record.chart ? CHART_TEMPLATE_LABELS[m.record.chart.template] : '-'}</td>
+                          <td className="p-4 text-gray-600 text-sm">{describePoints(m.points) || '-'}</td>
+                      </tr>
+                  ))}
+                  {matches.length === 0 && (
+                      <tr><td colSpan={5} className="p-8 text-center text-gray-400">ไม่พบบันทึกที่ตรงกับเงื่อนไข</td></tr>
+                  )}
+              </tbody>
+          </table>
+      </div>
+
+      {viewingRecord && <ChartModal record={viewingRecord} onClose={() => setViewing(null)} />}
+    </div>
+  );
+};
+
+export default ChartSearchPage;
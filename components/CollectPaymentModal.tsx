@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Wallet } from 'lucide-react';
+import { useClinic } from '../context/ClinicContext';
+import { PaymentLine, Transaction } from '../types';
+import { getBalanceDue, getInstallmentStatus, getPaymentsFor } from '../lib/receivables';
+import { PAYMENT_METHOD_LABELS } from '../lib/receipts';
+import { toISODate } from '../lib/schedule';
+import PaymentLinesInput from './PaymentLinesInput';
+
+interface CollectPaymentModalProps {
+  transaction: Transaction;
+  onClose: () => void;
+}
+
+// Takes the next installment (or any part of the balance) against an earlier sale
+const CollectPaymentModal: React.FC<CollectPaymentModalProps> = ({ transaction, onClose }) => {
+  const { transactions, payments, customers, recordPayment } = useClinic();
+  const balance = getBalanceDue(transaction, transactions, payments);
+  const schedule = getInstallmentStatus(transaction, transactions, payments);
+  const history = getPaymentsFor(payments, transaction.id);
+  const today = toISODate(new Date());
+  const nextDue = schedule.find(i => i.outstanding > 0);
+
+  const [lines, setLines] = useState<PaymentLine[]>([{ method: 'Cash', amount: nextDue?.outstanding || balance }]);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const amount = lines.reduce((sum, l) => sum + l.amount, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsSaving(true);
+      const ok = await recordPayment(transaction.id, lines, note.trim() || undefined);
+      setIsSaving(false);
+      if (ok) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-lg shadow-2xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-2 text-gray-800 flex items-center gap-2"><Wallet className="text-rose-500" /> รับชำระยอดค้าง</h3>
+        <p className="text-sm text-gray-500 mb-6">
+            {customers.find(c => c.id === transaction.customerId)?.name || '-'} · {new Date(transaction.date).toLocaleDateString('th-TH')} · ยอดบิล ฿{transaction.totalAmount.toLocaleString()}
+        </p>
+
+        <div className="border border-gray-100 rounded-xl divide-y divide-gray-100 mb-4 text-sm">
+            {schedule.map((inst, i) => (
+                <div key={i} className="p-3 flex justify-between items-center">
+                    <span className="text-gray-700">งวดที่ {i + 1} · {new Date(inst.dueDate).toLocaleDateString('th-TH')}</span>
+                    <span className={inst.outstanding === 0 ? 'text-emerald-600' : inst.dueDate < today ? 'text-red-600 font-medium' : 'text-gray-900'}>
+                        {inst.outstanding === 0 ? 'ชำระแล้ว' : `ค้าง ฿${inst.outstanding.toLocaleString()}`}
+                    </span>
+                </div>
+            ))}
+        </div>
+        {history.length > 0 && (
+            <p className="text-xs text-gray-400 mb-4">
+                รับชำระแล้ว: {history.map(p => `${new Date(p.date).toLocaleDateString('th-TH')} ${PAYMENT_METHOD_LABELS[p.method]} ฿${p.amount.toLocaleString()}`).join(' · ')}
+            </p>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <PaymentLinesInput lines={lines} onChange={setLines} />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">หมายเหตุ</label>
+            <input
+              className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 text-gray-900"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-between items-center p-3 bg-rose-50 rounded-xl">
+              <span className="text-gray-700">ค้างชำระทั้งหมด ฿{balance.toLocaleString()}</span>
+              <span className={`text-xl font-bold ${amount > balance ? 'text-red-600' : 'text-rose-600'}`}>฿{amount.toLocaleString()}</span>
+          </div>
+          <div className="flex gap-3 mt-6">
+            <button type="button" onClick={onClose} className="flex-1 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">ยกเลิก</button>
+            <button
+              type="submit"
+              disabled={isSaving || amount <= 0 || amount > balance + 0.001}
+              className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 shadow-md shadow-rose-200 disabled:bg-gray-300"
+            >
+              {isSaving ? 'กำลังบันทึก...' : 'ยืนยันรับชำระ'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CollectPaymentModal;
@@ -0,0 +1,419 @@
+import React, { useState } from 'react';
+import { useClinic } from '../context/ClinicContext';
+import { Stethoscope, Plus, Edit, Trash2, Save, Download, FileSpreadsheet, ChevronDown, ChevronUp } from 'lucide-react';
+import { CommissionMethod, CommissionRule, CommissionTier, DoctorFee } from '../types';
+import { describeCommissionRule } from '../lib/commission';
+import { getStaffName } from '../lib/staff';
+
+type RuleForm = Omit<CommissionRule, 'id'>;
+
+interface DoctorPayout {
+  key: string;
+  doctorName: string;
+  units: number;
+  amount: number;
+  lines: DoctorFee[];
+}
+
+const emptyRule: RuleForm = {
+  staffId: null,
+  targetType: 'any',
+  targetId: null,
+  method: 'flat',
+  value: 0,
+  tiers: [],
+  tierValueType: 'flat',
+  active: true
+};
+
+const CommissionPage: React.FC = () => {
+  const { commissionRules, doctorFees, services, courseDefinitions, addCommissionRule, updateCommissionRule, deleteCommissionRule, staff } = useClinic();
+  const [activeTab, setActiveTab] = useState<'report' | 'rules'>('report');
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [expandedDoctor, setExpandedDoctor] = useState<string | null>(null);
+
+  // Rule Modal
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [ruleForm, setRuleForm] = useState<RuleForm>(emptyRule);
+
+  // --- Report ---
+  const monthFees = doctorFees.filter(f => f.date?.startsWith(month));
+  // Grouped by staff so a renamed doctor still shows as one payee under the current name
+  const byDoctor: Record<string, DoctorPayout> = {};
+  monthFees.forEach(f => {
+      const key = f.staffId || f.doctorName;
+      const row = byDoctor[key] || (byDoctor[key] = { key, doctorName: getStaffName(staff, f.staffId, f.doctorName), units: 0, amount: 0, lines: [] });
+      row.units += f.units;
+      row.amount += f.amount;
+      row.lines.push(f);
+  });
+  const payouts = Object.values(byDoctor).sort((a, b) => b.amount - a.amount);
+  const grandTotal = payouts.reduce((sum, p) => sum + p.amount, 0);
+
+  const handleExport = () => {
+      const escape = (v: string | number) => `"${String(v).replace(/"/g, '""')}"`;
+      const rows = [
+          ['แพทย์', 'วันที่', 'รายการ', 'จำนวนครั้ง', 'ราคาต่อครั้ง', 'ค่ามือ (DF)'],
+          ...payouts.flatMap(p => [
+              ...p.lines.map(f => [p.doctorName, f.date.split('T')[0], f.itemName, f.units, f.unitPrice, f.amount]),
+              [p.doctorName, '', 'รวม', p.units, '', p.amount]
+          ])
+      ];
+      // BOM so Excel opens the Thai text as UTF-8
+      const csv = '﻿' + rows.map(r => r.map(escape).join(',')).join('\n');
+      const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `doctor_fees_${month}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+  };
+
+  // --- Rules ---
+  const targetName = (rule: CommissionRule) => {
+      if (!rule.targetId) {
+          return rule.targetType === 'service' ? 'ทุกบริการ' : rule.targetType === 'course' ? 'ทุกคอร์ส' : 'ทุกรายการ';
+      }
+      const list = rule.targetType === 'course' ? courseDefinitions : services;
+      return list.find(i => i.id === rule.targetId)?.name || '-';
+  };
+
+  const openModal = (rule?: CommissionRule) => {
+      setEditingId(rule?.id || null);
+      setRuleForm(rule ? { ...emptyRule, ...rule, tiers: rule.tiers || [] } : emptyRule);
+      setIsModalOpen(true);
+  };
+
+  const updateTier = (index: number, field: keyof CommissionTier, value: number) => {
+      const tiers = [...(ruleForm.tiers || [])];
+      tiers[index] = { ...tiers[index], [field]: value };
+      setRuleForm({ ...ruleForm, tiers });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (ruleForm.method === 'tiered' && (ruleForm.tiers || []).length === 0) {
+          alert('กรุณาเพิ่มขั้นบันไดอย่างน้อย 1 ขั้น');
+          return;
+      }
+      if (editingId) {
+          await updateCommissionRule(editingId, ruleForm);
+      } else {
+          await addCommissionRule(ruleForm);
+      }
+      setIsModalOpen(false);
+  };
+
+  const handleDelete = async (id: string) => {
+      if (window.confirm('ยืนยันการลบกฎค่ามือนี้?')) {
+          await deleteCommissionRule(id);
+      }
+  };
+
+  const targetOptions = ruleForm.targetType === 'course' ? courseDefinitions : ruleForm.targetType === 'service' ? services : [];
+
+  return (
+    <div className="p-4 md:p-8 w-full">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <div>
+            <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+                <Stethoscope className="text-rose-500" />
+                ค่ามือแพทย์ (Doctor Fee)
+            </h2>
+            <p className="text-gray-500 text-sm mt-1">กฎการคำนวณค่ามือ และรายงานการจ่ายรายเดือน</p>
+        </div>
+        {activeTab === 'rules' && (
+            <button
+                onClick={() => openModal()}
+                className="bg-rose-500 text-white px-4 py-2 rounded-xl flex items-center gap-2 hover:bg-rose-600 shadow-md w-full md:w-auto justify-center"
+            >
+                <Plus size={18} /> เพิ่มกฎค่ามือ
+            </button>
+        )}
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-2 mb-6 border-b border-gray-200 pb-1">
+           <button
+                onClick={() => setActiveTab('report')}
+                className={`px-6 py-2 rounded-t-lg font-medium transition flex items-center gap-2 ${activeTab === 'report' ? 'bg-white border-x border-t border-gray-200 text-rose-600 border-b-white -mb-px' : 'text-gray-500 hover:bg-gray-50'}`}
+            >
+                <FileSpreadsheet size={18} /> รายงานรายเดือน
+            </button>
+            <button
+                onClick={() => setActiveTab('rules')}
+                className={`px-6 py-2 rounded-t-lg font-medium transition flex items-center gap-2 ${activeTab === 'rules' ? 'bg-white border-x border-t border-gray-200 text-rose-600 border-b-white -mb-px' : 'text-gray-500 hover:bg-gray-50'}`}
+            >
+                <Stethoscope size={18} /> กฎค่ามือ
+            </button>
+      </div>
+
+      {/* PAYOUT REPORT */}
+      {activeTab === 'report' && (
+        <div className="space-y-4">
+            <div className="flex flex-col md:flex-row gap-4 justify-between md:items-center">
+                <input
+                    type="month"
+                    className="border border-gray-200 rounded-xl p-2 bg-white text-gray-900 outline-none focus:ring-2 focus:ring-rose-500 w-full md:w-auto"
+                    value={month}
+                    onChange={e => setMonth(e.target.value)}
+                />
+                <button
+                    onClick={handleExport}
+                    disabled={payouts.length === 0}
+                    className="bg-gray-900 text-white px-4 py-2 rounded-xl hover:bg-gray-800 transition shadow-md flex items-center gap-2 justify-center disabled:bg-gray-200 disabled:text-gray-400"
+                >
+                    <Download size={18} /> Export CSV (Excel)
+                </button>
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+                <table className="w-full text-left whitespace-nowrap">
+                    <thead className="bg-gray-50 border-b border-gray-100">
+                        <tr>
+                            <th className="p-4 text-gray-500 font-medium">แพทย์</th>
+                            <th className="p-4 text-gray-500 font-medium text-center">จำนวนครั้ง</th>
+                            <th className="p-4 text-gray-500 font-medium text-right">ค่ามือรวม</th>
+                            <th className="p-4"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {payouts.map(p => (
+                            <React.Fragment key={p.key}>
+                                <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => setExpandedDoctor(expandedDoctor === p.key ? null : p.key)}>
+                                    <td className="p-4 font-medium text-gray-800">{p.doctorName}</td>
+                                    <td className="p-4 text-center text-gray-600">{p.units}</td>
+                                    <td className="p-4 text-right font-bold text-gray-900">฿{p.amount.toLocaleString()}</td>
+                                    <td className="p-4 text-right text-gray-400">
+                                        {expandedDoctor === p.key ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+                                    </td>
+                                </tr>
+                                {expandedDoctor === p.key && p.lines.map(f => (
+                                    <tr key={f.id} className="bg-gray-50/50 text-sm">
+                                        <td className="pl-8 p-2 text-gray-500">{f.date.split('T')[0]} · {f.itemName}</td>
+                                        <td className="p-2 text-center text-gray-500">{f.units} x ฿{f.unitPrice.toLocaleString()}</td>
+                                        <td className="p-2 text-right text-gray-700">฿{f.amount.toLocaleString()}</td>
+                                        <td></td>
+                                    </tr>
+                                ))}
+                            </React.Fragment>
+                        ))}
+                        {payouts.length === 0 && (
+                            <tr>
+                                <td colSpan={4} className="p-8 text-center text-gray-400">ไม่มีค่ามือในเดือนนี้</td>
+                            </tr>
+                        )}
+                    </tbody>
+                    {payouts.length > 0 && (
+                        <tfoot className="bg-gray-50 border-t border-gray-100">
+                            <tr>
+                                <td className="p-4 font-bold text-gray-700" colSpan={2}>รวมทั้งเดือน</td>
+                                <td className="p-4 text-right font-bold text-rose-600">฿{grandTotal.toLocaleString()}</td>
+                                <td></td>
+                            </tr>
+                        </tfoot>
+                    )}
+                </table>
+            </div>
+        </div>
+      )}
+
+      {/* RULES */}
+      {activeTab === 'rules' && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left whitespace-nowrap">
+                <thead className="bg-gray-50 border-b border-gray-100">
+                    <tr>
+                        <th className="p-4 text-gray-500 font-medium">แพทย์</th>
+                        <th className="p-4 text-gray-500 font-medium">รายการ</th>
+                        <th className="p-4 text-gray-500 font-medium">การคำนวณ</th>
+                        <th className="p-4 text-gray-500 font-medium text-center">สถานะ</th>
+                        <th className="p-4 text-gray-500 font-medium text-right">เครื่องมือ</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                    {commissionRules.map(rule => (
+                        <tr key={rule.id} className="hover:bg-gray-50">
+                            <td className="p-4 font-medium text-gray-800">{rule.staffId ? getStaffName(staff, rule.staffId) : 'แพทย์ทุกคน'}</td>
+                            <td className="p-4 text-gray-600">{targetName(rule)}</td>
+                            <td className="p-4 text-gray-600 text-sm">{describeCommissionRule(rule)}</td>
+                            <td className="p-4 text-center">
+                                <button
+                                    onClick={() => updateCommissionRule(rule.id, { active: !rule.active })}
+                                    className={`px-2 py-1 rounded text-xs font-medium ${rule.active ? 'bg-green-50 text-green-600' : 'bg-gray-100 text-gray-500'}`}
+                                >
+                                    {rule.active ? 'ใช้งาน' : 'ปิด'}
+                                </button>
+                            </td>
+                            <td className="p-4 text-right">
+                                <div className="flex items-center justify-end gap-2">
+                                    <button onClick={() => openModal(rule)} className="p-1.5 hover:bg-blue-50 text-blue-600 rounded"><Edit size={18} /></button>
+                                    <button onClick={() => handleDelete(rule.id)} className="p-1.5 hover:bg-red-50 text-red-600 rounded"><Trash2 size={18} /></button>
+                                </div>
+                            </td>
+                        </tr>
+                    ))}
+                    {commissionRules.length === 0 && (
+                        <tr>
+                            <td colSpan={5} className="p-8 text-center text-gray-400">ยังไม่มีกฎค่ามือ</td>
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Rule Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white p-6 rounded-2xl w-full max-w-lg shadow-xl max-h-[90vh] overflow-y-auto">
+                <h3 className="text-xl font-bold mb-4 text-gray-800">{editingId ? 'แก้ไขกฎค่ามือ' : 'เพิ่มกฎค่ามือ'}</h3>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="text-xs text-gray-500 mb-1 block">แพทย์</label>
+                        <select
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none bg-white focus:ring-2 focus:ring-rose-500"
+                            value={ruleForm.staffId || ''}
+                            onChange={e => setRuleForm({...ruleForm, staffId: e.target.value || null})}
+                        >
+                            <option value="">แพทย์ทุกคน</option>
+                            {staff.filter(d => d.role === 'doctor' && (d.active || d.id === ruleForm.staffId)).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">ประเภทรายการ</label>
+                            <select
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none bg-white focus:ring-2 focus:ring-rose-500"
+                                value={ruleForm.targetType}
+                                onChange={e => setRuleForm({...ruleForm, targetType: e.target.value as RuleForm['targetType'], targetId: null})}
+                            >
+                                <option value="any">ทุกรายการ</option>
+                                <option value="service">บริการรายครั้ง</option>
+                                <option value="course">คอร์ส</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">รายการ</label>
+                            <select
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none bg-white focus:ring-2 focus:ring-rose-500"
+                                value={ruleForm.targetId || ''}
+                                disabled={ruleForm.targetType === 'any'}
+                                onChange={e => setRuleForm({...ruleForm, targetId: e.target.value || null})}
+                            >
+                                <option value="">ทั้งหมด</option>
+                                {targetOptions.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">วิธีคำนวณ</label>
+                            <select
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none bg-white focus:ring-2 focus:ring-rose-500"
+                                value={ruleForm.method}
+                                onChange={e => setRuleForm({...ruleForm, method: e.target.value as CommissionMethod})}
+                            >
+                                <option value="flat">บาทต่อครั้ง (Flat)</option>
+                                <option value="percent">% ของราคาต่อครั้ง</option>
+                                <option value="tiered">ขั้นบันได (Tiered)</option>
+                            </select>
+                        </div>
+                        {ruleForm.method !== 'tiered' ? (
+                            <div>
+                                <label className="text-xs text-gray-500 mb-1 block">{ruleForm.method === 'flat' ? 'บาท / ครั้ง' : 'เปอร์เซ็นต์'}</label>
+                                <input
+                                    type="number" min="0" step="any" required
+                                    className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                                    value={ruleForm.value}
+                                    onChange={e => setRuleForm({...ruleForm, value: parseFloat(e.target.value) || 0})}
+                                />
+                            </div>
+                        ) : (
+                            <div>
+                                <label className="text-xs text-gray-500 mb-1 block">หน่วยของขั้นบันได</label>
+                                <select
+                                    className="w-full border border-gray-300 p-3 rounded-xl outline-none bg-white focus:ring-2 focus:ring-rose-500"
+                                    value={ruleForm.tierValueType}
+                                    onChange={e => setRuleForm({...ruleForm, tierValueType: e.target.value as 'flat' | 'percent'})}
+                                >
+                                    <option value="flat">บาท / ครั้ง</option>
+                                    <option value="percent">% ของราคาต่อครั้ง</option>
+                                </select>
+                            </div>
+                        )}
+                    </div>
+
+                    {ruleForm.method === 'tiered' && (
+                        <div className="bg-gray-50 p-4 rounded-xl border border-gray-200">
+                            <div className="flex justify-between items-center mb-3">
+                                <label className="text-sm font-bold text-gray-700">ขั้นบันได (นับจำนวนครั้งสะสมในเดือน)</label>
+                                <button
+                                    type="button"
+                                    onClick={() => setRuleForm({...ruleForm, tiers: [...(ruleForm.tiers || []), { fromUnits: (ruleForm.tiers || []).length === 0 ? 1 : 0, value: 0 }]})}
+                                    className="text-xs bg-gray-200 px-2 py-1 rounded hover:bg-gray-300"
+                                >
+                                    + เพิ่มขั้น
+                                </button>
+                            </div>
+                            <div className="space-y-2">
+                                {(ruleForm.tiers || []).map((tier, idx) => (
+                                    <div key={idx} className="flex gap-2 items-center text-sm">
+                                        <span className="text-gray-500">ตั้งแต่ครั้งที่</span>
+                                        <input
+                                            type="number" min="1" required
+                                            className="w-20 border p-2 rounded"
+                                            value={tier.fromUnits}
+                                            onChange={e => updateTier(idx, 'fromUnits', parseInt(e.target.value) || 1)}
+                                        />
+                                        <span className="text-gray-500">ได้</span>
+                                        <input
+                                            type="number" min="0" step="any" required
+                                            className="w-24 border p-2 rounded"
+                                            value={tier.value}
+                                            onChange={e => updateTier(idx, 'value', parseFloat(e.target.value) || 0)}
+                                        />
+                                        <span className="text-gray-500">{ruleForm.tierValueType === 'percent' ? '%' : '฿'}</span>
+                                        <button
+                                            type="button"
+                                            onClick={() => setRuleForm({...ruleForm, tiers: (ruleForm.tiers || []).filter((_, i) => i !== idx)})}
+                                            className="text-red-500 hover:bg-red-50 p-1 rounded ml-auto"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={ruleForm.active}
+                            onChange={e => setRuleForm({...ruleForm, active: e.target.checked})}
+                        />
+                        เปิดใช้งาน
+                    </label>
+
+                    <div className="flex gap-3 mt-4">
+                        <button type="button" onClick={() => setIsModalOpen(false)} className="flex-1 py-2 border rounded-lg hover:bg-gray-50">ยกเลิก</button>
+                        <button type="submit" className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 flex items-center justify-center gap-2">
+                             <Save size={18} /> บันทึก
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommissionPage;
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { CheckCircle, FileSignature } from 'lucide-react';
+import { useClinic } from '../context/ClinicContext';
+import { ConsentTemplate, Customer } from '../types';
+import { CONSENT_GAP_LABELS } from '../lib/consent';
+import ConsentSignModal from './ConsentSignModal';
+
+interface ConsentRequirementProps {
+  customer: Customer;
+  serviceIds: string[];
+  courseId?: string;
+  procedure: string;
+  appointmentId?: string;
+}
+
+// Shows which consents a treatment still needs, with a button to sign them now
+const ConsentRequirement: React.FC<ConsentRequirementProps> = ({ customer, serviceIds, courseId, procedure, appointmentId }) => {
+  const { getConsentGaps } = useClinic();
+  // Fixed when signing starts; the gap list shrinks as each form is signed
+  const [signing, setSigning] = useState<ConsentTemplate[] | null>(null);
+  const gaps = getConsentGaps(customer.id, serviceIds, courseId);
+
+  if (gaps.length === 0 && !signing) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm space-y-2">
+        <p className="font-medium text-amber-800 flex items-center gap-1"><FileSignature size={14} /> ต้องลงนามใบยินยอมก่อนเริ่มการรักษา</p>
+        <ul className="text-amber-700 text-xs space-y-0.5">
+            {gaps.map(g => <li key={g.template.id}>• {g.template.name} — {CONSENT_GAP_LABELS[g.status]}</li>)}
+        </ul>
+        <button
+            type="button"
+            onClick={() => setSigning(gaps.map(g => g.template))}
+            className="w-full py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 flex items-center justify-center gap-1"
+        >
+            <CheckCircle size={14} /> ลงนามตอนนี้
+        </button>
+        {signing && (
+            <ConsentSignModal
+                customer={customer}
+                templates={signing}
+                procedure={procedure}
+                appointmentId={appointmentId}
+                onClose={() => setSigning(null)}
+            />
+        )}
+    </div>
+  );
+};
+
+export default ConsentRequirement;
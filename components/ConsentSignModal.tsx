@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { FileSignature, X } from 'lucide-react';
+import { useClinic } from '../context/ClinicContext';
+import { ConsentTemplate, Customer } from '../types';
+import { fillConsentTemplate } from '../lib/consent';
+import SignaturePad from './SignaturePad';
+
+interface ConsentSignModalProps {
+  customer: Customer;
+  templates: ConsentTemplate[]; // Signed one after another
+  procedure: string;
+  appointmentId?: string;
+  onClose: () => void;
+}
+
+// Hand the tablet to the customer: read the filled form, sign, next form
+const ConsentSignModal: React.FC<ConsentSignModalProps> = ({ customer, templates, procedure, appointmentId, onClose }) => {
+  const { signConsent, clinicProfile } = useClinic();
+  const [index, setIndex] = useState(0);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [hasRead, setHasRead] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const template = templates[index];
+
+  const handleSign = async () => {
+      if (!signature) return;
+      setIsSaving(true);
+      const ok = await signConsent(template.id, customer.id, procedure, signature, appointmentId);
+      setIsSaving(false);
+      if (!ok) return;
+      if (index + 1 >= templates.length) {
+          onClose();
+      } else {
+          setIndex(index + 1);
+          setSignature(null);
+          setHasRead(false);
+      }
+  };
+
+  if (!template) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-4">
+        <div className="bg-white p-6 rounded-2xl w-full max-w-2xl shadow-2xl max-h-[95vh] overflow-y-auto">
+            <div className="flex justify-between items-start mb-4">
+                <div>
+                    <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2"><FileSignature className="text-rose-500" /> {template.name}</h3>
+                    <p className="text-sm text-gray-500">{customer.name} · {procedure} · ฉบับที่ {template.version}{templates.length > 1 ? ` · ${index + 1}/${templates.length}` : ''}</p>
+                </div>
+                <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+            </div>
+
+            <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 text-gray-800 whitespace-pre-wrap leading-relaxed max-h-[45vh] overflow-y-auto mb-4">
+                {fillConsentTemplate(template.body, {
+                    customerName: customer.name,
+                    procedure,
+                    date: new Date().toLocaleDateString('th-TH'),
+                    clinicName: clinicProfile.name
+                })}
+            </div>
+
+            <label className="flex items-start gap-2 text-sm text-gray-700 mb-3">
+                <input type="checkbox" className="mt-1" checked={hasRead} onChange={e => setHasRead(e.target.checked)} />
+                ข้าพเจ้าได้อ่านและเข้าใจข้อความข้างต้น และยินยอมรับการรักษา
+            </label>
+            <SignaturePad key={template.id} onChange={setSignature} />
+
+            <div className="flex gap-3 mt-4">
+                <button type="button" onClick={onClose} className="flex-1 py-2 border border-gray-300 rounded-lg hover:bg-gray-50">ยกเลิก</button>
+                <button
+                    type="button"
+                    onClick={handleSign}
+                    disabled={!signature || !hasRead || isSaving}
+                    className="flex-1 py-2 bg-rose-500 text-white rounded-lg shadow-md hover:bg-rose-600 disabled:bg-gray-300"
+                >
+                    {isSaving ? 'กำลังบันทึก...' : 'ลงนาม'}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default ConsentSignModal;
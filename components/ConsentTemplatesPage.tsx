@@ -0,0 +1,286 @@
+import React, { useRef, useState } from 'react';
+import { useClinic } from '../context/ClinicContext';
+import { FileSignature, Plus, Edit, Save, FileText } from 'lucide-react';
+import { ConsentTemplate } from '../types';
+import { CONSENT_VARIABLES } from '../lib/consent';
+
+type ConsentTemplateForm = Omit<ConsentTemplate, 'id' | 'version' | 'updatedAt'>;
+
+const emptyTemplate: ConsentTemplateForm = {
+  name: '',
+  body: 'ข้าพเจ้า {{customerName}} ยินยอมรับการทำหัตถการ {{procedure}} ณ {{clinicName}} เมื่อวันที่ {{date}}\n\n',
+  serviceIds: [],
+  categories: [],
+  courseIds: [],
+  validMonths: null,
+  active: true
+};
+
+const ConsentTemplatesPage: React.FC = () => {
+  const { consentTemplates, signedConsents, customers, services, courseDefinitions, addConsentTemplate, updateConsentTemplate, getConsentUrl } = useClinic();
+  const [activeTab, setActiveTab] = useState<'templates' | 'signed'>('templates');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ConsentTemplateForm>(emptyTemplate);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const categories = [...new Set(services.map(s => s.category).filter(Boolean))] as string[];
+  const editing = consentTemplates.find(t => t.id === editingId);
+
+  const describeTargets = (t: ConsentTemplate) => [
+      ...t.categories.map(c => `หมวด ${c}`),
+      ...t.serviceIds.map(id => services.find(s => s.id === id)?.name || '-'),
+      ...t.courseIds.map(id => courseDefinitions.find(c => c.id === id)?.name || '-')
+  ].join(', ') || '-';
+
+  const openModal = (template?: ConsentTemplate) => {
+      if (template) {
+          const { id, version, updatedAt, ...rest } = template;
+          setEditingId(id);
+          setForm(rest);
+      } else {
+          setEditingId(null);
+          setForm(emptyTemplate);
+      }
+      setIsModalOpen(true);
+  };
+
+  // Drops the variable in at the cursor rather than at the end
+  const insertVariable = (key: string) => {
+      const el = bodyRef.current;
+      const token = `{{${key}}}`;
+      const start = el ? el.selectionStart : form.body.length;
+      const end = el ? el.selectionEnd : form.body.length;
+      setForm({ ...form, body: form.body.slice(0, start) + token + form.body.slice(end) });
+      requestAnimationFrame(() => {
+          el?.focus();
+          el?.setSelectionRange(start + token.length, start + token.length);
+      });
+  };
+
+  const toggle = (field: 'serviceIds' | 'categories' | 'courseIds', id: string) => {
+      const list = form[field];
+      setForm({ ...form, [field]: list.includes(id) ? list.filter(x => x !== id) : [...list, id] });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!form.body.trim()) {
+          alert('กรุณากรอกข้อความใบยินยอม');
+          return;
+      }
+      if (form.serviceIds.length + form.categories.length + form.courseIds.length === 0) {
+          alert('กรุณาเลือกบริการ หมวดหมู่ หรือคอร์สที่ต้องใช้ใบยินยอมนี้อย่างน้อย 1 รายการ');
+          return;
+      }
+      if (editing && editing.body !== form.body && !window.confirm('แก้ไขข้อความจะออกฉบับใหม่ ลูกค้าที่ลงนามฉบับเดิมต้องลงนามใหม่ก่อนรับการรักษาครั้งถัดไป ดำเนินการต่อ?')) return;
+      if (editingId) await updateConsentTemplate(editingId, form);
+      else await addConsentTemplate(form);
+      setIsModalOpen(false);
+  };
+
+  const openPdf = async (path: string) => {
+      const url = await getConsentUrl(path);
+      if (url) window.open(url, '_blank');
+      else alert('ไม่สามารถเปิดไฟล์ได้');
+  };
+
+  return (
+    <div className="p-4 md:p-8 w-full">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <FileSignature className="text-rose-500" /> ใบยินยอม (Consent Forms)
+        </h2>
+        <button
+          onClick={() => openModal()}
+          className="flex items-center gap-2 bg-rose-500 text-white px-4 py-2 rounded-lg hover:bg-rose-600 transition shadow-md shadow-rose-200 w-full md:w-auto justify-center"
+        >
+          <Plus size={20} /> เพิ่มแบบฟอร์ม
+        </button>
+      </div>
+
+      <div className="flex bg-gray-100 p-1 rounded-xl w-fit mb-4">
+          <button onClick={() => setActiveTab('templates')} className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'templates' ? 'bg-white text-rose-600 shadow-sm' : 'text-gray-500'}`}>
+              แบบฟอร์ม
+          </button>
+          <button onClick={() => setActiveTab('signed')} className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'signed' ? 'bg-white text-rose-600 shadow-sm' : 'text-gray-500'}`}>
+              ที่ลงนามแล้ว
+          </button>
+      </div>
+
+      {activeTab === 'templates' && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-gray-50 border-b border-gray-100 whitespace-nowrap">
+                  <th className="p-4 font-medium text-gray-500">ชื่อ</th>
+                  <th className="p-4 font-medium text-gray-500">ใช้กับ</th>
+                  <th className="p-4 font-medium text-gray-500">ฉบับที่</th>
+                  <th className="p-4 font-medium text-gray-500">ลงนามใหม่ทุก</th>
+                  <th className="p-4 font-medium text-gray-500">สถานะ</th>
+                  <th className="p-4 font-medium text-gray-500">จัดการ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {consentTemplates.map(t => (
+                  <tr key={t.id} className="border-b border-gray-50 hover:bg-gray-50 transition align-top">
+                    <td className="p-4 font-medium text-gray-900">{t.name}</td>
+                    <td className="p-4 text-sm text-gray-600">{describeTargets(t)}</td>
+                    <td className="p-4 text-sm text-gray-600 whitespace-nowrap">
+                        {t.version}
+                        {t.updatedAt && <span className="block text-xs text-gray-400">{new Date(t.updatedAt).toLocaleDateString('th-TH')}</span>}
+                    </td>
+                    <td className="p-4 text-sm text-gray-600 whitespace-nowrap">{t.validMonths ? `${t.validMonths} เดือน` : 'ไม่หมดอายุ'}</td>
+                    <td className="p-4 whitespace-nowrap">
+                        {t.active
+                            ? <span className="px-3 py-1 rounded-full text-xs font-medium border bg-green-50 text-green-700 border-green-200">ใช้งาน</span>
+                            : <span className="px-3 py-1 rounded-full text-xs font-medium border bg-gray-50 text-gray-500 border-gray-200">ปิดใช้งาน</span>}
+                    </td>
+                    <td className="p-4">
+                        <button onClick={() => openModal(t)} className="p-1 hover:bg-blue-100 text-blue-600 rounded" title="แก้ไข"><Edit size={18} /></button>
+                    </td>
+                  </tr>
+                ))}
+                {consentTemplates.length === 0 && (
+                    <tr>
+                        <td colSpan={6} className="p-8 text-center text-gray-400">ยังไม่มีแบบฟอร์มใบยินยอม</td>
+                    </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'signed' && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-gray-50 border-b border-gray-100 whitespace-nowrap">
+                  <th className="p-4 font-medium text-gray-500">วันที่ลงนาม</th>
+                  <th className="p-4 font-medium text-gray-500">ลูกค้า</th>
+                  <th className="p-4 font-medium text-gray-500">แบบฟอร์ม</th>
+                  <th className="p-4 font-medium text-gray-500">หัตถการ</th>
+                  <th className="p-4 font-medium text-gray-500">PDF</th>
+                </tr>
+              </thead>
+              <tbody>
+                {signedConsents.slice(0, 200).map(c => (
+                  <tr key={c.id} className="border-b border-gray-50 hover:bg-gray-50 transition">
+                    <td className="p-4 text-sm text-gray-600 whitespace-nowrap">{new Date(c.signedAt).toLocaleString('th-TH')}</td>
+                    <td className="p-4 font-medium text-gray-900">{customers.find(cu => cu.id === c.customerId)?.name || '-'}</td>
+                    <td className="p-4 text-sm text-gray-600">{c.templateName} <span className="text-xs text-gray-400">ฉบับที่ {c.templateVersion}</span></td>
+                    <td className="p-4 text-sm text-gray-600">{c.procedure}</td>
+                    <td className="p-4">
+                        <button onClick={() => openPdf(c.pdfPath)} className="p-1 hover:bg-rose-100 text-rose-600 rounded flex items-center gap-1 text-sm"><FileText size={16} /> เปิด</button>
+                    </td>
+                  </tr>
+                ))}
+                {signedConsents.length === 0 && (
+                    <tr>
+                        <td colSpan={5} className="p-8 text-center text-gray-400">ยังไม่มีใบยินยอมที่ลงนาม</td>
+                    </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-400 p-4">ไฟล์ที่ลงนามแล้วแก้ไขหรือเขียนทับไม่ได้ แสดงล่าสุด 200 รายการ</p>
+        </div>
+      )}
+
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white p-6 rounded-2xl w-full max-w-2xl shadow-xl max-h-[90vh] overflow-y-auto">
+                <h3 className="text-xl font-bold mb-4 text-gray-800">{editingId ? `แก้ไขแบบฟอร์ม (ฉบับที่ ${editing?.version})` : 'เพิ่มแบบฟอร์มใบยินยอม'}</h3>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="text-xs text-gray-500 mb-1 block">ชื่อแบบฟอร์ม</label>
+                        <input
+                            required
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                            placeholder="เช่น ใบยินยอมฉีดโบท็อกซ์"
+                            value={form.name}
+                            onChange={e => setForm({ ...form, name: e.target.value })}
+                        />
+                    </div>
+                    <div>
+                        <div className="flex flex-wrap items-center gap-1 mb-1">
+                            <label className="text-xs text-gray-500 mr-2">ข้อความ</label>
+                            {CONSENT_VARIABLES.map(v => (
+                                <button key={v.key} type="button" onClick={() => insertVariable(v.key)} className="text-xs bg-rose-50 text-rose-600 border border-rose-100 px-2 py-0.5 rounded-full hover:bg-rose-100">
+                                    + {v.label}
+                                </button>
+                            ))}
+                        </div>
+                        <textarea
+                            ref={bodyRef}
+                            rows={10}
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500 text-sm leading-relaxed"
+                            value={form.body}
+                            onChange={e => setForm({ ...form, body: e.target.value })}
+                        />
+                        {editingId && <p className="text-xs text-amber-600 mt-1">การแก้ไขข้อความจะเพิ่มเลขฉบับ และลูกค้าต้องลงนามใหม่</p>}
+                    </div>
+                    <div>
+                        <label className="text-xs text-gray-500 mb-1 block">ใช้กับหมวดหมู่</label>
+                        <div className="flex flex-wrap gap-2">
+                            {categories.map(c => (
+                                <label key={c} className="flex items-center gap-1 text-sm text-gray-700 border border-gray-200 rounded-lg px-2 py-1">
+                                    <input type="checkbox" checked={form.categories.includes(c)} onChange={() => toggle('categories', c)} /> {c}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label className="text-xs text-gray-500 mb-1 block">ใช้กับบริการ</label>
+                        <div className="border border-gray-200 rounded-xl p-2 max-h-40 overflow-y-auto space-y-1">
+                            {services.map(s => (
+                                <label key={s.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input type="checkbox" checked={form.serviceIds.includes(s.id)} onChange={() => toggle('serviceIds', s.id)} /> {s.name}
+                                    <span className="text-xs text-gray-400">{s.category}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label className="text-xs text-gray-500 mb-1 block">ใช้กับคอร์ส</label>
+                        <div className="border border-gray-200 rounded-xl p-2 max-h-40 overflow-y-auto space-y-1">
+                            {courseDefinitions.map(c => (
+                                <label key={c.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input type="checkbox" checked={form.courseIds.includes(c.id)} onChange={() => toggle('courseIds', c.id)} /> {c.name}
+                                </label>
+                            ))}
+                            {courseDefinitions.length === 0 && <p className="text-xs text-gray-400">ยังไม่มีคอร์ส</p>}
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">ลงนามใหม่ทุก (เดือน)</label>
+                            <input
+                                type="number" min="1"
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                                placeholder="ไม่หมดอายุ"
+                                value={form.validMonths ?? ''}
+                                onChange={e => setForm({ ...form, validMonths: e.target.value ? parseInt(e.target.value) : null })}
+                            />
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-gray-700 mt-5">
+                            <input type="checkbox" checked={form.active} onChange={e => setForm({ ...form, active: e.target.checked })} />
+                            เปิดใช้งาน
+                        </label>
+                    </div>
+                    <div className="flex gap-3 mt-6">
+                        <button type="button" onClick={() => setIsModalOpen(false)} className="flex-1 py-3 border border-gray-300 rounded-xl hover:bg-gray-50 text-gray-700">ยกเลิก</button>
+                        <button type="submit" className="flex-1 py-3 bg-rose-500 text-white rounded-xl hover:bg-rose-600 shadow-md flex items-center justify-center gap-2"><Save size={18} /> บันทึก</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConsentTemplatesPage;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { ShieldAlert, Trash2 } from 'lucide-react';
+import { ContraindicationRule, MedicalFlagType } from '../types';
+import { COMMON_CONTRAINDICATIONS, MEDICAL_FLAG_LABELS } from '../lib/medical';
+
+interface ContraindicationEditorProps {
+  value: ContraindicationRule[];
+  onChange: (rules: ContraindicationRule[]) => void;
+}
+
+// Rules for a service or product; a customer matching any of them triggers the safety check
+const ContraindicationEditor: React.FC<ContraindicationEditorProps> = ({ value, onChange }) => {
+  const update = (id: string, patch: Partial<ContraindicationRule>) =>
+      onChange(value.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  const addRule = (rule: Omit<ContraindicationRule, 'id'>) => onChange([...value, { ...rule, id: crypto.randomUUID() }]);
+
+  const inputClass = 'border border-gray-300 rounded-lg p-2 bg-white text-gray-900 text-sm outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <div className="bg-red-50/50 p-4 rounded-xl border border-red-100 space-y-2">
+        <div className="flex justify-between items-center">
+            <label className="text-sm font-medium text-gray-700 flex items-center gap-1"><ShieldAlert size={14} className="text-red-500" /> ข้อห้าม (Contraindications)</label>
+            <select
+                className="border border-gray-300 rounded-lg p-1.5 bg-white text-gray-900 text-xs"
+                value=""
+                onChange={e => {
+                    if (e.target.value === 'custom') addRule({ type: 'condition', term: '' });
+                    else if (e.target.value) addRule(COMMON_CONTRAINDICATIONS[Number(e.target.value)]);
+                }}
+            >
+                <option value="">+ เพิ่มข้อห้าม</option>
+                <option value="custom">กำหนดเอง</option>
+                {COMMON_CONTRAINDICATIONS.map((rule, i) => <option key={i} value={i}>{rule.term} — {rule.reason}</option>)}
+            </select>
+        </div>
+        {value.map(rule => (
+            <div key={rule.id} className="grid grid-cols-12 gap-2 items-center">
+                <select className={`${inputClass} col-span-3`} value={rule.type} onChange={e => update(rule.id, { type: e.target.value as MedicalFlagType })}>
+                    {(Object.keys(MEDICAL_FLAG_LABELS) as MedicalFlagType[]).map(t => <option key={t} value={t}>{MEDICAL_FLAG_LABELS[t]}</option>)}
+                </select>
+                <input className={`${inputClass} col-span-3`} placeholder="คำที่ตรวจ เช่น Pregnancy" value={rule.term} onChange={e => update(rule.id, { term: e.target.value })} />
+                <input className={`${inputClass} col-span-5`} placeholder="เหตุผล" value={rule.reason || ''} onChange={e => update(rule.id, { reason: e.target.value })} />
+                <button type="button" onClick={() => onChange(value.filter(r => r.id !== rule.id))} className="col-span-1 text-red-500 hover:text-red-700 flex justify-center">
+                    <Trash2 size={14} />
+                </button>
+            </div>
+        ))}
+        {value.length === 0 && <p className="text-xs text-gray-400">ยังไม่มีข้อห้าม</p>}
+    </div>
+  );
+};
+
+export default ContraindicationEditor;
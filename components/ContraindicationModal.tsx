@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { ContraindicationHit, Customer, SafetyCheckContext } from '../types';
+import { MEDICAL_FLAG_LABELS, SAFETY_CONTEXT_LABELS } from '../lib/medical';
+
+interface ContraindicationModalProps {
+  customer: Customer;
+  context: SafetyCheckContext;
+  itemName: string;
+  hits: ContraindicationHit[];
+  onConfirm: (note: string) => void; // The action is retried with the note and logs it once it succeeds
+  onCancel: () => void;
+}
+
+// Blocks the action until staff acknowledge every contraindication and give a reason to continue
+const ContraindicationModal: React.FC<ContraindicationModalProps> = ({ customer, context, itemName, hits, onConfirm, onCancel }) => {
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [note, setNote] = useState('');
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-4">
+        <div className="bg-white p-6 rounded-2xl w-full max-w-md shadow-2xl border-t-4 border-red-500">
+            <h3 className="text-xl font-bold text-red-700 flex items-center gap-2 mb-1">
+                <ShieldAlert /> คำเตือนข้อห้ามทางการแพทย์
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">{SAFETY_CONTEXT_LABELS[context]}: {itemName} · {customer.name}</p>
+
+            <ul className="space-y-2 mb-4">
+                {hits.map((hit, i) => (
+                    <li key={i} className="bg-red-50 border border-red-100 rounded-lg p-3 text-sm">
+                        <p className="font-medium text-red-800">{hit.source}: {MEDICAL_FLAG_LABELS[hit.rule.type]} "{hit.match}"</p>
+                        {hit.rule.reason && <p className="text-red-600 text-xs mt-1">{hit.rule.reason}</p>}
+                    </li>
+                ))}
+            </ul>
+
+            <textarea
+                className="w-full border border-gray-300 p-2 rounded-lg h-20 text-sm focus:ring-2 focus:ring-red-500 mb-3"
+                placeholder="เหตุผลที่ดำเนินการต่อ เช่น แพทย์ประเมินแล้ว / ลูกค้าหยุดยาแล้ว"
+                value={note}
+                onChange={e => setNote(e.target.value)}
+            />
+            <label className="flex items-start gap-2 text-sm text-gray-700 mb-4">
+                <input type="checkbox" className="mt-1" checked={acknowledged} onChange={e => setAcknowledged(e.target.checked)} />
+                ข้าพเจ้าได้ตรวจสอบข้อห้ามข้างต้นแล้ว และยืนยันดำเนินการต่อ (จะถูกบันทึกในประวัติ)
+            </label>
+
+            <div className="flex gap-3">
+                <button type="button" onClick={onCancel} className="flex-1 py-2 border border-gray-300 rounded-lg hover:bg-gray-50">ยกเลิก</button>
+                <button
+                    type="button"
+                    onClick={() => onConfirm(note.trim())}
+                    disabled={!acknowledged || !note.trim()}
+                    className="flex-1 py-2 bg-red-600 text-white rounded-lg shadow-md hover:bg-red-700 disabled:bg-gray-300"
+                >
+                    ยืนยันและดำเนินการต่อ
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default ContraindicationModal;
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { ArrowRightLeft, X } from 'lucide-react';
+import { useClinic } from '../context/ClinicContext';
+import { Customer, CustomerCourse, PaymentMethod } from '../types';
+import { PAYMENT_METHOD_LABELS } from '../lib/receipts';
+import { COURSE_ADJUSTMENT_LABELS, findCourseOwner, isBundle, quoteConversion } from '../lib/courses';
+
+type Mode = 'transfer' | 'share' | 'convert';
+
+interface CourseAdjustModalProps {
+  owner: Customer;
+  course: CustomerCourse;
+  onClose: () => void;
+}
+
+// Transfer, share or convert the remaining units of one course instance
+const CourseAdjustModal: React.FC<CourseAdjustModalProps> = ({ owner: initialOwner, course: initialCourse, onClose }) => {
+  const { customers, courseDefinitions, transactions, courseAdjustments, transferCourse, shareCourse, unshareCourse, convertCourse } = useClinic();
+  // Re-read from the latest data so membership changes show without reopening
+  const owner = findCourseOwner(customers, initialCourse.id) || initialOwner;
+  const course = owner.activeCourses.find(cc => cc.id === initialCourse.id) || initialCourse;
+  const [mode, setMode] = useState<Mode>('transfer');
+  const [targetCustomerId, setTargetCustomerId] = useState('');
+  const [targetCourseId, setTargetCourseId] = useState('');
+  const [units, setUnits] = useState(0);
+  const [method, setMethod] = useState<PaymentMethod>('Cash');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const others = customers.filter(c => c.id !== owner.id);
+  const members = (course.sharedWith || []).map(id => customers.find(c => c.id === id)).filter((c): c is Customer => !!c);
+  const targets = courseDefinitions.filter(c => c.id !== course.courseId);
+  const target = courseDefinitions.find(c => c.id === targetCourseId);
+  const quote = target ? quoteConversion(course, target, transactions, courseDefinitions, units || undefined) : null;
+  const history = courseAdjustments.filter(a => a.customerCourseId === course.id || a.newCustomerCourseId === course.id);
+  const nameOf = (id?: string) => customers.find(c => c.id === id)?.name || '-';
+
+  const selectTarget = (id: string) => {
+      setTargetCourseId(id);
+      const def = courseDefinitions.find(c => c.id === id);
+      // Default to as many units as the remaining value fully pays for; bundles convert as a whole package
+      setUnits(!def ? 0 : isBundle(def) ? def.totalUnits : Math.max(1, quoteConversion(course, def, transactions, courseDefinitions).units));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsSaving(true);
+      let ok = false;
+      if (mode === 'transfer') ok = await transferCourse(course.id, targetCustomerId, reason);
+      if (mode === 'share') ok = await shareCourse(course.id, targetCustomerId, reason);
+      if (mode === 'convert') ok = await convertCourse(course.id, targetCourseId, units, method, reason);
+      setIsSaving(false);
+      if (ok) onClose();
+  };
+
+  const handleUnshare = async (member: Customer) => {
+      const why = window.prompt(`เหตุผลที่ยกเลิกสิทธิ์ของ ${member.name}`);
+      if (why && why.trim()) await unshareCourse(course.id, member.id, why);
+  };
+
+  const tabClass = (tab: Mode) =>
+      `flex-1 py-2 text-sm rounded-lg ${mode === tab ? 'bg-rose-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-lg shadow-2xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-2 text-gray-800 flex items-center gap-2"><ArrowRightLeft className="text-rose-500" /> จัดการคอร์ส</h3>
+        <p className="text-sm text-gray-500 mb-4">{course.courseName} ของ {owner.name} · คงเหลือ {course.remainingUnits}/{course.totalUnits} ครั้ง</p>
+
+        <div className="flex gap-2 mb-4">
+            <button type="button" onClick={() => setMode('transfer')} className={tabClass('transfer')}>โอนให้ลูกค้าอื่น</button>
+            <button type="button" onClick={() => setMode('share')} className={tabClass('share')}>ใช้ร่วมกัน</button>
+            <button type="button" onClick={() => setMode('convert')} className={tabClass('convert')}>แปลงเป็นคอร์สอื่น</button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'transfer' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">โอนคงเหลือ {course.remainingUnits} ครั้งให้</label>
+                <select required className="w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900" value={targetCustomerId} onChange={e => setTargetCustomerId(e.target.value)}>
+                    <option value="">-- เลือกลูกค้า --</option>
+                    {others.map(c => <option key={c.id} value={c.id}>{c.name} ({c.phone})</option>)}
+                </select>
+                <p className="text-xs text-gray-400 mt-1">คอร์สจะย้ายไปเป็นของลูกค้าปลายทางทั้งหมด</p>
+              </div>
+          )}
+
+          {mode === 'share' && (
+              <div className="space-y-3">
+                {members.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {members.map(m => (
+                            <span key={m.id} className="text-sm bg-rose-50 text-rose-700 px-2 py-1 rounded-lg flex items-center gap-1">
+                                {m.name}
+                                <button type="button" onClick={() => handleUnshare(m)} className="hover:text-rose-900"><X size={12} /></button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">เพิ่มผู้ใช้ร่วม</label>
+                  <select required className="w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900" value={targetCustomerId} onChange={e => setTargetCustomerId(e.target.value)}>
+                      <option value="">-- เลือกลูกค้า --</option>
+                      {others.filter(c => !course.sharedWith?.includes(c.id)).map(c => <option key={c.id} value={c.id}>{c.name} ({c.phone})</option>)}
+                  </select>
+                </div>
+              </div>
+          )}
+
+          {mode === 'convert' && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">คอร์สใหม่</label>
+                    <select required className="w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900" value={targetCourseId} onChange={e => selectTarget(e.target.value)}>
+                        <option value="">-- เลือกคอร์ส --</option>
+                        {targets.map(c => <option key={c.id} value={c.id}>{c.name} (฿{c.price.toLocaleString()} / {c.totalUnits} ครั้ง)</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">จำนวนครั้ง</label>
+                    <input type="number" min="1" step="1" required readOnly={!!target && isBundle(target)} className="w-full border border-gray-300 rounded-lg p-2 text-gray-900 read-only:bg-gray-100" value={units || ''} onChange={e => setUnits(Math.max(0, parseInt(e.target.value) || 0))} />
+                  </div>
+                </div>
+                {quote && (
+                    <div className="p-3 bg-gray-50 rounded-xl text-sm space-y-1">
+                        <div className="flex justify-between"><span className="text-gray-500">มูลค่าคงเหลือ ({course.remainingUnits} ครั้ง)</span><span>฿{quote.value.toLocaleString()}</span></div>
+                        <div className="flex justify-between"><span className="text-gray-500">ราคาคอร์สใหม่ ({units} x ฿{quote.unitPrice.toLocaleString()})</span><span>฿{(units * quote.unitPrice).toLocaleString()}</span></div>
+                        {quote.fee > 0 && <div className="flex justify-between font-bold text-rose-600"><span>ชำระส่วนต่าง</span><span>฿{quote.fee.toLocaleString()}</span></div>}
+                        {quote.forfeited > 0 && <div className="flex justify-between text-amber-600"><span>มูลค่าที่ไม่ได้ใช้ (สละสิทธิ์)</span><span>฿{quote.forfeited.toLocaleString()}</span></div>}
+                    </div>
+                )}
+                {quote && quote.fee > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">ชำระส่วนต่างโดย</label>
+                      <select className="w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900" value={method} onChange={e => setMethod(e.target.value as PaymentMethod)}>
+                          {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+                      </select>
+                    </div>
+                )}
+              </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">เหตุผล</label>
+            <textarea required rows={2} className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 text-gray-900" value={reason} onChange={e => setReason(e.target.value)} />
+          </div>
+
+          {history.length > 0 && (
+              <div className="text-xs text-gray-500 space-y-1 border-t border-gray-100 pt-3">
+                  <p className="font-medium text-gray-700">ประวัติ</p>
+                  {history.map(a => (
+                      <p key={a.id}>
+                          {new Date(a.date).toLocaleDateString('th-TH')} · {COURSE_ADJUSTMENT_LABELS[a.type]}
+                          {a.type === 'convert'
+                              ? ` ${a.units} ครั้ง (มูลค่า ฿${a.value.toLocaleString()}${a.fee > 0 ? ` + ฿${a.fee.toLocaleString()}` : ''})`
+                              : ` ${nameOf(a.customerId)} → ${nameOf(a.targetCustomerId)}`}
+                          {' · '}{a.reason}{a.createdBy ? ` (${a.createdBy})` : ''}
+                      </p>
+                  ))}
+              </div>
+          )}
+
+          <div className="flex gap-3 mt-6">
+            <button type="button" onClick={onClose} className="flex-1 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">ยกเลิก</button>
+            <button
+              type="submit"
+              disabled={isSaving || (mode === 'convert' ? !targetCourseId || units < 1 : !targetCustomerId)}
+              className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 shadow-md shadow-rose-200 disabled:bg-gray-300"
+            >
+              {isSaving ? 'กำลังบันทึก...' : mode === 'transfer' ? 'ยืนยันโอนคอร์ส' : mode === 'share' ? 'เพิ่มผู้ใช้ร่วม' : quote && quote.fee > 0 ? `รับชำระ ฿${quote.fee.toLocaleString()} และแปลงคอร์ส` : 'ยืนยันแปลงคอร์ส'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CourseAdjustModal;
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { useClinic } from '../context/ClinicContext';
+import { Hourglass, FileSpreadsheet } from 'lucide-react';
+import { addDays, toISODate } from '../lib/schedule';
+import { getExpiredUnused, isCourseExpired } from '../lib/courses';
+
+const EXPIRING_SOON_DAYS = 30;
+
+const CourseExpiryReportPage: React.FC = () => {
+  const { customers, transactions, courseDefinitions, courseExtensions } = useClinic();
+  const [activeTab, setActiveTab] = useState<'expired' | 'expiring' | 'extensions'>('expired');
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const today = toISODate(new Date());
+
+  // --- Expired unused: grouped by the month the validity ended, which is when the revenue is recognised ---
+  const expiredRows = getExpiredUnused(customers, transactions, courseDefinitions)
+      .filter(r => r.course.expiryDate?.startsWith(month))
+      .sort((a, b) => (a.course.expiryDate || '').localeCompare(b.course.expiryDate || ''));
+  const expiredUnits = expiredRows.reduce((sum, r) => sum + r.units, 0);
+  const expiredValue = expiredRows.reduce((sum, r) => sum + r.value, 0);
+
+  // --- Expiring soon: still usable, remaining units, ends within the window ---
+  const soonLimit = addDays(today, EXPIRING_SOON_DAYS);
+  const expiringRows = customers.flatMap(customer => customer.activeCourses
+      .filter(cc => cc.active && cc.remainingUnits > 0 && cc.expiryDate && !isCourseExpired(cc) && cc.expiryDate.slice(0, 10) <= soonLimit)
+      .map(course => ({ customer, course })))
+      .sort((a, b) => (a.course.expiryDate || '').localeCompare(b.course.expiryDate || ''));
+
+  const monthExtensions = courseExtensions.filter(x => x.date.startsWith(month));
+  const courseLabel = (customerCourseId: string) => {
+      for (const customer of customers) {
+          const course = customer.activeCourses.find(c => c.id === customerCourseId);
+          if (course) return { customerName: customer.name, courseName: course.courseName };
+      }
+      return { customerName: '-', courseName: '-' };
+  };
+
+  const handleExport = () => {
+      const escape = (v: string | number) => `"${String(v).replace(/"/g, '""')}"`;
+      const rows = [
+          ['ลูกค้า', 'คอร์ส', 'วันหมดอายุ', 'ครั้งที่เหลือ', 'มูลค่า'],
+          ...expiredRows.map(r => [r.customer.name, r.course.courseName, (r.course.expiryDate || '').slice(0, 10), r.units, r.value]),
+          ['รวม', '', '', expiredUnits, expiredValue]
+      ];
+      // BOM so Excel opens the Thai text as UTF-8
+      const csv = '﻿' + rows.map(r => r.map(escape).join(',')).join('\n');
+      const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `expired_courses_${month}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+  };
+
+  const tabClass = (tab: typeof activeTab) =>
+      `px-6 py-2 rounded-t-lg font-medium transition flex items-center gap-2 ${activeTab === tab ? 'bg-white border-x border-t border-gray-200 text-rose-600 border-b-white -mb-px' : 'text-gray-500 hover:bg-gray-50'}`;
+
+  return (
+    <div className="p-4 md:p-8 w-full">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <Hourglass className="text-rose-500" />
+            คอร์สหมดอายุ (Course Expiry)
+        </h2>
+        <p className="text-gray-500 text-sm mt-1">ครั้งที่เหลือของคอร์สที่หมดอายุ สำหรับรับรู้รายได้ และคอร์สที่ใกล้หมดอายุ</p>
+      </div>
+
+      <div className="flex gap-2 mb-6 border-b border-gray-200 pb-1 overflow-x-auto">
+        <button onClick={() => setActiveTab('expired')} className={tabClass('expired')}>หมดอายุไม่ได้ใช้</button>
+        <button onClick={() => setActiveTab('expiring')} className={tabClass('expiring')}>ใกล้หมดอายุ ({expiringRows.length})</button>
+        <button onClick={() => setActiveTab('extensions')} className={tabClass('extensions')}>ประวัติการต่ออายุ</button>
+      </div>
+
+      {activeTab !== 'expiring' && (
+          <div className="flex flex-col md:flex-row gap-4 justify-between md:items-center mb-4">
+              <input
+                  type="month"
+                  className="border border-gray-200 rounded-xl p-2 bg-white text-gray-900 outline-none focus:ring-2 focus:ring-rose-500 w-full md:w-auto"
+                  value={month}
+                  onChange={e => setMonth(e.target.value)}
+              />
+              {activeTab === 'expired' && (
+                  <button
+                      onClick={handleExport}
+                      disabled={expiredRows.length === 0}
+                      className="bg-gray-900 text-white px-4 py-2 rounded-xl hover:bg-gray-800 transition shadow-md flex items-center gap-2 justify-center disabled:bg-gray-200 disabled:text-gray-400"
+                  >
+                      <FileSpreadsheet size={18} /> Export CSV
+                  </button>
+              )}
+          </div>
+      )}
+
+      {activeTab === 'expired' && (
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-x-auto">
+              <table className="w-full text-left whitespace-nowrap">
+                  <thead className="bg-gray-50 border-b border-gray-100">
+                      <tr>
+                          <th className="p-4 text-gray-500 font-medium">ลูกค้า</th>
+                          <th className="p-4 text-gray-500 font-medium">คอร์ส</th>
+                          <th className="p-4 text-gray-500 font-medium">วันหมดอายุ</th>
+                          <th className="p-4 text-gray-500 font-medium text-center">ครั้งที่เหลือ</th>
+                          <th className="p-4 text-gray-500 font-medium text-right">มูลค่า</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                      {expiredRows.map(r => (
+                          <tr key={r.course.id} className="hover:bg-gray-50">
+                              <td className="p-4 font-medium text-gray-800">{r.customer.name}</td>
+                              <td className="p-4 text-gray-600">{r.course.courseName}</td>
+                              <td className="p-4 text-gray-600">{new Date(r.course.expiryDate!).toLocaleDateString('th-TH')}</td>
+                              <td className="p-4 text-center text-gray-600">{r.units}/{r.course.totalUnits}</td>
+                              <td className="p-4 text-right font-bold text-gray-900">฿{r.value.toLocaleString()}</td>
+                          </tr>
+                      ))}
+                      {expiredRows.length === 0 && (
+                          <tr><td colSpan={5} className="p-8 text-center text-gray-400">ไม่มีคอร์สหมดอายุในเดือนนี้</td></tr>
+                      )}
+                  </tbody>
+                  {expiredRows.length > 0 && (
+                      <tfoot className="bg-gray-50 border-t border-gray-200">
+                          <tr>
+                              <td colSpan={3} className="p-4 font-bold text-gray-800">รวม</td>
+                              <td className="p-4 text-center font-bold text-gray-800">{expiredUnits}</td>
+                              <td className="p-4 text-right font-bold text-rose-600">฿{expiredValue.toLocaleString()}</td>
+                          </tr>
+                      </tfoot>
+                  )}
+              </table>
+          </div>
+      )}
+
+      {activeTab === 'expiring' && (
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-x-auto">
+              <table className="w-full text-left whitespace-nowrap">
+                  <thead className="bg-gray-50 border-b border-gray-100">
+                      <tr>
+                          <th className="p-4 text-gray-500 font-medium">ลูกค้า</th>
+                          <th className="p-4 text-gray-500 font-medium">โทร</th>
+                          <th className="p-4 text-gray-500 font-medium">คอร์ส</th>
+                          <th className="p-4 text-gray-500 font-medium">วันหมดอายุ</th>
+                          <th className="p-4 text-gray-500 font-medium text-center">ครั้งที่เหลือ</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                      {expiringRows.map(({ customer, course }) => (
+                          <tr key={course.id} className="hover:bg-gray-50">
+                              <td className="p-4 font-medium text-gray-800">{customer.name}</td>
+                              <td className="p-4 text-gray-600">{customer.phone}</td>
+                              <td className="p-4 text-gray-600">{course.courseName}</td>
+                              <td className="p-4 text-amber-600">{new Date(course.expiryDate!).toLocaleDateString('th-TH')}</td>
+                              <td className="p-4 text-center text-gray-600">{course.remainingUnits}/{course.totalUnits}</td>
+                          </tr>
+                      ))}
+                      {expiringRows.length === 0 && (
+                          <tr><td colSpan={5} className="p-8 text-center text-gray-400">ไม่มีคอร์สที่หมดอายุภายใน {EXPIRING_SOON_DAYS} วัน</td></tr>
+                      )}
+                  </tbody>
+              </table>
+          </div>
+      )}
+
+      {activeTab === 'extensions' && (
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-x-auto">
+              <table className="w-full text-left whitespace-nowrap">
+                  <thead className="bg-gray-50 border-b border-gray-100">
+                      <tr>
+                          <th className="p-4 text-gray-500 font-medium">วันที่</th>
+                          <th className="p-4 text-gray-500 font-medium">ลูกค้า / คอร์ส</th>
+                          <th className="p-4 text-gray-500 font-medium">หมดอายุเดิม → ใหม่</th>
+                          <th className="p-4 text-gray-500 font-medium text-right">ค่าต่ออายุ</th>
+                          <th className="p-4 text-gray-500 font-medium">เหตุผล</th>
+                          <th className="p-4 text-gray-500 font-medium">ผู้ทำรายการ</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                      {monthExtensions.map(x => {
+                          const label = courseLabel(x.customerCourseId);
+                          return (
+                              <tr key={x.id} className="hover:bg-gray-50">
+                                  <td className="p-4 text-gray-600">{new Date(x.date).toLocaleDateString('th-TH')}</td>
+                                  <td className="p-4 text-gray-800">{label.customerName} · <span className="text-gray-500">{label.courseName}</span></td>
+                                  <td className="p-4 text-gray-600">{x.previousExpiry ? new Date(x.previousExpiry).toLocaleDateString('th-TH') : '-'} → {new Date(x.newExpiry).toLocaleDateString('th-TH')}</td>
+                                  <td className="p-4 text-right font-medium text-gray-900">{x.fee > 0 ? `฿${x.fee.toLocaleString()}` : 'ฟรี'}</td>
+                                  <td className="p-4 text-gray-600 whitespace-normal">{x.reason}</td>
+                                  <td className="p-4 text-gray-500">{x.createdBy || '-'}</td>
+                              </tr>
+                          );
+                      })}
+                      {monthExtensions.length === 0 && (
+                          <tr><td colSpan={6} className="p-8 text-center text-gray-400">ไม่มีการต่ออายุในเดือนนี้</td></tr>
+                      )}
+                  </tbody>
+              </table>
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default CourseExpiryReportPage;
@@ -1,41 +1,79 @@
 import React, { useState } from 'react';
 import { useClinic } from '../context/ClinicContext';
-import { Search, Phone, Mail, UserPlus, ArrowLeft, Calendar, Package, Clock, Activity, Edit, Stethoscope, Trash2, Save } from 'lucide-react';
-import { Customer, CustomerCourse } from '../types';
+import { usePermission } from '../context/AuthContext';
+import { Search, Phone, Mail, UserPlus, ArrowLeft, Calendar, Package, Clock, Activity, Edit, Stethoscope, Trash2, Save, UserX, Wallet, AlertTriangle, CalendarPlus, ArrowRightLeft, Users, ClipboardList, ShieldAlert, FileSignature } from 'lucide-react';
+import { ClinicalChart, ContraindicationHit, Customer, CustomerCourse, PhotoUpload, Transaction } from '../types';
+import { allocateFefo, getUsableQuantity } from '../lib/inventory';
+import { getActiveDoctors, getStaffName } from '../lib/staff';
+import { countNoShows } from '../lib/schedule';
+import { getReceivables } from '../lib/receivables';
+import CollectPaymentModal from './CollectPaymentModal';
+import WalletPanel from './WalletPanel';
+import ExtendCourseModal from './ExtendCourseModal';
+import CourseAdjustModal from './CourseAdjustModal';
+import PhotoPicker from './PhotoPicker';
+import PhotoTimeline from './PhotoTimeline';
+import ChartForm from './ChartForm';
+import ChartModal from './ChartModal';
+import ContraindicationModal from './ContraindicationModal';
+import MedicalProfileFields from './MedicalProfileFields';
+import ConsentRequirement from './ConsentRequirement';
+import DuplicateCustomerWarning from './DuplicateCustomerWarning';
+import MergeCustomersModal from './MergeCustomersModal';
+import { courseSessionPrice, entitlementConsumables, getSharedCourses, isBundle, isCourseExpired } from '../lib/courses';
+import { emptyChart, isChartEmpty, templateForCategory } from '../lib/charting';
+import { courseSources, findContraindications, hasMedicalAlerts, MEDICAL_FLAG_LABELS, SAFETY_CONTEXT_LABELS } from '../lib/medical';
+import { DUPLICATE_REASON_LABELS, findDuplicatePairs, normalizePhone } from '../lib/customers';
 
 const CustomerPage: React.FC = () => {
-  const { customers, addCustomer, updateCustomer, deleteCustomer, useCourse, courseDefinitions, inventory } = useClinic();
+  const { customers, appointments, contraindicationOverrides, signedConsents, customerMerges, getConsentUrl, addCustomer, updateCustomer, deleteCustomer, useCourse, courseDefinitions, services, inventory, estimateDoctorFee, staff, transactions, payments, clinicProfile } = useClinic();
+  const { can } = usePermission();
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  // Looked up by id so course balances stay current after each change
+  const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
+  const selectedCustomer = customers.find(c => c.id === selectedCustomerId) || null;
   
   // Modals
   const [isCustomerModalOpen, setIsCustomerModalOpen] = useState(false);
   const [isUseCourseModalOpen, setIsUseCourseModalOpen] = useState(false);
   const [selectedCourseToUse, setSelectedCourseToUse] = useState<CustomerCourse | null>(null);
+  const [collectingFrom, setCollectingFrom] = useState<Transaction | null>(null);
+  const [extendingCourse, setExtendingCourse] = useState<CustomerCourse | null>(null);
+  const [adjustingCourse, setAdjustingCourse] = useState<CustomerCourse | null>(null);
+  const [chartRecordId, setChartRecordId] = useState<string | null>(null);
+  const [usageHits, setUsageHits] = useState<ContraindicationHit[]>([]); // Awaiting acknowledgement before the cut
+  const [merging, setMerging] = useState<{ customer: Customer; duplicateId?: string } | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
 
   // Editing State
   const [isEditing, setIsEditing] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
 
   // Form States
-  const [custForm, setCustForm] = useState({ name: '', phone: '', email: '', notes: '', birthDate: '', address: '' });
+  const [custForm, setCustForm] = useState({ name: '', phone: '', email: '', notes: '', birthDate: '', address: '', allergies: [] as string[], medications: [] as string[], conditions: [] as string[] });
   const [usageForm, setUsageForm] = useState({
       units: 1,
-      doctorName: 'หมอฟ้า',
+      entitlementId: '', // Bundles only
+      staffId: '',
       treatmentDetails: '',
       notes: ''
   });
+  const [usagePhotos, setUsagePhotos] = useState<PhotoUpload[]>([]);
+  const [usageChart, setUsageChart] = useState<ClinicalChart>(emptyChart('general'));
 
   // Filter Logic
+  // Phone search ignores formatting, so "0812345678" finds "081-234-5678"
+  const searchDigits = normalizePhone(searchTerm);
   const filtered = customers.filter(c =>
     (c.name || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (c.phone || '').includes(searchTerm)
+    (c.phone || '').includes(searchTerm) ||
+    (searchDigits.length >= 3 && normalizePhone(c.phone).includes(searchDigits))
   );
 
   const openAddModal = () => {
       setIsEditing(false);
       setEditingId(null);
-      setCustForm({ name: '', phone: '', email: '', notes: '', birthDate: '', address: '' });
+      setCustForm({ name: '', phone: '', email: '', notes: '', birthDate: '', address: '', allergies: [], medications: [], conditions: [] });
       setIsCustomerModalOpen(true);
   };
 
@@ -48,7 +86,10 @@ const CustomerPage: React.FC = () => {
           email: customer.email || '',
           notes: customer.notes || '',
           birthDate: customer.birthDate || '',
-          address: customer.address || ''
+          address: customer.address || '',
+          allergies: customer.allergies || [],
+          medications: customer.medications || [],
+          conditions: customer.conditions || []
       });
       setIsCustomerModalOpen(true);
   };
@@ -57,11 +98,6 @@ const CustomerPage: React.FC = () => {
     e.preventDefault();
     if (isEditing && editingId) {
         await updateCustomer(editingId, custForm);
-        if (selectedCustomer && selectedCustomer.id === editingId) {
-            // Refresh local selected view if currently viewing this customer
-             const updated = { ...selectedCustomer, ...custForm };
-             setSelectedCustomer(updated);
-        }
     } else {
         await addCustomer(custForm);
     }
@@ -71,29 +107,126 @@ const CustomerPage: React.FC = () => {
   const handleDeleteCustomer = async (id: string) => {
       if (window.confirm('คุณแน่ใจหรือไม่ที่จะลบข้อมูลลูกค้านี้? การลบจะไม่สามารถกู้คืนได้')) {
           await deleteCustomer(id);
-          if (selectedCustomer?.id === id) setSelectedCustomer(null);
+          if (selectedCustomerId === id) setSelectedCustomerId(null);
       }
   };
 
+  // Chart template follows the category of the service being performed (bundle lines only)
+  const chartTemplateFor = (course: CustomerCourse, entitlementId?: string) => {
+      const serviceId = course.entitlements?.find(ent => ent.entitlementId === entitlementId)?.serviceId;
+      return templateForCategory(services.find(s => s.id === serviceId)?.category);
+  };
+
   const handleUseCourseSubmit = (e: React.FormEvent) => {
       e.preventDefault();
+      if (!selectedCustomer || !selectedCourseToUse) return;
+      const courseDef = courseDefinitions.find(cd => cd.id === selectedCourseToUse.courseId);
+      const hits = findContraindications(selectedCustomer, courseSources(courseDef, services, inventory, usageForm.entitlementId || undefined));
+      if (hits.length > 0) setUsageHits(hits);
+      else submitCourseUsage();
+  };
+
+  const submitCourseUsage = (safetyNote?: string) => {
+      setUsageHits([]);
       if (selectedCustomer && selectedCourseToUse) {
+          // Photos upload in the background after the cut is saved
           useCourse(selectedCustomer.id, selectedCourseToUse.id, usageForm.units, {
               treatmentName: selectedCourseToUse.courseName,
-              doctorName: usageForm.doctorName,
+              staffId: usageForm.staffId,
+              doctorName: getStaffName(staff, usageForm.staffId),
               details: usageForm.treatmentDetails || 'ใช้บริการตามคอร์ส',
-              photos: []
-          });
+              photos: [],
+              chart: can('charts.manage') ? usageChart : undefined
+          }, { entitlementId: usageForm.entitlementId || undefined, photos: usagePhotos, safetyNote });
           setIsUseCourseModalOpen(false);
+          setUsagePhotos([]);
       }
   };
 
+  const openConsentPdf = async (path: string) => {
+      const url = await getConsentUrl(path);
+      if (url) window.open(url, '_blank');
+      else alert('ไม่สามารถเปิดไฟล์ได้');
+  };
+
   // --- Render Detail View ---
   if (selectedCustomer) {
+      const receivables = getReceivables(transactions, payments, selectedCustomer.id);
+      const overdueTotal = receivables.reduce((sum, r) => sum + r.overdue, 0);
+      const sharedCourses = getSharedCourses(customers, selectedCustomer.id);
+      const nameOf = (id: string) => customers.find(c => c.id === id)?.name || '-';
+      // sharedBy is set when the card is a course another customer shares with this one
+      const renderCourseCard = (course: CustomerCourse, sharedBy?: Customer) => {
+          const expired = isCourseExpired(course);
+          return (
+            <div key={course.id} className="bg-white p-5 rounded-xl border border-gray-200 shadow-sm hover:border-rose-300 transition relative overflow-hidden">
+                <div className={`absolute top-0 right-0 text-xs font-bold px-2 py-1 rounded-bl-lg ${expired ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}>
+                    {expired ? 'Expired' : 'Active'}
+                </div>
+                <h4 className="font-bold text-lg text-gray-800 mb-1">{course.courseName}</h4>
+                <p className={`text-sm mb-4 flex items-center gap-2 ${expired ? 'text-red-600' : 'text-gray-500'}`}>
+                    หมดอายุ: {course.expiryDate
+                        ? new Date(course.expiryDate).toLocaleDateString('th-TH')
+                        : course.validityMonths && course.validityStart === 'first_use' ? `${course.validityMonths} เดือนหลังใช้ครั้งแรก` : 'ไม่มีวันหมดอายุ'}
+                    {!sharedBy && course.expiryDate && can('pos.sell') && (
+                        <button onClick={() => setExtendingCourse(course)} className="text-xs text-rose-600 hover:text-rose-700 flex items-center gap-1"><CalendarPlus size={12} /> ต่ออายุ</button>
+                    )}
+                </p>
+                {sharedBy ? (
+                    <p className="text-xs text-gray-500 -mt-3 mb-4 flex items-center gap-1"><Users size={12} /> คอร์สของ {sharedBy.name}</p>
+                ) : (course.sharedWith || []).length > 0 && (
+                    <p className="text-xs text-gray-500 -mt-3 mb-4 flex items-center gap-1"><Users size={12} /> ใช้ร่วมกับ {course.sharedWith!.map(nameOf).join(', ')}</p>
+                )}
+                
+                {isBundle(course) && (
+                    <div className="space-y-1 mb-4">
+                        {course.entitlements!.map(ent => (
+                            <div key={ent.entitlementId} className="flex justify-between text-sm">
+                                <span className={ent.remainingUnits > 0 ? 'text-gray-700' : 'text-gray-400 line-through'}>{ent.serviceName}</span>
+                                <span className="font-medium text-gray-800">{ent.remainingUnits}/{ent.totalUnits}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex justify-between items-end">
+                    <div>
+                        <p className="text-xs text-gray-400 uppercase">คงเหลือ</p>
+                        <p className="text-2xl font-bold text-rose-600">{course.remainingUnits} <span className="text-sm text-gray-500 font-normal">/ {course.totalUnits} ครั้ง</span></p>
+                    </div>
+                    <div className="flex gap-2">
+                        {!sharedBy && can('pos.sell') && (
+                            <button
+                                onClick={() => setAdjustingCourse(course)}
+                                title="โอน / ใช้ร่วม / แปลงคอร์ส"
+                                className="border border-gray-200 text-gray-600 px-3 py-2 rounded-lg text-sm hover:bg-gray-50"
+                            >
+                                <ArrowRightLeft size={16} />
+                            </button>
+                        )}
+                        <button 
+                            disabled={expired}
+                            title={expired ? 'คอร์สหมดอายุแล้ว กรุณาต่ออายุก่อน' : undefined}
+                            onClick={() => {
+                                setSelectedCourseToUse(course);
+                                // Bundles start with no line selected so staff pick what was done
+                                setUsageForm({...usageForm, units: 1, entitlementId: '', staffId: usageForm.staffId || getActiveDoctors(staff)[0]?.id || '', treatmentDetails: `ใช้บริการ ${course.courseName}`});
+                                setUsageChart(emptyChart(chartTemplateFor(course)));
+                                setIsUseCourseModalOpen(true);
+                            }}
+                            className="bg-rose-500 text-white px-4 py-2 rounded-lg text-sm hover:bg-rose-600 transition shadow-md disabled:bg-gray-300 disabled:shadow-none"
+                        >
+                            ตัดคอร์ส
+                        </button>
+                    </div>
+                </div>
+            </div>
+          );
+      };
       return (
         <div className="p-4 md:p-8 w-full max-w-6xl mx-auto">
             <div className="flex justify-between items-center mb-6">
-                <button onClick={() => setSelectedCustomer(null)} className="flex items-center text-gray-500 hover:text-gray-800">
+                <button onClick={() => setSelectedCustomerId(null)} className="flex items-center text-gray-500 hover:text-gray-800">
                     <ArrowLeft size={20} className="mr-2" />
                     กลับไปหน้ารายชื่อ
                 </button>
@@ -104,12 +237,22 @@ const CustomerPage: React.FC = () => {
                      >
                         <Edit size={16} /> แก้ไขข้อมูล
                      </button>
-                     <button 
-                        onClick={() => handleDeleteCustomer(selectedCustomer.id)}
-                        className="flex items-center gap-2 bg-white border border-gray-200 px-3 py-2 rounded-lg hover:bg-red-50 text-red-600 shadow-sm"
-                     >
-                        <Trash2 size={16} /> ลบ
-                     </button>
+                     {can('customers.merge') && (
+                         <button
+                            onClick={() => setMerging({ customer: selectedCustomer })}
+                            className="flex items-center gap-2 bg-white border border-gray-200 px-3 py-2 rounded-lg hover:bg-gray-50 text-gray-700 shadow-sm"
+                         >
+                            <Users size={16} /> รวมรายชื่อซ้ำ
+                         </button>
+                     )}
+                     {can('customers.delete') && (
+                         <button 
+                            onClick={() => handleDeleteCustomer(selectedCustomer.id)}
+                            className="flex items-center gap-2 bg-white border border-gray-200 px-3 py-2 rounded-lg hover:bg-red-50 text-red-600 shadow-sm"
+                         >
+                            <Trash2 size={16} /> ลบ
+                         </button>
+                     )}
                 </div>
             </div>
 
@@ -125,18 +268,36 @@ const CustomerPage: React.FC = () => {
                             <div className="flex items-center gap-2"><Phone size={16}/> {selectedCustomer.phone}</div>
                             <div className="flex items-center gap-2"><Mail size={16}/> {selectedCustomer.email || '-'}</div>
                             <div className="flex items-center gap-2"><Calendar size={16}/> วันเกิด: {selectedCustomer.birthDate || '-'}</div>
+                            <div className={`flex items-center gap-2 ${countNoShows(appointments, selectedCustomer.id) > 0 ? 'text-red-600' : ''}`}><UserX size={16}/> ไม่มาตามนัด: {countNoShows(appointments, selectedCustomer.id)} ครั้ง</div>
                         </div>
                     </div>
                 </div>
-                <div className="bg-amber-50 p-4 rounded-xl border border-amber-100 w-full md:max-w-xs">
-                    <h4 className="font-semibold text-amber-800 text-sm mb-1">หมายเหตุ / แพ้ยา:</h4>
-                    <p className="text-amber-700 text-sm">{selectedCustomer.notes || '-'}</p>
+                <div className="w-full md:max-w-xs space-y-3">
+                    {hasMedicalAlerts(selectedCustomer) && (
+                        <div className="bg-red-50 p-4 rounded-xl border border-red-200">
+                            <h4 className="font-semibold text-red-800 text-sm mb-2 flex items-center gap-1"><ShieldAlert size={14} /> ข้อมูลทางการแพทย์</h4>
+                            {([['allergy', selectedCustomer.allergies], ['medication', selectedCustomer.medications], ['condition', selectedCustomer.conditions]] as const).map(([type, entries]) =>
+                                entries && entries.length > 0 ? (
+                                    <p key={type} className="text-red-700 text-sm"><span className="font-medium">{MEDICAL_FLAG_LABELS[type]}:</span> {entries.join(', ')}</p>
+                                ) : null
+                            )}
+                        </div>
+                    )}
+                    <div className="bg-amber-50 p-4 rounded-xl border border-amber-100">
+                        <h4 className="font-semibold text-amber-800 text-sm mb-1">หมายเหตุ:</h4>
+                        <p className="text-amber-700 text-sm">{selectedCustomer.notes || '-'}</p>
+                    </div>
                 </div>
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                 {/* Left: Active Courses */}
                 <div className="lg:col-span-2 space-y-6">
+                    {clinicProfile.blockOverdueCourseUsage && overdueTotal > 0 && (
+                        <div className="bg-red-50 border border-red-200 text-red-700 text-sm p-3 rounded-xl flex items-center gap-2">
+                            <AlertTriangle size={16} /> มียอดค้างชำระเกินกำหนด ฿{overdueTotal.toLocaleString()} ต้องรับชำระก่อนจึงจะตัดคอร์สได้
+                        </div>
+                    )}
                     <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
                         <Package className="text-rose-500" />
                         คอร์สคงเหลือ (Active Courses)
@@ -148,35 +309,22 @@ const CustomerPage: React.FC = () => {
                         </div>
                     ) : (
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                            {selectedCustomer.activeCourses.filter(c => c.active).map(course => (
-                                <div key={course.id} className="bg-white p-5 rounded-xl border border-gray-200 shadow-sm hover:border-rose-300 transition relative overflow-hidden">
-                                    <div className="absolute top-0 right-0 bg-green-100 text-green-700 text-xs font-bold px-2 py-1 rounded-bl-lg">
-                                        Active
-                                    </div>
-                                    <h4 className="font-bold text-lg text-gray-800 mb-1">{course.courseName}</h4>
-                                    <p className="text-sm text-gray-500 mb-4">หมดอายุ: {course.expiryDate || 'ไม่มีวันหมดอายุ'}</p>
-                                    
-                                    <div className="flex justify-between items-end">
-                                        <div>
-                                            <p className="text-xs text-gray-400 uppercase">คงเหลือ</p>
-                                            <p className="text-2xl font-bold text-rose-600">{course.remainingUnits} <span className="text-sm text-gray-500 font-normal">/ {course.totalUnits} ครั้ง</span></p>
-                                        </div>
-                                        <button 
-                                            onClick={() => {
-                                                setSelectedCourseToUse(course);
-                                                setUsageForm({...usageForm, treatmentDetails: `ใช้บริการ ${course.courseName}`});
-                                                setIsUseCourseModalOpen(true);
-                                            }}
-                                            className="bg-rose-500 text-white px-4 py-2 rounded-lg text-sm hover:bg-rose-600 transition shadow-md"
-                                        >
-                                            ตัดคอร์ส
-                                        </button>
-                                    </div>
-                                </div>
-                            ))}
+                            {selectedCustomer.activeCourses.filter(c => c.active).map(course => renderCourseCard(course))}
                         </div>
                     )}
 
+                    {sharedCourses.length > 0 && (
+                        <>
+                            <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2 mt-8">
+                                <Users className="text-rose-500" />
+                                คอร์สที่ใช้ร่วม (Shared Courses)
+                            </h3>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                {sharedCourses.map(({ owner, course }) => renderCourseCard(course, owner))}
+                            </div>
+                        </>
+                    )}
+
                     <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2 mt-8">
                         <Activity className="text-rose-500" />
                         ประวัติการรักษา (Treatment History)
@@ -198,11 +346,28 @@ const CustomerPage: React.FC = () => {
                                     <tr key={rec.id} className="hover:bg-gray-50">
                                         <td className="p-4 text-gray-600 text-sm">{rec.date.split('T')[0]}</td>
                                         <td className="p-4 font-medium text-gray-800">{rec.treatmentName}</td>
-                                        <td className="p-4 text-gray-600 text-sm max-w-xs truncate">{rec.details}</td>
+                                        <td className="p-4 text-gray-600 text-sm max-w-xs truncate">
+                                            {rec.details}
+                                            {rec.lotsUsed && rec.lotsUsed.some(l => l.lotNumber) && (
+                                                <p className="text-xs text-gray-400">
+                                                    Lot: {rec.lotsUsed.filter(l => l.lotNumber).map(l => `${inventory.find(i => i.id === l.inventoryItemId)?.name || ''} ${l.lotNumber}`).join(', ')}
+                                                </p>
+                                            )}
+                                        </td>
                                         <td className="p-4 text-gray-600 text-sm flex items-center gap-1">
-                                            <Stethoscope size={14} /> {rec.doctorName}
+                                            <Stethoscope size={14} /> {getStaffName(staff, rec.staffId, rec.doctorName)}
+                                            {!!rec.doctorFee && <span className="text-xs text-blue-600 ml-1">(DF ฿{rec.doctorFee.toLocaleString()})</span>}
+                                        </td>
+                                        <td className="p-4 text-rose-600 font-medium text-sm">
+                                            -{rec.unitsUsed} ครั้ง
+                                            <button
+                                                onClick={() => setChartRecordId(rec.id)}
+                                                title="บันทึกการรักษา (Chart)"
+                                                className={`ml-2 align-middle ${rec.chart ? 'text-rose-500' : 'text-gray-300'} hover:text-rose-600`}
+                                            >
+                                                <ClipboardList size={16} />
+                                            </button>
                                         </td>
-                                        <td className="p-4 text-rose-600 font-medium text-sm">-{rec.unitsUsed} ครั้ง</td>
                                     </tr>
                                 ))}
                                 {selectedCustomer.treatmentHistory.length === 0 && (
@@ -214,6 +379,8 @@ const CustomerPage: React.FC = () => {
                         </table>
                       </div>
                     </div>
+
+                    {can('photos.view') && <PhotoTimeline customer={selectedCustomer} />}
                 </div>
                 
                 {/* Right Column */}
@@ -223,13 +390,83 @@ const CustomerPage: React.FC = () => {
                          <p className="text-sm text-gray-500 mb-1">ที่อยู่</p>
                          <p className="text-gray-800 mb-3">{selectedCustomer.address || '-'}</p>
                     </div>
+                    <WalletPanel customerId={selectedCustomer.id} />
+                    {contraindicationOverrides.some(o => o.customerId === selectedCustomer.id) && (
+                        <div className="bg-white p-6 rounded-2xl border border-gray-200">
+                            <h3 className="font-bold text-gray-800 mb-3 flex items-center gap-2"><ShieldAlert size={16} className="text-red-500" /> ประวัติการยืนยันข้อห้าม</h3>
+                            <ul className="space-y-2 text-sm">
+                                {contraindicationOverrides.filter(o => o.customerId === selectedCustomer.id).slice(0, 10).map(o => (
+                                    <li key={o.id} className="border-b border-gray-100 pb-2 last:border-0">
+                                        <p className="text-gray-800">{SAFETY_CONTEXT_LABELS[o.context]}: {o.itemName}</p>
+                                        <p className="text-xs text-red-600">{o.hits.map(h => h.match).join(', ')}</p>
+                                        <p className="text-xs text-gray-500">{new Date(o.date).toLocaleString('th-TH')} · {o.acknowledgedBy || '-'} · {o.note}</p>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {customerMerges.some(m => m.survivorId === selectedCustomer.id) && (
+                        <div className="bg-white p-6 rounded-2xl border border-gray-200">
+                            <h3 className="font-bold text-gray-800 mb-3 flex items-center gap-2"><Users size={16} className="text-rose-500" /> รายชื่อที่รวมเข้ามา</h3>
+                            <ul className="space-y-2 text-sm">
+                                {customerMerges.filter(m => m.survivorId === selectedCustomer.id).map(m => (
+                                    <li key={m.id} className="border-b border-gray-100 pb-2 last:border-0">
+                                        <p className="text-gray-800">{m.mergedName} · {m.mergedPhone}</p>
+                                        <p className="text-xs text-gray-500">{new Date(m.date).toLocaleString('th-TH')} · {m.mergedBy || '-'} · {m.note}</p>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {signedConsents.some(c => c.customerId === selectedCustomer.id) && (
+                        <div className="bg-white p-6 rounded-2xl border border-gray-200">
+                            <h3 className="font-bold text-gray-800 mb-3 flex items-center gap-2"><FileSignature size={16} className="text-rose-500" /> ใบยินยอมที่ลงนาม</h3>
+                            <ul className="space-y-2 text-sm">
+                                {signedConsents.filter(c => c.customerId === selectedCustomer.id).slice(0, 10).map(c => (
+                                    <li key={c.id} className="border-b border-gray-100 pb-2 last:border-0 flex justify-between gap-2">
+                                        <div>
+                                            <p className="text-gray-800">{c.templateName} <span className="text-xs text-gray-400">ฉบับที่ {c.templateVersion}</span></p>
+                                            <p className="text-xs text-gray-500">{c.procedure} · {new Date(c.signedAt).toLocaleString('th-TH')}</p>
+                                        </div>
+                                        <button onClick={() => openConsentPdf(c.pdfPath)} className="text-xs text-rose-600 hover:underline shrink-0">เปิด PDF</button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    <div className="bg-white p-6 rounded-2xl border border-gray-200">
+                         <h3 className="font-bold text-gray-800 mb-1 flex items-center gap-2"><Wallet size={18} className="text-rose-500" /> ยอดค้างชำระ</h3>
+                         <p className={`text-2xl font-bold mb-4 ${overdueTotal > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                             ฿{receivables.reduce((sum, r) => sum + r.balance, 0).toLocaleString()}
+                             {overdueTotal > 0 && <span className="block text-xs font-medium">เกินกำหนด ฿{overdueTotal.toLocaleString()}</span>}
+                         </p>
+                         <div className="space-y-3">
+                             {receivables.map(r => (
+                                 <div key={r.transaction.id} className="border border-gray-100 rounded-xl p-3 text-sm">
+                                     <div className="flex justify-between">
+                                         <span className="text-gray-700">{r.transaction.items.map(i => i.name).join(', ')}</span>
+                                         <span className="font-bold text-gray-900">฿{r.balance.toLocaleString()}</span>
+                                     </div>
+                                     <p className="text-xs text-gray-400">
+                                         ซื้อ {new Date(r.transaction.date).toLocaleDateString('th-TH')}
+                                         {r.nextDueDate && ` · ครบกำหนดถัดไป ${new Date(r.nextDueDate).toLocaleDateString('th-TH')}`}
+                                     </p>
+                                     {r.overdue > 0 && <p className="text-xs text-red-600">เกินกำหนด ฿{r.overdue.toLocaleString()}</p>}
+                                     {can('pos.sell') && (
+                                         <button onClick={() => setCollectingFrom(r.transaction)} className="mt-2 text-xs px-3 py-1 rounded-lg bg-rose-50 text-rose-700 hover:bg-rose-100">รับชำระ</button>
+                                     )}
+                                 </div>
+                             ))}
+                             {receivables.length === 0 && <p className="text-sm text-gray-400">ไม่มียอดค้างชำระ</p>}
+                         </div>
+                    </div>
                 </div>
             </div>
             
              {/* Add/Edit Customer Modal (Reused here for editing in detail view) */}
             {isCustomerModalOpen && (
                 <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-                <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-md">
+                <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
                     <h3 className="text-xl font-bold mb-6">{isEditing ? 'แก้ไขข้อมูลลูกค้า' : 'เพิ่มข้อมูลลูกค้าใหม่'}</h3>
                     <form onSubmit={handleCustomerSubmit} className="space-y-4">
                     <input
@@ -246,6 +483,7 @@ const CustomerPage: React.FC = () => {
                         onChange={e => setCustForm({...custForm, phone: e.target.value})}
                         required
                     />
+                    <DuplicateCustomerWarning name={custForm.name} phone={custForm.phone} excludeId={editingId || undefined} />
                     <div className="grid grid-cols-2 gap-3">
                         <input
                             type="date"
@@ -268,11 +506,12 @@ const CustomerPage: React.FC = () => {
                         onChange={e => setCustForm({...custForm, address: e.target.value})}
                     />
                     <textarea
-                        placeholder="หมายเหตุ / ประวัติแพ้ยา"
+                        placeholder="หมายเหตุ"
                         className="w-full border border-gray-300 p-3 rounded-xl shadow-sm focus:ring-2 focus:ring-rose-500 outline-none h-24"
                         value={custForm.notes}
                         onChange={e => setCustForm({...custForm, notes: e.target.value})}
                     />
+                    <MedicalProfileFields value={custForm} onChange={profile => setCustForm({...custForm, ...profile})} />
                     <div className="flex gap-3 mt-6">
                         <button type="button" onClick={() => setIsCustomerModalOpen(false)} className="flex-1 py-2 border rounded-lg hover:bg-gray-50">ยกเลิก</button>
                         <button type="submit" className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 flex items-center justify-center gap-2">
@@ -294,11 +533,32 @@ const CustomerPage: React.FC = () => {
                         </div>
                         
                         <form onSubmit={handleUseCourseSubmit} className="space-y-4">
+                            {isBundle(selectedCourseToUse) && (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">บริการที่ใช้</label>
+                                    <select
+                                        required
+                                        className="w-full border border-gray-300 p-2 rounded-lg bg-white focus:ring-2 focus:ring-rose-500 text-gray-900"
+                                        value={usageForm.entitlementId}
+                                        onChange={e => {
+                                            setUsageForm({...usageForm, entitlementId: e.target.value, units: 1});
+                                            if (isChartEmpty(usageChart)) setUsageChart(emptyChart(chartTemplateFor(selectedCourseToUse, e.target.value)));
+                                        }}
+                                    >
+                                        <option value="">-- เลือกบริการ --</option>
+                                        {selectedCourseToUse.entitlements!.map(ent => (
+                                            <option key={ent.entitlementId} value={ent.entitlementId} disabled={ent.remainingUnits <= 0}>
+                                                {ent.serviceName} (เหลือ {ent.remainingUnits}/{ent.totalUnits})
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 mb-1">จำนวนครั้งที่ตัด</label>
                                     <input 
-                                        type="number" min="1" max={selectedCourseToUse.remainingUnits}
+                                        type="number" min="1" max={selectedCourseToUse.entitlements?.find(ent => ent.entitlementId === usageForm.entitlementId)?.remainingUnits ?? selectedCourseToUse.remainingUnits}
                                         className="w-full border border-gray-300 p-2 rounded-lg focus:ring-2 focus:ring-rose-500"
                                         value={usageForm.units}
                                         onChange={e => setUsageForm({...usageForm, units: parseInt(e.target.value)})}
@@ -308,16 +568,28 @@ const CustomerPage: React.FC = () => {
                                     <label className="block text-sm font-medium text-gray-700 mb-1">แพทย์ผู้ทำหัตถการ (DF)</label>
                                     <select 
                                         className="w-full border border-gray-300 p-2 rounded-lg bg-white focus:ring-2 focus:ring-rose-500 text-gray-900"
-                                        value={usageForm.doctorName}
-                                        onChange={e => setUsageForm({...usageForm, doctorName: e.target.value})}
+                                        value={usageForm.staffId}
+                                        onChange={e => setUsageForm({...usageForm, staffId: e.target.value})}
+                                        required
                                     >
-                                        <option value="หมอฟ้า">หมอฟ้า</option>
-                                        <option value="หมอเอก">หมอเอก</option>
-                                        <option value="หมอพิมพา">หมอพิมพา</option>
+                                        <option value="">-- เลือกแพทย์ --</option>
+                                        {getActiveDoctors(staff).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
                                     </select>
                                 </div>
                             </div>
 
+                            {(() => {
+                                const courseDef = courseDefinitions.find(cd => cd.id === selectedCourseToUse.courseId);
+                                const unitPrice = courseDef ? courseSessionPrice(courseDef, services, usageForm.entitlementId || undefined) : 0;
+                                const fee = estimateDoctorFee(usageForm.staffId, 'course', selectedCourseToUse.courseId, usageForm.units || 0, unitPrice);
+                                return (
+                                    <div className="flex justify-between items-center bg-blue-50 border border-blue-100 p-3 rounded-lg text-sm">
+                                        <span className="text-blue-700">ค่ามือแพทย์ (DF) คำนวณอัตโนมัติ</span>
+                                        <span className="font-bold text-blue-900">{fee.ruleId ? `฿${fee.amount.toLocaleString()}` : 'ไม่มีกฎค่ามือ'}</span>
+                                    </div>
+                                );
+                            })()}
+
                              {/* Inventory Impact Preview */}
                              <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 text-sm">
                                 <h4 className="font-semibold text-gray-700 mb-2 flex items-center gap-2">
@@ -326,16 +598,21 @@ const CustomerPage: React.FC = () => {
                                 <ul className="space-y-1 text-gray-600">
                                     {(() => {
                                         const courseDef = courseDefinitions.find(cd => cd.id === selectedCourseToUse.courseId);
-                                        if (!courseDef || !courseDef.consumables || courseDef.consumables.length === 0) {
+                                        const consumables = entitlementConsumables(courseDef, usageForm.entitlementId || undefined);
+                                        if (!consumables || consumables.length === 0) {
                                             return <li className="italic text-gray-400">- ไม่มีการผูกสินค้ากับคอร์สนี้ -</li>;
                                         }
-                                        return courseDef.consumables.map((con, idx) => {
+                                        return consumables.map((con, idx) => {
                                             const item = inventory.find(inv => inv.id === con.inventoryItemId);
                                             const totalToDeduct = con.quantityUsed * usageForm.units;
-                                            const isLowStock = (item?.quantity || 0) < totalToDeduct;
+                                            const isLowStock = (item ? getUsableQuantity(item) : 0) < totalToDeduct;
+                                            const lotNumbers = item ? allocateFefo(item, totalToDeduct).filter(a => a.lotNumber).map(a => a.lotNumber) : [];
                                             return (
                                                 <li key={idx} className={`flex justify-between ${isLowStock ? 'text-red-600 font-medium' : ''}`}>
-                                                    <span>{item?.name}</span>
+                                                    <span>
+                                                        {item?.name}
+                                                        {lotNumbers.length > 0 && <span className="ml-1 text-xs text-gray-400">(Lot {lotNumbers.join(', ')})</span>}
+                                                    </span>
                                                     <span>
                                                         {totalToDeduct} {item?.unit} 
                                                         {isLowStock && <span className="ml-2 text-xs bg-red-100 px-1 rounded">สต็อกไม่พอ</span>}
@@ -347,6 +624,17 @@ const CustomerPage: React.FC = () => {
                                 </ul>
                              </div>
 
+                             <ConsentRequirement
+                                customer={selectedCustomer}
+                                serviceIds={selectedCourseToUse.entitlements?.filter(ent => ent.entitlementId === usageForm.entitlementId).map(ent => ent.serviceId) || []}
+                                courseId={selectedCourseToUse.courseId}
+                                procedure={selectedCourseToUse.courseName}
+                             />
+
+                             {can('charts.manage') && <ChartForm value={usageChart} onChange={setUsageChart} />}
+
+                             {can('photos.view') && <PhotoPicker value={usagePhotos} onChange={setUsagePhotos} />}
+
                              <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">รายละเอียดการรักษา / บันทึก</label>
                                 <textarea 
@@ -363,6 +651,25 @@ const CustomerPage: React.FC = () => {
                     </div>
                 </div>
             )}
+
+            {collectingFrom && <CollectPaymentModal transaction={collectingFrom} onClose={() => setCollectingFrom(null)} />}
+            {extendingCourse && <ExtendCourseModal course={extendingCourse} onClose={() => setExtendingCourse(null)} />}
+            {usageHits.length > 0 && selectedCourseToUse && (
+                <ContraindicationModal
+                    customer={selectedCustomer}
+                    context="course_use"
+                    itemName={selectedCourseToUse.courseName}
+                    hits={usageHits}
+                    onConfirm={submitCourseUsage}
+                    onCancel={() => setUsageHits([])}
+                />
+            )}
+            {chartRecordId && (() => {
+                const record = selectedCustomer.treatmentHistory.find(rec => rec.id === chartRecordId);
+                return record ? <ChartModal record={record} onClose={() => setChartRecordId(null)} /> : null;
+            })()}
+            {adjustingCourse && <CourseAdjustModal owner={selectedCustomer} course={adjustingCourse} onClose={() => setAdjustingCourse(null)} />}
+            {merging && <MergeCustomersModal customer={merging.customer} onClose={() => setMerging(null)} onMerged={setSelectedCustomerId} />}
         </div>
       );
   }
@@ -390,14 +697,61 @@ const CustomerPage: React.FC = () => {
             <UserPlus size={18} />
             <span className="whitespace-nowrap">เพิ่มลูกค้า</span>
           </button>
+          {can('customers.merge') && (
+            <button
+              onClick={() => setShowDuplicates(!showDuplicates)}
+              className={`w-full md:w-auto px-4 py-2 rounded-xl flex items-center justify-center gap-2 border transition ${showDuplicates ? 'bg-rose-50 border-rose-200 text-rose-700' : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'}`}
+            >
+              <Users size={18} />
+              <span className="whitespace-nowrap">ตรวจรายชื่อซ้ำ</span>
+            </button>
+          )}
         </div>
       </div>
 
+      {showDuplicates && (() => {
+          const pairs = findDuplicatePairs(customers);
+          return (
+            <div className="bg-white rounded-2xl border border-gray-100 shadow-sm mb-6 overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="w-full text-left border-collapse">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-100 whitespace-nowrap">
+                      <th className="p-4 font-medium text-gray-500">ลูกค้า</th>
+                      <th className="p-4 font-medium text-gray-500">อาจซ้ำกับ</th>
+                      <th className="p-4 font-medium text-gray-500">เหตุผล</th>
+                      <th className="p-4 font-medium text-gray-500"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pairs.slice(0, 50).map(p => (
+                      <tr key={`${p.first.id}:${p.second.id}`} className="border-b border-gray-50 hover:bg-gray-50 transition">
+                        <td className="p-4 text-sm text-gray-800">{p.first.name} <span className="block text-xs text-gray-400">{p.first.phone}</span></td>
+                        <td className="p-4 text-sm text-gray-800">{p.second.name} <span className="block text-xs text-gray-400">{p.second.phone}</span></td>
+                        <td className="p-4 text-sm text-gray-600">{p.reasons.map(r => DUPLICATE_REASON_LABELS[r]).join(', ')}</td>
+                        <td className="p-4 text-right">
+                          <button onClick={() => setMerging({ customer: p.first, duplicateId: p.second.id })} className="px-3 py-1 text-sm bg-rose-500 text-white rounded-lg hover:bg-rose-600">รวม</button>
+                        </td>
+                      </tr>
+                    ))}
+                    {pairs.length === 0 && (
+                      <tr>
+                        <td colSpan={4} className="p-8 text-center text-gray-400">ไม่พบรายชื่อที่น่าจะซ้ำ</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              {pairs.length > 50 && <p className="text-xs text-gray-400 p-4">แสดง 50 คู่แรกจาก {pairs.length} คู่</p>}
+            </div>
+          );
+      })()}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filtered.map(c => (
           <div 
             key={c.id} 
-            onClick={() => setSelectedCustomer(c)}
+            onClick={() => setSelectedCustomerId(c.id)}
             className="bg-white p-6 rounded-2xl border border-gray-100 hover:shadow-lg transition duration-200 cursor-pointer group relative"
           >
             <div className="flex items-start justify-between mb-4">
@@ -433,12 +787,14 @@ const CustomerPage: React.FC = () => {
                     >
                         <Edit size={16} />
                     </button>
-                     <button 
-                        onClick={() => handleDeleteCustomer(c.id)}
-                        className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full"
-                    >
-                        <Trash2 size={16} />
-                    </button>
+                     {can('customers.delete') && (
+                         <button 
+                            onClick={() => handleDeleteCustomer(c.id)}
+                            className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full"
+                        >
+                            <Trash2 size={16} />
+                        </button>
+                     )}
                  </div>
             </div>
           </div>
@@ -454,7 +810,7 @@ const CustomerPage: React.FC = () => {
        {/* Add/Edit Customer Modal */}
        {isCustomerModalOpen && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-md">
+          <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
             <h3 className="text-xl font-bold mb-6">{isEditing ? 'แก้ไขข้อมูลลูกค้า' : 'เพิ่มข้อมูลลูกค้าใหม่'}</h3>
             <form onSubmit={handleCustomerSubmit} className="space-y-4">
               <input
@@ -470,6 +826,12 @@ const CustomerPage: React.FC = () => {
                 value={custForm.phone}
                 onChange={e => setCustForm({...custForm, phone: e.target.value})}
                 required
+              />
+              <DuplicateCustomerWarning
+                name={custForm.name}
+                phone={custForm.phone}
+                excludeId={editingId || undefined}
+                onSelect={isEditing ? undefined : c => { setIsCustomerModalOpen(false); setSelectedCustomerId(c.id); }}
               />
                <div className="grid grid-cols-2 gap-3">
                  <input
@@ -493,11 +855,12 @@ const CustomerPage: React.FC = () => {
                 onChange={e => setCustForm({...custForm, address: e.target.value})}
               />
               <textarea
-                placeholder="หมายเหตุ / ประวัติแพ้ยา"
+                placeholder="หมายเหตุ"
                 className="w-full border border-gray-300 p-3 rounded-xl shadow-sm focus:ring-2 focus:ring-rose-500 outline-none h-24"
                 value={custForm.notes}
                 onChange={e => setCustForm({...custForm, notes: e.target.value})}
               />
+              <MedicalProfileFields value={custForm} onChange={profile => setCustForm({...custForm, ...profile})} />
               <div className="flex gap-3 mt-6">
                 <button type="button" onClick={() => setIsCustomerModalOpen(false)} className="flex-1 py-2 border rounded-lg hover:bg-gray-50">ยกเลิก</button>
                 <button type="submit" className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 flex items-center justify-center gap-2">
@@ -508,6 +871,7 @@ const CustomerPage: React.FC = () => {
           </div>
         </div>
       )}
+      {merging && <MergeCustomersModal customer={merging.customer} duplicateId={merging.duplicateId} onClose={() => setMerging(null)} onMerged={setSelectedCustomerId} />}
     </div>
   );
 };
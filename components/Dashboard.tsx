@@ -1,7 +1,10 @@
 import React from 'react';
 import { useClinic } from '../context/ClinicContext';
+import { usePermission } from '../context/AuthContext';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, PieChart, Pie, Cell } from 'recharts';
 import { Calendar, DollarSign, Users, TrendingUp, FileText, Database, Download, Loader2 } from 'lucide-react';
+import { getRevenueTransactions } from '../lib/sales';
+import { getPaymentsFor, tracksBalance } from '../lib/receivables';
 
 const StatCard: React.FC<{ title: string; value: string; icon: React.ReactNode; color: string }> = ({ title, value, icon, color }) => (
   <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 flex items-start justify-between">
@@ -16,7 +19,9 @@ const StatCard: React.FC<{ title: string; value: string; icon: React.ReactNode;
 );
 
 const Dashboard: React.FC = () => {
-  const { appointments, services, customers, transactions, isLoadingData, seedDatabase, inventory } = useClinic();
+  const { appointments, services, customers, transactions, payments, isLoadingData, seedDatabase, inventory } = useClinic();
+  const { can } = usePermission();
+  const canViewRevenue = can('revenue.view');
 
   if (isLoadingData && customers.length === 0 && services.length === 0) {
       return <div className="p-8 text-center text-gray-500 flex flex-col items-center justify-center h-96 gap-4">
@@ -29,8 +34,9 @@ const Dashboard: React.FC = () => {
   const today = new Date().toISOString().split('T')[0];
   const todayApts = appointments.filter(a => a.date === today).length;
   
-  // Total Revenue from Transactions
-  const totalRevenue = transactions.reduce((sum, t) => sum + (t.totalAmount || 0), 0);
+  // Total Revenue from Transactions (refunds count as negative, voided sales are left out)
+  const revenueTransactions = getRevenueTransactions(transactions);
+  const totalRevenue = revenueTransactions.reduce((sum, t) => sum + (t.totalAmount || 0), 0);
   
   // Revenue by Day (Last 7 Days)
   const last7Days = [...Array(7)].map((_, i) => {
@@ -40,7 +46,7 @@ const Dashboard: React.FC = () => {
   });
 
   const revenueData = last7Days.map(date => {
-      const dayTotal = transactions
+      const dayTotal = revenueTransactions
           .filter(t => t.date.startsWith(date))
           .reduce((sum, t) => sum + t.totalAmount, 0);
       return {
@@ -49,10 +55,10 @@ const Dashboard: React.FC = () => {
       };
   });
 
-  // Payment Method Stats
-  const paymentMethods = transactions.reduce((acc, t) => {
-      const method = t.paymentMethod || 'Other';
-      acc[method] = (acc[method] || 0) + t.totalAmount;
+  // Payment Method Stats: money actually taken, so split bills count under each method
+  const paymentMethods = revenueTransactions.reduce((acc, t) => {
+      const lines = tracksBalance(t) ? getPaymentsFor(payments, t.id) : [{ method: t.paymentMethod || 'Other', amount: t.totalAmount }];
+      lines.forEach(line => { acc[line.method] = (acc[line.method] || 0) + line.amount; });
       return acc;
   }, {} as Record<string, number>);
   
@@ -101,12 +107,14 @@ const Dashboard: React.FC = () => {
           icon={<Calendar size={24} />}
           color="bg-blue-500"
         />
-        <StatCard
-          title="ยอดขายรวม (All Time)"
-          value={`฿${totalRevenue.toLocaleString()}`}
-          icon={<DollarSign size={24} />}
-          color="bg-emerald-500"
-        />
+        {canViewRevenue && (
+          <StatCard
+            title="ยอดขายรวม (All Time)"
+            value={`฿${totalRevenue.toLocaleString()}`}
+            icon={<DollarSign size={24} />}
+            color="bg-emerald-500"
+          />
+        )}
         <StatCard
           title="ฐานลูกค้า"
           value={`${customers.length} ท่าน`}
@@ -115,94 +123,98 @@ const Dashboard: React.FC = () => {
         />
         <StatCard
           title="จำนวนบิลขาย"
-          value={`${transactions.length} ใบ`}
+          value={`${revenueTransactions.filter(t => t.kind === 'sale').length} ใบ`}
           icon={<FileText size={24} />}
           color="bg-rose-500"
         />
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-        {/* Bar Chart */}
-        <div className="lg:col-span-2 bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
-          <h3 className="text-lg font-semibold mb-6 text-gray-800 flex items-center gap-2">
-             <TrendingUp size={20} className="text-rose-500" /> แนวโน้มรายได้ (7 วันล่าสุด)
-          </h3>
-          <div className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={revenueData}>
-                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b' }} dy={10} />
-                <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b' }} />
-                <Tooltip
-                    formatter={(value) => `฿${Number(value).toLocaleString()}`}
-                    cursor={{ fill: '#f8fafc' }}
-                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                />
-                <Bar dataKey="revenue" fill="#f43f5e" radius={[6, 6, 0, 0]} barSize={40} />
-              </BarChart>
-            </ResponsiveContainer>
+      {canViewRevenue && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Bar Chart */}
+          <div className="lg:col-span-2 bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+            <h3 className="text-lg font-semibold mb-6 text-gray-800 flex items-center gap-2">
+               <TrendingUp size={20} className="text-rose-500" /> แนวโน้มรายได้ (7 วันล่าสุด)
+            </h3>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={revenueData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b' }} dy={10} />
+                  <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b' }} />
+                  <Tooltip
+                      formatter={(value) => `฿${Number(value).toLocaleString()}`}
+                      cursor={{ fill: '#f8fafc' }}
+                      contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                  />
+                  <Bar dataKey="revenue" fill="#f43f5e" radius={[6, 6, 0, 0]} barSize={40} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
           </div>
-        </div>
 
-        {/* Pie Chart & Recent Sales */}
-        <div className="flex flex-col gap-6">
-            <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 flex-1">
-                <h3 className="text-lg font-semibold mb-4 text-gray-800">สัดส่วนการชำระเงิน</h3>
-                <div className="h-48">
-                    <ResponsiveContainer width="100%" height="100%">
-                        <PieChart>
-                            <Pie
-                                data={pieData}
-                                cx="50%"
-                                cy="50%"
-                                innerRadius={40}
-                                outerRadius={70}
-                                fill="#8884d8"
-                                paddingAngle={5}
-                                dataKey="value"
-                            >
-                                {pieData.map((entry, index) => (
-                                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                                ))}
-                            </Pie>
-                            <Tooltip formatter={(value) => `฿${Number(value).toLocaleString()}`} />
-                        </PieChart>
-                    </ResponsiveContainer>
-                </div>
-                <div className="flex flex-wrap gap-2 justify-center mt-2">
-                    {pieData.map((entry, index) => (
-                        <div key={index} className="flex items-center gap-1 text-xs text-gray-600">
-                            <div className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }}></div>
-                            {entry.name}
-                        </div>
-                    ))}
-                    {pieData.length === 0 && <p className="text-xs text-gray-400">ยังไม่มีข้อมูลการขาย</p>}
-                </div>
-            </div>
+          {/* Pie Chart & Recent Sales */}
+          <div className="flex flex-col gap-6">
+              <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 flex-1">
+                  <h3 className="text-lg font-semibold mb-4 text-gray-800">สัดส่วนการชำระเงิน</h3>
+                  <div className="h-48">
+                      <ResponsiveContainer width="100%" height="100%">
+                          <PieChart>
+                              <Pie
+                                  data={pieData}
+                                  cx="50%"
+                                  cy="50%"
+                                  innerRadius={40}
+                                  outerRadius={70}
+                                  fill="#8884d8"
+                                  paddingAngle={5}
+                                  dataKey="value"
+                              >
+                                  {pieData.map((entry, index) => (
+                                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                                  ))}
+                              </Pie>
+                              <Tooltip formatter={(value) => `฿${Number(value).toLocaleString()}`} />
+                          </PieChart>
+                      </ResponsiveContainer>
+                  </div>
+                  <div className="flex flex-wrap gap-2 justify-center mt-2">
+                      {pieData.map((entry, index) => (
+                          <div key={index} className="flex items-center gap-1 text-xs text-gray-600">
+                              <div className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }}></div>
+                              {entry.name}
+                          </div>
+                      ))}
+                      {pieData.length === 0 && <p className="text-xs text-gray-400">ยังไม่มีข้อมูลการขาย</p>}
+                  </div>
+              </div>
 
-            <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 flex-1">
-            <h3 className="text-lg font-semibold mb-4 text-gray-800">ธุรกรรมล่าสุด</h3>
-            <div className="space-y-4 overflow-y-auto max-h-60">
-                {transactions.slice(0, 5).map(tx => {
-                    const customer = customers.find(c => c.id === tx.customerId);
-                    return (
-                        <div key={tx.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl border border-gray-100">
-                            <div className="min-w-0">
-                                <p className="font-medium text-gray-900 text-sm truncate">{customer?.name || 'Unknown'}</p>
-                                <p className="text-xs text-gray-500">{new Date(tx.date).toLocaleTimeString('th-TH', {hour: '2-digit', minute: '2-digit'})}</p>
-                            </div>
-                            <div className="text-right flex-shrink-0">
-                                <p className="text-sm font-bold text-emerald-600">+฿{tx.totalAmount.toLocaleString()}</p>
-                                <span className="text-xs text-gray-400">{tx.paymentMethod}</span>
-                            </div>
-                        </div>
-                    )
-                })}
-                {transactions.length === 0 && <p className="text-center text-gray-400 text-sm">ยังไม่มีรายการขาย</p>}
-            </div>
-            </div>
+              <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 flex-1">
+              <h3 className="text-lg font-semibold mb-4 text-gray-800">ธุรกรรมล่าสุด</h3>
+              <div className="space-y-4 overflow-y-auto max-h-60">
+                  {transactions.slice(0, 5).map(tx => {
+                      const customer = customers.find(c => c.id === tx.customerId);
+                      return (
+                          <div key={tx.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl border border-gray-100">
+                              <div className="min-w-0">
+                                  <p className="font-medium text-gray-900 text-sm truncate">{customer?.name || 'Unknown'}</p>
+                                  <p className="text-xs text-gray-500">{new Date(tx.date).toLocaleTimeString('th-TH', {hour: '2-digit', minute: '2-digit'})}</p>
+                              </div>
+                              <div className="text-right flex-shrink-0">
+                                  <p className={`text-sm font-bold ${tx.status === 'voided' ? 'text-gray-400 line-through' : tx.totalAmount < 0 ? 'text-red-500' : 'text-emerald-600'}`}>
+                                      {tx.totalAmount < 0 ? '-' : '+'}฿{Math.abs(tx.totalAmount).toLocaleString()}
+                                  </p>
+                                  <span className="text-xs text-gray-400">{tx.paymentMethod}</span>
+                              </div>
+                          </div>
+                      )
+                  })}
+                  {transactions.length === 0 && <p className="text-center text-gray-400 text-sm">ยังไม่มีรายการขาย</p>}
+              </div>
+              </div>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -1,5 +1,9 @@
 import React, { useState } from 'react';
 import { Database, Copy, Check, ExternalLink, AlertTriangle } from 'lucide-react';
+import { Permission, rolesWith } from '../lib/permissions';
+
+// Role list for a storage policy, taken from the app's permissions so the two cannot drift apart
+const sqlRoles = (permission: Permission) => rolesWith(permission).map(role => `'${role}'`).join(', ');
 
 const DatabaseSetupGuide: React.FC = () => {
   const [copied, setCopied] = useState(false);
@@ -9,7 +13,7 @@ const DatabaseSetupGuide: React.FC = () => {
 create table if not exists inventory (
   id uuid default gen_random_uuid() primary key,
   name text not null,
-  quantity int default 0,
+  quantity decimal default 0,
   unit text,
   min_level int default 10,
   price_per_unit decimal default 0
@@ -94,7 +98,759 @@ create table if not exists appointments (
   doctor_name text
 );
 
--- 9. Disable RLS for initial development (Enable later for security)
+-- 9. Stock Movements Table (ledger; inventory quantity = sum of quantity)
+create table if not exists stock_movements (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  inventory_item_id uuid references inventory(id) on delete cascade,
+  movement_type text not null, -- receive | sale | course_usage | adjustment | wastage | transfer | return
+  quantity decimal not null,
+  reference_type text, -- transaction | treatment_record
+  reference_id uuid,
+  reason text,
+  created_by text
+);
+
+-- Carry existing inventory counts into the ledger as opening balances
+insert into stock_movements (inventory_item_id, movement_type, quantity, reason)
+select i.id, 'adjustment', i.quantity, 'Opening balance'
+from inventory i
+where i.quantity <> 0
+  and not exists (select 1 from stock_movements m where m.inventory_item_id = i.id);
+
+-- 10. Inventory Lots Table (lot quantity = sum of stock_movements for the lot)
+create table if not exists inventory_lots (
+  id uuid default gen_random_uuid() primary key,
+  inventory_item_id uuid references inventory(id) on delete cascade,
+  lot_number text not null,
+  expiry_date date,
+  received_date date default current_date
+);
+
+alter table stock_movements add column if not exists lot_id uuid references inventory_lots(id);
+alter table treatment_records add column if not exists lots_used jsonb;
+-- On-hand per item and lot, summed here so the app never has to load the whole ledger
+create or replace view stock_balances as
+  select inventory_item_id, lot_id, sum(quantity) as quantity
+  from stock_movements
+  group by inventory_item_id, lot_id;
+-- A stock count posts the difference from the ledger balance at the moment it is saved
+create or replace function set_stock_count(p_item_id uuid, p_quantity decimal, p_reason text, p_created_by text)
+returns decimal language plpgsql as $$
+declare
+  v_diff decimal;
+begin
+  perform pg_advisory_xact_lock(hashtext('stock:' || p_item_id::text));
+  select p_quantity - coalesce(sum(quantity), 0) into v_diff from stock_movements where inventory_item_id = p_item_id;
+  if v_diff <> 0 then
+    insert into stock_movements (inventory_item_id, movement_type, quantity, reason, created_by)
+    values (p_item_id, 'adjustment', v_diff, p_reason, p_created_by);
+  end if;
+  return v_diff;
+end;
+$$;
+
+-- 11. Suppliers & Purchase Orders
+create table if not exists suppliers (
+  id uuid default gen_random_uuid() primary key,
+  name text not null,
+  contact_name text,
+  phone text,
+  email text,
+  tax_id text,
+  notes text
+);
+
+create table if not exists purchase_orders (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  po_number text,
+  supplier_id uuid references suppliers(id),
+  status text default 'draft', -- draft | ordered | partially_received | received
+  order_date date,
+  expected_date date,
+  notes text
+);
+-- Numbers come from next_document_number('purchase_order', ...); the index catches any duplicate that slips through
+create unique index if not exists purchase_orders_po_number_key on purchase_orders (po_number);
+
+create table if not exists purchase_order_lines (
+  id uuid default gen_random_uuid() primary key,
+  purchase_order_id uuid references purchase_orders(id) on delete cascade,
+  inventory_item_id uuid references inventory(id),
+  quantity_ordered decimal not null,
+  quantity_received decimal default 0,
+  unit_cost decimal default 0
+);
+
+alter table inventory add column if not exists target_level decimal;
+alter table inventory add column if not exists preferred_supplier_id uuid references suppliers(id);
+alter table stock_movements add column if not exists unit_cost decimal;
+
+-- 12. Commission Rules & Doctor Fees
+create table if not exists commission_rules (
+  id uuid default gen_random_uuid() primary key,
+  doctor_name text, -- null = every doctor
+  target_type text default 'any', -- service | course | any
+  target_id uuid, -- null = every service/course
+  method text not null, -- flat | percent | tiered
+  value decimal default 0,
+  tiers jsonb,
+  tier_value_type text,
+  active boolean default true
+);
+
+create table if not exists doctor_fees (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  doctor_name text not null,
+  source_type text, -- treatment_record | transaction
+  source_id uuid,
+  item_name text,
+  units decimal,
+  unit_price decimal,
+  amount decimal,
+  rule_id uuid references commission_rules(id) on delete set null
+);
+
+-- 13. Staff (doctors, nurses, therapists)
+create table if not exists staff (
+  id uuid default gen_random_uuid() primary key,
+  name text not null,
+  role text default 'doctor', -- doctor | nurse | therapist
+  license_number text,
+  active boolean default true,
+  working_hours jsonb default '[]', -- [{ day: 0-6, start: 'HH:mm', end: 'HH:mm' }]
+  qualified_service_ids jsonb default '[]', -- empty = every service
+  created_at timestamp default now()
+);
+
+-- doctor_name stays on each row as a snapshot; staff_id is what reports group by
+alter table appointments add column if not exists staff_id uuid references staff(id);
+alter table treatment_records add column if not exists staff_id uuid references staff(id);
+alter table commission_rules add column if not exists staff_id uuid references staff(id);
+alter table doctor_fees add column if not exists staff_id uuid references staff(id);
+alter table doctor_fees add column if not exists item_id uuid; -- Service or course; refunds reverse fees by it
+
+-- Create staff for names already used in history and link the existing rows
+insert into staff (name)
+select distinct n.doctor_name from (
+  select doctor_name from appointments
+  union select doctor_name from treatment_records
+  union select doctor_name from commission_rules
+  union select doctor_name from doctor_fees
+) n
+where n.doctor_name is not null and not exists (select 1 from staff s where s.name = n.doctor_name);
+update appointments a set staff_id = s.id from staff s where a.staff_id is null and a.doctor_name = s.name;
+update treatment_records t set staff_id = s.id from staff s where t.staff_id is null and t.doctor_name = s.name;
+update commission_rules r set staff_id = s.id from staff s where r.staff_id is null and r.doctor_name = s.name;
+update doctor_fees f set staff_id = s.id from staff s where f.staff_id is null and f.doctor_name = s.name;
+
+-- 14. User Roles (admin | doctor | front_desk | accountant)
+-- The first account to sign in is made admin automatically; admins assign everyone else
+create table if not exists user_roles (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  email text,
+  role text not null default 'front_desk',
+  created_at timestamp default now()
+);
+-- Returns the caller's role, creating it on first sign-in; the lock serialises simultaneous first sign-ins
+create or replace function claim_user_role()
+returns text language plpgsql security definer set search_path = public as $$
+declare
+  v_role text;
+begin
+  if auth.uid() is null then
+    return null;
+  end if;
+  select role into v_role from user_roles where user_id = auth.uid();
+  if v_role is not null then
+    return v_role;
+  end if;
+  lock table user_roles in share row exclusive mode;
+  insert into user_roles (user_id, email, role)
+  values (auth.uid(), auth.jwt() ->> 'email', case when exists (select 1 from user_roles) then 'front_desk' else 'admin' end)
+  on conflict (user_id) do nothing;
+  select role into v_role from user_roles where user_id = auth.uid();
+  return v_role;
+end;
+$$;
+-- Roles are read-only from the app; changes go through set_user_role so nobody can promote themselves
+create or replace function current_user_role()
+returns text language sql stable security definer set search_path = public as $$
+  select role from user_roles where user_id = auth.uid();
+$$;
+alter table user_roles enable row level security;
+drop policy if exists "user roles read" on user_roles;
+create policy "user roles read" on user_roles for select to authenticated
+  using (user_id = auth.uid() or current_user_role() in (${sqlRoles('users.manage')}));
+create or replace function set_user_role(p_user_id uuid, p_role text)
+returns void language plpgsql security definer set search_path = public as $$
+begin
+  if coalesce(current_user_role(), '') not in (${sqlRoles('users.manage')}) then
+    raise exception 'Not allowed to change user roles';
+  end if;
+  if p_role not in ('admin', 'doctor', 'front_desk', 'accountant') then
+    raise exception 'Unknown role %', p_role;
+  end if;
+  lock table user_roles in share row exclusive mode;
+  if p_role <> 'admin' and not exists (select 1 from user_roles where role = 'admin' and user_id <> p_user_id) then
+    raise exception 'At least one admin is required';
+  end if;
+  update user_roles set role = p_role where user_id = p_user_id;
+end;
+$$;
+
+-- 15. Appointment Rooms (calendar columns)
+alter table appointments add column if not exists room text;
+
+-- 16. Holidays & Staff Leave
+create table if not exists holidays (
+  id uuid default gen_random_uuid() primary key,
+  date date not null,
+  staff_id uuid references staff(id) on delete cascade, -- null = whole clinic closed
+  reason text
+);
+
+-- 17. Appointment Lifecycle
+alter table appointments add column if not exists status_history jsonb default '[]';
+alter table appointments add column if not exists customer_course_id uuid references customer_courses(id) on delete set null;
+
+-- 18. Recurring Appointment Series
+alter table appointments add column if not exists series_id uuid;
+alter table appointments add column if not exists series_index integer;
+create index if not exists appointments_series_id_idx on appointments(series_id);
+
+-- 19. Notification Outbox (LINE / SMS / email)
+create table if not exists notifications (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  customer_id uuid references customers(id) on delete cascade,
+  kind text not null, -- appointment_day_before | appointment_two_hours | course_expiry | birthday | follow_up | payment_due | payment_overdue
+  channel text not null, -- line | sms | email
+  recipient text not null,
+  subject text,
+  body text not null,
+  status text default 'pending', -- pending | sending | sent | failed | cancelled
+  attempts int default 0,
+  scheduled_at timestamptz not null,
+  next_attempt_at timestamptz not null,
+  sent_at timestamptz,
+  last_error text,
+  source_id uuid, -- appointment, customer course or treatment record
+  dedupe_key text unique not null
+);
+alter table notifications add column if not exists claimed_at timestamptz; -- When a browser took the row for sending
+
+-- 20. Receipts & Tax Invoices
+create table if not exists clinic_settings (
+  id int primary key default 1 check (id = 1), -- single row
+  name text,
+  address text,
+  phone text,
+  tax_id text,
+  branch_code text default '00000', -- 00000 = head office
+  branch_name text default 'สำนักงานใหญ่',
+  vat_registered boolean default true,
+  vat_rate decimal default 7,
+  prices_include_vat boolean default true
+);
+
+-- Running numbers per document type, branch and year
+create table if not exists document_sequences (
+  doc_type text not null,
+  branch_code text not null,
+  year int not null,
+  last_number int not null default 0,
+  primary key (doc_type, branch_code, year)
+);
+
+create or replace function next_document_number(p_doc_type text, p_branch_code text, p_year int)
+returns int language sql as $$
+  insert into document_sequences (doc_type, branch_code, year, last_number)
+  values (p_doc_type, p_branch_code, p_year, 1)
+  on conflict (doc_type, branch_code, year)
+  do update set last_number = document_sequences.last_number + 1
+  returning last_number;
+$$;
+
+-- Documents are never deleted; voiding keeps the number on file
+create table if not exists receipts (
+  id uuid default gen_random_uuid() primary key,
+  transaction_id uuid references transactions(id),
+  doc_type text not null, -- receipt | tax_invoice
+  document_number text unique not null,
+  branch_code text not null,
+  year int not null,
+  issued_at timestamp default now(),
+  clinic jsonb, -- seller snapshot
+  customer_name text,
+  customer_tax jsonb, -- buyer snapshot for full tax invoices
+  items jsonb,
+  subtotal decimal,
+  vat_rate decimal,
+  vat_amount decimal,
+  total decimal,
+  payment_method text,
+  voided boolean default false,
+  voided_at timestamp,
+  void_reason text,
+  print_count int default 0
+);
+
+alter table customers add column if not exists tax_name text;
+alter table customers add column if not exists tax_id text;
+alter table customers add column if not exists tax_address text;
+alter table customers add column if not exists tax_branch text;
+
+-- 21. Voids & Refunds (sales are never deleted; refunds are negative rows linked to the sale)
+alter table transactions add column if not exists kind text default 'sale'; -- sale | refund | wallet (top-up or gift voucher money)
+alter table transactions add column if not exists status text default 'completed'; -- completed | voided
+alter table transactions add column if not exists refund_of uuid references transactions(id);
+alter table transactions add column if not exists reason text;
+alter table transactions add column if not exists created_by text;
+alter table transactions add column if not exists void_reason text;
+alter table transactions add column if not exists voided_at timestamp;
+alter table transactions add column if not exists voided_by text;
+alter table customer_courses add column if not exists transaction_id uuid references transactions(id);
+create index if not exists transactions_refund_of_idx on transactions (refund_of);
+-- Claimed with a conditional update before each refund, the way voiding claims status
+alter table transactions add column if not exists refund_version int default 0;
+
+-- 22. Promotions, Coupons & Discounts
+create table if not exists promotions (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  name text not null,
+  code text unique, -- coupon code; null = applies automatically
+  discount_type text not null, -- percent | amount
+  discount_value decimal not null,
+  target_type text default 'all', -- all | service | course | category
+  target_ids jsonb default '[]'::jsonb,
+  start_date date,
+  end_date date,
+  usage_limit int, -- null = unlimited
+  used_count int default 0,
+  active boolean default true
+);
+
+-- Takes (or with -1 gives back) one use; returns false once the limit is reached
+create or replace function redeem_promotion(p_id uuid, p_delta int)
+returns boolean language sql as $$
+  with updated as (
+    update promotions set used_count = greatest(used_count + p_delta, 0)
+    where id = p_id and (p_delta < 0 or usage_limit is null or used_count < usage_limit)
+    returning id
+  )
+  select exists (select 1 from updated);
+$$;
+
+alter table transactions add column if not exists subtotal decimal;
+alter table transactions add column if not exists discount_amount decimal default 0;
+alter table transactions add column if not exists promotion_discount decimal default 0;
+alter table transactions add column if not exists promotion_id uuid references promotions(id);
+alter table transactions add column if not exists promotion_name text;
+alter table transactions add column if not exists coupon_code text;
+alter table transactions add column if not exists discount_approved_by text;
+alter table clinic_settings add column if not exists max_discount_percent decimal default 10;
+
+-- 23. Split Payments, Deposits & Installments
+-- Every amount received against a sale: the counter payment(s) and later installments
+create table if not exists payments (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  transaction_id uuid references transactions(id),
+  customer_id uuid references customers(id),
+  method text not null, -- Cash | Credit Card | Transfer | Wallet
+  amount decimal not null,
+  received_by text,
+  note text
+);
+create index if not exists payments_transaction_idx on payments (transaction_id);
+
+-- Schedule for the unpaid part: [{"dueDate","amount"}]; null on sales made before split payments (paid in full)
+alter table transactions add column if not exists installments jsonb;
+alter table receipts add column if not exists payments jsonb;
+alter table receipts add column if not exists balance_due decimal;
+alter table clinic_settings add column if not exists block_overdue_course_usage boolean default false;
+-- Takes the next number and writes the document in one transaction, so a failed insert gives the number back.
+-- p_prefix is e.g. 'RC00000-2025-'; the running number is appended zero-padded to 6 digits.
+create or replace function issue_document(p_doc_type text, p_branch_code text, p_year int, p_prefix text, p_receipt jsonb)
+returns receipts language sql as $$
+  insert into receipts (transaction_id, doc_type, document_number, branch_code, year, clinic, customer_name, customer_tax,
+                        items, subtotal, vat_rate, vat_amount, total, payment_method, payments, balance_due)
+  values (
+    (p_receipt ->> 'transaction_id')::uuid, p_doc_type, p_prefix || lpad(next_document_number(p_doc_type, p_branch_code, p_year)::text, 6, '0'),
+    p_branch_code, p_year, p_receipt -> 'clinic', p_receipt ->> 'customer_name', p_receipt -> 'customer_tax', p_receipt -> 'items',
+    (p_receipt ->> 'subtotal')::decimal, (p_receipt ->> 'vat_rate')::decimal, (p_receipt ->> 'vat_amount')::decimal,
+    (p_receipt ->> 'total')::decimal, p_receipt ->> 'payment_method', p_receipt -> 'payments', (p_receipt ->> 'balance_due')::decimal
+  )
+  returning *;
+$$;
+
+-- 24. Customer Wallet & Gift Vouchers
+create table if not exists gift_vouchers (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  code text unique not null,
+  amount decimal not null,
+  expires_at date, -- last day to redeem
+  sold_method text, -- Cash | Credit Card | Transfer
+  sold_by text,
+  buyer_name text,
+  buyer_customer_id uuid references customers(id),
+  redeemed_by uuid references customers(id),
+  redeemed_at timestamp,
+  voided boolean default false,
+  void_reason text,
+  note text
+);
+
+-- Ledger of stored value: credits are positive, spending is negative; balance is the sum of unexpired credit left
+create table if not exists wallet_entries (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  customer_id uuid references customers(id),
+  type text not null, -- topup | bonus | voucher | spend | refund
+  amount decimal not null,
+  expires_at date, -- null = never expires
+  method text, -- how a top-up was paid
+  transaction_id uuid references transactions(id),
+  voucher_id uuid references gift_vouchers(id),
+  note text,
+  created_by text
+);
+create index if not exists wallet_entries_customer_idx on wallet_entries (customer_id);
+alter table gift_vouchers add column if not exists transaction_id uuid references transactions(id);
+
+-- Unexpired credit left after replaying the ledger; each spend takes the soonest-expiring credit valid on the day
+create or replace function wallet_balance(p_customer_id uuid)
+returns decimal language plpgsql as $$
+declare
+  e record;
+  amounts decimal[] := '{}';
+  expiries date[] := '{}';
+  i int;
+  best int;
+  due decimal;
+  take decimal;
+  balance decimal := 0;
+begin
+  for e in select amount, expires_at, created_at from wallet_entries where customer_id = p_customer_id order by created_at loop
+    if e.amount > 0 then
+      amounts := amounts || e.amount;
+      expiries := expiries || e.expires_at;
+    else
+      due := -e.amount;
+      while due > 0 loop
+        best := null;
+        for i in 1 .. coalesce(array_length(amounts, 1), 0) loop
+          if amounts[i] > 0 and (expiries[i] is null or expiries[i] >= e.created_at::date)
+             and (best is null or coalesce(expiries[i], '9999-12-31') < coalesce(expiries[best], '9999-12-31')) then
+            best := i;
+          end if;
+        end loop;
+        exit when best is null;
+        take := least(due, amounts[best]);
+        amounts[best] := amounts[best] - take;
+        due := due - take;
+      end loop;
+    end if;
+  end loop;
+  for i in 1 .. coalesce(array_length(amounts, 1), 0) loop
+    if expiries[i] is null or expiries[i] >= current_date then
+      balance := balance + amounts[i];
+    end if;
+  end loop;
+  return balance;
+end;
+$$;
+
+-- Checks the balance and writes the spend in one step; the lock keeps two counters from spending the same credit
+create or replace function spend_wallet(p_customer_id uuid, p_amount decimal, p_transaction_id uuid, p_created_by text)
+returns boolean language plpgsql as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('wallet:' || p_customer_id::text));
+  if p_amount <= 0 or wallet_balance(p_customer_id) < p_amount then
+    return false;
+  end if;
+  insert into wallet_entries (customer_id, type, amount, transaction_id, created_by)
+  values (p_customer_id, 'spend', -p_amount, p_transaction_id, p_created_by);
+  return true;
+end;
+$$;
+-- One row per customer with a ledger, so balances don't depend on how many entries the app loads
+create or replace view wallet_balances as
+  select customer_id, wallet_balance(customer_id) as balance
+  from (select distinct customer_id from wallet_entries where customer_id is not null) c;
+
+-- 25. Course Validity & Extensions
+alter table courses add column if not exists validity_months int; -- null = never expires
+alter table courses add column if not exists validity_start text default 'purchase'; -- purchase | first_use
+-- Copied onto each sold instance so later catalog edits don't change what the customer bought
+alter table customer_courses add column if not exists validity_months int;
+alter table customer_courses add column if not exists validity_start text;
+
+create table if not exists course_extensions (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  customer_course_id uuid references customer_courses(id),
+  customer_id uuid references customers(id),
+  previous_expiry timestamp,
+  new_expiry date not null,
+  fee decimal default 0, -- 0 = free extension (manager only)
+  transaction_id uuid references transactions(id),
+  reason text,
+  created_by text
+);
+
+-- 26. Course Transfer, Sharing & Conversion
+alter table customer_courses add column if not exists shared_with uuid[] default '{}'; -- customers who may also use this course
+
+create table if not exists course_adjustments (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  type text not null, -- transfer | share | unshare | convert
+  customer_course_id uuid references customer_courses(id),
+  customer_id uuid references customers(id), -- owner before the change
+  target_customer_id uuid references customers(id),
+  new_customer_course_id uuid references customer_courses(id),
+  target_course_id uuid references courses(id),
+  units int default 0,
+  value decimal default 0, -- remaining value carried into a conversion
+  fee decimal default 0,
+  transaction_id uuid references transactions(id),
+  reason text,
+  created_by text
+);
+
+-- 27. Bundled Courses
+-- Entitlement lines: [{"id","serviceId","units","consumables"}]; empty = single-counter course
+alter table courses add column if not exists entitlements jsonb default '[]';
+-- Per-line balances of a sold bundle: [{"entitlementId","serviceId","serviceName","totalUnits","remainingUnits"}]
+alter table customer_courses add column if not exists entitlements jsonb;
+
+-- 28. Treatment Photos
+-- Files live in the private Storage bucket 'treatment-photos' (created below); rows hold their paths
+create table if not exists treatment_photos (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  treatment_record_id uuid references treatment_records(id) on delete cascade,
+  customer_id uuid references customers(id),
+  kind text not null, -- before | after
+  path text not null,
+  thumbnail_path text not null,
+  marketing_consent boolean default false,
+  uploaded_by text
+);
+create index if not exists treatment_photos_customer_idx on treatment_photos (customer_id);
+insert into storage.buckets (id, name, public) values ('treatment-photos', 'treatment-photos', false) on conflict (id) do nothing;
+-- Only roles with photos.view can read, upload or delete the files
+drop policy if exists "treatment photos by role" on storage.objects;
+create policy "treatment photos by role" on storage.objects for all to authenticated
+  using (bucket_id = 'treatment-photos' and exists (select 1 from user_roles where user_id = auth.uid() and role in (${sqlRoles('photos.view')})))
+  with check (bucket_id = 'treatment-photos' and exists (select 1 from user_roles where user_id = auth.uid() and role in (${sqlRoles('photos.view')})));
+
+-- 29. Clinical Charting
+-- SOAP note plus injection points / laser settings / vitals: {"template","subjective",...,"injections":[{"zone","inventoryItemId","lotNumber","units"}]}
+alter table treatment_records add column if not exists chart jsonb;
+create index if not exists treatment_records_chart_idx on treatment_records using gin (chart jsonb_path_ops);
+
+-- 30. Medical Safety Checks
+alter table customers add column if not exists allergies text[] default '{}';
+alter table customers add column if not exists medications text[] default '{}';
+alter table customers add column if not exists conditions text[] default '{}';
+-- Rules: [{"id","type":"allergy|medication|condition","term","reason"}]
+alter table services add column if not exists contraindications jsonb default '[]';
+alter table inventory add column if not exists contraindications jsonb default '[]';
+-- Who proceeded despite a contraindication warning, and why
+create table if not exists contraindication_overrides (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  customer_id uuid references customers(id),
+  context text not null, -- appointment | sale | course_use
+  item_name text,
+  hits jsonb not null default '[]',
+  note text not null,
+  acknowledged_by text
+);
+create index if not exists contraindication_overrides_customer_idx on contraindication_overrides (customer_id);
+alter table contraindication_overrides add column if not exists reference_type text; -- appointment | transaction | treatment_record
+alter table contraindication_overrides add column if not exists reference_id uuid;
+
+-- 31. Consent Forms
+-- Templates attach to services, service categories or courses; editing the body bumps the version
+create table if not exists consent_templates (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  updated_at timestamp,
+  name text not null,
+  body text not null, -- supports {{customerName}} {{procedure}} {{date}} {{clinicName}}
+  service_ids uuid[] default '{}',
+  categories text[] default '{}',
+  course_ids uuid[] default '{}',
+  version int default 1,
+  valid_months int, -- re-sign after this many months; null = until the text changes
+  active boolean default true
+);
+-- One row per signature; the PDF lives in the private Storage bucket 'consent-forms'
+create table if not exists signed_consents (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  template_id uuid references consent_templates(id),
+  template_version int not null,
+  template_name text,
+  customer_id uuid references customers(id),
+  procedure text,
+  pdf_path text not null,
+  appointment_id uuid references appointments(id) on delete set null,
+  witnessed_by text
+);
+create index if not exists signed_consents_customer_idx on signed_consents (customer_id);
+alter table treatment_records add column if not exists consent_ids uuid[] default '{}';
+-- Signed consents are immutable: re-signing adds a new row instead
+-- (customer_id may change when a duplicate customer is merged; appointment_id is cleared when the appointment is deleted)
+create or replace function block_signed_consent_update() returns trigger as $$
+begin
+  if (to_jsonb(new) - 'customer_id' - 'appointment_id') is distinct from (to_jsonb(old) - 'customer_id' - 'appointment_id')
+     or (new.appointment_id is not null and new.appointment_id is distinct from old.appointment_id) then
+    raise exception 'Signed consents cannot be modified';
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+drop trigger if exists signed_consents_immutable on signed_consents;
+create trigger signed_consents_immutable before update on signed_consents
+  for each row execute function block_signed_consent_update();
+-- Nor deleted, except by reset_signed_consents() below
+create or replace function block_signed_consent_delete() returns trigger as $$
+begin
+  if coalesce(current_setting('app.allow_consent_delete', true), '') <> 'on' then
+    raise exception 'Signed consents cannot be deleted';
+  end if;
+  return old;
+end;
+$$ language plpgsql;
+drop trigger if exists signed_consents_no_delete on signed_consents;
+create trigger signed_consents_no_delete before delete on signed_consents
+  for each row execute function block_signed_consent_delete();
+-- Used by "reset data"; the setting only lasts for this transaction
+create or replace function reset_signed_consents() returns void as $$
+begin
+  if not exists (select 1 from user_roles where user_id = auth.uid() and role in (${sqlRoles('data.reset')})) then
+    raise exception 'Not allowed to reset signed consents';
+  end if;
+  perform set_config('app.allow_consent_delete', 'on', true);
+  delete from signed_consents where true;
+end;
+$$ language plpgsql security definer set search_path = public;
+insert into storage.buckets (id, name, public) values ('consent-forms', 'consent-forms', false) on conflict (id) do nothing;
+-- Upload and read only; no update or delete policy, so stored PDFs can't be replaced
+drop policy if exists "consent forms insert" on storage.objects;
+create policy "consent forms insert" on storage.objects for insert to authenticated
+  with check (bucket_id = 'consent-forms' and exists (select 1 from user_roles where user_id = auth.uid() and role in (${sqlRoles('customers.view')})));
+drop policy if exists "consent forms read" on storage.objects;
+create policy "consent forms read" on storage.objects for select to authenticated
+  using (bucket_id = 'consent-forms' and exists (select 1 from user_roles where user_id = auth.uid() and role in (${sqlRoles('customers.view')})));
+
+-- 32. Customer Merge
+-- A merged duplicate stays in the table (hidden) so old references and the audit trail still resolve
+alter table customers add column if not exists merged_into uuid references customers(id);
+alter table customers add column if not exists merged_at timestamp;
+create table if not exists customer_merges (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp default now(),
+  survivor_id uuid references customers(id),
+  merged_id uuid references customers(id),
+  merged_name text,
+  merged_phone text,
+  merged_snapshot jsonb, -- the duplicate's profile before the merge
+  moved jsonb default '{}', -- rows re-pointed per table, e.g. {"appointments": 3}
+  note text not null,
+  merged_by text
+);
+-- Moves everything in one transaction, so a failure part-way leaves both records untouched.
+-- p_profile holds the survivor's combined details (snake_case columns) worked out by the app.
+create or replace function merge_customers(p_survivor uuid, p_duplicate uuid, p_profile jsonb, p_note text, p_by text)
+returns jsonb language plpgsql security definer set search_path = public as $$
+declare
+  v_dup customers%rowtype;
+  v_ref text[];
+  v_count int;
+  v_moved jsonb := '{}';
+begin
+  if not exists (select 1 from user_roles where user_id = auth.uid() and role in (${sqlRoles('customers.merge')})) then
+    raise exception 'Not allowed to merge customers';
+  end if;
+  if p_survivor = p_duplicate then
+    raise exception 'Cannot merge a customer into itself';
+  end if;
+  if coalesce(trim(p_note), '') = '' then
+    raise exception 'A reason is required';
+  end if;
+  perform 1 from customers where id = p_survivor and merged_into is null for update;
+  if not found then
+    raise exception 'Customer to keep not found or already merged';
+  end if;
+  select * into v_dup from customers where id = p_duplicate and merged_into is null for update;
+  if not found then
+    raise exception 'Duplicate customer not found or already merged';
+  end if;
+
+  -- Every column that points at a customer
+  foreach v_ref slice 1 in array array[
+    ['customer_courses', 'customer_id'],
+    ['treatment_records', 'customer_id'],
+    ['appointments', 'customer_id'],
+    ['transactions', 'customer_id'],
+    ['payments', 'customer_id'],
+    ['wallet_entries', 'customer_id'],
+    ['treatment_photos', 'customer_id'],
+    ['notifications', 'customer_id'],
+    ['course_extensions', 'customer_id'],
+    ['course_adjustments', 'customer_id'],
+    ['course_adjustments', 'target_customer_id'],
+    ['contraindication_overrides', 'customer_id'],
+    ['signed_consents', 'customer_id'],
+    ['gift_vouchers', 'buyer_customer_id'],
+    ['gift_vouchers', 'redeemed_by']
+  ] loop
+    execute format('update %I set %I = $1 where %I = $2', v_ref[1], v_ref[2], v_ref[2]) using p_survivor, p_duplicate;
+    get diagnostics v_count = row_count;
+    if v_count > 0 then
+      v_moved := v_moved || jsonb_build_object(case when v_ref[2] = 'customer_id' then v_ref[1] else v_ref[1] || '.' || v_ref[2] end, v_count);
+    end if;
+  end loop;
+  -- Shared-course member lists hold customer ids too; nobody stays a member of a course they now own
+  update customer_courses
+    set shared_with = array(select distinct m from unnest(array_replace(shared_with, p_duplicate, p_survivor)) m where m <> customer_id)
+    where p_duplicate = any(shared_with) or customer_id = any(shared_with);
+  get diagnostics v_count = row_count;
+  if v_count > 0 then
+    v_moved := v_moved || jsonb_build_object('customer_courses.shared_with', v_count);
+  end if;
+
+  update customers set
+    email = p_profile ->> 'email',
+    birth_date = nullif(p_profile ->> 'birth_date', '')::date,
+    line_id = p_profile ->> 'line_id',
+    address = p_profile ->> 'address',
+    notes = p_profile ->> 'notes',
+    allergies = array(select jsonb_array_elements_text(coalesce(p_profile -> 'allergies', '[]'))),
+    medications = array(select jsonb_array_elements_text(coalesce(p_profile -> 'medications', '[]'))),
+    conditions = array(select jsonb_array_elements_text(coalesce(p_profile -> 'conditions', '[]')))
+  where id = p_survivor;
+  update customers set merged_into = p_survivor, merged_at = now() where id = p_duplicate;
+  insert into customer_merges (survivor_id, merged_id, merged_name, merged_phone, merged_snapshot, moved, note, merged_by)
+  values (p_survivor, p_duplicate, v_dup.name, v_dup.phone, jsonb_build_object(
+    'name', v_dup.name, 'phone', v_dup.phone, 'email', v_dup.email, 'birthDate', v_dup.birth_date, 'lineId', v_dup.line_id,
+    'address', v_dup.address, 'notes', v_dup.notes, 'allergies', v_dup.allergies, 'medications', v_dup.medications, 'conditions', v_dup.conditions
+  ), v_moved, trim(p_note), p_by);
+  return v_moved;
+end;
+$$;
+
+-- 33. Disable RLS for initial development (Enable later for security)
 alter table inventory disable row level security;
 alter table services disable row level security;
 alter table courses disable row level security;
@@ -103,6 +859,30 @@ alter table customer_courses disable row level security;
 alter table treatment_records disable row level security;
 alter table transactions disable row level security;
 alter table appointments disable row level security;
+alter table stock_movements disable row level security;
+alter table inventory_lots disable row level security;
+alter table suppliers disable row level security;
+alter table purchase_orders disable row level security;
+alter table purchase_order_lines disable row level security;
+alter table commission_rules disable row level security;
+alter table doctor_fees disable row level security;
+alter table staff disable row level security;
+alter table holidays disable row level security;
+alter table notifications disable row level security;
+alter table clinic_settings disable row level security;
+alter table document_sequences disable row level security;
+alter table receipts disable row level security;
+alter table promotions disable row level security;
+alter table payments disable row level security;
+alter table gift_vouchers disable row level security;
+alter table wallet_entries disable row level security;
+alter table course_extensions disable row level security;
+alter table course_adjustments disable row level security;
+alter table treatment_photos disable row level security;
+alter table contraindication_overrides disable row level security;
+alter table consent_templates disable row level security;
+alter table signed_consents disable row level security;
+alter table customer_merges disable row level security;
 `;
 
   const handleCopy = () => {
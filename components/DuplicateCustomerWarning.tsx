@@ -0,0 +1,43 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import { useClinic } from '../context/ClinicContext';
+import { Customer } from '../types';
+import { DUPLICATE_REASON_LABELS, findDuplicateCustomers } from '../lib/customers';
+
+interface DuplicateCustomerWarningProps {
+  name: string;
+  phone: string;
+  excludeId?: string; // The customer being edited
+  onSelect?: (customer: Customer) => void; // Use the existing record instead
+}
+
+// Live check while a customer is being entered: same phone in any format, or a near-identical name
+const DuplicateCustomerWarning: React.FC<DuplicateCustomerWarningProps> = ({ name, phone, excludeId, onSelect }) => {
+  const { customers } = useClinic();
+  const matches = findDuplicateCustomers(customers, { name, phone }, excludeId).slice(0, 5);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm space-y-2">
+        <p className="font-medium text-amber-800 flex items-center gap-1"><Users size={14} /> อาจเป็นลูกค้าที่มีอยู่แล้ว</p>
+        <ul className="space-y-1">
+            {matches.map(m => (
+                <li key={m.customer.id} className="flex justify-between items-center gap-2 text-xs">
+                    <span className="text-amber-900">
+                        {m.customer.name} · {m.customer.phone}
+                        <span className="block text-amber-600">{m.reasons.map(r => DUPLICATE_REASON_LABELS[r]).join(', ')}</span>
+                    </span>
+                    {onSelect && (
+                        <button type="button" onClick={() => onSelect(m.customer)} className="shrink-0 px-2 py-1 bg-white border border-amber-300 rounded text-amber-700 hover:bg-amber-100">
+                            ใช้รายนี้
+                        </button>
+                    )}
+                </li>
+            ))}
+        </ul>
+    </div>
+  );
+};
+
+export default DuplicateCustomerWarning;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { CalendarPlus } from 'lucide-react';
+import { useClinic } from '../context/ClinicContext';
+import { usePermission } from '../context/AuthContext';
+import { CustomerCourse, PaymentMethod } from '../types';
+import { PAYMENT_METHOD_LABELS } from '../lib/receipts';
+import { addMonths, toISODate } from '../lib/schedule';
+import { isCourseExpired } from '../lib/courses';
+
+interface ExtendCourseModalProps {
+  course: CustomerCourse;
+  onClose: () => void;
+}
+
+const ExtendCourseModal: React.FC<ExtendCourseModalProps> = ({ course, onClose }) => {
+  const { courseExtensions, extendCourse } = useClinic();
+  const { can } = usePermission();
+  const today = toISODate(new Date());
+  // Extend from the old expiry unless it has already passed
+  const base = course.expiryDate && !isCourseExpired(course) ? course.expiryDate.slice(0, 10) : today;
+  const history = courseExtensions.filter(x => x.customerCourseId === course.id);
+
+  const [newExpiry, setNewExpiry] = useState(addMonths(base, 3));
+  const [fee, setFee] = useState(0);
+  const [method, setMethod] = useState<PaymentMethod>('Cash');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const canWaive = can('discounts.approve');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsSaving(true);
+      const ok = await extendCourse(course.id, newExpiry, fee, method, reason);
+      setIsSaving(false);
+      if (ok) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-md shadow-2xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-2 text-gray-800 flex items-center gap-2"><CalendarPlus className="text-rose-500" /> ต่ออายุคอร์ส</h3>
+        <p className="text-sm text-gray-500 mb-6">
+            {course.courseName} · คงเหลือ {course.remainingUnits}/{course.totalUnits} ครั้ง · หมดอายุเดิม {course.expiryDate ? new Date(course.expiryDate).toLocaleDateString('th-TH') : '-'}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">วันหมดอายุใหม่</label>
+            <div className="flex gap-2">
+                <input type="date" required min={base} className="flex-1 border border-gray-300 rounded-lg p-2 text-gray-900" value={newExpiry} onChange={e => setNewExpiry(e.target.value)} />
+                {[1, 3, 6].map(m => (
+                    <button key={m} type="button" onClick={() => setNewExpiry(addMonths(base, m))} className="px-2 text-xs rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200">+{m} ด.</button>
+                ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ค่าต่ออายุ (บาท)</label>
+              <input type="number" min="0" step="0.01" className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={fee || ''} placeholder="0 = ฟรี" onChange={e => setFee(Math.max(0, parseFloat(e.target.value) || 0))} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ชำระโดย</label>
+              <select disabled={fee <= 0} className="w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900 disabled:bg-gray-100" value={method} onChange={e => setMethod(e.target.value as PaymentMethod)}>
+                  {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+              </select>
+            </div>
+          </div>
+          {fee <= 0 && !canWaive && <p className="text-xs text-amber-600">การต่ออายุฟรีต้องทำโดยผู้จัดการ</p>}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">เหตุผล</label>
+            <textarea required rows={2} className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 text-gray-900" value={reason} onChange={e => setReason(e.target.value)} />
+          </div>
+
+          {history.length > 0 && (
+              <div className="text-xs text-gray-500 space-y-1 border-t border-gray-100 pt-3">
+                  <p className="font-medium text-gray-700">ประวัติการต่ออายุ</p>
+                  {history.map(x => (
+                      <p key={x.id}>
+                          {new Date(x.date).toLocaleDateString('th-TH')} · {x.previousExpiry ? new Date(x.previousExpiry).toLocaleDateString('th-TH') : '-'} → {new Date(x.newExpiry).toLocaleDateString('th-TH')}
+                          {' · '}{x.fee > 0 ? `฿${x.fee.toLocaleString()}` : 'ฟรี'} · {x.reason}{x.createdBy ? ` (${x.createdBy})` : ''}
+                      </p>
+                  ))}
+              </div>
+          )}
+
+          <div className="flex gap-3 mt-6">
+            <button type="button" onClick={onClose} className="flex-1 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">ยกเลิก</button>
+            <button
+              type="submit"
+              disabled={isSaving || (fee <= 0 && !canWaive)}
+              className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 shadow-md shadow-rose-200 disabled:bg-gray-300"
+            >
+              {isSaving ? 'กำลังบันทึก...' : fee > 0 ? `รับชำระ ฿${fee.toLocaleString()} และต่ออายุ` : 'ต่ออายุฟรี'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ExtendCourseModal;
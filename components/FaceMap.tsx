@@ -0,0 +1,45 @@
+import React from 'react';
+import { InjectionPoint } from '../types';
+import { FACE_ZONES, unitsByZone, zoneLabel } from '../lib/charting';
+
+interface FaceMapProps {
+  points: InjectionPoint[];
+  selectedZone?: string;
+  onSelectZone?: (zoneId: string) => void; // Omit for a read-only diagram
+}
+
+// Face diagram with one marker per zone; zones with injections show their total units
+const FaceMap: React.FC<FaceMapProps> = ({ points, selectedZone, onSelectZone }) => {
+  const totals = unitsByZone(points);
+  return (
+    <svg viewBox="0 0 200 270" className="w-full max-w-[220px] mx-auto select-none">
+        <ellipse cx="100" cy="135" rx="78" ry="110" fill="#fff1f2" stroke="#fda4af" strokeWidth="1.5" />
+        <path d="M70 95 q10 -8 20 0 M110 95 q10 -8 20 0" fill="none" stroke="#fda4af" strokeWidth="1.5" />
+        <path d="M85 185 q15 8 30 0" fill="none" stroke="#fda4af" strokeWidth="1.5" />
+        {FACE_ZONES.map(zone => {
+            const units = totals[zone.id];
+            const active = zone.id === selectedZone;
+            return (
+                <g
+                    key={zone.id}
+                    onClick={() => onSelectZone?.(zone.id)}
+                    className={onSelectZone ? 'cursor-pointer' : undefined}
+                >
+                    <title>{zoneLabel(zone.id)}{units ? ` · ${units}` : ''}</title>
+                    <circle
+                        cx={zone.x}
+                        cy={zone.y}
+                        r={units ? 9 : 5}
+                        fill={units ? '#f43f5e' : active ? '#fecdd3' : '#ffffff'}
+                        stroke={active ? '#be123c' : '#fb7185'}
+                        strokeWidth={active ? 2 : 1}
+                    />
+                    {units ? <text x={zone.x} y={zone.y + 3} textAnchor="middle" fontSize="8" fill="#fff" fontWeight="bold">{units}</text> : null}
+                </g>
+            );
+        })}
+    </svg>
+  );
+};
+
+export default FaceMap;
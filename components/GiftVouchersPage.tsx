@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { useClinic } from '../context/ClinicContext';
+import { usePermission } from '../context/AuthContext';
+import { Gift, Plus, Ban, Copy, Check } from 'lucide-react';
+import { GiftVoucher, PaymentMethod } from '../types';
+import { PAYMENT_METHOD_LABELS } from '../lib/receipts';
+import { addDays, toISODate } from '../lib/schedule';
+import { FUNDING_METHODS, getVoucherStatus, VOUCHER_STATUS_LABELS, VoucherStatus } from '../lib/wallet';
+
+const STATUS_STYLES: Record<VoucherStatus, string> = {
+  active: 'bg-green-50 text-green-700 border-green-200',
+  redeemed: 'bg-blue-50 text-blue-700 border-blue-200',
+  expired: 'bg-gray-50 text-gray-500 border-gray-200',
+  voided: 'bg-red-50 text-red-600 border-red-200'
+};
+
+const GiftVouchersPage: React.FC = () => {
+  const { giftVouchers, customers, sellGiftVoucher, voidGiftVoucher } = useClinic();
+  const { can } = usePermission();
+  const [statusFilter, setStatusFilter] = useState<VoucherStatus | ''>('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [sold, setSold] = useState<GiftVoucher | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [form, setForm] = useState({
+      amount: 1000,
+      quantity: 1,
+      expiresAt: addDays(toISODate(new Date()), 365),
+      soldMethod: 'Cash' as PaymentMethod,
+      buyerName: '',
+      buyerCustomerId: '',
+      note: ''
+  });
+
+  const customerName = (id?: string) => customers.find(c => c.id === id)?.name;
+  const filtered = giftVouchers.filter(v => !statusFilter || getVoucherStatus(v) === statusFilter);
+  const outstanding = giftVouchers.filter(v => getVoucherStatus(v) === 'active').reduce((sum, v) => sum + v.amount, 0);
+
+  const handleSell = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsSaving(true);
+      let last: GiftVoucher | null = null;
+      // Festival sales often hand out a stack at once; each voucher gets its own code
+      for (let i = 0; i < form.quantity; i++) {
+          const voucher = await sellGiftVoucher({
+              amount: form.amount,
+              expiresAt: form.expiresAt || null,
+              soldMethod: form.soldMethod,
+              buyerName: form.buyerName.trim() || customerName(form.buyerCustomerId) || undefined,
+              buyerCustomerId: form.buyerCustomerId || undefined,
+              note: form.note.trim() || undefined
+          });
+          if (!voucher) break;
+          last = voucher;
+      }
+      setIsSaving(false);
+      if (last) {
+          setIsModalOpen(false);
+          if (form.quantity === 1) setSold(last);
+      }
+  };
+
+  const handleVoid = (voucher: GiftVoucher) => {
+      const reason = window.prompt(`เหตุผลที่ยกเลิกบัตรกำนัล ${voucher.code}`);
+      if (reason && reason.trim()) voidGiftVoucher(voucher.id, reason.trim());
+  };
+
+  const handleCopy = (code: string) => {
+      navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="p-4 md:p-8 w-full">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <div>
+            <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+                <Gift className="text-rose-500" /> บัตรกำนัล (Gift Vouchers)
+            </h2>
+            <p className="text-sm text-gray-500">มูลค่าบัตรที่ยังไม่ถูกแลก ฿{outstanding.toLocaleString()}</p>
+        </div>
+        <div className="flex gap-2 w-full md:w-auto">
+            <select className="border border-gray-200 rounded-lg p-2 bg-white text-gray-700 text-sm" value={statusFilter} onChange={e => setStatusFilter(e.target.value as VoucherStatus | '')}>
+                <option value="">ทุกสถานะ</option>
+                {(Object.keys(VOUCHER_STATUS_LABELS) as VoucherStatus[]).map(s => <option key={s} value={s}>{VOUCHER_STATUS_LABELS[s]}</option>)}
+            </select>
+            <button
+              onClick={() => setIsModalOpen(true)}
+              className="flex items-center gap-2 bg-rose-500 text-white px-4 py-2 rounded-lg hover:bg-rose-600 transition shadow-md shadow-rose-200 flex-1 md:flex-none justify-center"
+            >
+              <Plus size={20} /> ขายบัตรกำนัล
+            </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-gray-50 border-b border-gray-100 whitespace-nowrap">
+                <th className="p-4 font-medium text-gray-500">รหัส</th>
+                <th className="p-4 font-medium text-gray-500 text-right">มูลค่า</th>
+                <th className="p-4 font-medium text-gray-500">ขายเมื่อ</th>
+                <th className="p-4 font-medium text-gray-500">ผู้ซื้อ</th>
+                <th className="p-4 font-medium text-gray-500">หมดอายุ</th>
+                <th className="p-4 font-medium text-gray-500">สถานะ</th>
+                <th className="p-4 font-medium text-gray-500">จัดการ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.map(v => {
+                const status = getVoucherStatus(v);
+                return (
+                  <tr key={v.id} className="border-b border-gray-50 hover:bg-gray-50 transition align-top">
+                    <td className="p-4 font-mono text-gray-900 whitespace-nowrap">{v.code}</td>
+                    <td className="p-4 text-right font-bold text-gray-800">฿{v.amount.toLocaleString()}</td>
+                    <td className="p-4 text-sm text-gray-600 whitespace-nowrap">
+                        {new Date(v.soldAt).toLocaleDateString('th-TH')}
+                        <span className="block text-xs text-gray-400">{PAYMENT_METHOD_LABELS[v.soldMethod]}{v.soldBy ? ` · ${v.soldBy}` : ''}</span>
+                    </td>
+                    <td className="p-4 text-sm text-gray-600">{v.buyerName || customerName(v.buyerCustomerId) || '-'}</td>
+                    <td className="p-4 text-sm text-gray-600 whitespace-nowrap">{v.expiresAt ? new Date(v.expiresAt).toLocaleDateString('th-TH') : 'ไม่มีวันหมดอายุ'}</td>
+                    <td className="p-4 text-sm">
+                        <span className={`px-3 py-1 rounded-full text-xs font-medium border whitespace-nowrap ${STATUS_STYLES[status]}`}>{VOUCHER_STATUS_LABELS[status]}</span>
+                        {v.redeemedAt && <p className="text-xs text-gray-400 mt-1">โดย {customerName(v.redeemedBy) || '-'} · {new Date(v.redeemedAt).toLocaleDateString('th-TH')}</p>}
+                        {v.voidReason && <p className="text-xs text-red-500 mt-1">{v.voidReason}</p>}
+                    </td>
+                    <td className="p-4">
+                        {status === 'active' && can('sales.void') && (
+                            <button onClick={() => handleVoid(v)} className="p-1 hover:bg-red-100 text-red-500 rounded" title="ยกเลิกบัตร"><Ban size={18} /></button>
+                        )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {filtered.length === 0 && (
+                  <tr>
+                      <td colSpan={7} className="p-8 text-center text-gray-400">ยังไม่มีบัตรกำนัล</td>
+                  </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-md shadow-2xl">
+            <h3 className="text-xl font-bold mb-6 text-gray-800 flex items-center gap-2"><Gift className="text-rose-500" /> ขายบัตรกำนัล</h3>
+            <form onSubmit={handleSell} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">มูลค่า (บาท)</label>
+                  <input type="number" min="1" step="0.01" required className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={form.amount || ''} onChange={e => setForm({ ...form, amount: Math.max(0, parseFloat(e.target.value) || 0) })} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">จำนวนใบ</label>
+                  <input type="number" min="1" max="100" required className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={form.quantity} onChange={e => setForm({ ...form, quantity: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)) })} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">ชำระโดย</label>
+                  <select className="w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900" value={form.soldMethod} onChange={e => setForm({ ...form, soldMethod: e.target.value as PaymentMethod })}>
+                      {FUNDING_METHODS.map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">ใช้ได้ถึง</label>
+                  <input type="date" className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={form.expiresAt} onChange={e => setForm({ ...form, expiresAt: e.target.value })} />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">ผู้ซื้อ (ลูกค้าในระบบ)</label>
+                  <select className="w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900" value={form.buyerCustomerId} onChange={e => setForm({ ...form, buyerCustomerId: e.target.value })}>
+                      <option value="">- ไม่ระบุ / ลูกค้าทั่วไป -</option>
+                      {customers.map(c => <option key={c.id} value={c.id}>{c.name} ({c.phone})</option>)}
+                  </select>
+                </div>
+                {!form.buyerCustomerId && (
+                    <div className="col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">ชื่อผู้ซื้อ</label>
+                      <input className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={form.buyerName} onChange={e => setForm({ ...form, buyerName: e.target.value })} />
+                    </div>
+                )}
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">หมายเหตุ</label>
+                  <input placeholder="เช่น งานวันแม่ 2568" className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={form.note} onChange={e => setForm({ ...form, note: e.target.value })} />
+                </div>
+              </div>
+              <div className="flex justify-between items-center p-3 bg-rose-50 rounded-xl">
+                  <span className="text-gray-700">ยอดรับชำระ</span>
+                  <span className="text-xl font-bold text-rose-600">฿{(form.amount * form.quantity).toLocaleString()}</span>
+              </div>
+              <div className="flex gap-3 mt-6">
+                <button type="button" onClick={() => setIsModalOpen(false)} className="flex-1 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">ยกเลิก</button>
+                <button type="submit" disabled={isSaving || form.amount <= 0} className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 shadow-md shadow-rose-200 disabled:bg-gray-300">
+                  {isSaving ? 'กำลังออกบัตร...' : 'ยืนยันการขาย'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {sold && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white p-6 rounded-2xl w-full max-w-sm shadow-2xl text-center">
+              <Gift size={40} className="text-rose-500 mx-auto mb-3" />
+              <h3 className="text-lg font-bold text-gray-800">ออกบัตรกำนัลสำเร็จ</h3>
+              <p className="text-sm text-gray-500 mb-4">มูลค่า ฿{sold.amount.toLocaleString()}{sold.expiresAt ? ` · ใช้ได้ถึง ${new Date(sold.expiresAt).toLocaleDateString('th-TH')}` : ''}</p>
+              <button onClick={() => handleCopy(sold.code)} className="w-full mb-4 p-3 bg-gray-50 border border-dashed border-gray-300 rounded-xl font-mono text-xl text-gray-900 flex items-center justify-center gap-2">
+                  {sold.code} {copied ? <Check size={18} className="text-emerald-600" /> : <Copy size={18} className="text-gray-400" />}
+              </button>
+              <button onClick={() => setSold(null)} className="w-full py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">ปิด</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GiftVouchersPage;
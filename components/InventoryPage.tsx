@@ -1,11 +1,25 @@
 import React, { useState } from 'react';
 import { useClinic } from '../context/ClinicContext';
-import { Package, AlertTriangle, Plus, Minus, Search, Edit, Trash2, Save } from 'lucide-react';
-import { InventoryItem } from '../types';
+import { Package, AlertTriangle, Plus, Minus, Search, Edit, Trash2, Save, History, ArrowRightLeft, X, CalendarClock } from 'lucide-react';
+import { ContraindicationRule, InventoryItem, StockMovementType } from '../types';
+import { getExpiringLots, getUsableLots, isLotExpired } from '../lib/inventory';
+import ContraindicationEditor from './ContraindicationEditor';
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receive: 'รับเข้า (Receive)',
+  sale: 'ขาย (Sale)',
+  course_usage: 'ตัดคอร์ส (Course Usage)',
+  adjustment: 'ปรับยอด (Adjustment)',
+  wastage: 'เสียหาย/หมดอายุ (Wastage)',
+  transfer: 'โอนออก (Transfer)',
+  return: 'คืนเข้าสต็อก (Return)'
+};
 
 const InventoryPage: React.FC = () => {
-  const { inventory, updateStock, addInventoryItem, updateInventoryItem, deleteInventoryItem } = useClinic();
+  const { inventory, stockMovements, suppliers, updateStock, receiveStock, addInventoryItem, updateInventoryItem, deleteInventoryItem } = useClinic();
   const [searchTerm, setSearchTerm] = useState('');
+  const [view, setView] = useState<'stock' | 'expiring'>('stock');
+  const [expiryWindowDays, setExpiryWindowDays] = useState(90);
   
   // Modal State
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -13,7 +27,14 @@ const InventoryPage: React.FC = () => {
   const [editingId, setEditingId] = useState<string | null>(null);
 
   // Form State
-  const [itemForm, setItemForm] = useState({ name: '', quantity: 0, unit: 'ชิ้น', minLevel: 10, pricePerUnit: 0 });
+  const emptyItemForm = { name: '', quantity: 0, unit: 'ชิ้น', minLevel: 10, targetLevel: 20, preferredSupplierId: '', pricePerUnit: 0, contraindications: [] as ContraindicationRule[] };
+  const [itemForm, setItemForm] = useState(emptyItemForm);
+
+  // Ledger State
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
+  const [movementItem, setMovementItem] = useState<InventoryItem | null>(null);
+  const emptyMovementForm = { type: 'receive' as StockMovementType, quantity: 1, reason: '', lotId: '', lotNumber: '', expiryDate: '', receivedDate: new Date().toISOString().split('T')[0] };
+  const [movementForm, setMovementForm] = useState(emptyMovementForm);
 
   // Safe access to .name property
   const filteredInventory = inventory.filter(item => 
@@ -23,7 +44,7 @@ const InventoryPage: React.FC = () => {
   const openAddModal = () => {
       setIsEditing(false);
       setEditingId(null);
-      setItemForm({ name: '', quantity: 0, unit: 'ชิ้น', minLevel: 10, pricePerUnit: 0 });
+      setItemForm(emptyItemForm);
       setIsModalOpen(true);
   };
 
@@ -35,21 +56,53 @@ const InventoryPage: React.FC = () => {
           quantity: item.quantity,
           unit: item.unit,
           minLevel: item.minLevel,
-          pricePerUnit: item.pricePerUnit
+          targetLevel: item.targetLevel || item.minLevel * 2,
+          preferredSupplierId: item.preferredSupplierId || '',
+          pricePerUnit: item.pricePerUnit,
+          contraindications: item.contraindications || []
       });
       setIsModalOpen(true);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
+      const payload = { ...itemForm, contraindications: itemForm.contraindications.filter(r => r.term.trim()) };
       if (isEditing && editingId) {
-          await updateInventoryItem(editingId, itemForm);
+          await updateInventoryItem(editingId, payload);
       } else {
-          await addInventoryItem(itemForm);
+          await addInventoryItem(payload);
       }
       setIsModalOpen(false);
   };
 
+  const openMovementModal = (item: InventoryItem) => {
+      setMovementItem(item);
+      setMovementForm(emptyMovementForm);
+  };
+
+  const handleMovementSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!movementItem) return;
+      if (movementForm.type === 'receive') {
+          await receiveStock(movementItem.id, movementForm.quantity, {
+              lotNumber: movementForm.lotNumber.trim(),
+              expiryDate: movementForm.expiryDate || null,
+              receivedDate: movementForm.receivedDate
+          }, movementForm.reason);
+          setMovementItem(null);
+          return;
+      }
+      // Adjustments are entered signed; wastage and transfers always take stock out
+      const signed = movementForm.type === 'receive' || movementForm.type === 'adjustment'
+          ? movementForm.quantity
+          : -Math.abs(movementForm.quantity);
+      await updateStock(movementItem.id, signed, movementForm.type, movementForm.reason, movementForm.lotId || undefined);
+      setMovementItem(null);
+  };
+
+  const itemHistory = historyItem ? stockMovements.filter(m => m.inventoryItemId === historyItem.id) : [];
+  const expiringLots = getExpiringLots(inventory, expiryWindowDays);
+
   const handleDelete = async (id: string) => {
       if(window.confirm('ยืนยันการลบสินค้านี้?')) {
           await deleteInventoryItem(id);
@@ -75,97 +128,199 @@ const InventoryPage: React.FC = () => {
         </button>
       </div>
 
-      <div className="bg-white p-4 rounded-xl border border-gray-200 mb-6 flex gap-2 w-full md:max-w-md">
-         <Search className="text-gray-400" />
-         <input 
-            type="text" 
-            placeholder="ค้นหาชื่อสินค้า..." 
-            className="w-full outline-none text-gray-900"
-            value={searchTerm}
-            onChange={e => setSearchTerm(e.target.value)}
-         />
+      <div className="flex flex-col md:flex-row gap-4 mb-6">
+        <div className="bg-white p-4 rounded-xl border border-gray-200 flex gap-2 w-full md:max-w-md">
+           <Search className="text-gray-400" />
+           <input 
+              type="text" 
+              placeholder="ค้นหาชื่อสินค้า..." 
+              className="w-full outline-none text-gray-900"
+              value={searchTerm}
+              onChange={e => setSearchTerm(e.target.value)}
+           />
+        </div>
+        <div className="flex gap-2 items-center">
+            <button 
+                onClick={() => setView('stock')}
+                className={`px-4 py-2 rounded-full font-medium transition flex items-center gap-2 whitespace-nowrap ${view === 'stock' ? 'bg-rose-500 text-white shadow-md shadow-rose-200' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'}`}
+            >
+                <Package size={18} /> สต็อกทั้งหมด
+            </button>
+            <button 
+                onClick={() => setView('expiring')}
+                className={`px-4 py-2 rounded-full font-medium transition flex items-center gap-2 whitespace-nowrap ${view === 'expiring' ? 'bg-rose-500 text-white shadow-md shadow-rose-200' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'}`}
+            >
+                <CalendarClock size={18} /> ใกล้หมดอายุ
+            </button>
+        </div>
       </div>
 
-      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full text-left whitespace-nowrap">
-              <thead className="bg-gray-50 border-b border-gray-100">
-                  <tr>
-                      <th className="p-4 text-gray-500 font-medium">ชื่อสินค้า</th>
-                      <th className="p-4 text-gray-500 font-medium text-center">คงเหลือ</th>
-                      <th className="p-4 text-gray-500 font-medium text-center">หน่วย</th>
-                      <th className="p-4 text-gray-500 font-medium text-center">สถานะ</th>
-                      <th className="p-4 text-gray-500 font-medium text-center">จัดการสต็อก</th>
-                      <th className="p-4 text-gray-500 font-medium text-right">เครื่องมือ</th>
-                  </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-100">
-                {filteredInventory.map((item) => (
-                  <tr key={item.id} className="hover:bg-gray-50">
-                    <td className="p-4 font-medium text-gray-800">{item.name}</td>
-                    <td className="p-4 text-center">
-                       <span className={`font-bold ${item.quantity < item.minLevel ? 'text-red-500' : 'text-gray-700'}`}>
-                         {item.quantity}
-                       </span>
-                    </td>
-                    <td className="p-4 text-center text-gray-500">{item.unit}</td>
-                    <td className="p-4 text-center">
-                        {item.quantity < item.minLevel ? (
-                            <span className="inline-flex items-center gap-1 bg-red-50 text-red-600 px-2 py-1 rounded text-xs font-medium">
-                                <AlertTriangle size={12} /> ต่ำกว่าเกณฑ์
-                            </span>
-                        ) : (
-                            <span className="bg-green-50 text-green-600 px-2 py-1 rounded text-xs font-medium">ปกติ</span>
-                        )}
-                    </td>
-                    <td className="p-4 text-center">
-                        <div className="flex items-center justify-center gap-2">
-                            <button 
-                                onClick={() => updateStock(item.id, -1)}
-                                className="p-1 bg-gray-100 hover:bg-gray-200 rounded text-gray-600"
-                            >
-                                <Minus size={16} />
-                            </button>
-                            <button 
-                                onClick={() => updateStock(item.id, 1)}
-                                className="p-1 bg-rose-50 hover:bg-rose-100 rounded text-rose-600"
-                            >
-                                <Plus size={16} />
-                            </button>
-                        </div>
-                    </td>
-                     <td className="p-4 text-right">
-                        <div className="flex items-center justify-end gap-2">
-                             <button 
-                                onClick={() => openEditModal(item)}
-                                className="p-1.5 hover:bg-blue-50 text-blue-600 rounded"
-                            >
-                                <Edit size={18} />
-                            </button>
+      {view === 'expiring' && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="p-4 border-b border-gray-100 flex items-center gap-2 text-sm text-gray-600">
+              แสดงล็อตที่หมดอายุภายใน
+              <input 
+                type="number" min="0"
+                className="w-20 border border-gray-300 p-1.5 rounded-lg text-center outline-none focus:ring-2 focus:ring-rose-500"
+                value={expiryWindowDays}
+                onChange={e => setExpiryWindowDays(parseInt(e.target.value) || 0)}
+              />
+              วัน
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left whitespace-nowrap">
+                <thead className="bg-gray-50 border-b border-gray-100">
+                    <tr>
+                        <th className="p-4 text-gray-500 font-medium">ชื่อสินค้า</th>
+                        <th className="p-4 text-gray-500 font-medium">Lot No.</th>
+                        <th className="p-4 text-gray-500 font-medium text-center">วันหมดอายุ</th>
+                        <th className="p-4 text-gray-500 font-medium text-center">คงเหลือ</th>
+                        <th className="p-4 text-gray-500 font-medium text-right">เครื่องมือ</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {expiringLots.filter(({ item }) => (item.name || '').toLowerCase().includes(searchTerm.toLowerCase())).map(({ item, lot }) => (
+                    <tr key={lot.id} className="hover:bg-gray-50">
+                        <td className="p-4 font-medium text-gray-800">{item.name}</td>
+                        <td className="p-4 text-gray-600">{lot.lotNumber}</td>
+                        <td className="p-4 text-center">
+                            {isLotExpired(lot) ? (
+                                <span className="inline-flex items-center gap-1 bg-red-50 text-red-600 px-2 py-1 rounded text-xs font-medium">
+                                    <AlertTriangle size={12} /> หมดอายุแล้ว {lot.expiryDate}
+                                </span>
+                            ) : (
+                                <span className="bg-amber-50 text-amber-700 px-2 py-1 rounded text-xs font-medium">{lot.expiryDate}</span>
+                            )}
+                        </td>
+                        <td className="p-4 text-center text-gray-700 font-bold">{lot.quantity} <span className="font-normal text-gray-500">{item.unit}</span></td>
+                        <td className="p-4 text-right">
                             <button 
-                                onClick={() => handleDelete(item.id)}
-                                className="p-1.5 hover:bg-red-50 text-red-600 rounded"
+                                onClick={() => {
+                                    setMovementItem(item);
+                                    setMovementForm({ ...emptyMovementForm, type: 'wastage', quantity: lot.quantity, lotId: lot.id, reason: 'หมดอายุ' });
+                                }}
+                                className="text-xs px-3 py-1.5 bg-red-50 text-red-600 rounded-lg hover:bg-red-100"
                             >
-                                <Trash2 size={18} />
+                                ตัดจำหน่าย
                             </button>
-                        </div>
-                    </td>
-                  </tr>
-                ))}
-                {filteredInventory.length === 0 && (
+                        </td>
+                    </tr>
+                  ))}
+                  {expiringLots.length === 0 && (
+                      <tr>
+                          <td colSpan={5} className="p-8 text-center text-gray-400">ไม่มีล็อตที่ใกล้หมดอายุ</td>
+                      </tr>
+                  )}
+                </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {view === 'stock' && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left whitespace-nowrap">
+                <thead className="bg-gray-50 border-b border-gray-100">
                     <tr>
-                        <td colSpan={6} className="p-8 text-center text-gray-400">ไม่พบสินค้า</td>
+                        <th className="p-4 text-gray-500 font-medium">ชื่อสินค้า</th>
+                        <th className="p-4 text-gray-500 font-medium text-center">คงเหลือ</th>
+                        <th className="p-4 text-gray-500 font-medium text-center">หน่วย</th>
+                        <th className="p-4 text-gray-500 font-medium text-center">สถานะ</th>
+                        <th className="p-4 text-gray-500 font-medium text-center">จัดการสต็อก</th>
+                        <th className="p-4 text-gray-500 font-medium text-right">เครื่องมือ</th>
                     </tr>
-                )}
-              </tbody>
-          </table>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {filteredInventory.map((item) => (
+                    <tr key={item.id} className="hover:bg-gray-50">
+                      <td className="p-4 font-medium text-gray-800">
+                          {item.name}
+                          {item.lots.some(l => l.quantity > 0) && (
+                              <p className="text-xs font-normal text-gray-400">
+                                  {item.lots.filter(l => l.quantity > 0).length} ล็อต
+                                  {getUsableLots(item)[0]?.expiryDate && ` · หมดอายุเร็วสุด ${getUsableLots(item)[0].expiryDate}`}
+                              </p>
+                          )}
+                      </td>
+                      <td className="p-4 text-center">
+                         <span className={`font-bold ${item.quantity < item.minLevel ? 'text-red-500' : 'text-gray-700'}`}>
+                           {item.quantity}
+                         </span>
+                      </td>
+                      <td className="p-4 text-center text-gray-500">{item.unit}</td>
+                      <td className="p-4 text-center">
+                          {item.quantity < item.minLevel ? (
+                              <span className="inline-flex items-center gap-1 bg-red-50 text-red-600 px-2 py-1 rounded text-xs font-medium">
+                                  <AlertTriangle size={12} /> ต่ำกว่าเกณฑ์
+                              </span>
+                          ) : (
+                              <span className="bg-green-50 text-green-600 px-2 py-1 rounded text-xs font-medium">ปกติ</span>
+                          )}
+                      </td>
+                      <td className="p-4 text-center">
+                          <div className="flex items-center justify-center gap-2">
+                              <button 
+                                  onClick={() => updateStock(item.id, -1, 'adjustment', 'Quick adjust')}
+                                  className="p-1 bg-gray-100 hover:bg-gray-200 rounded text-gray-600"
+                              >
+                                  <Minus size={16} />
+                              </button>
+                              <button 
+                                  onClick={() => updateStock(item.id, 1, 'adjustment', 'Quick adjust')}
+                                  className="p-1 bg-rose-50 hover:bg-rose-100 rounded text-rose-600"
+                              >
+                                  <Plus size={16} />
+                              </button>
+                          </div>
+                      </td>
+                       <td className="p-4 text-right">
+                          <div className="flex items-center justify-end gap-2">
+                               <button 
+                                  onClick={() => openMovementModal(item)}
+                                  className="p-1.5 hover:bg-green-50 text-green-600 rounded"
+                                  title="บันทึกรับเข้า/เบิกออก"
+                              >
+                                  <ArrowRightLeft size={18} />
+                              </button>
+                               <button 
+                                  onClick={() => setHistoryItem(item)}
+                                  className="p-1.5 hover:bg-gray-100 text-gray-600 rounded"
+                                  title="ประวัติความเคลื่อนไหว"
+                              >
+                                  <History size={18} />
+                              </button>
+                               <button 
+                                  onClick={() => openEditModal(item)}
+                                  className="p-1.5 hover:bg-blue-50 text-blue-600 rounded"
+                              >
+                                  <Edit size={18} />
+                              </button>
+                              <button 
+                                  onClick={() => handleDelete(item.id)}
+                                  className="p-1.5 hover:bg-red-50 text-red-600 rounded"
+                              >
+                                  <Trash2 size={18} />
+                              </button>
+                          </div>
+                      </td>
+                    </tr>
+                  ))}
+                  {filteredInventory.length === 0 && (
+                      <tr>
+                          <td colSpan={6} className="p-8 text-center text-gray-400">ไม่พบสินค้า</td>
+                      </tr>
+                  )}
+                </tbody>
+            </table>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Add/Edit Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-            <div className="bg-white p-6 rounded-2xl w-full max-w-md shadow-xl">
+            <div className="bg-white p-6 rounded-2xl w-full max-w-lg shadow-xl max-h-[90vh] overflow-y-auto">
                 <h3 className="text-xl font-bold mb-4 text-gray-800">{isEditing ? 'แก้ไขสินค้า' : 'เพิ่มสินค้าใหม่'}</h3>
                 <form onSubmit={handleSubmit} className="space-y-4">
                     <input 
@@ -177,14 +332,15 @@ const InventoryPage: React.FC = () => {
                     />
                     <div className="grid grid-cols-2 gap-4">
                         <div>
-                            <label className="text-xs text-gray-500 mb-1 block">จำนวน</label>
+                            <label className="text-xs text-gray-500 mb-1 block">{isEditing ? 'จำนวน (ตรวจนับ)' : 'จำนวนตั้งต้น'}</label>
                             <input 
                                 type="number" placeholder="จำนวน" 
                                 className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
                                 required
                                 min="0"
+                                step="any"
                                 value={itemForm.quantity}
-                                onChange={e => setItemForm({...itemForm, quantity: parseInt(e.target.value)})}
+                                onChange={e => setItemForm({...itemForm, quantity: parseFloat(e.target.value)})}
                             />
                         </div>
                         <div>
@@ -221,6 +377,30 @@ const InventoryPage: React.FC = () => {
                             />
                         </div>
                     </div>
+                     <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">ระดับเป้าหมายเมื่อสั่งซื้อ (Target)</label>
+                            <input 
+                                type="number"
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                                min="0"
+                                value={itemForm.targetLevel}
+                                onChange={e => setItemForm({...itemForm, targetLevel: parseFloat(e.target.value)})}
+                            />
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">ผู้จำหน่ายประจำ</label>
+                            <select
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none bg-white focus:ring-2 focus:ring-rose-500"
+                                value={itemForm.preferredSupplierId}
+                                onChange={e => setItemForm({...itemForm, preferredSupplierId: e.target.value})}
+                            >
+                                <option value="">ไม่ระบุ</option>
+                                {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <ContraindicationEditor value={itemForm.contraindications} onChange={rules => setItemForm({...itemForm, contraindications: rules})} />
                     <div className="flex gap-3 mt-4">
                         <button type="button" onClick={() => setIsModalOpen(false)} className="flex-1 py-2 border rounded-lg hover:bg-gray-50">ยกเลิก</button>
                         <button type="submit" className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 flex items-center justify-center gap-2">
@@ -231,6 +411,166 @@ const InventoryPage: React.FC = () => {
             </div>
         </div>
       )}
+
+      {/* Stock Movement Modal */}
+      {movementItem && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white p-6 rounded-2xl w-full max-w-md shadow-xl">
+                <h3 className="text-xl font-bold mb-1 text-gray-800">บันทึกความเคลื่อนไหวสต็อก</h3>
+                <p className="text-sm text-gray-500 mb-4">{movementItem.name} (คงเหลือ {movementItem.quantity} {movementItem.unit})</p>
+                <form onSubmit={handleMovementSubmit} className="space-y-4">
+                    <div>
+                        <label className="text-xs text-gray-500 mb-1 block">ประเภท</label>
+                        <select
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none bg-white focus:ring-2 focus:ring-rose-500"
+                            value={movementForm.type}
+                            onChange={e => setMovementForm({...movementForm, type: e.target.value as StockMovementType})}
+                        >
+                            {(['receive', 'adjustment', 'wastage', 'transfer'] as StockMovementType[]).map(t => (
+                                <option key={t} value={t}>{MOVEMENT_LABELS[t]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="text-xs text-gray-500 mb-1 block">
+                            จำนวน ({movementItem.unit}) {movementForm.type === 'adjustment' && '— ใส่ค่าติดลบเพื่อลดยอด'}
+                        </label>
+                        <input 
+                            type="number" step="any" required
+                            min={movementForm.type === 'adjustment' ? undefined : 0}
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                            value={movementForm.quantity}
+                            onChange={e => setMovementForm({...movementForm, quantity: parseFloat(e.target.value)})}
+                        />
+                    </div>
+                    {movementForm.type === 'receive' ? (
+                        <div className="grid grid-cols-3 gap-3">
+                            <div>
+                                <label className="text-xs text-gray-500 mb-1 block">Lot No.</label>
+                                <input 
+                                    type="text"
+                                    className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                                    value={movementForm.lotNumber}
+                                    onChange={e => setMovementForm({...movementForm, lotNumber: e.target.value})}
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-gray-500 mb-1 block">วันหมดอายุ</label>
+                                <input 
+                                    type="date"
+                                    required={!!movementForm.lotNumber}
+                                    className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                                    value={movementForm.expiryDate}
+                                    onChange={e => setMovementForm({...movementForm, expiryDate: e.target.value})}
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-gray-500 mb-1 block">วันที่รับ</label>
+                                <input 
+                                    type="date" required
+                                    className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                                    value={movementForm.receivedDate}
+                                    onChange={e => setMovementForm({...movementForm, receivedDate: e.target.value})}
+                                />
+                            </div>
+                        </div>
+                    ) : movementItem.lots.some(l => l.quantity > 0) && (
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">ล็อต</label>
+                            <select
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none bg-white focus:ring-2 focus:ring-rose-500"
+                                value={movementForm.lotId}
+                                onChange={e => setMovementForm({...movementForm, lotId: e.target.value})}
+                            >
+                                <option value="">ไม่ระบุล็อต</option>
+                                {movementItem.lots.filter(l => l.quantity > 0).map(l => (
+                                    <option key={l.id} value={l.id}>{l.lotNumber} (Exp {l.expiryDate || '-'}, เหลือ {l.quantity})</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    <div>
+                        <label className="text-xs text-gray-500 mb-1 block">เหตุผล / อ้างอิง</label>
+                        <input 
+                            type="text"
+                            placeholder="เช่น เลขที่ใบส่งของ, ขวดแตก, โอนไปสาขา 2"
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                            required={movementForm.type !== 'receive'}
+                            value={movementForm.reason}
+                            onChange={e => setMovementForm({...movementForm, reason: e.target.value})}
+                        />
+                    </div>
+                    <div className="flex gap-3 mt-4">
+                        <button type="button" onClick={() => setMovementItem(null)} className="flex-1 py-2 border rounded-lg hover:bg-gray-50">ยกเลิก</button>
+                        <button type="submit" className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 flex items-center justify-center gap-2">
+                             <Save size={18} /> บันทึก
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+      )}
+
+      {/* Movement History Modal */}
+      {historyItem && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white p-6 rounded-2xl w-full max-w-3xl shadow-xl max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-start mb-4">
+                    <div>
+                        <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2"><History className="text-rose-500" size={20} /> ประวัติสต็อก: {historyItem.name}</h3>
+                        <p className="text-sm text-gray-500">คงเหลือปัจจุบัน {historyItem.quantity} {historyItem.unit}</p>
+                    </div>
+                    <button onClick={() => setHistoryItem(null)} className="text-gray-400 hover:text-gray-700 p-1"><X size={20} /></button>
+                </div>
+                {historyItem.lots.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-4">
+                        {historyItem.lots.map(l => (
+                            <span key={l.id} className={`text-xs px-2 py-1 rounded-md border ${isLotExpired(l) ? 'bg-red-50 border-red-100 text-red-600' : 'bg-gray-50 border-gray-200 text-gray-600'}`}>
+                                Lot {l.lotNumber} · Exp {l.expiryDate || '-'} · เหลือ {l.quantity}
+                            </span>
+                        ))}
+                    </div>
+                )}
+                <div className="overflow-auto flex-1">
+                    <table className="w-full text-left text-sm whitespace-nowrap">
+                        <thead className="bg-gray-50 border-b border-gray-100">
+                            <tr>
+                                <th className="p-3 text-gray-500 font-medium">วันที่</th>
+                                <th className="p-3 text-gray-500 font-medium">ประเภท</th>
+                                <th className="p-3 text-gray-500 font-medium">Lot</th>
+                                <th className="p-3 text-gray-500 font-medium text-right">จำนวน</th>
+                                <th className="p-3 text-gray-500 font-medium">เหตุผล / อ้างอิง</th>
+                                <th className="p-3 text-gray-500 font-medium">ผู้บันทึก</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {itemHistory.map(m => (
+                                <tr key={m.id} className="hover:bg-gray-50">
+                                    <td className="p-3 text-gray-600">{new Date(m.date).toLocaleString('th-TH')}</td>
+                                    <td className="p-3 text-gray-700">{MOVEMENT_LABELS[m.type] || m.type}</td>
+                                    <td className="p-3 text-gray-500">{historyItem.lots.find(l => l.id === m.lotId)?.lotNumber || '-'}</td>
+                                    <td className={`p-3 text-right font-bold ${m.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                        {m.quantity > 0 ? '+' : ''}{m.quantity}
+                                    </td>
+                                    <td className="p-3 text-gray-600 max-w-xs truncate">
+                                        {m.reason || '-'}
+                                        {m.unitCost !== undefined && <span className="ml-2 text-xs text-gray-400">@฿{m.unitCost.toLocaleString()}</span>}
+                                        {m.referenceId && <span className="ml-2 text-xs text-gray-400">({m.referenceType} #{m.referenceId.slice(0, 8)})</span>}
+                                    </td>
+                                    <td className="p-3 text-gray-500">{m.createdBy || '-'}</td>
+                                </tr>
+                            ))}
+                            {itemHistory.length === 0 && (
+                                <tr>
+                                    <td colSpan={6} className="p-8 text-center text-gray-400">ยังไม่มีความเคลื่อนไหว</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+      )}
     </div>
   );
 };
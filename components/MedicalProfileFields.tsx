@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { Customer, MedicalFlagType } from '../types';
+import { COMMON_MEDICAL_ENTRIES, MEDICAL_FLAG_LABELS } from '../lib/medical';
+
+export type MedicalProfile = Required<Pick<Customer, 'allergies' | 'medications' | 'conditions'>>;
+
+interface MedicalProfileFieldsProps {
+  value: MedicalProfile;
+  onChange: (profile: MedicalProfile) => void;
+}
+
+const FIELD_OF: Record<MedicalFlagType, keyof MedicalProfile> = {
+  allergy: 'allergies',
+  medication: 'medications',
+  condition: 'conditions'
+};
+
+// Allergy / medication / condition lists as removable tags with quick picks
+const MedicalProfileFields: React.FC<MedicalProfileFieldsProps> = ({ value, onChange }) => {
+  const [drafts, setDrafts] = useState<Record<MedicalFlagType, string>>({ allergy: '', medication: '', condition: '' });
+
+  const add = (type: MedicalFlagType, entry: string) => {
+      const field = FIELD_OF[type];
+      const trimmed = entry.trim();
+      if (!trimmed || value[field].some(e => e.toLowerCase() === trimmed.toLowerCase())) return;
+      onChange({ ...value, [field]: [...value[field], trimmed] });
+      setDrafts({ ...drafts, [type]: '' });
+  };
+
+  const remove = (type: MedicalFlagType, entry: string) => {
+      const field = FIELD_OF[type];
+      onChange({ ...value, [field]: value[field].filter(e => e !== entry) });
+  };
+
+  return (
+    <div className="space-y-3">
+        {(Object.keys(FIELD_OF) as MedicalFlagType[]).map(type => {
+            const entries = value[FIELD_OF[type]];
+            return (
+                <div key={type}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{MEDICAL_FLAG_LABELS[type]}</label>
+                    <div className="flex flex-wrap gap-1 mb-1">
+                        {entries.map(entry => (
+                            <span key={entry} className="bg-red-50 text-red-700 border border-red-100 text-xs px-2 py-1 rounded-full flex items-center gap-1">
+                                {entry}
+                                <button type="button" onClick={() => remove(type, entry)}><X size={10} /></button>
+                            </span>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            className="flex-1 border border-gray-300 p-2 rounded-lg text-sm focus:ring-2 focus:ring-rose-500 outline-none"
+                            value={drafts[type]}
+                            onChange={e => setDrafts({ ...drafts, [type]: e.target.value })}
+                            onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); add(type, drafts[type]); } }}
+                            placeholder="พิมพ์แล้วกด Enter"
+                        />
+                        <select className="border border-gray-300 rounded-lg p-2 bg-white text-gray-900 text-xs w-32" value="" onChange={e => add(type, e.target.value)}>
+                            <option value="">+ ที่พบบ่อย</option>
+                            {COMMON_MEDICAL_ENTRIES[type].filter(c => !entries.includes(c)).map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </div>
+                </div>
+            );
+        })}
+    </div>
+  );
+};
+
+export default MedicalProfileFields;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { ArrowLeftRight, Users } from 'lucide-react';
+import { useClinic } from '../context/ClinicContext';
+import { Customer } from '../types';
+import { DUPLICATE_REASON_LABELS, findDuplicateCustomers, mergedProfile } from '../lib/customers';
+
+interface MergeCustomersModalProps {
+  customer: Customer;
+  duplicateId?: string; // Pre-selected from the duplicate scan
+  onClose: () => void;
+  onMerged?: (survivorId: string) => void;
+}
+
+// Pick the duplicate, choose which record to keep, then move everything onto it
+const MergeCustomersModal: React.FC<MergeCustomersModalProps> = ({ customer, duplicateId, onClose, onMerged }) => {
+  const { customers, appointments, transactions, mergeCustomers } = useClinic();
+  const [otherId, setOtherId] = useState(duplicateId || '');
+  const [keepId, setKeepId] = useState(customer.id);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const suggestions = findDuplicateCustomers(customers, customer, customer.id);
+  const others = customers.filter(c => c.id !== customer.id && !suggestions.some(m => m.customer.id === c.id));
+  const other = customers.find(c => c.id === otherId);
+  const survivor = keepId === customer.id ? customer : other;
+  const duplicate = keepId === customer.id ? other : customer;
+  const combined = survivor && duplicate ? mergedProfile(survivor, duplicate) : null;
+
+  const summary = (c: Customer) => [
+      { label: 'คอร์ส', count: c.activeCourses.length },
+      { label: 'ประวัติการรักษา', count: c.treatmentHistory.length },
+      { label: 'นัดหมาย', count: appointments.filter(a => a.customerId === c.id).length },
+      { label: 'บิล', count: transactions.filter(t => t.customerId === c.id).length }
+  ];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!survivor || !duplicate) return;
+      if (!window.confirm(`ย้ายข้อมูลทั้งหมดของ ${duplicate.name} ไปที่ ${survivor.name} และซ่อนรายชื่อ ${duplicate.name}?`)) return;
+      setIsSaving(true);
+      const ok = await mergeCustomers(survivor.id, duplicate.id, note);
+      setIsSaving(false);
+      if (ok) {
+          onMerged?.(survivor.id);
+          onClose();
+      }
+  };
+
+  const card = (c: Customer, role: 'keep' | 'merge') => (
+      <div className={`flex-1 p-3 rounded-xl border text-sm ${role === 'keep' ? 'border-green-200 bg-green-50' : 'border-gray-200 bg-gray-50'}`}>
+          <p className={`text-xs font-medium mb-1 ${role === 'keep' ? 'text-green-700' : 'text-gray-500'}`}>{role === 'keep' ? 'เก็บไว้' : 'รวมเข้าแล้วซ่อน'}</p>
+          <p className="font-bold text-gray-800">{c.name}</p>
+          <p className="text-gray-500">{c.phone}</p>
+          <ul className="mt-2 text-xs text-gray-600 space-y-0.5">
+              {summary(c).map(s => <li key={s.label}>{s.label}: {s.count}</li>)}
+          </ul>
+      </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-lg shadow-2xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-2 text-gray-800 flex items-center gap-2"><Users className="text-rose-500" /> รวมรายชื่อซ้ำ</h3>
+        <p className="text-sm text-gray-500 mb-4">คอร์ส ประวัติการรักษา นัดหมาย บิล และข้อมูลที่เกี่ยวข้องจะย้ายไปที่รายชื่อที่เก็บไว้</p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">รายชื่อที่ซ้ำกับ {customer.name}</label>
+            <select required className="w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900" value={otherId} onChange={e => { setOtherId(e.target.value); setKeepId(customer.id); }}>
+                <option value="">-- เลือกลูกค้า --</option>
+                {suggestions.length > 0 && (
+                    <optgroup label="น่าจะซ้ำ">
+                        {suggestions.map(m => <option key={m.customer.id} value={m.customer.id}>{m.customer.name} ({m.customer.phone}) · {m.reasons.map(r => DUPLICATE_REASON_LABELS[r]).join(', ')}</option>)}
+                    </optgroup>
+                )}
+                <optgroup label="ลูกค้าทั้งหมด">
+                    {others.map(c => <option key={c.id} value={c.id}>{c.name} ({c.phone})</option>)}
+                </optgroup>
+            </select>
+          </div>
+
+          {survivor && duplicate && (
+              <div className="flex items-stretch gap-2">
+                  {card(survivor, 'keep')}
+                  <button type="button" onClick={() => setKeepId(duplicate.id)} className="self-center p-2 rounded-full hover:bg-gray-100 text-gray-500" title="สลับรายชื่อที่เก็บไว้">
+                      <ArrowLeftRight size={18} />
+                  </button>
+                  {card(duplicate, 'merge')}
+              </div>
+          )}
+
+          {combined && (combined.allergies.length + combined.medications.length + combined.conditions.length > 0) && (
+              <p className="text-xs text-red-600">ประวัติแพ้ยา/ยาที่ใช้/โรคประจำตัวจากทั้งสองรายชื่อจะถูกรวมไว้: {[...combined.allergies, ...combined.medications, ...combined.conditions].join(', ')}</p>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">เหตุผล</label>
+            <textarea required rows={2} className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 text-gray-900" placeholder="เช่น เพิ่มซ้ำจากหน้า POS" value={note} onChange={e => setNote(e.target.value)} />
+          </div>
+
+          <div className="flex gap-3 mt-6">
+            <button type="button" onClick={onClose} className="flex-1 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">ยกเลิก</button>
+            <button
+              type="submit"
+              disabled={isSaving || !other}
+              className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 shadow-md shadow-rose-200 disabled:bg-gray-300"
+            >
+              {isSaving ? 'กำลังรวม...' : 'ยืนยันรวมข้อมูล'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default MergeCustomersModal;
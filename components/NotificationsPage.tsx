@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { useClinic } from '../context/ClinicContext';
+import { Bell, Send, RefreshCcw, RotateCcw, XCircle, MessageCircle, Smartphone, Mail, FileText } from 'lucide-react';
+import { NotificationChannel, NotificationKind, NotificationStatus } from '../types';
+import { CHANNEL_LABELS, getTransport, KIND_LABELS, MAX_ATTEMPTS, NOTIFICATION_TEMPLATES } from '../lib/notifications';
+
+const STATUS_LABELS: Record<NotificationStatus, string> = {
+  pending: 'รอส่ง',
+  sending: 'กำลังส่ง',
+  sent: 'ส่งแล้ว',
+  failed: 'ส่งไม่สำเร็จ',
+  cancelled: 'ยกเลิก'
+};
+
+const STATUS_BADGES: Record<NotificationStatus, string> = {
+  pending: 'bg-amber-50 text-amber-700 border-amber-200',
+  sending: 'bg-sky-50 text-sky-700 border-sky-200',
+  sent: 'bg-green-50 text-green-700 border-green-200',
+  failed: 'bg-red-50 text-red-600 border-red-200',
+  cancelled: 'bg-gray-50 text-gray-500 border-gray-200'
+};
+
+const CHANNEL_ICONS: Record<NotificationChannel, React.ReactNode> = {
+  line: <MessageCircle size={14} className="text-green-600" />,
+  sms: <Smartphone size={14} className="text-blue-600" />,
+  email: <Mail size={14} className="text-purple-600" />
+};
+
+const NotificationsPage: React.FC = () => {
+  const { notifications, customers, queueNotifications, processOutbox, retryNotification, cancelNotification } = useClinic();
+  const [activeTab, setActiveTab] = useState<'outbox' | 'templates'>('outbox');
+  const [statusFilter, setStatusFilter] = useState<NotificationStatus | ''>('');
+  const [kindFilter, setKindFilter] = useState<NotificationKind | ''>('');
+  const [isRunning, setIsRunning] = useState(false);
+
+  const filtered = notifications.filter(n => (!statusFilter || n.status === statusFilter) && (!kindFilter || n.kind === kindFilter));
+  const standInChannels = (Object.keys(CHANNEL_LABELS) as NotificationChannel[]).filter(c => getTransport(c).name === 'console');
+
+  const handleRun = async () => {
+      setIsRunning(true);
+      try {
+          const queued = await queueNotifications();
+          const { sent, failed } = await processOutbox();
+          alert(`สร้างรายการใหม่ ${queued} รายการ · ส่งสำเร็จ ${sent} · ไม่สำเร็จ ${failed}`);
+      } finally {
+          setIsRunning(false);
+      }
+  };
+
+  return (
+    <div className="p-4 md:p-8 w-full">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <Bell className="text-rose-500" /> แจ้งเตือนลูกค้า (Notifications)
+        </h2>
+        <button
+          onClick={handleRun}
+          disabled={isRunning}
+          className="flex items-center gap-2 bg-rose-500 text-white px-4 py-2 rounded-lg hover:bg-rose-600 transition shadow-md shadow-rose-200 w-full md:w-auto justify-center disabled:bg-gray-300"
+        >
+          {isRunning ? <RefreshCcw size={20} className="animate-spin" /> : <Send size={20} />}
+          ส่งรายการที่ถึงกำหนด
+        </button>
+      </div>
+
+      {standInChannels.length > 0 && (
+        <div className="mb-4 p-3 bg-amber-50 border border-amber-100 rounded-xl text-sm text-amber-800">
+            ยังไม่ได้เชื่อมต่อผู้ให้บริการ {standInChannels.map(c => CHANNEL_LABELS[c]).join(', ')} ข้อความในช่องทางนี้จะถูกบันทึกใน console แทนการส่งจริง
+        </div>
+      )}
+
+      <div className="flex bg-gray-100 p-1 rounded-xl w-fit mb-4">
+          <button onClick={() => setActiveTab('outbox')} className={`px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 ${activeTab === 'outbox' ? 'bg-white text-rose-600 shadow-sm' : 'text-gray-500'}`}>
+              <Send size={16} /> กล่องข้อความขาออก
+          </button>
+          <button onClick={() => setActiveTab('templates')} className={`px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 ${activeTab === 'templates' ? 'bg-white text-rose-600 shadow-sm' : 'text-gray-500'}`}>
+              <FileText size={16} /> แม่แบบข้อความ
+          </button>
+      </div>
+
+      {activeTab === 'outbox' && (
+      <>
+        <div className="flex flex-wrap gap-2 mb-4">
+            <select className="border border-gray-200 rounded-lg p-2 bg-white text-gray-700 text-sm" value={statusFilter} onChange={e => setStatusFilter(e.target.value as NotificationStatus | '')}>
+                <option value="">ทุกสถานะ</option>
+                {(Object.keys(STATUS_LABELS) as NotificationStatus[]).map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+            </select>
+            <select className="border border-gray-200 rounded-lg p-2 bg-white text-gray-700 text-sm" value={kindFilter} onChange={e => setKindFilter(e.target.value as NotificationKind | '')}>
+                <option value="">ทุกประเภท</option>
+                {(Object.keys(KIND_LABELS) as NotificationKind[]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+            </select>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-gray-50 border-b border-gray-100 whitespace-nowrap">
+                  <th className="p-4 font-medium text-gray-500">กำหนดส่ง</th>
+                  <th className="p-4 font-medium text-gray-500">ลูกค้า</th>
+                  <th className="p-4 font-medium text-gray-500">ประเภท</th>
+                  <th className="p-4 font-medium text-gray-500">ช่องทาง</th>
+                  <th className="p-4 font-medium text-gray-500">ข้อความ</th>
+                  <th className="p-4 font-medium text-gray-500">สถานะ</th>
+                  <th className="p-4 font-medium text-gray-500">จัดการ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map(n => (
+                  <tr key={n.id} className="border-b border-gray-50 hover:bg-gray-50 transition align-top">
+                    <td className="p-4 text-sm text-gray-700 whitespace-nowrap">{new Date(n.scheduledAt).toLocaleString('th-TH', { dateStyle: 'short', timeStyle: 'short' })}</td>
+                    <td className="p-4 font-medium text-gray-900 whitespace-nowrap">{customers.find(c => c.id === n.customerId)?.name || '-'}</td>
+                    <td className="p-4 text-sm text-gray-600 whitespace-nowrap">{KIND_LABELS[n.kind]}</td>
+                    <td className="p-4 text-sm text-gray-600 whitespace-nowrap">
+                        <span className="flex items-center gap-1">{CHANNEL_ICONS[n.channel]} {CHANNEL_LABELS[n.channel]}</span>
+                        <span className="text-xs text-gray-400">{n.recipient}</span>
+                    </td>
+                    <td className="p-4 text-sm text-gray-600 max-w-md">
+                        <p className="line-clamp-2" title={n.body}>{n.body}</p>
+                        {n.lastError && <p className="text-xs text-red-500 mt-1">{n.lastError}</p>}
+                    </td>
+                    <td className="p-4 whitespace-nowrap">
+                        <span className={`px-3 py-1 rounded-full text-xs font-medium border ${STATUS_BADGES[n.status]}`}>{STATUS_LABELS[n.status]}</span>
+                        {n.attempts > 0 && <p className="text-xs text-gray-400 mt-1">ครั้งที่ {n.attempts}/{MAX_ATTEMPTS}</p>}
+                        {n.sentAt && <p className="text-xs text-gray-400 mt-1">{new Date(n.sentAt).toLocaleString('th-TH', { dateStyle: 'short', timeStyle: 'short' })}</p>}
+                    </td>
+                    <td className="p-4">
+                        <div className="flex gap-2">
+                            {(n.status === 'failed' || n.status === 'cancelled') && (
+                                <button onClick={() => retryNotification(n.id)} className="p-1 hover:bg-blue-100 text-blue-600 rounded" title="ส่งใหม่">
+                                    <RotateCcw size={18} />
+                                </button>
+                            )}
+                            {(n.status === 'pending' || n.status === 'failed') && (
+                                <button onClick={() => cancelNotification(n.id)} className="p-1 hover:bg-amber-100 text-amber-600 rounded" title="ยกเลิก">
+                                    <XCircle size={18} />
+                                </button>
+                            )}
+                        </div>
+                    </td>
+                  </tr>
+                ))}
+                {filtered.length === 0 && (
+                    <tr>
+                        <td colSpan={7} className="p-8 text-center text-gray-400">ยังไม่มีข้อความในกล่องขาออก</td>
+                    </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <p className="text-xs text-gray-400 mt-2">ระบบจะสร้างและส่งข้อความที่ถึงกำหนดอัตโนมัติทุก 5 นาทีระหว่างที่เปิดโปรแกรมไว้ · ส่งไม่สำเร็จจะลองใหม่สูงสุด {MAX_ATTEMPTS} ครั้ง</p>
+      </>
+      )}
+
+      {activeTab === 'templates' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(Object.keys(NOTIFICATION_TEMPLATES) as NotificationKind[]).map(kind => (
+                <div key={kind} className="bg-white p-5 rounded-2xl border border-gray-100 shadow-sm">
+                    <h3 className="font-bold text-gray-800 mb-2">{KIND_LABELS[kind]}</h3>
+                    <p className="text-sm text-gray-600 leading-relaxed">{NOTIFICATION_TEMPLATES[kind]}</p>
+                </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationsPage;
@@ -1,7 +1,20 @@
 import React, { useState } from 'react';
-import { useClinic } from '../context/ClinicContext';
-import { Search, ShoppingCart, Plus, X, CreditCard, Banknote, QrCode, Package, Sparkles, Check, Layers, Zap, ChevronDown, ChevronUp, UserPlus, Loader2 } from 'lucide-react';
-import { CourseDefinition, Service } from '../types';
+import { useLocation } from 'react-router-dom';
+import { SaleResult, useClinic } from '../context/ClinicContext';
+import { useAuth, usePermission } from '../context/AuthContext';
+import { Search, ShoppingCart, Plus, X, CreditCard, Banknote, QrCode, Package, Sparkles, Check, Layers, Zap, ChevronDown, ChevronUp, UserPlus, Loader2, AlertTriangle, Printer, FileText, Percent, Ticket, ShieldCheck, Wallet } from 'lucide-react';
+import { ContraindicationHit, CourseDefinition, Discount, DiscountType, PaymentLine, PaymentMethod, Promotion, Service, Status } from '../types';
+import { getActiveDoctors } from '../lib/staff';
+import { printReceipt } from '../lib/receipts';
+import { findPromotionByCode, formatDiscount, isPromotionRunning, needsDiscountApproval, pickBestPromotion, priceCart, promotionCoversLine } from '../lib/pricing';
+import { addDays, toISODate } from '../lib/schedule';
+import { buildInstallments, MAX_INSTALLMENTS } from '../lib/receivables';
+import { courseSources, findContraindications, serviceSources } from '../lib/medical';
+import { findDuplicateCustomers } from '../lib/customers';
+import TaxInvoiceModal from './TaxInvoiceModal';
+import PaymentLinesInput from './PaymentLinesInput';
+import ContraindicationModal from './ContraindicationModal';
+import DuplicateCustomerWarning from './DuplicateCustomerWarning';
 
 interface CartItem {
     id: string;
@@ -9,19 +22,90 @@ interface CartItem {
     name: string;
     price: number;
     quantity: number;
+    staffId?: string; // Performing doctor for services (drives DF)
+    discount?: Discount;
+}
+
+// Small %/฿ switch with an amount box, used for line and bill discounts
+const DiscountInput: React.FC<{ value?: Discount; onChange: (discount: Discount | undefined) => void }> = ({ value, onChange }) => {
+    const [pendingType, setPendingType] = useState<DiscountType>('percent');
+    const type: DiscountType = value?.type || pendingType;
+    return (
+        <div className="flex items-center gap-1">
+            <input
+                type="number"
+                min="0"
+                max={type === 'percent' ? 100 : undefined}
+                step="0.01"
+                placeholder="0"
+                className="w-20 border border-gray-200 rounded p-1 text-xs text-gray-900"
+                value={value?.value || ''}
+                onChange={e => {
+                    const amount = Math.max(0, parseFloat(e.target.value) || 0);
+                    onChange(amount > 0 ? { type, value: type === 'percent' ? Math.min(100, amount) : amount } : undefined);
+                }}
+            />
+            <div className="flex border border-gray-200 rounded overflow-hidden text-xs">
+                {(['percent', 'amount'] as DiscountType[]).map(t => (
+                    <button
+                        key={t}
+                        type="button"
+                        onClick={() => {
+                            setPendingType(t);
+                            if (value) onChange({ type: t, value: t === 'percent' ? Math.min(100, value.value) : value.value });
+                        }}
+                        className={`px-2 py-1 ${type === t ? 'bg-gray-900 text-white' : 'bg-white text-gray-500'}`}
+                    >
+                        {t === 'percent' ? '%' : '฿'}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// Sent by the appointment page when an appointment is billed here
+interface AppointmentCheckout {
+    appointmentId: string;
+    customerId: string;
+    serviceId: string;
+    staffId?: string;
 }
 
 const POSPage: React.FC = () => {
-  const { customers, services, courseDefinitions, processSale, addCustomer } = useClinic();
+  const { customers, services, courseDefinitions, processSale, getStockShortages, addCustomer, staff, updateAppointmentStatus, markReceiptPrinted, promotions, clinicProfile, getCustomerWalletBalance, inventory } = useClinic();
+  const { can } = usePermission();
+  const { verifyApprover } = useAuth();
+  const checkout = useLocation().state as AppointmentCheckout | null;
   
   // State
-  const [selectedCustomerId, setSelectedCustomerId] = useState<string>('');
-  const [cart, setCart] = useState<CartItem[]>([]);
-  const [paymentMethod, setPaymentMethod] = useState<'Cash' | 'Credit Card' | 'Transfer'>('Credit Card');
+  const [selectedCustomerId, setSelectedCustomerId] = useState<string>(checkout?.customerId || '');
+  const [cart, setCart] = useState<CartItem[]>(() => {
+      const service = services.find(s => s.id === checkout?.serviceId);
+      return service ? [{ id: service.id, type: 'service', name: service.name, price: service.price, quantity: 1, staffId: checkout?.staffId }] : [];
+  });
+  const [appointmentId, setAppointmentId] = useState<string | null>(checkout?.appointmentId || null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('Credit Card');
+  const [splitLines, setSplitLines] = useState<PaymentLine[] | null>(null); // null = whole bill in paymentMethod
+  const [installmentCount, setInstallmentCount] = useState(3);
+  const [firstDueDate, setFirstDueDate] = useState(() => addDays(toISODate(new Date()), 30));
   const [searchTerm, setSearchTerm] = useState('');
   const [activeTab, setActiveTab] = useState<'services' | 'courses'>('courses');
-  const [isSuccess, setIsSuccess] = useState(false);
+  const [lastSale, setLastSale] = useState<(SaleResult & { customerId: string }) | null>(null);
+  const [isTaxInvoiceOpen, setIsTaxInvoiceOpen] = useState(false);
   const [isMobileCartOpen, setIsMobileCartOpen] = useState(false);
+  const [saleHits, setSaleHits] = useState<ContraindicationHit[]>([]); // Awaiting acknowledgement before checkout
+
+  // Discounts
+  const [billDiscount, setBillDiscount] = useState<Discount | undefined>(undefined);
+  const [discountEditIndex, setDiscountEditIndex] = useState<number | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [coupon, setCoupon] = useState<Promotion | null>(null);
+  const [approval, setApproval] = useState<{ email: string; amount: number } | null>(null);
+  const [isApprovalOpen, setIsApprovalOpen] = useState(false);
+  const [approverEmail, setApproverEmail] = useState('');
+  const [approverPassword, setApproverPassword] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
   
   // Quick Add Customer Modal
   const [isAddCustomerOpen, setIsAddCustomerOpen] = useState(false);
@@ -33,8 +117,24 @@ const POSPage: React.FC = () => {
   const [justAddedId, setJustAddedId] = useState<string | null>(null);
 
   // Derived
-  const total = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+  const promotion = coupon || pickBestPromotion(promotions, cart, services);
+  const pricing = priceCart(cart, services, promotion, billDiscount);
+  const total = pricing.total;
+  // Approval covers the discount the manager saw; raising it afterwards needs a new approval
+  const requiresApproval = needsDiscountApproval(pricing, clinicProfile.maxDiscountPercent) && !can('discounts.approve');
+  const isApproved = !requiresApproval || (!!approval && approval.amount >= pricing.manualDiscount - 0.001);
   const totalItems = cart.reduce((sum, item) => sum + item.quantity, 0);
+  const walletBalance = selectedCustomerId ? getCustomerWalletBalance(selectedCustomerId) : 0;
+  const paymentLines = splitLines || [{ method: paymentMethod, amount: total }];
+  const walletUsed = paymentLines.filter(p => p.method === 'Wallet').reduce((sum, p) => sum + p.amount, 0);
+  const remaining = Math.round((total - paymentLines.reduce((sum, p) => sum + p.amount, 0)) * 100) / 100;
+  const installments = remaining > 0 ? buildInstallments(remaining, installmentCount, firstDueDate) : [];
+  // Deposits and installments are for course packages; single visits are paid in full
+  const paymentError = remaining < 0
+      ? 'ยอดชำระเกินยอดรวมสุทธิ'
+      : walletUsed > walletBalance + 0.001 ? `เครดิตในวอลเล็ทไม่พอ (คงเหลือ ฿${walletBalance.toLocaleString()})`
+      : remaining > 0 && !cart.some(item => item.type === 'course') ? 'ชำระบางส่วน/ผ่อนชำระได้เฉพาะบิลที่มีคอร์ส' : null;
+  const stockShortages = getStockShortages(cart);
 
   const addToCart = (item: Service | CourseDefinition, type: 'service' | 'course') => {
       // Trigger Animation
@@ -49,25 +149,105 @@ const POSPage: React.FC = () => {
       }
   };
 
+  const setCartDiscount = (index: number, discount: Discount | undefined) => {
+      setCart(cart.map((item, i) => i === index ? { ...item, discount } : item));
+  };
+
+  const applyCoupon = () => {
+      const promo = findPromotionByCode(promotions, couponInput);
+      if (!promo) {
+          alert('ไม่พบรหัสคูปองนี้');
+          return;
+      }
+      if (!isPromotionRunning(promo)) {
+          alert('คูปองนี้หมดอายุ ยังไม่เริ่ม หรือถูกใช้ครบจำนวนแล้ว');
+          return;
+      }
+      if (!cart.some(item => promotionCoversLine(promo, item, services))) {
+          alert('คูปองนี้ใช้ไม่ได้กับรายการในตะกร้า');
+          return;
+      }
+      setCoupon(promo);
+      setCouponInput('');
+  };
+
+  const handleApprove = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsVerifying(true);
+      const email = await verifyApprover(approverEmail, approverPassword, 'discounts.approve');
+      setIsVerifying(false);
+      setApproverPassword('');
+      if (!email) return;
+      setApproval({ email, amount: pricing.manualDiscount });
+      setIsApprovalOpen(false);
+  };
+
+  const setCartDoctor = (index: number, staffId: string) => {
+      setCart(cart.map((item, i) => i === index ? { ...item, staffId: staffId || undefined } : item));
+  };
+
   const removeFromCart = (index: number) => {
       setCart(cart.filter((_, i) => i !== index));
+      setDiscountEditIndex(null);
   };
 
-  const handleCheckout = () => {
+  const handleCheckout = async () => {
       if (!selectedCustomerId) {
           alert('กรุณาเลือกลูกค้าก่อนชำระเงิน');
           return;
       }
-      processSale(selectedCustomerId, cart, paymentMethod);
-      setIsSuccess(true);
+      if (!isApproved) {
+          setIsApprovalOpen(true);
+          return;
+      }
+      const hits = findContraindications(customers.find(c => c.id === selectedCustomerId), cart.flatMap(item => item.type === 'service'
+          ? serviceSources(services.find(s => s.id === item.id), inventory)
+          : courseSources(courseDefinitions.find(c => c.id === item.id), services, inventory)));
+      if (hits.length > 0) {
+          setSaleHits(hits);
+          return;
+      }
+      await completeCheckout();
+  };
+
+  const completeCheckout = async (safetyNote?: string) => {
+      setSaleHits([]);
+      const result = await processSale(selectedCustomerId, cart, paymentMethod, {
+          billDiscount,
+          promotionId: promotion?.id,
+          couponCode: coupon?.code,
+          approvedBy: requiresApproval ? approval?.email : undefined,
+          payments: paymentLines,
+          installments,
+          safetyNote
+      });
+      if (!result) return;
+      if (appointmentId) {
+          await updateAppointmentStatus(appointmentId, Status.COMPLETED, 'ชำระเงินที่ POS');
+          setAppointmentId(null);
+      }
+      setLastSale({ ...result, customerId: selectedCustomerId });
       setCart([]);
-      setTimeout(() => setIsSuccess(false), 3000);
+      setBillDiscount(undefined);
+      setCoupon(null);
+      setApproval(null);
+      setDiscountEditIndex(null);
+      setSplitLines(null);
       setIsMobileCartOpen(false);
   };
 
+  const handlePrintReceipt = () => {
+      if (!lastSale?.receipt) return;
+      printReceipt(lastSale.receipt);
+      markReceiptPrinted(lastSale.receipt.id);
+      setLastSale({ ...lastSale, receipt: { ...lastSale.receipt, printCount: lastSale.receipt.printCount + 1 } });
+  };
+
   const handleQuickAddCustomer = async (e: React.FormEvent) => {
       e.preventDefault();
       if (!newCustomerName || !newCustomerPhone) return;
+      if (findDuplicateCustomers(customers, { name: newCustomerName, phone: newCustomerPhone }).length > 0
+          && !window.confirm('พบลูกค้าที่อาจเป็นคนเดียวกัน ยืนยันเพิ่มเป็นลูกค้าใหม่?')) return;
       
       setIsAddingCustomer(true);
       const newCust = await addCustomer({
@@ -128,6 +308,12 @@ const POSPage: React.FC = () => {
                         <Sparkles size={12} /> ยังไม่มีข้อมูลลูกค้าในระบบ กรุณากดปุ่มเพิ่มลูกค้า
                     </p>
                 )}
+                {appointmentId && (
+                    <div className="mt-3 flex items-center justify-between text-xs bg-rose-50 text-rose-700 border border-rose-100 rounded-lg px-3 py-2">
+                        <span>ชำระเงินสำหรับนัดหมาย · นัดจะถูกปิดเมื่อชำระเงินสำเร็จ</span>
+                        <button onClick={() => setAppointmentId(null)} title="ไม่ผูกกับนัดหมาย"><X size={14} /></button>
+                    </div>
+                )}
             </div>
 
             {/* Tabs */}
@@ -257,17 +443,45 @@ const POSPage: React.FC = () => {
                                         </span>
                                         <p className="text-xs text-gray-500 whitespace-nowrap">x {item.quantity}</p>
                                     </div>
+                                    {discountEditIndex === idx && (
+                                        <div className="mt-1 flex items-center gap-1">
+                                            <span className="text-[10px] text-gray-500">ส่วนลด</span>
+                                            <DiscountInput value={item.discount} onChange={d => setCartDiscount(idx, d)} />
+                                        </div>
+                                    )}
+                                    {!isCourse && (
+                                        <select
+                                            className="mt-1 text-xs border border-gray-200 rounded p-1 bg-white text-gray-700 max-w-full"
+                                            value={item.staffId || ''}
+                                            onChange={e => setCartDoctor(idx, e.target.value)}
+                                        >
+                                            <option value="">แพทย์ (DF): ไม่ระบุ</option>
+                                            {getActiveDoctors(staff, item.id).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                                        </select>
+                                    )}
                                 </div>
                             </div>
                             <div className="flex flex-col items-end gap-1 pl-2 flex-shrink-0">
-                                <span className="font-bold text-gray-900">฿{(item.price * item.quantity).toLocaleString()}</span>
-                                <button 
-                                    onClick={() => removeFromCart(idx)} 
-                                    className="text-gray-300 hover:text-red-500 transition lg:opacity-0 group-hover:opacity-100 p-1"
-                                    title="Remove"
-                                >
-                                    <X size={16} />
-                                </button>
+                                {pricing.lines[idx]?.discount > 0 && (
+                                    <span className="text-xs text-gray-400 line-through">฿{(item.price * item.quantity).toLocaleString()}</span>
+                                )}
+                                <span className="font-bold text-gray-900">฿{(pricing.lines[idx]?.net ?? item.price * item.quantity).toLocaleString()}</span>
+                                <div className="flex">
+                                    <button
+                                        onClick={() => setDiscountEditIndex(discountEditIndex === idx ? null : idx)}
+                                        className={`p-1 transition ${item.discount ? 'text-rose-500' : 'text-gray-300 hover:text-rose-500 lg:opacity-0 group-hover:opacity-100'}`}
+                                        title="ส่วนลดรายการ"
+                                    >
+                                        <Percent size={16} />
+                                    </button>
+                                    <button 
+                                        onClick={() => removeFromCart(idx)} 
+                                        className="text-gray-300 hover:text-red-500 transition lg:opacity-0 group-hover:opacity-100 p-1"
+                                        title="Remove"
+                                    >
+                                        <X size={16} />
+                                    </button>
+                                </div>
                             </div>
                         </div>
                     );
@@ -276,12 +490,68 @@ const POSPage: React.FC = () => {
         </div>
 
         <div className="p-6 border-t border-gray-100 bg-white flex-shrink-0">
+            {stockShortages.length > 0 && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-100 rounded-xl text-sm text-red-700">
+                    <p className="font-bold flex items-center gap-1 mb-1"><AlertTriangle size={14} /> สต็อกไม่พอ</p>
+                    <ul className="space-y-0.5 text-xs">
+                        {stockShortages.map(s => (
+                            <li key={s.inventoryItemId} className="flex justify-between">
+                                <span>{s.name}</span>
+                                <span>ต้องใช้ {s.required} / เหลือ {s.available} {s.unit}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {cart.length > 0 && (
+                <div className="mb-4 space-y-2 text-sm">
+                    {coupon ? (
+                        <div className="flex items-center justify-between bg-rose-50 text-rose-700 border border-rose-100 rounded-lg px-3 py-2">
+                            <span className="flex items-center gap-1"><Ticket size={14} /> {coupon.code} · {coupon.name}</span>
+                            <button onClick={() => setCoupon(null)} title="ยกเลิกคูปอง"><X size={14} /></button>
+                        </div>
+                    ) : (
+                        <div className="flex gap-2">
+                            <input
+                                className="flex-1 border border-gray-200 rounded-lg p-2 text-gray-900 uppercase"
+                                placeholder="รหัสคูปอง"
+                                value={couponInput}
+                                onChange={e => setCouponInput(e.target.value)}
+                                onKeyDown={e => e.key === 'Enter' && couponInput.trim() && applyCoupon()}
+                            />
+                            <button onClick={applyCoupon} disabled={!couponInput.trim()} className="px-3 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50">ใช้คูปอง</button>
+                        </div>
+                    )}
+                    {!coupon && promotion && (
+                        <p className="text-xs text-rose-600 flex items-center gap-1"><Sparkles size={12} /> โปรโมชั่นอัตโนมัติ: {promotion.name} ({formatDiscount(promotion.discountType, promotion.discountValue)})</p>
+                    )}
+                    <div className="flex items-center justify-between">
+                        <span className="text-gray-500">ส่วนลดท้ายบิล</span>
+                        <DiscountInput value={billDiscount} onChange={setBillDiscount} />
+                    </div>
+                    {pricing.discountAmount > 0 && (
+                        <div className="border-t border-gray-100 pt-2 space-y-1 text-gray-500">
+                            <div className="flex justify-between"><span>ยอดก่อนส่วนลด</span><span>฿{pricing.subtotal.toLocaleString()}</span></div>
+                            {pricing.promotionDiscount > 0 && <div className="flex justify-between text-rose-600"><span>โปรโมชั่น</span><span>-฿{pricing.promotionDiscount.toLocaleString()}</span></div>}
+                            {pricing.manualDiscount > 0 && <div className="flex justify-between"><span>ส่วนลด ({pricing.manualDiscountPercent.toFixed(1)}%)</span><span>-฿{pricing.manualDiscount.toLocaleString()}</span></div>}
+                        </div>
+                    )}
+                    {requiresApproval && (
+                        <p className={`text-xs flex items-center gap-1 ${isApproved ? 'text-emerald-600' : 'text-amber-600'}`}>
+                            <ShieldCheck size={12} />
+                            {isApproved ? `อนุมัติส่วนลดโดย ${approval?.email}` : `ส่วนลดเกิน ${clinicProfile.maxDiscountPercent}% ต้องให้ผู้จัดการอนุมัติก่อนชำระเงิน`}
+                        </p>
+                    )}
+                </div>
+            )}
+
             <div className="flex justify-between mb-4 items-end">
                 <span className="text-gray-500 font-medium">ยอดรวมสุทธิ</span>
                 <span className="text-3xl font-bold text-gray-900 tracking-tight">฿{total.toLocaleString()}</span>
             </div>
 
-            <div className="grid grid-cols-3 gap-2 mb-6">
+            <div className="grid grid-cols-4 gap-2 mb-6">
                 <button 
                     onClick={() => setPaymentMethod('Cash')}
                     className={`flex flex-col items-center p-2 md:p-3 rounded-xl border transition-all duration-200 ${paymentMethod === 'Cash' ? 'bg-green-50 border-green-500 text-green-700 shadow-sm' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'}`}
@@ -303,13 +573,63 @@ const POSPage: React.FC = () => {
                     <QrCode size={20} className="mb-1" />
                     <span className="text-[10px] md:text-xs font-medium">โอนเงิน</span>
                 </button>
+                <button 
+                    onClick={() => setPaymentMethod('Wallet')}
+                    disabled={walletBalance <= 0}
+                    className={`flex flex-col items-center p-2 md:p-3 rounded-xl border transition-all duration-200 disabled:opacity-40 ${paymentMethod === 'Wallet' ? 'bg-amber-50 border-amber-500 text-amber-700 shadow-sm' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                    title={`คงเหลือ ฿${walletBalance.toLocaleString()}`}
+                >
+                    <Wallet size={20} className="mb-1" />
+                    <span className="text-[10px] md:text-xs font-medium">วอลเล็ท</span>
+                    <span className="text-[10px] text-gray-400">฿{walletBalance.toLocaleString()}</span>
+                </button>
+            </div>
+
+            <div className="mb-6 text-sm">
+                <label className="flex items-center gap-2 text-gray-600 mb-2">
+                    <input
+                        type="checkbox"
+                        checked={!!splitLines}
+                        onChange={e => setSplitLines(e.target.checked ? [{ method: paymentMethod, amount: total }] : null)}
+                    />
+                    แบ่งชำระหลายช่องทาง / มัดจำ
+                </label>
+                {splitLines && (
+                    <div className="space-y-3 p-3 bg-gray-50 rounded-xl">
+                        <PaymentLinesInput lines={splitLines} onChange={setSplitLines} />
+                        <div className="flex justify-between text-gray-600">
+                            <span>ค้างชำระ</span>
+                            <span className={`font-bold ${remaining > 0 ? 'text-amber-600' : 'text-gray-900'}`}>฿{Math.max(0, remaining).toLocaleString()}</span>
+                        </div>
+                        {remaining > 0 && !paymentError && (
+                            <div className="space-y-2">
+                                <div className="flex gap-2">
+                                    <label className="flex-1 text-xs text-gray-500">จำนวนงวด
+                                        <select className="w-full border border-gray-200 rounded-lg p-1.5 bg-white text-gray-900" value={installmentCount} onChange={e => setInstallmentCount(parseInt(e.target.value))}>
+                                            {[...Array(MAX_INSTALLMENTS)].map((_, i) => <option key={i} value={i + 1}>{i + 1} งวด</option>)}
+                                        </select>
+                                    </label>
+                                    <label className="flex-1 text-xs text-gray-500">งวดแรกครบกำหนด
+                                        <input type="date" className="w-full border border-gray-200 rounded-lg p-1.5 text-gray-900" value={firstDueDate} min={toISODate(new Date())} onChange={e => e.target.value && setFirstDueDate(e.target.value)} />
+                                    </label>
+                                </div>
+                                <div className="text-xs text-gray-500 space-y-0.5">
+                                    {installments.map((inst, i) => (
+                                        <div key={i} className="flex justify-between"><span>งวดที่ {i + 1} · {new Date(inst.dueDate).toLocaleDateString('th-TH')}</span><span>฿{inst.amount.toLocaleString()}</span></div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+                {paymentError && cart.length > 0 && <p className="mt-2 text-xs text-red-600 flex items-center gap-1"><AlertTriangle size={12} /> {paymentError}</p>}
             </div>
 
             <button 
                 onClick={handleCheckout}
-                disabled={cart.length === 0 || !selectedCustomerId}
+                disabled={cart.length === 0 || !selectedCustomerId || stockShortages.length > 0 || !!paymentError}
                 className={`w-full py-4 rounded-xl font-bold text-lg shadow-lg transition-all transform active:scale-95 flex justify-center items-center gap-2 ${
-                    cart.length === 0 || !selectedCustomerId 
+                    cart.length === 0 || !selectedCustomerId || stockShortages.length > 0 || !!paymentError
                     ? 'bg-gray-200 text-gray-400 cursor-not-allowed' 
                     : 'bg-gray-900 text-white hover:bg-gray-800 hover:shadow-xl'
                 }`}
@@ -318,17 +638,99 @@ const POSPage: React.FC = () => {
                 ชำระเงิน (Checkout)
             </button>
 
-            {isSuccess && (
-                <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-emerald-600 text-white px-8 py-6 rounded-2xl shadow-2xl flex flex-col items-center gap-3 animate-bounce z-50 w-max">
-                    <div className="w-12 h-12 bg-white/20 rounded-full flex items-center justify-center backdrop-blur-sm">
-                         <Check size={32} className="text-white" />
-                    </div>
-                    <span className="text-lg font-bold">บันทึกการขายสำเร็จ!</span>
-                </div>
-            )}
         </div>
       </div>
 
+       {/* Sale Complete / Receipt */}
+       {lastSale && !isTaxInvoiceOpen && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white p-6 rounded-2xl w-full max-w-sm shadow-2xl text-center">
+                <div className="w-14 h-14 bg-emerald-100 rounded-full flex items-center justify-center mx-auto mb-3">
+                    <Check size={32} className="text-emerald-600" />
+                </div>
+                <h3 className="text-lg font-bold text-gray-800">บันทึกการขายสำเร็จ!</h3>
+                {lastSale.receipt ? (
+                    <p className="text-sm text-gray-500 mb-6">
+                        ใบเสร็จเลขที่ <span className="font-mono text-gray-800">{lastSale.receipt.documentNumber}</span>
+                        {!!lastSale.receipt.balanceDue && <span className="block text-amber-600">ค้างชำระ ฿{lastSale.receipt.balanceDue.toLocaleString()}</span>}
+                    </p>
+                ) : (
+                    <p className="text-sm text-amber-600 mb-6">ยังไม่ได้ออกใบเสร็จ สามารถออกได้ภายหลังที่หน้าประวัติการขาย</p>
+                )}
+                <div className="space-y-2">
+                    {lastSale.receipt && (
+                        <button onClick={handlePrintReceipt} className="w-full py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 flex items-center justify-center gap-2">
+                            <Printer size={18} /> พิมพ์ใบเสร็จ / PDF
+                        </button>
+                    )}
+                    <button onClick={() => setIsTaxInvoiceOpen(true)} className="w-full py-2 bg-rose-50 text-rose-700 rounded-lg hover:bg-rose-100 flex items-center justify-center gap-2">
+                        <FileText size={18} /> ออกใบกำกับภาษีเต็มรูป
+                    </button>
+                    <button onClick={() => setLastSale(null)} className="w-full py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">ปิด</button>
+                </div>
+            </div>
+          </div>
+       )}
+
+       {lastSale && isTaxInvoiceOpen && (
+          <TaxInvoiceModal
+              transactionId={lastSale.transactionId}
+              customerId={lastSale.customerId}
+              onClose={() => { setIsTaxInvoiceOpen(false); setLastSale(null); }}
+          />
+       )}
+
+       {/* Manager Approval */}
+       {saleHits.length > 0 && (
+           <ContraindicationModal
+               customer={customers.find(c => c.id === selectedCustomerId)!}
+               context="sale"
+               itemName={cart.map(item => item.name).join(', ')}
+               hits={saleHits}
+               onConfirm={completeCheckout}
+               onCancel={() => setSaleHits([])}
+           />
+       )}
+
+       {isApprovalOpen && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+              <div className="bg-white p-6 rounded-2xl w-full max-w-sm shadow-xl animate-fadeIn">
+                  <h3 className="text-lg font-bold mb-2 text-gray-800 flex items-center gap-2">
+                      <ShieldCheck className="text-rose-500" size={20}/>
+                      อนุมัติส่วนลด
+                  </h3>
+                  <p className="text-sm text-gray-500 mb-4">
+                      ส่วนลด ฿{pricing.manualDiscount.toLocaleString()} ({pricing.manualDiscountPercent.toFixed(1)}%) เกินเกณฑ์ {clinicProfile.maxDiscountPercent}% กรุณาให้ผู้จัดการยืนยันด้วยบัญชีของตนเอง
+                  </p>
+                  <form onSubmit={handleApprove} className="space-y-4">
+                      <input
+                          type="email" required autoFocus
+                          className="w-full border border-gray-300 rounded-lg p-2.5 focus:ring-2 focus:ring-rose-500 outline-none text-gray-900"
+                          placeholder="อีเมลผู้จัดการ"
+                          value={approverEmail}
+                          onChange={e => setApproverEmail(e.target.value)}
+                      />
+                      <input
+                          type="password" required
+                          className="w-full border border-gray-300 rounded-lg p-2.5 focus:ring-2 focus:ring-rose-500 outline-none text-gray-900"
+                          placeholder="รหัสผ่าน"
+                          value={approverPassword}
+                          onChange={e => setApproverPassword(e.target.value)}
+                      />
+                      <div className="flex gap-3 mt-6">
+                          <button type="button" onClick={() => setIsApprovalOpen(false)} className="flex-1 py-2 border border-gray-200 rounded-lg text-gray-600 hover:bg-gray-50">
+                              ยกเลิก
+                          </button>
+                          <button type="submit" disabled={isVerifying} className="flex-1 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 flex items-center justify-center gap-2">
+                              {isVerifying ? <Loader2 className="animate-spin" size={16} /> : <Check size={16} />}
+                              อนุมัติ
+                          </button>
+                      </div>
+                  </form>
+              </div>
+          </div>
+       )}
+
        {/* Quick Add Customer Modal */}
        {isAddCustomerOpen && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -358,6 +760,16 @@ const POSPage: React.FC = () => {
                               onChange={e => setNewCustomerPhone(e.target.value)}
                           />
                       </div>
+                      <DuplicateCustomerWarning
+                          name={newCustomerName}
+                          phone={newCustomerPhone}
+                          onSelect={c => {
+                              setSelectedCustomerId(c.id);
+                              setIsAddCustomerOpen(false);
+                              setNewCustomerName('');
+                              setNewCustomerPhone('');
+                          }}
+                      />
                       <div className="flex gap-3 mt-6">
                           <button 
                             type="button" 
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { PaymentLine, PaymentMethod } from '../types';
+import { PAYMENT_METHOD_LABELS } from '../lib/receipts';
+
+interface PaymentLinesInputProps {
+  lines: PaymentLine[];
+  onChange: (lines: PaymentLine[]) => void;
+}
+
+// One row per method/amount, for bills paid with more than one method or only in part
+const PaymentLinesInput: React.FC<PaymentLinesInputProps> = ({ lines, onChange }) => {
+  const update = (index: number, line: Partial<PaymentLine>) =>
+      onChange(lines.map((l, i) => i === index ? { ...l, ...line } : l));
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, i) => (
+          <div key={i} className="flex items-center gap-2">
+              <select
+                className="flex-1 border border-gray-200 rounded-lg p-1.5 text-sm bg-white text-gray-900"
+                value={line.method}
+                onChange={e => update(i, { method: e.target.value as PaymentMethod })}
+              >
+                  {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+              </select>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0"
+                className="w-28 border border-gray-200 rounded-lg p-1.5 text-sm text-gray-900"
+                value={line.amount || ''}
+                onChange={e => update(i, { amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(lines.filter((_, n) => n !== i))}
+                disabled={lines.length === 1}
+                className="text-gray-400 hover:text-red-500 disabled:opacity-30"
+              >
+                  <X size={16} />
+              </button>
+          </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...lines, { method: 'Cash', amount: 0 }])}
+        className="text-xs text-rose-600 hover:text-rose-700 flex items-center gap-1"
+      >
+          <Plus size={12} /> เพิ่มช่องทางชำระ
+      </button>
+    </div>
+  );
+};
+
+export default PaymentLinesInput;
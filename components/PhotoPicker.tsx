@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { Camera, X } from 'lucide-react';
+import { PhotoKind, PhotoUpload } from '../types';
+import { PHOTO_KIND_LABELS } from '../lib/photos';
+
+interface PhotoPickerProps {
+  value: PhotoUpload[];
+  onChange: (photos: PhotoUpload[]) => void;
+}
+
+// Capture (camera on tablets/phones) or choose before/after photos; nothing is uploaded until the form is saved
+const PhotoPicker: React.FC<PhotoPickerProps> = ({ value, onChange }) => {
+  const [previews, setPreviews] = useState<string[]>([]);
+
+  useEffect(() => {
+      const urls = value.map(p => URL.createObjectURL(p.file));
+      setPreviews(urls);
+      return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [value]);
+
+  const addFiles = (kind: PhotoKind, files: FileList | null) => {
+      if (!files) return;
+      onChange([...value, ...Array.from(files).map(file => ({ file, kind, marketingConsent: false }))]);
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 text-sm space-y-3">
+        <h4 className="font-semibold text-gray-700 flex items-center gap-2"><Camera size={14} /> รูปก่อน/หลังทำ</h4>
+        <div className="grid grid-cols-2 gap-2">
+            {(['before', 'after'] as PhotoKind[]).map(kind => (
+                <label key={kind} className="cursor-pointer text-center py-2 rounded-lg border border-dashed border-gray-300 text-gray-600 hover:bg-white">
+                    + {PHOTO_KIND_LABELS[kind]}
+                    <input
+                        type="file"
+                        accept="image/*"
+                        capture="environment"
+                        multiple
+                        className="hidden"
+                        onChange={e => { addFiles(kind, e.target.files); e.target.value = ''; }}
+                    />
+                </label>
+            ))}
+        </div>
+        {value.length > 0 && (
+            <div className="grid grid-cols-3 gap-2">
+                {value.map((photo, i) => (
+                    <div key={i} className="relative bg-white rounded-lg border border-gray-200 p-1">
+                        {previews[i] && <img src={previews[i]} alt="" className="w-full h-20 object-cover rounded" />}
+                        <button type="button" onClick={() => onChange(value.filter((_, j) => j !== i))} className="absolute top-1 right-1 bg-white/80 rounded-full p-0.5 text-red-500"><X size={12} /></button>
+                        <p className="text-[10px] text-gray-500 mt-1">{PHOTO_KIND_LABELS[photo.kind]}</p>
+                        <label className="flex items-center gap-1 text-[10px] text-gray-600">
+                            <input
+                                type="checkbox"
+                                checked={photo.marketingConsent}
+                                onChange={e => onChange(value.map((p, j) => j === i ? { ...p, marketingConsent: e.target.checked } : p))}
+                            />
+                            ยินยอมใช้เพื่อการตลาด
+                        </label>
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default PhotoPicker;
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Images, Plus, X } from 'lucide-react';
+import { useClinic } from '../context/ClinicContext';
+import { Customer, PhotoUpload, TreatmentPhoto } from '../types';
+import { getPhotoTimeline, PHOTO_KIND_LABELS, photosOfKind } from '../lib/photos';
+import PhotoPicker from './PhotoPicker';
+
+interface PhotoTimelineProps {
+  customer: Customer;
+}
+
+// Before/after photos per treatment, oldest first, with a side-by-side comparison of any two
+const PhotoTimeline: React.FC<PhotoTimelineProps> = ({ customer }) => {
+  const { getPhotoUrls, setPhotoConsent, uploadTreatmentPhotos } = useClinic();
+  const timeline = getPhotoTimeline(customer.treatmentHistory);
+  const allPhotos = timeline.flatMap(rec => rec.photos);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [leftId, setLeftId] = useState('');
+  const [rightId, setRightId] = useState('');
+  const [viewing, setViewing] = useState<TreatmentPhoto | null>(null);
+  const [addingTo, setAddingTo] = useState<string | null>(null);
+  const [newPhotos, setNewPhotos] = useState<PhotoUpload[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const pathKey = allPhotos.map(p => p.id).join(',');
+  useEffect(() => {
+      let cancelled = false;
+      getPhotoUrls(allPhotos.flatMap(p => [p.thumbnailPath, p.path])).then(result => { if (!cancelled) setUrls(result); });
+      return () => { cancelled = true; };
+  }, [pathKey]);
+
+  // Default comparison: first "before" against the latest "after"
+  const left = allPhotos.find(p => p.id === leftId) || photosOfKind(allPhotos, 'before')[0];
+  const right = allPhotos.find(p => p.id === rightId) || photosOfKind(allPhotos, 'after').slice(-1)[0];
+  const recordOf = (photo: TreatmentPhoto) => timeline.find(rec => rec.id === photo.treatmentRecordId);
+  const photoLabel = (photo: TreatmentPhoto) =>
+      `${new Date(photo.takenAt).toLocaleDateString('th-TH')} · ${recordOf(photo)?.treatmentName || ''} · ${PHOTO_KIND_LABELS[photo.kind]}`;
+
+  const handleAddPhotos = async () => {
+      const rec = customer.treatmentHistory.find(r => r.id === addingTo);
+      if (!rec || newPhotos.length === 0) return;
+      setIsSaving(true);
+      await uploadTreatmentPhotos(rec.id, customer.id, newPhotos);
+      setIsSaving(false);
+      setAddingTo(null);
+      setNewPhotos([]);
+  };
+
+  const renderCompareSide = (photo: TreatmentPhoto | undefined, selected: string, onSelect: (id: string) => void) => (
+      <div className="space-y-2">
+          <select className="w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900 text-xs" value={photo?.id || selected} onChange={e => onSelect(e.target.value)}>
+              {allPhotos.map(p => <option key={p.id} value={p.id}>{photoLabel(p)}</option>)}
+          </select>
+          <div className="aspect-[3/4] bg-gray-100 rounded-xl overflow-hidden flex items-center justify-center">
+              {photo && urls[photo.path]
+                  ? <img src={urls[photo.path]} alt="" className="w-full h-full object-cover" />
+                  : <span className="text-xs text-gray-400">ไม่มีรูป</span>}
+          </div>
+      </div>
+  );
+
+  return (
+    <div className="space-y-4">
+        <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2 mt-8">
+            <Images className="text-rose-500" />
+            รูปก่อน/หลัง (Before & After)
+        </h3>
+
+        {allPhotos.length > 1 && (
+            <div className="bg-white p-4 rounded-xl border border-gray-200 grid grid-cols-2 gap-4">
+                {renderCompareSide(left, leftId, setLeftId)}
+                {renderCompareSide(right, rightId, setRightId)}
+            </div>
+        )}
+
+        <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+            {timeline.map(rec => (
+                <div key={rec.id} className="p-4">
+                    <p className="text-sm font-medium text-gray-800 mb-2">{rec.date.split('T')[0]} · {rec.treatmentName}</p>
+                    <div className="flex flex-wrap gap-3">
+                        {rec.photos.map(photo => (
+                            <div key={photo.id} className="w-24">
+                                <button type="button" onClick={() => setViewing(photo)} className="block w-24 h-24 bg-gray-100 rounded-lg overflow-hidden">
+                                    {urls[photo.thumbnailPath] && <img src={urls[photo.thumbnailPath]} alt="" className="w-full h-full object-cover" />}
+                                </button>
+                                <p className="text-[10px] text-gray-500 mt-1">{PHOTO_KIND_LABELS[photo.kind]}</p>
+                                <label className="flex items-center gap-1 text-[10px] text-gray-600">
+                                    <input type="checkbox" checked={photo.marketingConsent} onChange={e => setPhotoConsent(photo.id, e.target.checked)} />
+                                    ยินยอมใช้เพื่อการตลาด
+                                </label>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            ))}
+            {timeline.length === 0 && <p className="p-6 text-center text-gray-400 text-sm">ยังไม่มีรูปภาพ</p>}
+        </div>
+
+        {customer.treatmentHistory.length > 0 && (
+            <select className="w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900 text-sm" value={addingTo || ''} onChange={e => setAddingTo(e.target.value || null)}>
+                <option value="">-- เพิ่มรูปให้การรักษา --</option>
+                {customer.treatmentHistory.map(rec => <option key={rec.id} value={rec.id}>{rec.date.split('T')[0]} · {rec.treatmentName}</option>)}
+            </select>
+        )}
+        {addingTo && (
+            <div className="space-y-2">
+                <PhotoPicker value={newPhotos} onChange={setNewPhotos} />
+                <button
+                    type="button"
+                    onClick={handleAddPhotos}
+                    disabled={isSaving || newPhotos.length === 0}
+                    className="w-full py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 text-sm flex items-center justify-center gap-1 disabled:bg-gray-300"
+                >
+                    <Plus size={14} /> {isSaving ? 'กำลังอัปโหลด...' : `อัปโหลด ${newPhotos.length} รูป`}
+                </button>
+            </div>
+        )}
+
+        {viewing && (
+            <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={() => setViewing(null)}>
+                <button className="absolute top-4 right-4 text-white"><X size={28} /></button>
+                <div className="max-w-3xl w-full text-center" onClick={e => e.stopPropagation()}>
+                    {urls[viewing.path] && <img src={urls[viewing.path]} alt="" className="max-h-[80vh] mx-auto rounded-xl" />}
+                    <p className="text-white text-sm mt-3">{photoLabel(viewing)}{viewing.uploadedBy ? ` · ${viewing.uploadedBy}` : ''}</p>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default PhotoTimeline;
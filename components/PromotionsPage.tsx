@@ -0,0 +1,326 @@
+import React, { useState } from 'react';
+import { useClinic } from '../context/ClinicContext';
+import { BadgePercent, Plus, Edit, Trash2, Save, Ticket, Sparkles } from 'lucide-react';
+import { DiscountType, Promotion, PromotionTarget } from '../types';
+import { formatDiscount, isPromotionRunning, PROMOTION_TARGET_LABELS } from '../lib/pricing';
+import { getRefunds, getRevenueTransactions } from '../lib/sales';
+
+type PromotionForm = Omit<Promotion, 'id' | 'usedCount'>;
+
+const emptyPromotion: PromotionForm = {
+  name: '',
+  code: '',
+  discountType: 'percent',
+  discountValue: 10,
+  targetType: 'all',
+  targetIds: [],
+  startDate: null,
+  endDate: null,
+  usageLimit: null,
+  active: true
+};
+
+const PromotionsPage: React.FC = () => {
+  const { promotions, transactions, services, courseDefinitions, addPromotion, updatePromotion, deletePromotion } = useClinic();
+  const [activeTab, setActiveTab] = useState<'promotions' | 'results'>('promotions');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PromotionForm>(emptyPromotion);
+
+  const categories = [...new Set(services.map(s => s.category).filter(Boolean))];
+  const targetOptions = form.targetType === 'service'
+      ? services.map(s => ({ id: s.id, name: s.name }))
+      : form.targetType === 'course'
+        ? courseDefinitions.map(c => ({ id: c.id, name: c.name }))
+        : categories.map(c => ({ id: c, name: c }));
+
+  const describeTargets = (promo: Promotion) => {
+      if (promo.targetType === 'all') return PROMOTION_TARGET_LABELS.all;
+      const names = promo.targetIds.map(id =>
+          promo.targetType === 'category' ? id : (promo.targetType === 'service' ? services : courseDefinitions).find(x => x.id === id)?.name || '-'
+      );
+      return `${PROMOTION_TARGET_LABELS[promo.targetType]}: ${names.join(', ') || '-'}`;
+  };
+
+  // Campaign results: bills that used the promotion, net of refunds, voided bills left out
+  const results = promotions.map(promo => {
+      const sales = getRevenueTransactions(transactions).filter(t => t.kind === 'sale' && t.promotionId === promo.id);
+      const refunded = sales.reduce((sum, t) => sum + getRefunds(transactions, t.id).reduce((s, r) => s + r.totalAmount, 0), 0);
+      return {
+          promo,
+          bills: sales.length,
+          customers: new Set(sales.map(t => t.customerId)).size,
+          revenue: sales.reduce((sum, t) => sum + t.totalAmount, 0) + refunded,
+          discount: sales.reduce((sum, t) => sum + (t.promotionDiscount || 0), 0)
+      };
+  }).sort((a, b) => b.revenue - a.revenue);
+
+  const openModal = (promo?: Promotion) => {
+      if (promo) {
+          const { id, usedCount, ...rest } = promo;
+          setEditingId(id);
+          setForm({ ...rest, code: rest.code || '' });
+      } else {
+          setEditingId(null);
+          setForm(emptyPromotion);
+      }
+      setIsModalOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (form.discountValue <= 0 || (form.discountType === 'percent' && form.discountValue > 100)) {
+          alert('มูลค่าส่วนลดไม่ถูกต้อง');
+          return;
+      }
+      if (form.targetType !== 'all' && form.targetIds.length === 0) {
+          alert('กรุณาเลือกรายการที่ร่วมโปรโมชั่นอย่างน้อย 1 รายการ');
+          return;
+      }
+      if (form.startDate && form.endDate && form.endDate < form.startDate) {
+          alert('วันสิ้นสุดต้องไม่ก่อนวันเริ่ม');
+          return;
+      }
+      const code = form.code?.trim().toUpperCase() || '';
+      if (code && promotions.some(p => p.id !== editingId && p.code?.toUpperCase() === code)) {
+          alert('รหัสคูปองนี้ถูกใช้แล้ว');
+          return;
+      }
+      if (editingId) await updatePromotion(editingId, { ...form, code });
+      else await addPromotion({ ...form, code });
+      setIsModalOpen(false);
+  };
+
+  const toggleTarget = (id: string) => {
+      setForm({ ...form, targetIds: form.targetIds.includes(id) ? form.targetIds.filter(t => t !== id) : [...form.targetIds, id] });
+  };
+
+  return (
+    <div className="p-4 md:p-8 w-full">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <BadgePercent className="text-rose-500" /> โปรโมชั่นและคูปอง (Promotions)
+        </h2>
+        <button
+          onClick={() => openModal()}
+          className="flex items-center gap-2 bg-rose-500 text-white px-4 py-2 rounded-lg hover:bg-rose-600 transition shadow-md shadow-rose-200 w-full md:w-auto justify-center"
+        >
+          <Plus size={20} /> เพิ่มโปรโมชั่น
+        </button>
+      </div>
+
+      <div className="flex bg-gray-100 p-1 rounded-xl w-fit mb-4">
+          <button onClick={() => setActiveTab('promotions')} className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'promotions' ? 'bg-white text-rose-600 shadow-sm' : 'text-gray-500'}`}>
+              รายการโปรโมชั่น
+          </button>
+          <button onClick={() => setActiveTab('results')} className={`px-4 py-2 rounded-lg text-sm font-medium ${activeTab === 'results' ? 'bg-white text-rose-600 shadow-sm' : 'text-gray-500'}`}>
+              ผลลัพธ์แคมเปญ
+          </button>
+      </div>
+
+      {activeTab === 'promotions' && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-gray-50 border-b border-gray-100 whitespace-nowrap">
+                  <th className="p-4 font-medium text-gray-500">ชื่อ</th>
+                  <th className="p-4 font-medium text-gray-500">ประเภท</th>
+                  <th className="p-4 font-medium text-gray-500">ส่วนลด</th>
+                  <th className="p-4 font-medium text-gray-500">ใช้กับ</th>
+                  <th className="p-4 font-medium text-gray-500">ช่วงเวลา</th>
+                  <th className="p-4 font-medium text-gray-500">ใช้ไปแล้ว</th>
+                  <th className="p-4 font-medium text-gray-500">สถานะ</th>
+                  <th className="p-4 font-medium text-gray-500">จัดการ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {promotions.map(promo => (
+                  <tr key={promo.id} className="border-b border-gray-50 hover:bg-gray-50 transition align-top">
+                    <td className="p-4 font-medium text-gray-900">{promo.name}</td>
+                    <td className="p-4 text-sm text-gray-600 whitespace-nowrap">
+                        {promo.code
+                            ? <span className="flex items-center gap-1"><Ticket size={14} className="text-rose-500" /> <span className="font-mono">{promo.code}</span></span>
+                            : <span className="flex items-center gap-1"><Sparkles size={14} className="text-amber-500" /> อัตโนมัติ</span>}
+                    </td>
+                    <td className="p-4 text-sm font-bold text-rose-600 whitespace-nowrap">{formatDiscount(promo.discountType, promo.discountValue)}</td>
+                    <td className="p-4 text-sm text-gray-600">{describeTargets(promo)}</td>
+                    <td className="p-4 text-sm text-gray-600 whitespace-nowrap">
+                        {promo.startDate || promo.endDate ? `${promo.startDate || '...'} – ${promo.endDate || '...'}` : 'ไม่จำกัด'}
+                    </td>
+                    <td className="p-4 text-sm text-gray-600 whitespace-nowrap">{promo.usedCount}{promo.usageLimit != null ? ` / ${promo.usageLimit}` : ''}</td>
+                    <td className="p-4 whitespace-nowrap">
+                        {isPromotionRunning(promo)
+                            ? <span className="px-3 py-1 rounded-full text-xs font-medium border bg-green-50 text-green-700 border-green-200">ใช้งานได้</span>
+                            : <span className="px-3 py-1 rounded-full text-xs font-medium border bg-gray-50 text-gray-500 border-gray-200">{promo.active ? 'ไม่อยู่ในช่วง/ใช้ครบ' : 'ปิดใช้งาน'}</span>}
+                    </td>
+                    <td className="p-4">
+                        <div className="flex gap-2">
+                            <button onClick={() => openModal(promo)} className="p-1 hover:bg-blue-100 text-blue-600 rounded" title="แก้ไข"><Edit size={18} /></button>
+                            <button onClick={() => window.confirm(`ลบโปรโมชั่น ${promo.name}?`) && deletePromotion(promo.id)} className="p-1 hover:bg-red-100 text-red-500 rounded" title="ลบ"><Trash2 size={18} /></button>
+                        </div>
+                    </td>
+                  </tr>
+                ))}
+                {promotions.length === 0 && (
+                    <tr>
+                        <td colSpan={8} className="p-8 text-center text-gray-400">ยังไม่มีโปรโมชั่น</td>
+                    </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'results' && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-gray-50 border-b border-gray-100 whitespace-nowrap">
+                  <th className="p-4 font-medium text-gray-500">โปรโมชั่น</th>
+                  <th className="p-4 font-medium text-gray-500 text-right">จำนวนบิล</th>
+                  <th className="p-4 font-medium text-gray-500 text-right">ลูกค้า</th>
+                  <th className="p-4 font-medium text-gray-500 text-right">ส่วนลดที่ให้</th>
+                  <th className="p-4 font-medium text-gray-500 text-right">ยอดขายสุทธิ</th>
+                  <th className="p-4 font-medium text-gray-500 text-right">เฉลี่ยต่อบิล</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(r => (
+                  <tr key={r.promo.id} className="border-b border-gray-50 hover:bg-gray-50 transition">
+                    <td className="p-4 font-medium text-gray-900">{r.promo.name} {r.promo.code && <span className="text-xs font-mono text-gray-400">{r.promo.code}</span>}</td>
+                    <td className="p-4 text-right text-gray-700">{r.bills}</td>
+                    <td className="p-4 text-right text-gray-700">{r.customers}</td>
+                    <td className="p-4 text-right text-rose-600">฿{r.discount.toLocaleString()}</td>
+                    <td className="p-4 text-right font-bold text-gray-800">฿{r.revenue.toLocaleString()}</td>
+                    <td className="p-4 text-right text-gray-600">{r.bills > 0 ? `฿${Math.round(r.revenue / r.bills).toLocaleString()}` : '-'}</td>
+                  </tr>
+                ))}
+                {results.length === 0 && (
+                    <tr>
+                        <td colSpan={6} className="p-8 text-center text-gray-400">ยังไม่มีข้อมูล</td>
+                    </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-400 p-4">ยอดขายสุทธิหักการคืนเงินแล้ว และไม่รวมบิลที่ถูกยกเลิก</p>
+        </div>
+      )}
+
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white p-6 rounded-2xl w-full max-w-lg shadow-xl max-h-[90vh] overflow-y-auto">
+                <h3 className="text-xl font-bold mb-4 text-gray-800">{editingId ? 'แก้ไขโปรโมชั่น' : 'เพิ่มโปรโมชั่น'}</h3>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="text-xs text-gray-500 mb-1 block">ชื่อโปรโมชั่น / แคมเปญ</label>
+                        <input
+                            required
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                            value={form.name}
+                            onChange={e => setForm({ ...form, name: e.target.value })}
+                        />
+                    </div>
+                    <div>
+                        <label className="text-xs text-gray-500 mb-1 block">รหัสคูปอง (เว้นว่างเพื่อใช้อัตโนมัติ)</label>
+                        <input
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500 font-mono uppercase"
+                            placeholder="เช่น SUMMER10"
+                            value={form.code || ''}
+                            onChange={e => setForm({ ...form, code: e.target.value.replace(/\s/g, '') })}
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">ประเภทส่วนลด</label>
+                            <select
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none bg-white focus:ring-2 focus:ring-rose-500"
+                                value={form.discountType}
+                                onChange={e => setForm({ ...form, discountType: e.target.value as DiscountType })}
+                            >
+                                <option value="percent">เปอร์เซ็นต์ (%)</option>
+                                <option value="amount">จำนวนเงิน (บาท)</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">{form.discountType === 'percent' ? 'เปอร์เซ็นต์' : 'บาท (ต่อบิล)'}</label>
+                            <input
+                                type="number" min="0" step="any" required
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                                value={form.discountValue}
+                                onChange={e => setForm({ ...form, discountValue: parseFloat(e.target.value) || 0 })}
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="text-xs text-gray-500 mb-1 block">ใช้กับ</label>
+                        <select
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none bg-white focus:ring-2 focus:ring-rose-500"
+                            value={form.targetType}
+                            onChange={e => setForm({ ...form, targetType: e.target.value as PromotionTarget, targetIds: [] })}
+                        >
+                            {(Object.keys(PROMOTION_TARGET_LABELS) as PromotionTarget[]).map(t => <option key={t} value={t}>{PROMOTION_TARGET_LABELS[t]}</option>)}
+                        </select>
+                        {form.targetType !== 'all' && (
+                            <div className="mt-2 max-h-40 overflow-y-auto border border-gray-100 rounded-xl p-2 space-y-1">
+                                {targetOptions.map(t => (
+                                    <label key={t.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                        <input type="checkbox" className="accent-rose-500" checked={form.targetIds.includes(t.id)} onChange={() => toggleTarget(t.id)} />
+                                        {t.name}
+                                    </label>
+                                ))}
+                                {targetOptions.length === 0 && <p className="text-xs text-gray-400">ไม่มีรายการ</p>}
+                            </div>
+                        )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">วันเริ่ม</label>
+                            <input
+                                type="date"
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                                value={form.startDate || ''}
+                                onChange={e => setForm({ ...form, startDate: e.target.value || null })}
+                            />
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">วันสิ้นสุด</label>
+                            <input
+                                type="date"
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                                value={form.endDate || ''}
+                                onChange={e => setForm({ ...form, endDate: e.target.value || null })}
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="text-xs text-gray-500 mb-1 block">จำกัดจำนวนครั้งที่ใช้ (เว้นว่าง = ไม่จำกัด)</label>
+                        <input
+                            type="number" min="1"
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                            value={form.usageLimit ?? ''}
+                            onChange={e => setForm({ ...form, usageLimit: e.target.value ? parseInt(e.target.value) : null })}
+                        />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input type="checkbox" className="accent-rose-500" checked={form.active} onChange={e => setForm({ ...form, active: e.target.checked })} />
+                        เปิดใช้งาน
+                    </label>
+                    <div className="flex gap-3 mt-6">
+                        <button type="button" onClick={() => setIsModalOpen(false)} className="flex-1 py-3 border border-gray-300 rounded-xl text-gray-700 hover:bg-gray-50">ยกเลิก</button>
+                        <button type="submit" className="flex-1 py-3 bg-rose-500 text-white rounded-xl hover:bg-rose-600 shadow-md shadow-rose-200 flex items-center justify-center gap-2">
+                            <Save size={18} /> บันทึก
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromotionsPage;
@@ -0,0 +1,523 @@
+import React, { useState } from 'react';
+import { useClinic } from '../context/ClinicContext';
+import { Truck, Plus, Trash2, Edit, Save, Send, PackageCheck, Wand2, Building2, Phone, Mail } from 'lucide-react';
+import { PurchaseOrder, PurchaseOrderLine, PurchaseOrderReceipt, PurchaseOrderStatus, Supplier } from '../types';
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, { label: string; className: string }> = {
+  draft: { label: 'ฉบับร่าง', className: 'bg-gray-50 text-gray-600 border-gray-200' },
+  ordered: { label: 'สั่งซื้อแล้ว', className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  partially_received: { label: 'รับบางส่วน', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  received: { label: 'รับครบแล้ว', className: 'bg-green-50 text-green-700 border-green-200' }
+};
+
+type DraftLine = Omit<PurchaseOrderLine, 'id' | 'quantityReceived'>;
+
+const PurchasingPage: React.FC = () => {
+  const {
+    inventory, suppliers, purchaseOrders,
+    addSupplier, updateSupplier, deleteSupplier,
+    createPurchaseOrder, updatePurchaseOrderStatus, deletePurchaseOrder, receivePurchaseOrder, suggestReorder
+  } = useClinic();
+  const [activeTab, setActiveTab] = useState<'orders' | 'suppliers'>('orders');
+  const [isSuggesting, setIsSuggesting] = useState(false);
+
+  // Supplier Modal
+  const [isSupplierModalOpen, setIsSupplierModalOpen] = useState(false);
+  const [editingSupplierId, setEditingSupplierId] = useState<string | null>(null);
+  const [supplierForm, setSupplierForm] = useState({ name: '', contactName: '', phone: '', email: '', taxId: '', notes: '' });
+
+  // PO Modal
+  const [isPoModalOpen, setIsPoModalOpen] = useState(false);
+  const [poForm, setPoForm] = useState<{ supplierId: string; expectedDate: string; notes: string }>({ supplierId: '', expectedDate: '', notes: '' });
+  const [poLines, setPoLines] = useState<DraftLine[]>([]);
+
+  // Receive Modal
+  const [receivingPo, setReceivingPo] = useState<PurchaseOrder | null>(null);
+  const [receipts, setReceipts] = useState<PurchaseOrderReceipt[]>([]);
+
+  const supplierName = (id: string | null) => suppliers.find(s => s.id === id)?.name || 'ไม่ระบุผู้จำหน่าย';
+  const itemName = (id: string) => inventory.find(i => i.id === id)?.name || '-';
+  const poTotal = (po: PurchaseOrder) => po.lines.reduce((sum, l) => sum + l.quantityOrdered * l.unitCost, 0);
+
+  // --- Suppliers ---
+  const openSupplierModal = (supplier?: Supplier) => {
+      setEditingSupplierId(supplier?.id || null);
+      setSupplierForm({
+          name: supplier?.name || '',
+          contactName: supplier?.contactName || '',
+          phone: supplier?.phone || '',
+          email: supplier?.email || '',
+          taxId: supplier?.taxId || '',
+          notes: supplier?.notes || ''
+      });
+      setIsSupplierModalOpen(true);
+  };
+
+  const handleSupplierSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (editingSupplierId) {
+          await updateSupplier(editingSupplierId, supplierForm);
+      } else {
+          await addSupplier(supplierForm);
+      }
+      setIsSupplierModalOpen(false);
+  };
+
+  const handleDeleteSupplier = async (id: string) => {
+      if (window.confirm('ยืนยันการลบผู้จำหน่ายนี้?')) {
+          await deleteSupplier(id);
+      }
+  };
+
+  // --- Purchase Orders ---
+  const openPoModal = () => {
+      setPoForm({ supplierId: suppliers[0]?.id || '', expectedDate: '', notes: '' });
+      setPoLines([]);
+      setIsPoModalOpen(true);
+  };
+
+  const addPoLine = () => {
+      if (inventory.length === 0) {
+          alert('ไม่มีสินค้าในสต็อก กรุณาเพิ่มสินค้าก่อน');
+          return;
+      }
+      setPoLines([...poLines, { inventoryItemId: inventory[0].id, quantityOrdered: 1, unitCost: inventory[0].pricePerUnit }]);
+  };
+
+  const updatePoLine = (index: number, field: keyof DraftLine, value: any) => {
+      const updated = [...poLines];
+      updated[index] = { ...updated[index], [field]: value };
+      // Default the cost to the item's current price when the item changes
+      if (field === 'inventoryItemId') {
+          updated[index].unitCost = inventory.find(i => i.id === value)?.pricePerUnit || 0;
+      }
+      setPoLines(updated);
+  };
+
+  const handlePoSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (poLines.length === 0) {
+          alert('กรุณาเพิ่มรายการสินค้าอย่างน้อย 1 รายการ');
+          return;
+      }
+      await createPurchaseOrder({
+          supplierId: poForm.supplierId || null,
+          expectedDate: poForm.expectedDate || null,
+          notes: poForm.notes,
+          lines: poLines
+      });
+      setIsPoModalOpen(false);
+  };
+
+  const handleSuggestReorder = async () => {
+      setIsSuggesting(true);
+      const created = await suggestReorder();
+      setIsSuggesting(false);
+      alert(created > 0 ? `สร้างใบสั่งซื้อฉบับร่าง ${created} ใบ` : 'ไม่มีสินค้าที่ต่ำกว่าจุดสั่งซื้อ (รวมจำนวนที่สั่งไว้แล้ว)');
+  };
+
+  const handleDeletePo = async (id: string) => {
+      if (window.confirm('ยืนยันการลบใบสั่งซื้อฉบับร่างนี้?')) {
+          await deletePurchaseOrder(id);
+      }
+  };
+
+  const openReceiveModal = (po: PurchaseOrder) => {
+      setReceivingPo(po);
+      setReceipts(po.lines
+          .filter(l => l.quantityReceived < l.quantityOrdered)
+          .map(l => ({ lineId: l.id, quantity: l.quantityOrdered - l.quantityReceived, unitCost: l.unitCost, lotNumber: '', expiryDate: '' })));
+  };
+
+  const updateReceipt = (index: number, field: keyof PurchaseOrderReceipt, value: any) => {
+      const updated = [...receipts];
+      updated[index] = { ...updated[index], [field]: value };
+      setReceipts(updated);
+  };
+
+  const handleReceiveSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!receivingPo) return;
+      await receivePurchaseOrder(receivingPo.id, receipts);
+      setReceivingPo(null);
+  };
+
+  return (
+    <div className="p-4 md:p-8 w-full">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <div>
+            <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+                <Truck className="text-rose-500" />
+                จัดซื้อ (Purchasing)
+            </h2>
+            <p className="text-gray-500 text-sm mt-1">ผู้จำหน่าย ใบสั่งซื้อ และการรับสินค้าเข้าคลัง</p>
+        </div>
+        <div className="flex gap-2 w-full md:w-auto">
+            {activeTab === 'orders' && (
+                <button
+                    onClick={handleSuggestReorder}
+                    disabled={isSuggesting}
+                    className="bg-white border border-gray-200 text-gray-700 px-4 py-2 rounded-xl flex items-center gap-2 hover:bg-gray-50 shadow-sm flex-1 md:flex-none justify-center"
+                >
+                    <Wand2 size={18} className="text-purple-500" />
+                    แนะนำการสั่งซื้อ
+                </button>
+            )}
+            <button
+                onClick={() => activeTab === 'orders' ? openPoModal() : openSupplierModal()}
+                className="bg-rose-500 text-white px-4 py-2 rounded-xl flex items-center gap-2 hover:bg-rose-600 shadow-md flex-1 md:flex-none justify-center"
+            >
+                <Plus size={18} />
+                {activeTab === 'orders' ? 'สร้างใบสั่งซื้อ' : 'เพิ่มผู้จำหน่าย'}
+            </button>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-2 mb-6 border-b border-gray-200 pb-1">
+           <button
+                onClick={() => setActiveTab('orders')}
+                className={`px-6 py-2 rounded-t-lg font-medium transition flex items-center gap-2 ${activeTab === 'orders' ? 'bg-white border-x border-t border-gray-200 text-rose-600 border-b-white -mb-px' : 'text-gray-500 hover:bg-gray-50'}`}
+            >
+                <Truck size={18} /> ใบสั่งซื้อ (PO)
+            </button>
+            <button
+                onClick={() => setActiveTab('suppliers')}
+                className={`px-6 py-2 rounded-t-lg font-medium transition flex items-center gap-2 ${activeTab === 'suppliers' ? 'bg-white border-x border-t border-gray-200 text-rose-600 border-b-white -mb-px' : 'text-gray-500 hover:bg-gray-50'}`}
+            >
+                <Building2 size={18} /> ผู้จำหน่าย (Suppliers)
+            </button>
+      </div>
+
+      {/* PURCHASE ORDERS */}
+      {activeTab === 'orders' && (
+        <div className="space-y-4">
+            {purchaseOrders.map(po => (
+                <div key={po.id} className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+                    <div className="flex flex-col md:flex-row justify-between md:items-center gap-3 mb-4">
+                        <div>
+                            <div className="flex items-center gap-2">
+                                <h3 className="font-bold text-gray-800">{po.poNumber}</h3>
+                                <span className={`px-3 py-0.5 rounded-full text-xs font-medium border ${STATUS_LABELS[po.status]?.className}`}>
+                                    {STATUS_LABELS[po.status]?.label || po.status}
+                                </span>
+                            </div>
+                            <p className="text-sm text-gray-500">
+                                {supplierName(po.supplierId)}
+                                {po.orderDate && ` · สั่งเมื่อ ${po.orderDate}`}
+                                {po.expectedDate && ` · กำหนดส่ง ${po.expectedDate}`}
+                            </p>
+                        </div>
+                        <div className="flex gap-2">
+                            {po.status === 'draft' && (
+                                <>
+                                    <button
+                                        onClick={() => updatePurchaseOrderStatus(po.id, 'ordered')}
+                                        disabled={!po.supplierId}
+                                        title={!po.supplierId ? 'กรุณาระบุผู้จำหน่ายก่อนสั่งซื้อ' : undefined}
+                                        className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 flex items-center gap-1 disabled:bg-gray-200 disabled:text-gray-400"
+                                    >
+                                        <Send size={14} /> ส่งสั่งซื้อ
+                                    </button>
+                                    <button onClick={() => handleDeletePo(po.id)} className="p-1.5 hover:bg-red-50 text-red-600 rounded">
+                                        <Trash2 size={18} />
+                                    </button>
+                                </>
+                            )}
+                            {(po.status === 'ordered' || po.status === 'partially_received') && (
+                                <button
+                                    onClick={() => openReceiveModal(po)}
+                                    className="px-3 py-1.5 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 flex items-center gap-1"
+                                >
+                                    <PackageCheck size={14} /> รับสินค้า
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm whitespace-nowrap">
+                            <thead className="bg-gray-50 border-b border-gray-100">
+                                <tr>
+                                    <th className="p-3 text-gray-500 font-medium">สินค้า</th>
+                                    <th className="p-3 text-gray-500 font-medium text-center">สั่ง</th>
+                                    <th className="p-3 text-gray-500 font-medium text-center">รับแล้ว</th>
+                                    <th className="p-3 text-gray-500 font-medium text-right">ราคา/หน่วย</th>
+                                    <th className="p-3 text-gray-500 font-medium text-right">รวม</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {po.lines.map(l => (
+                                    <tr key={l.id}>
+                                        <td className="p-3 text-gray-800">{itemName(l.inventoryItemId)}</td>
+                                        <td className="p-3 text-center text-gray-700">{l.quantityOrdered}</td>
+                                        <td className={`p-3 text-center font-medium ${l.quantityReceived >= l.quantityOrdered ? 'text-green-600' : 'text-amber-600'}`}>{l.quantityReceived}</td>
+                                        <td className="p-3 text-right text-gray-600">฿{l.unitCost.toLocaleString()}</td>
+                                        <td className="p-3 text-right text-gray-800">฿{(l.quantityOrdered * l.unitCost).toLocaleString()}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="flex justify-end mt-3 text-sm">
+                        <span className="text-gray-500 mr-2">ยอดรวม</span>
+                        <span className="font-bold text-gray-900">฿{poTotal(po).toLocaleString()}</span>
+                    </div>
+                </div>
+            ))}
+            {purchaseOrders.length === 0 && (
+                <div className="bg-white p-8 rounded-xl border border-gray-200 text-center text-gray-400">ยังไม่มีใบสั่งซื้อ</div>
+            )}
+        </div>
+      )}
+
+      {/* SUPPLIERS */}
+      {activeTab === 'suppliers' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {suppliers.map(s => (
+                <div key={s.id} className="bg-white p-6 rounded-2xl border border-gray-100 hover:shadow-lg transition duration-200">
+                    <div className="flex justify-between items-start mb-2">
+                        <h3 className="text-lg font-bold text-gray-800">{s.name}</h3>
+                        <div className="flex gap-1">
+                            <button onClick={() => openSupplierModal(s)} className="text-gray-300 hover:text-blue-500 p-1" title="แก้ไข"><Edit size={18} /></button>
+                            <button onClick={() => handleDeleteSupplier(s.id)} className="text-gray-300 hover:text-red-500 p-1" title="ลบ"><Trash2 size={18} /></button>
+                        </div>
+                    </div>
+                    <div className="space-y-1 text-sm text-gray-500">
+                        {s.contactName && <p>ผู้ติดต่อ: {s.contactName}</p>}
+                        <p className="flex items-center gap-2"><Phone size={14} /> {s.phone || '-'}</p>
+                        <p className="flex items-center gap-2"><Mail size={14} /> {s.email || '-'}</p>
+                        {s.taxId && <p>เลขผู้เสียภาษี: {s.taxId}</p>}
+                    </div>
+                    <p className="text-xs text-gray-400 mt-3">
+                        สินค้าที่สั่งประจำ: {inventory.filter(i => i.preferredSupplierId === s.id).map(i => i.name).join(', ') || '-'}
+                    </p>
+                </div>
+            ))}
+            {suppliers.length === 0 && <div className="col-span-3 text-center py-10 text-gray-400">ยังไม่มีข้อมูลผู้จำหน่าย</div>}
+        </div>
+      )}
+
+      {/* Supplier Modal */}
+      {isSupplierModalOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white p-6 rounded-2xl w-full max-w-md shadow-xl">
+                <h3 className="text-xl font-bold mb-4 text-gray-800">{editingSupplierId ? 'แก้ไขผู้จำหน่าย' : 'เพิ่มผู้จำหน่ายใหม่'}</h3>
+                <form onSubmit={handleSupplierSubmit} className="space-y-4">
+                    <input
+                        type="text" placeholder="ชื่อบริษัท / ร้าน" required
+                        className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                        value={supplierForm.name}
+                        onChange={e => setSupplierForm({...supplierForm, name: e.target.value})}
+                    />
+                    <div className="grid grid-cols-2 gap-4">
+                        <input
+                            type="text" placeholder="ผู้ติดต่อ"
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                            value={supplierForm.contactName}
+                            onChange={e => setSupplierForm({...supplierForm, contactName: e.target.value})}
+                        />
+                        <input
+                            type="tel" placeholder="เบอร์โทรศัพท์"
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                            value={supplierForm.phone}
+                            onChange={e => setSupplierForm({...supplierForm, phone: e.target.value})}
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <input
+                            type="email" placeholder="อีเมล"
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                            value={supplierForm.email}
+                            onChange={e => setSupplierForm({...supplierForm, email: e.target.value})}
+                        />
+                        <input
+                            type="text" placeholder="เลขประจำตัวผู้เสียภาษี"
+                            className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                            value={supplierForm.taxId}
+                            onChange={e => setSupplierForm({...supplierForm, taxId: e.target.value})}
+                        />
+                    </div>
+                    <textarea
+                        placeholder="หมายเหตุ"
+                        className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500 h-20"
+                        value={supplierForm.notes}
+                        onChange={e => setSupplierForm({...supplierForm, notes: e.target.value})}
+                    />
+                    <div className="flex gap-3 mt-4">
+                        <button type="button" onClick={() => setIsSupplierModalOpen(false)} className="flex-1 py-2 border rounded-lg hover:bg-gray-50">ยกเลิก</button>
+                        <button type="submit" className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 flex items-center justify-center gap-2">
+                             <Save size={18} /> บันทึก
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+      )}
+
+      {/* Create PO Modal */}
+      {isPoModalOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white p-6 rounded-2xl w-full max-w-2xl shadow-xl max-h-[90vh] overflow-y-auto">
+                <h3 className="text-xl font-bold mb-4 text-gray-800">สร้างใบสั่งซื้อ</h3>
+                <form onSubmit={handlePoSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">ผู้จำหน่าย</label>
+                            <select
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none bg-white focus:ring-2 focus:ring-rose-500"
+                                value={poForm.supplierId}
+                                onChange={e => setPoForm({...poForm, supplierId: e.target.value})}
+                            >
+                                <option value="">ไม่ระบุ</option>
+                                {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">กำหนดส่ง</label>
+                            <input
+                                type="date"
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                                value={poForm.expectedDate}
+                                onChange={e => setPoForm({...poForm, expectedDate: e.target.value})}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="bg-gray-50 p-4 rounded-xl border border-gray-200">
+                        <div className="flex justify-between items-center mb-3">
+                            <label className="text-sm font-bold text-gray-700">รายการสินค้า</label>
+                            <button type="button" onClick={addPoLine} className="text-xs bg-gray-200 px-2 py-1 rounded hover:bg-gray-300">
+                                + เพิ่มสินค้า
+                            </button>
+                        </div>
+                        <div className="space-y-2">
+                            {poLines.map((line, idx) => (
+                                <div key={idx} className="flex gap-2 items-center">
+                                    <select
+                                        className="flex-1 text-sm border p-2 rounded bg-white"
+                                        value={line.inventoryItemId}
+                                        onChange={e => updatePoLine(idx, 'inventoryItemId', e.target.value)}
+                                    >
+                                        {inventory.map(inv => (
+                                            <option key={inv.id} value={inv.id}>{inv.name} ({inv.unit})</option>
+                                        ))}
+                                    </select>
+                                    <input
+                                        type="number" min="0" step="any" title="จำนวน"
+                                        className="w-20 text-sm border p-2 rounded"
+                                        value={line.quantityOrdered}
+                                        onChange={e => updatePoLine(idx, 'quantityOrdered', parseFloat(e.target.value) || 0)}
+                                    />
+                                    <input
+                                        type="number" min="0" step="any" title="ราคาต่อหน่วย"
+                                        className="w-24 text-sm border p-2 rounded"
+                                        value={line.unitCost}
+                                        onChange={e => updatePoLine(idx, 'unitCost', parseFloat(e.target.value) || 0)}
+                                    />
+                                    <button type="button" onClick={() => setPoLines(poLines.filter((_, i) => i !== idx))} className="text-red-500 hover:bg-red-50 p-1 rounded">
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            ))}
+                            {poLines.length === 0 && <p className="text-xs text-gray-400 text-center italic">ยังไม่มีรายการ</p>}
+                        </div>
+                    </div>
+
+                    <textarea
+                        placeholder="หมายเหตุ"
+                        className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500 h-20"
+                        value={poForm.notes}
+                        onChange={e => setPoForm({...poForm, notes: e.target.value})}
+                    />
+                    <div className="flex gap-3 mt-4">
+                        <button type="button" onClick={() => setIsPoModalOpen(false)} className="flex-1 py-2 border rounded-lg hover:bg-gray-50">ยกเลิก</button>
+                        <button type="submit" className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 flex items-center justify-center gap-2">
+                             <Save size={18} /> บันทึกฉบับร่าง
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+      )}
+
+      {/* Receive Modal */}
+      {receivingPo && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white p-6 rounded-2xl w-full max-w-3xl shadow-xl max-h-[90vh] overflow-y-auto">
+                <h3 className="text-xl font-bold mb-1 text-gray-800">รับสินค้า: {receivingPo.poNumber}</h3>
+                <p className="text-sm text-gray-500 mb-4">{supplierName(receivingPo.supplierId)}</p>
+                <form onSubmit={handleReceiveSubmit} className="space-y-4">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm whitespace-nowrap">
+                            <thead className="bg-gray-50 border-b border-gray-100">
+                                <tr>
+                                    <th className="p-2 text-gray-500 font-medium">สินค้า</th>
+                                    <th className="p-2 text-gray-500 font-medium">จำนวนรับ</th>
+                                    <th className="p-2 text-gray-500 font-medium">ราคา/หน่วย</th>
+                                    <th className="p-2 text-gray-500 font-medium">Lot No.</th>
+                                    <th className="p-2 text-gray-500 font-medium">วันหมดอายุ</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {receipts.map((r, idx) => {
+                                    const line = receivingPo.lines.find(l => l.id === r.lineId)!;
+                                    return (
+                                        <tr key={r.lineId}>
+                                            <td className="p-2 text-gray-800">
+                                                {itemName(line.inventoryItemId)}
+                                                <p className="text-xs text-gray-400">ค้างรับ {line.quantityOrdered - line.quantityReceived}</p>
+                                            </td>
+                                            <td className="p-2">
+                                                <input
+                                                    type="number" min="0" step="any"
+                                                    className="w-20 border p-2 rounded"
+                                                    value={r.quantity}
+                                                    onChange={e => updateReceipt(idx, 'quantity', parseFloat(e.target.value) || 0)}
+                                                />
+                                            </td>
+                                            <td className="p-2">
+                                                <input
+                                                    type="number" min="0" step="any"
+                                                    className="w-24 border p-2 rounded"
+                                                    value={r.unitCost}
+                                                    onChange={e => updateReceipt(idx, 'unitCost', parseFloat(e.target.value) || 0)}
+                                                />
+                                            </td>
+                                            <td className="p-2">
+                                                <input
+                                                    type="text"
+                                                    className="w-28 border p-2 rounded"
+                                                    value={r.lotNumber}
+                                                    onChange={e => updateReceipt(idx, 'lotNumber', e.target.value)}
+                                                />
+                                            </td>
+                                            <td className="p-2">
+                                                <input
+                                                    type="date"
+                                                    required={!!r.lotNumber}
+                                                    className="border p-2 rounded"
+                                                    value={r.expiryDate || ''}
+                                                    onChange={e => updateReceipt(idx, 'expiryDate', e.target.value)}
+                                                />
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="flex gap-3 mt-4">
+                        <button type="button" onClick={() => setReceivingPo(null)} className="flex-1 py-2 border rounded-lg hover:bg-gray-50">ยกเลิก</button>
+                        <button type="submit" className="flex-1 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center justify-center gap-2">
+                             <PackageCheck size={18} /> ยืนยันรับสินค้า
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PurchasingPage;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { RefundLine, useClinic } from '../context/ClinicContext';
+import { RotateCcw } from 'lucide-react';
+import { Transaction } from '../types';
+import { getRefundableAmount, getRefundedLines, getRefunds, lineKey } from '../lib/sales';
+import { getRefundPayout } from '../lib/receivables';
+
+interface RefundModalProps {
+  transaction: Transaction;
+  onClose: () => void;
+}
+
+interface RefundRow {
+  key: string;
+  line: Omit<RefundLine, 'quantity' | 'amount'>;
+  label: string;
+  hint: string;
+  max: number;
+  unitAmount: number;
+}
+
+// Picks what to pay back: visits of a service or remaining units of each course bought on the bill
+const RefundModal: React.FC<RefundModalProps> = ({ transaction, onClose }) => {
+  const { transactions, payments, customers, refundTransaction } = useClinic();
+  const refunds = getRefunds(transactions, transaction.id);
+  const refunded = getRefundedLines(refunds);
+  const refundable = getRefundableAmount(transaction, refunds);
+  const instances = customers.flatMap(c => c.activeCourses).filter(cc => cc.transactionId === transaction.id);
+
+  const rows: RefundRow[] = transaction.items.flatMap((item, i): RefundRow[] => {
+      // What was actually paid per unit after discounts
+      const paidEach = item.price - (item.discount || 0) / item.quantity;
+      if (item.type === 'service' && item.id) {
+          const done = refunded[lineKey(item)]?.quantity || 0;
+          return [{
+              key: `service-${i}`,
+              line: { type: 'service', id: item.id, name: item.name, staffId: item.staffId },
+              label: item.name,
+              hint: `ขาย ${item.quantity} ครั้ง${done > 0 ? ` · คืนแล้ว ${done}` : ''}`,
+              max: Math.max(0, item.quantity - done),
+              unitAmount: paidEach
+          }];
+      }
+      if (item.type === 'course' && item.id) {
+          return instances.filter(cc => cc.courseId === item.id).map((cc, n) => ({
+              key: cc.id,
+              line: { type: 'course', id: item.id!, name: item.name, customerCourseId: cc.id },
+              label: `${item.name}${instances.filter(x => x.courseId === item.id).length > 1 ? ` #${n + 1}` : ''}`,
+              hint: `คงเหลือ ${cc.remainingUnits}/${cc.totalUnits} ครั้ง`,
+              max: cc.remainingUnits,
+              unitAmount: cc.totalUnits > 0 ? paidEach / cc.totalUnits : 0
+          }));
+      }
+      return [];
+  });
+  const legacyLines = transaction.items.filter(item => !item.type || !item.id);
+
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [amounts, setAmounts] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+  const [restock, setRestock] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const round2 = (n: number) => Math.round(n * 100) / 100;
+  const amountFor = (row: RefundRow) => amounts[row.key] ?? round2(row.unitAmount * (quantities[row.key] || 0));
+  const total = rows.reduce((sum, row) => sum + ((quantities[row.key] || 0) > 0 ? amountFor(row) : 0), 0);
+  const payout = getRefundPayout(transaction, transactions, payments, round2(total));
+  const hasServices = rows.some(row => row.line.type === 'service' && (quantities[row.key] || 0) > 0);
+
+  const setQuantity = (row: RefundRow, value: number) => {
+      setQuantities({ ...quantities, [row.key]: Math.min(row.max, Math.max(0, value || 0)) });
+      // Recalculate the amount from the new quantity
+      const { [row.key]: _, ...rest } = amounts;
+      setAmounts(rest);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!reason.trim()) {
+          alert('กรุณาระบุเหตุผลการคืนเงิน');
+          return;
+      }
+      const lines: RefundLine[] = rows
+          .filter(row => (quantities[row.key] || 0) > 0)
+          .map(row => ({ ...row.line, quantity: quantities[row.key], amount: amountFor(row) }));
+      setIsSaving(true);
+      const ok = await refundTransaction(transaction.id, lines, reason.trim(), restock);
+      setIsSaving(false);
+      if (ok) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-2xl shadow-2xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-2 text-gray-800 flex items-center gap-2"><RotateCcw className="text-rose-500" /> คืนเงิน / คืนบางส่วน</h3>
+        <p className="text-sm text-gray-500 mb-6">
+            {customers.find(c => c.id === transaction.customerId)?.name || '-'} · {new Date(transaction.date).toLocaleString('th-TH', { dateStyle: 'short', timeStyle: 'short' })} · คืนได้สูงสุด ฿{refundable.toLocaleString()}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="border border-gray-100 rounded-xl divide-y divide-gray-100">
+            {rows.map(row => (
+              <div key={row.key} className="p-3 flex flex-col md:flex-row md:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-800">{row.label}</p>
+                    <p className="text-xs text-gray-400">{row.hint}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <label className="text-xs text-gray-500">{row.line.type === 'course' ? 'คืน (ครั้ง)' : 'จำนวน'}</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={row.max}
+                      disabled={row.max === 0}
+                      className="w-20 border border-gray-300 rounded-lg p-2 text-gray-900 disabled:bg-gray-100"
+                      value={quantities[row.key] || 0}
+                      onChange={e => setQuantity(row, parseInt(e.target.value))}
+                    />
+                </div>
+                <div className="flex items-center gap-2">
+                    <label className="text-xs text-gray-500">ยอดคืน ฿</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      disabled={!quantities[row.key]}
+                      className="w-28 border border-gray-300 rounded-lg p-2 text-gray-900 disabled:bg-gray-100"
+                      value={(quantities[row.key] || 0) > 0 ? amountFor(row) : 0}
+                      onChange={e => setAmounts({ ...amounts, [row.key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    />
+                </div>
+              </div>
+            ))}
+            {rows.length === 0 && <p className="p-4 text-center text-gray-400 text-sm">ไม่มีรายการที่คืนได้</p>}
+          </div>
+          {legacyLines.length > 0 && (
+              <p className="text-xs text-amber-600">รายการที่บันทึกก่อนมีระบบคืนเงิน ({legacyLines.map(l => l.name).join(', ')}) ไม่สามารถคืนแยกรายการได้ กรุณายกเลิกทั้งบิลแทน</p>
+          )}
+          {hasServices && (
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input type="checkbox" className="mt-1" checked={restock} onChange={e => setRestock(e.target.checked)} />
+                  <span>คืนวัสดุสิ้นเปลืองของบริการเข้าสต็อก <span className="text-xs text-gray-400 block">ไม่ต้องเลือกหากทำหัตถการไปแล้วและใช้วัสดุไปจริง</span></span>
+              </label>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">เหตุผลการคืนเงิน</label>
+            <textarea
+              required
+              rows={2}
+              className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 text-gray-900"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-between items-center p-3 bg-rose-50 rounded-xl">
+              <span className="text-gray-700">ยอดคืนเงินรวม</span>
+              <span className={`text-xl font-bold ${total > refundable ? 'text-red-600' : 'text-rose-600'}`}>฿{total.toLocaleString()}</span>
+          </div>
+          {total > 0 && payout < round2(total) && (
+              <p className="text-xs text-amber-600 -mt-2">หักจากยอดค้างชำระ ฿{round2(total - payout).toLocaleString()} · จ่ายคืนลูกค้า ฿{payout.toLocaleString()}</p>
+          )}
+          <div className="flex gap-3 mt-6">
+            <button type="button" onClick={onClose} className="flex-1 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">ยกเลิก</button>
+            <button
+              type="submit"
+              disabled={isSaving || total > refundable || !rows.some(row => (quantities[row.key] || 0) > 0)}
+              className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 shadow-md shadow-rose-200 disabled:bg-gray-300"
+            >
+              {isSaving ? 'กำลังบันทึก...' : 'ยืนยันคืนเงิน'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RefundModal;
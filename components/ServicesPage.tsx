@@ -1,11 +1,15 @@
 import React, { useState } from 'react';
 import { useClinic } from '../context/ClinicContext';
+import { usePermission } from '../context/AuthContext';
 import { Plus, Trash2, Tag, Clock, DollarSign, Sparkles, Package, ImageIcon, Loader2, Layers, Edit, Save } from 'lucide-react';
-import { Consumable, CourseDefinition, Service } from '../types';
+import { Consumable, ContraindicationRule, CourseDefinition, CourseEntitlement, CourseValidityStart, Service } from '../types';
+import { bundleTotalUnits, describeValidity, isBundle } from '../lib/courses';
 import { generateServiceImage } from '../services/geminiService';
+import ContraindicationEditor from './ContraindicationEditor';
 
 const ServicesPage: React.FC = () => {
   const { services, addService, updateService, deleteService, inventory, courseDefinitions, addCourse, updateCourse, deleteCourse } = useClinic();
+  const { can } = usePermission();
   
   // State
   const [activeTab, setActiveTab] = useState<'services' | 'courses'>('services');
@@ -23,14 +27,20 @@ const ServicesPage: React.FC = () => {
     description: '',     // Course only
     category: 'General', // Service only
     imageUrl: '',        // Service only
+    validityMonths: 0,   // Course only, 0 = never expires
+    validityStart: 'purchase' as CourseValidityStart, // Course only
   });
   const [consumables, setConsumables] = useState<Consumable[]>([]);
+  const [entitlements, setEntitlements] = useState<CourseEntitlement[]>([]); // Course only; non-empty = bundle
+  const [contraindications, setContraindications] = useState<ContraindicationRule[]>([]); // Service only
 
   const categories = ['Lifting', 'Injection', 'Wellness', 'Laser', 'Treatment', 'Other'];
 
   const resetForm = () => {
-      setFormData({ name: '', price: 0, durationMinutes: 30, totalUnits: 1, description: '', category: 'General', imageUrl: '' });
+      setFormData({ name: '', price: 0, durationMinutes: 30, totalUnits: 1, description: '', category: 'General', imageUrl: '', validityMonths: 0, validityStart: 'purchase' });
       setConsumables([]);
+      setEntitlements([]);
+      setContraindications([]);
       setIsEditing(false);
       setEditingId(null);
   };
@@ -50,9 +60,12 @@ const ServicesPage: React.FC = () => {
           totalUnits: 0,
           description: '',
           category: s.category,
-          imageUrl: s.imageUrl || ''
+          imageUrl: s.imageUrl || '',
+          validityMonths: 0,
+          validityStart: 'purchase'
       });
       setConsumables(s.consumables || []);
+      setContraindications(s.contraindications || []);
       setActiveTab('services');
       setIsModalOpen(true);
   };
@@ -67,9 +80,12 @@ const ServicesPage: React.FC = () => {
           totalUnits: c.totalUnits,
           description: c.description,
           category: '',
-          imageUrl: ''
+          imageUrl: '',
+          validityMonths: c.validityMonths || 0,
+          validityStart: c.validityStart || 'purchase'
       });
       setConsumables(c.consumables || []);
+      setEntitlements(c.entitlements || []);
       setActiveTab('courses');
       setIsModalOpen(true);
   };
@@ -84,7 +100,8 @@ const ServicesPage: React.FC = () => {
             durationMinutes: formData.durationMinutes,
             category: formData.category,
             consumables: consumables,
-            imageUrl: formData.imageUrl
+            imageUrl: formData.imageUrl,
+            contraindications: contraindications.filter(r => r.term.trim())
         };
         if (isEditing && editingId) {
             await updateService(editingId, payload);
@@ -95,9 +112,13 @@ const ServicesPage: React.FC = () => {
         const payload = {
             name: formData.name,
             price: formData.price,
-            totalUnits: formData.totalUnits,
+            totalUnits: entitlements.length > 0 ? bundleTotalUnits({ entitlements }) : formData.totalUnits,
             description: formData.description,
-            consumables: consumables
+            // A bundle deducts stock per entitlement line instead
+            consumables: entitlements.length > 0 ? [] : consumables,
+            entitlements,
+            validityMonths: formData.validityMonths || null,
+            validityStart: formData.validityStart
         };
         if (isEditing && editingId) {
             await updateCourse(editingId, payload);
@@ -135,6 +156,29 @@ const ServicesPage: React.FC = () => {
       setConsumables(consumables.filter((_, i) => i !== index));
   }
 
+  // --- Bundle entitlement lines ---
+  const addEntitlementRow = () => {
+      if (services.length === 0) {
+          alert('ไม่มีบริการ กรุณาเพิ่มบริการก่อน');
+          return;
+      }
+      const service = services[0];
+      setEntitlements([...entitlements, { id: crypto.randomUUID(), serviceId: service.id, units: 1, consumables: service.consumables || [] }]);
+  };
+
+  const updateEntitlement = (index: number, data: Partial<CourseEntitlement>) => {
+      setEntitlements(entitlements.map((e, i) => i === index ? { ...e, ...data } : e));
+  };
+
+  // Picking a service starts the line with that service's own consumables
+  const selectEntitlementService = (index: number, serviceId: string) => {
+      updateEntitlement(index, { serviceId, consumables: services.find(s => s.id === serviceId)?.consumables || [] });
+  };
+
+  const removeEntitlement = (index: number) => {
+      setEntitlements(entitlements.filter((_, i) => i !== index));
+  };
+
   const handleGenerateImage = async (serviceId: string, serviceName: string, category: string) => {
     setGeneratingId(serviceId);
     const base64Image = await generateServiceImage(serviceName, category);
@@ -276,6 +320,20 @@ const ServicesPage: React.FC = () => {
                             <div className="flex items-center justify-between text-sm bg-purple-50 p-2 rounded-lg">
                                 <span className="text-purple-700">จำนวนครั้ง</span>
                                 <span className="font-bold text-purple-900">{course.totalUnits} ครั้ง</span>
+                            </div>
+                            {isBundle(course) && (
+                                <div className="text-sm space-y-1 px-2">
+                                    {course.entitlements!.map(ent => (
+                                        <div key={ent.id} className="flex justify-between text-gray-600">
+                                            <span>{services.find(s => s.id === ent.serviceId)?.name || '-'}</span>
+                                            <span>{ent.units} ครั้ง</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            <div className="flex items-center justify-between text-sm bg-gray-50 p-2 rounded-lg">
+                                <span className="text-gray-600">อายุคอร์ส</span>
+                                <span className="font-medium text-gray-800">{describeValidity(course)}</span>
                             </div>
                              {course.consumables && course.consumables.length > 0 && (
                                 <div className="text-xs text-gray-400 mt-2">
@@ -323,7 +381,9 @@ const ServicesPage: React.FC = () => {
                     <label className="block text-sm font-medium text-gray-700 mb-1">ราคา (บาท)</label>
                     <input
                         type="number" required min="0"
-                        className="w-full border border-gray-300 rounded-xl p-3 outline-none focus:ring-2 focus:ring-rose-500"
+                        disabled={!can('pricing.edit')}
+                        title={!can('pricing.edit') ? 'เฉพาะผู้ดูแลระบบหรือฝ่ายบัญชีที่แก้ไขราคาได้' : undefined}
+                        className="w-full border border-gray-300 rounded-xl p-3 outline-none focus:ring-2 focus:ring-rose-500 disabled:bg-gray-100 disabled:text-gray-500"
                         value={formData.price}
                         onChange={e => setFormData({...formData, price: parseInt(e.target.value) || 0})}
                     />
@@ -343,8 +403,10 @@ const ServicesPage: React.FC = () => {
                         <label className="block text-sm font-medium text-gray-700 mb-1">จำนวนครั้ง (Units)</label>
                         <input
                             type="number" required min="1"
-                            className="w-full border border-gray-300 rounded-xl p-3 outline-none focus:ring-2 focus:ring-purple-500"
-                            value={formData.totalUnits}
+                            disabled={entitlements.length > 0}
+                            title={entitlements.length > 0 ? 'รวมจากบริการในแพ็กเกจ' : undefined}
+                            className="w-full border border-gray-300 rounded-xl p-3 outline-none focus:ring-2 focus:ring-purple-500 disabled:bg-gray-100 disabled:text-gray-500"
+                            value={entitlements.length > 0 ? bundleTotalUnits({ entitlements }) : formData.totalUnits}
                             onChange={e => setFormData({...formData, totalUnits: parseInt(e.target.value) || 1})}
                         />
                     </div>
@@ -370,48 +432,146 @@ const ServicesPage: React.FC = () => {
                     value={formData.description}
                     onChange={e => setFormData({...formData, description: e.target.value})}
                     />
+                    <div className="grid grid-cols-2 gap-4 mt-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">อายุคอร์ส (เดือน)</label>
+                            <input
+                                type="number" min="0"
+                                placeholder="0 = ไม่หมดอายุ"
+                                className="w-full border border-gray-300 rounded-xl p-3 outline-none focus:ring-2 focus:ring-purple-500"
+                                value={formData.validityMonths || ''}
+                                onChange={e => setFormData({...formData, validityMonths: Math.max(0, parseInt(e.target.value) || 0)})}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">เริ่มนับจาก</label>
+                            <select
+                                disabled={!formData.validityMonths}
+                                className="w-full border border-gray-300 rounded-xl p-3 outline-none bg-white disabled:bg-gray-100"
+                                value={formData.validityStart}
+                                onChange={e => setFormData({...formData, validityStart: e.target.value as CourseValidityStart})}
+                            >
+                                <option value="purchase">วันที่ซื้อ</option>
+                                <option value="first_use">วันที่ใช้ครั้งแรก</option>
+                            </select>
+                        </div>
+                    </div>
                 </div>
               )}
 
-              {/* Link Inventory Logic (Consumables) */}
-              <div className="bg-gray-50 p-4 rounded-xl border border-gray-200">
-                  <div className="flex justify-between items-center mb-3">
-                      <label className="text-sm font-bold text-gray-700 flex items-center gap-2">
-                          <Package size={16} /> ตัดสต็อกอัตโนมัติ {activeTab === 'courses' && '(ต่อครั้ง)'}
-                      </label>
-                      <button type="button" onClick={addConsumableRow} className="text-xs bg-gray-200 px-2 py-1 rounded hover:bg-gray-300">
-                          + เพิ่มสินค้า
-                      </button>
+              {activeTab === 'courses' && (
+                  <div className="bg-purple-50 p-4 rounded-xl border border-purple-100">
+                      <div className="flex justify-between items-center mb-3">
+                          <label className="text-sm font-bold text-purple-800 flex items-center gap-2">
+                              <Layers size={16} /> บริการในแพ็กเกจ
+                          </label>
+                          <button type="button" onClick={addEntitlementRow} className="text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded hover:bg-purple-200">
+                              + เพิ่มบริการ
+                          </button>
+                      </div>
+                      <div className="space-y-3">
+                          {entitlements.map((ent, idx) => (
+                              <div key={ent.id} className="bg-white p-2 rounded-lg border border-purple-100 space-y-2">
+                                  <div className="flex gap-2 items-center">
+                                      <select
+                                        className="flex-1 text-sm border p-2 rounded bg-white"
+                                        value={ent.serviceId}
+                                        onChange={e => selectEntitlementService(idx, e.target.value)}
+                                      >
+                                          {services.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                      </select>
+                                      <input
+                                        type="number" min="1" required
+                                        className="w-20 text-sm border p-2 rounded"
+                                        value={ent.units}
+                                        onChange={e => updateEntitlement(idx, { units: Math.max(1, parseInt(e.target.value) || 1) })}
+                                      />
+                                      <span className="text-xs text-gray-500">ครั้ง</span>
+                                      <button type="button" onClick={() => removeEntitlement(idx)} className="text-red-500 hover:bg-red-50 p-1 rounded">
+                                          <Trash2 size={14} />
+                                      </button>
+                                  </div>
+                                  <div className="pl-2 space-y-1">
+                                      {(ent.consumables || []).map((con, ci) => (
+                                          <div key={ci} className="flex gap-2 items-center">
+                                              <select
+                                                className="flex-1 text-xs border p-1 rounded bg-white"
+                                                value={con.inventoryItemId}
+                                                onChange={e => updateEntitlement(idx, { consumables: ent.consumables!.map((c, j) => j === ci ? { ...c, inventoryItemId: e.target.value } : c) })}
+                                              >
+                                                  {inventory.map(inv => <option key={inv.id} value={inv.id}>{inv.name} ({inv.unit})</option>)}
+                                              </select>
+                                              <input
+                                                type="number" step="0.1"
+                                                className="w-16 text-xs border p-1 rounded"
+                                                value={con.quantityUsed}
+                                                onChange={e => updateEntitlement(idx, { consumables: ent.consumables!.map((c, j) => j === ci ? { ...c, quantityUsed: parseFloat(e.target.value) } : c) })}
+                                              />
+                                              <button type="button" onClick={() => updateEntitlement(idx, { consumables: ent.consumables!.filter((_, j) => j !== ci) })} className="text-red-400 hover:bg-red-50 p-0.5 rounded">
+                                                  <Trash2 size={12} />
+                                              </button>
+                                          </div>
+                                      ))}
+                                      {inventory.length > 0 && (
+                                          <button
+                                            type="button"
+                                            onClick={() => updateEntitlement(idx, { consumables: [...(ent.consumables || []), { inventoryItemId: inventory[0].id, quantityUsed: 1 }] })}
+                                            className="text-xs text-gray-500 hover:text-gray-700"
+                                          >
+                                              + ตัดสต็อกต่อครั้ง
+                                          </button>
+                                      )}
+                                  </div>
+                              </div>
+                          ))}
+                          {entitlements.length === 0 && <p className="text-xs text-gray-400 text-center italic">คอร์สบริการเดียว (ไม่ใช่แพ็กเกจ)</p>}
+                      </div>
                   </div>
+              )}
+
+              {/* Link Inventory Logic (Consumables) */}
+              {!(activeTab === 'courses' && entitlements.length > 0) && (
+                <div className="bg-gray-50 p-4 rounded-xl border border-gray-200">
+                    <div className="flex justify-between items-center mb-3">
+                        <label className="text-sm font-bold text-gray-700 flex items-center gap-2">
+                            <Package size={16} /> ตัดสต็อกอัตโนมัติ {activeTab === 'courses' && '(ต่อครั้ง)'}
+                        </label>
+                        <button type="button" onClick={addConsumableRow} className="text-xs bg-gray-200 px-2 py-1 rounded hover:bg-gray-300">
+                            + เพิ่มสินค้า
+                        </button>
+                    </div>
                   
-                  <div className="space-y-2">
-                      {consumables.map((con, idx) => (
-                          <div key={idx} className="flex gap-2 items-center">
-                              <select 
-                                className="flex-1 text-sm border p-2 rounded bg-white"
-                                value={con.inventoryItemId}
-                                onChange={e => updateConsumable(idx, 'inventoryItemId', e.target.value)}
-                              >
-                                  {inventory.map(inv => (
-                                      <option key={inv.id} value={inv.id}>{inv.name} ({inv.unit})</option>
-                                  ))}
-                              </select>
-                              <input 
-                                type="number" 
-                                className="w-20 text-sm border p-2 rounded" 
-                                placeholder="จำนวน"
-                                step="0.1"
-                                value={con.quantityUsed}
-                                onChange={e => updateConsumable(idx, 'quantityUsed', parseFloat(e.target.value))}
-                              />
-                              <button type="button" onClick={() => removeConsumable(idx)} className="text-red-500 hover:bg-red-50 p-1 rounded">
-                                  <Trash2 size={14} />
-                              </button>
-                          </div>
-                      ))}
-                      {consumables.length === 0 && <p className="text-xs text-gray-400 text-center italic">ไม่มีการตัดสต็อก</p>}
-                  </div>
-              </div>
+                    <div className="space-y-2">
+                        {consumables.map((con, idx) => (
+                            <div key={idx} className="flex gap-2 items-center">
+                                <select 
+                                  className="flex-1 text-sm border p-2 rounded bg-white"
+                                  value={con.inventoryItemId}
+                                  onChange={e => updateConsumable(idx, 'inventoryItemId', e.target.value)}
+                                >
+                                    {inventory.map(inv => (
+                                        <option key={inv.id} value={inv.id}>{inv.name} ({inv.unit})</option>
+                                    ))}
+                                </select>
+                                <input 
+                                  type="number" 
+                                  className="w-20 text-sm border p-2 rounded" 
+                                  placeholder="จำนวน"
+                                  step="0.1"
+                                  value={con.quantityUsed}
+                                  onChange={e => updateConsumable(idx, 'quantityUsed', parseFloat(e.target.value))}
+                                />
+                                <button type="button" onClick={() => removeConsumable(idx)} className="text-red-500 hover:bg-red-50 p-1 rounded">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        ))}
+                        {consumables.length === 0 && <p className="text-xs text-gray-400 text-center italic">ไม่มีการตัดสต็อก</p>}
+                    </div>
+                </div>
+              )}
+
+              {activeTab === 'services' && <ContraindicationEditor value={contraindications} onChange={setContraindications} />}
 
               <div className="flex gap-3 mt-8">
                 <button
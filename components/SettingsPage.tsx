@@ -1,11 +1,25 @@
 import React, { useState } from 'react';
 import { useClinic } from '../context/ClinicContext';
-import { Database, Download, RefreshCcw, Trash2, CheckCircle, Server, Shield, FileJson } from 'lucide-react';
+import { Database, Download, RefreshCcw, Trash2, CheckCircle, Server, Shield, FileJson, Users, Building2, Save } from 'lucide-react';
 import { resetConfiguration } from '../lib/supabaseClient';
+import { useAuth, usePermission } from '../context/AuthContext';
+import { ROLE_LABELS } from '../lib/permissions';
+import { ClinicProfile, UserRole } from '../types';
 
 const SettingsPage: React.FC = () => {
-  const { exportToSQL, resetDatabase, isLoadingData } = useClinic();
+  const { exportToSQL, resetDatabase, isLoadingData, userAccounts, updateUserRole, clinicProfile, updateClinicProfile } = useClinic();
+  const { user } = useAuth();
+  const { can } = usePermission();
   const [exporting, setExporting] = useState(false);
+  // null until the user edits, so the form follows the loaded profile
+  const [profileForm, setProfileForm] = useState<ClinicProfile | null>(null);
+  const profile = profileForm || clinicProfile;
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await updateClinicProfile(profile);
+    setProfileForm(null);
+  };
 
   const handleExport = async () => {
     setExporting(true);
@@ -76,7 +90,103 @@ const SettingsPage: React.FC = () => {
            </button>
         </div>
 
+        {/* Clinic Profile (receipts & tax invoices) */}
+        {can('settings.manage') && (
+        <form onSubmit={handleSaveProfile} className="bg-white p-6 rounded-2xl border border-gray-200 shadow-sm">
+            <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+               <Building2 size={20} className="text-emerald-500"/> ข้อมูลคลินิกสำหรับใบเสร็จ (Clinic & Tax Info)
+           </h3>
+           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+               <div className="md:col-span-2">
+                   <label className="block text-sm font-medium text-gray-700 mb-1">ชื่อกิจการ</label>
+                   <input className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={profile.name} onChange={e => setProfileForm({ ...profile, name: e.target.value })} required />
+               </div>
+               <div className="md:col-span-2">
+                   <label className="block text-sm font-medium text-gray-700 mb-1">ที่อยู่</label>
+                   <textarea rows={2} className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={profile.address} onChange={e => setProfileForm({ ...profile, address: e.target.value })} />
+               </div>
+               <div>
+                   <label className="block text-sm font-medium text-gray-700 mb-1">เลขประจำตัวผู้เสียภาษี</label>
+                   <input maxLength={13} className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={profile.taxId} onChange={e => setProfileForm({ ...profile, taxId: e.target.value.replace(/\D/g, '') })} />
+               </div>
+               <div>
+                   <label className="block text-sm font-medium text-gray-700 mb-1">โทรศัพท์</label>
+                   <input className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={profile.phone} onChange={e => setProfileForm({ ...profile, phone: e.target.value })} />
+               </div>
+               <div>
+                   <label className="block text-sm font-medium text-gray-700 mb-1">รหัสสาขา</label>
+                   <input maxLength={5} className="w-full border border-gray-300 rounded-lg p-2 text-gray-900 font-mono" value={profile.branchCode} onChange={e => setProfileForm({ ...profile, branchCode: e.target.value.replace(/\D/g, '') })} required />
+               </div>
+               <div>
+                   <label className="block text-sm font-medium text-gray-700 mb-1">ชื่อสาขา</label>
+                   <input className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={profile.branchName} onChange={e => setProfileForm({ ...profile, branchName: e.target.value })} />
+               </div>
+               <label className="flex items-center gap-2 text-sm text-gray-700">
+                   <input type="checkbox" className="accent-rose-500" checked={profile.vatRegistered} onChange={e => setProfileForm({ ...profile, vatRegistered: e.target.checked })} />
+                   จดทะเบียนภาษีมูลค่าเพิ่ม (VAT)
+               </label>
+               {profile.vatRegistered && (
+                   <div className="flex items-center gap-4">
+                       <div className="flex items-center gap-2 text-sm text-gray-700">
+                           <input type="number" min="0" step="0.01" className="w-20 border border-gray-300 rounded-lg p-2 text-gray-900" value={profile.vatRate} onChange={e => setProfileForm({ ...profile, vatRate: Number(e.target.value) })} /> %
+                       </div>
+                       <label className="flex items-center gap-2 text-sm text-gray-700">
+                           <input type="checkbox" className="accent-rose-500" checked={profile.pricesIncludeVat} onChange={e => setProfileForm({ ...profile, pricesIncludeVat: e.target.checked })} />
+                           ราคาขายรวม VAT แล้ว
+                       </label>
+                   </div>
+               )}
+               <div className="md:col-span-2">
+                   <label className="block text-sm font-medium text-gray-700 mb-1">ส่วนลดสูงสุดที่ไม่ต้องขออนุมัติ</label>
+                   <div className="flex items-center gap-2 text-sm text-gray-700">
+                       <input type="number" min="0" max="100" step="0.5" className="w-20 border border-gray-300 rounded-lg p-2 text-gray-900" value={profile.maxDiscountPercent} onChange={e => setProfileForm({ ...profile, maxDiscountPercent: Number(e.target.value) })} /> %
+                       <span className="text-xs text-gray-400">ส่วนลดที่พนักงานให้เองเกินกว่านี้ต้องให้ผู้จัดการอนุมัติ (ไม่รวมโปรโมชั่น)</span>
+                   </div>
+               </div>
+               <label className="md:col-span-2 flex items-center gap-2 text-sm text-gray-700">
+                   <input type="checkbox" className="accent-rose-500" checked={profile.blockOverdueCourseUsage} onChange={e => setProfileForm({ ...profile, blockOverdueCourseUsage: e.target.checked })} />
+                   ไม่ให้ตัดคอร์สเมื่อลูกค้ามียอดผ่อนชำระค้างเกินกำหนด
+               </label>
+           </div>
+           <p className="text-xs text-gray-400 mt-3">เลขที่เอกสารรันต่อเนื่องแยกตามสาขาและปี การแก้ไขข้อมูลจะมีผลกับเอกสารที่ออกหลังจากนี้เท่านั้น</p>
+           <button type="submit" disabled={!profileForm} className="mt-4 bg-gray-900 text-white px-6 py-2 rounded-xl hover:bg-gray-800 flex items-center gap-2 disabled:bg-gray-300">
+               <Save size={18} /> บันทึก
+           </button>
+        </form>
+        )}
+
+        {/* Users & Roles */}
+        {can('users.manage') && (
+        <div className="bg-white p-6 rounded-2xl border border-gray-200 shadow-sm">
+            <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+               <Users size={20} className="text-rose-500"/> ผู้ใช้งานและสิทธิ์ (Users & Roles)
+           </h3>
+           <p className="text-gray-600 mb-4 text-sm">
+               ผู้ใช้ที่สมัครใหม่จะได้สิทธิ์ "เคาน์เตอร์" โดยอัตโนมัติ ผู้ดูแลระบบสามารถเปลี่ยนสิทธิ์ได้ที่นี่
+           </p>
+           <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+               {userAccounts.map(account => (
+                   <div key={account.userId} className="flex items-center justify-between p-3 gap-4">
+                       <div className="min-w-0">
+                           <p className="font-medium text-gray-800 truncate">{account.email}</p>
+                           {account.userId === user?.id && <p className="text-xs text-gray-400">บัญชีของคุณ</p>}
+                       </div>
+                       <select
+                           className="border border-gray-300 rounded-lg p-2 bg-white text-sm text-gray-700"
+                           value={account.role}
+                           onChange={e => updateUserRole(account.userId, e.target.value as UserRole)}
+                       >
+                           {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                       </select>
+                   </div>
+               ))}
+               {userAccounts.length === 0 && <p className="p-4 text-center text-gray-400 text-sm">ยังไม่มีผู้ใช้งาน</p>}
+           </div>
+        </div>
+        )}
+
         {/* Danger Zone */}
+        {can('data.reset') && (
         <div className="bg-red-50 p-6 rounded-2xl border border-red-100">
              <h3 className="text-lg font-bold text-red-800 mb-4 flex items-center gap-2">
                <Shield size={20} /> พื้นที่อันตราย (Danger Zone)
@@ -108,6 +218,7 @@ const SettingsPage: React.FC = () => {
                 </div>
            </div>
         </div>
+        )}
       </div>
     </div>
   );
@@ -1,7 +1,8 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
-import { LayoutDashboard, Calendar, Users, Sparkles, ShoppingCart, Package, LogOut, Tag, X, PanelLeftClose, Settings } from 'lucide-react';
-import { useAuth } from '../context/AuthContext';
+import { LayoutDashboard, Calendar, Users, Sparkles, ShoppingCart, Package, LogOut, Tag, X, PanelLeftClose, Settings, Truck, Stethoscope, UserCog, Bell, Receipt, BadgePercent, Gift, Hourglass, FileSearch, FileSignature } from 'lucide-react';
+import { useAuth, usePermission } from '../context/AuthContext';
+import { ROLE_LABELS } from '../lib/permissions';
 
 interface SidebarProps {
   onClose?: () => void;
@@ -9,6 +10,7 @@ interface SidebarProps {
 
 const Sidebar: React.FC<SidebarProps> = ({ onClose }) => {
   const { signOut, user } = useAuth();
+  const { role, can } = usePermission();
 
   const navClass = ({ isActive }: { isActive: boolean }) =>
     `flex items-center gap-3 px-4 py-3 rounded-xl transition-colors duration-200 ${
@@ -41,34 +43,108 @@ const Sidebar: React.FC<SidebarProps> = ({ onClose }) => {
             <LayoutDashboard size={20} />
             <span>ภาพรวม (Dashboard)</span>
           </NavLink>
-          <NavLink to="/appointments" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
-            <Calendar size={20} />
-            <span>นัดหมาย (Schedule)</span>
-          </NavLink>
-          <NavLink to="/customers" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
-            <Users size={20} />
-            <span>ลูกค้า (CRM)</span>
-          </NavLink>
-           <NavLink to="/pos" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
-            <ShoppingCart size={20} />
-            <span>การขาย (POS)</span>
-          </NavLink>
-           <NavLink to="/inventory" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
-            <Package size={20} />
-            <span>คลังสินค้า (Stock)</span>
-          </NavLink>
-          <NavLink to="/services" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
-            <Tag size={20} />
-            <span>บริการ (Services)</span>
-          </NavLink>
-          <NavLink to="/ai-consultant" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
-            <Sparkles size={20} />
-            <span>ผู้ช่วย AI (AI Assistant)</span>
-          </NavLink>
-          <NavLink to="/settings" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
-            <Settings size={20} />
-            <span>ตั้งค่า (Settings)</span>
-          </NavLink>
+          {can('appointments.manage') && (
+            <NavLink to="/appointments" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <Calendar size={20} />
+              <span>นัดหมาย (Schedule)</span>
+            </NavLink>
+          )}
+          {can('customers.view') && (
+            <NavLink to="/customers" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <Users size={20} />
+              <span>ลูกค้า (CRM)</span>
+            </NavLink>
+          )}
+          {can('charts.manage') && (
+            <NavLink to="/charts" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <FileSearch size={20} />
+              <span>บันทึกการรักษา (Charts)</span>
+            </NavLink>
+          )}
+          {can('pos.sell') && (
+            <NavLink to="/pos" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <ShoppingCart size={20} />
+              <span>การขาย (POS)</span>
+            </NavLink>
+          )}
+          {can('pos.sell') && (
+            <NavLink to="/transactions" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <Receipt size={20} />
+              <span>ประวัติการขาย (Sales)</span>
+            </NavLink>
+          )}
+          {can('pos.sell') && (
+            <NavLink to="/vouchers" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <Gift size={20} />
+              <span>บัตรกำนัล (Vouchers)</span>
+            </NavLink>
+          )}
+          {can('pricing.edit') && (
+            <NavLink to="/promotions" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <BadgePercent size={20} />
+              <span>โปรโมชั่น (Promotions)</span>
+            </NavLink>
+          )}
+          {can('inventory.manage') && (
+            <NavLink to="/inventory" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <Package size={20} />
+              <span>คลังสินค้า (Stock)</span>
+            </NavLink>
+          )}
+          {can('purchasing.manage') && (
+            <NavLink to="/purchasing" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <Truck size={20} />
+              <span>จัดซื้อ (Purchasing)</span>
+            </NavLink>
+          )}
+          {can('catalog.manage') && (
+            <NavLink to="/services" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <Tag size={20} />
+              <span>บริการ (Services)</span>
+            </NavLink>
+          )}
+          {can('catalog.manage') && (
+            <NavLink to="/consent-templates" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <FileSignature size={20} />
+              <span>ใบยินยอม (Consent)</span>
+            </NavLink>
+          )}
+          {can('staff.manage') && (
+            <NavLink to="/staff" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <UserCog size={20} />
+              <span>บุคลากร (Staff)</span>
+            </NavLink>
+          )}
+          {can('commissions.view') && (
+            <NavLink to="/commissions" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <Stethoscope size={20} />
+              <span>ค่ามือแพทย์ (DF)</span>
+            </NavLink>
+          )}
+          {can('revenue.view') && (
+            <NavLink to="/course-expiry" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <Hourglass size={20} />
+              <span>คอร์สหมดอายุ (Expiry)</span>
+            </NavLink>
+          )}
+          {can('notifications.manage') && (
+            <NavLink to="/notifications" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <Bell size={20} />
+              <span>แจ้งเตือน (Notifications)</span>
+            </NavLink>
+          )}
+          {can('ai.use') && (
+            <NavLink to="/ai-consultant" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <Sparkles size={20} />
+              <span>ผู้ช่วย AI (AI Assistant)</span>
+            </NavLink>
+          )}
+          {can('data.export') && (
+            <NavLink to="/settings" className={navClass} onClick={() => window.innerWidth < 768 && onClose?.()}>
+              <Settings size={20} />
+              <span>ตั้งค่า (Settings)</span>
+            </NavLink>
+          )}
         </nav>
       </div>
 
@@ -79,7 +155,7 @@ const Sidebar: React.FC<SidebarProps> = ({ onClose }) => {
             </div>
             <div className="overflow-hidden min-w-0">
                 <p className="text-sm font-medium text-gray-800 truncate">{user?.email}</p>
-                <p className="text-xs text-gray-500">Staff / Admin</p>
+                <p className="text-xs text-gray-500">{role ? ROLE_LABELS[role] : '-'}</p>
             </div>
         </div>
         <button 
@@ -0,0 +1,84 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Eraser } from 'lucide-react';
+
+interface SignaturePadProps {
+  onChange: (dataUrl: string | null) => void; // null while the pad is blank
+}
+
+// Finger/stylus signature box for tablets; works with mouse too
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const [isBlank, setIsBlank] = useState(true);
+
+  // Match the drawing buffer to the displayed size so strokes land under the finger
+  useEffect(() => {
+      const canvas = canvasRef.current!;
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = canvas.offsetWidth * ratio;
+      canvas.height = canvas.offsetHeight * ratio;
+      const ctx = canvas.getContext('2d')!;
+      ctx.scale(ratio, ratio);
+      ctx.lineWidth = 2.5;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.strokeStyle = '#111827';
+  }, []);
+
+  const pointAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handleDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      drawing.current = true;
+      const ctx = e.currentTarget.getContext('2d')!;
+      const { x, y } = pointAt(e);
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+  };
+
+  const handleMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!drawing.current) return;
+      const ctx = e.currentTarget.getContext('2d')!;
+      const { x, y } = pointAt(e);
+      ctx.lineTo(x, y);
+      ctx.stroke();
+  };
+
+  const handleUp = () => {
+      if (!drawing.current) return;
+      drawing.current = false;
+      setIsBlank(false);
+      onChange(canvasRef.current!.toDataURL('image/png'));
+  };
+
+  const clear = () => {
+      const canvas = canvasRef.current!;
+      canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+      setIsBlank(true);
+      onChange(null);
+  };
+
+  return (
+    <div className="space-y-1">
+        <div className="relative border-2 border-dashed border-gray-300 rounded-xl bg-white">
+            <canvas
+                ref={canvasRef}
+                className="w-full h-40 touch-none cursor-crosshair"
+                onPointerDown={handleDown}
+                onPointerMove={handleMove}
+                onPointerUp={handleUp}
+                onPointerLeave={handleUp}
+            />
+            {isBlank && <span className="absolute inset-0 flex items-center justify-center text-gray-300 pointer-events-none">เซ็นชื่อที่นี่</span>}
+        </div>
+        <button type="button" onClick={clear} className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1">
+            <Eraser size={12} /> ล้างลายเซ็น
+        </button>
+    </div>
+  );
+};
+
+export default SignaturePad;
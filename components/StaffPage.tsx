@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { useClinic } from '../context/ClinicContext';
+import { UserCog, Plus, Edit, Trash2, Save, Clock, BadgeCheck, CalendarOff } from 'lucide-react';
+import { Staff, StaffRole, WorkingHours } from '../types';
+
+const ROLE_LABELS: Record<StaffRole, string> = {
+  doctor: 'แพทย์',
+  nurse: 'พยาบาล',
+  therapist: 'เทอราปิสต์'
+};
+
+const DAY_LABELS = ['อา.', 'จ.', 'อ.', 'พ.', 'พฤ.', 'ศ.', 'ส.'];
+
+type StaffForm = Omit<Staff, 'id'>;
+
+const emptyStaff: StaffForm = {
+  name: '',
+  role: 'doctor',
+  licenseNumber: '',
+  active: true,
+  workingHours: [1, 2, 3, 4, 5, 6].map(day => ({ day, start: '10:00', end: '20:00' })),
+  qualifiedServiceIds: []
+};
+
+const StaffPage: React.FC = () => {
+  const { staff, services, addStaff, updateStaff, deleteStaff, holidays, addHoliday, deleteHoliday } = useClinic();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<StaffForm>(emptyStaff);
+  const [holidayForm, setHolidayForm] = useState({ date: '', staffId: '', reason: '' });
+
+  const openModal = (member?: Staff) => {
+      setEditingId(member?.id || null);
+      setForm(member ? { ...member, licenseNumber: member.licenseNumber || '' } : emptyStaff);
+      setIsModalOpen(true);
+  };
+
+  const describeHours = (hours: WorkingHours[]) =>
+      hours.length === 0
+        ? 'ไม่ได้กำหนด'
+        : [...hours].sort((a, b) => a.day - b.day).map(h => `${DAY_LABELS[h.day]} ${h.start}-${h.end}${h.breakStart && h.breakEnd ? ` (พัก ${h.breakStart}-${h.breakEnd})` : ''}`).join(', ');
+
+  const toggleDay = (day: number) => {
+      const exists = form.workingHours.some(h => h.day === day);
+      setForm({
+          ...form,
+          workingHours: exists
+            ? form.workingHours.filter(h => h.day !== day)
+            : [...form.workingHours, { day, start: '10:00', end: '20:00' }]
+      });
+  };
+
+  const updateHours = (day: number, field: 'start' | 'end' | 'breakStart' | 'breakEnd', value: string) => {
+      setForm({ ...form, workingHours: form.workingHours.map(h => h.day === day ? { ...h, [field]: value } : h) });
+  };
+
+  const toggleService = (serviceId: string) => {
+      const ids = form.qualifiedServiceIds;
+      setForm({ ...form, qualifiedServiceIds: ids.includes(serviceId) ? ids.filter(id => id !== serviceId) : [...ids, serviceId] });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (form.workingHours.some(h => h.start >= h.end)) {
+          alert('เวลาเริ่มงานต้องน้อยกว่าเวลาเลิกงาน');
+          return;
+      }
+      if (form.workingHours.some(h => h.breakStart && h.breakEnd && (h.breakStart >= h.breakEnd || h.breakStart < h.start || h.breakEnd > h.end))) {
+          alert('เวลาพักต้องอยู่ภายในเวลาทำงาน');
+          return;
+      }
+      if (editingId) {
+          await updateStaff(editingId, form);
+      } else {
+          await addStaff(form);
+      }
+      setIsModalOpen(false);
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+      e.preventDefault();
+      await addHoliday({ date: holidayForm.date, staffId: holidayForm.staffId || null, reason: holidayForm.reason });
+      setHolidayForm({ date: '', staffId: '', reason: '' });
+  };
+
+  const upcomingHolidays = holidays.filter(h => h.date >= new Date().toISOString().split('T')[0]);
+
+  const handleDelete = async (id: string) => {
+      if (window.confirm('ยืนยันการลบบุคลากรนี้? (หากมีประวัติการรักษาแล้ว แนะนำให้ปิดการใช้งานแทน)')) {
+          await deleteStaff(id);
+      }
+  };
+
+  return (
+    <div className="p-4 md:p-8 w-full">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <div>
+            <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+                <UserCog className="text-rose-500" />
+                บุคลากร (Staff)
+            </h2>
+            <p className="text-gray-500 text-sm mt-1">แพทย์ พยาบาล และเทอราปิสต์ พร้อมเวลาทำงานและบริการที่ทำได้</p>
+        </div>
+        <button
+            onClick={() => openModal()}
+            className="bg-rose-500 text-white px-4 py-2 rounded-xl flex items-center gap-2 hover:bg-rose-600 shadow-md w-full md:w-auto justify-center"
+        >
+            <Plus size={18} /> เพิ่มบุคลากร
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left whitespace-nowrap">
+              <thead className="bg-gray-50 border-b border-gray-100">
+                  <tr>
+                      <th className="p-4 text-gray-500 font-medium">ชื่อ</th>
+                      <th className="p-4 text-gray-500 font-medium">ตำแหน่ง</th>
+                      <th className="p-4 text-gray-500 font-medium">เลขใบประกอบวิชาชีพ</th>
+                      <th className="p-4 text-gray-500 font-medium">เวลาทำงาน</th>
+                      <th className="p-4 text-gray-500 font-medium">บริการที่ทำได้</th>
+                      <th className="p-4 text-gray-500 font-medium text-center">สถานะ</th>
+                      <th className="p-4 text-gray-500 font-medium text-right">เครื่องมือ</th>
+                  </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                  {staff.map(member => (
+                      <tr key={member.id} className={`hover:bg-gray-50 ${!member.active ? 'opacity-60' : ''}`}>
+                          <td className="p-4 font-medium text-gray-800">{member.name}</td>
+                          <td className="p-4 text-gray-600">{ROLE_LABELS[member.role] || member.role}</td>
+                          <td className="p-4 text-gray-600 font-mono text-sm">{member.licenseNumber || '-'}</td>
+                          <td className="p-4 text-gray-600 text-sm max-w-xs truncate" title={describeHours(member.workingHours)}>
+                              <span className="flex items-center gap-1"><Clock size={14} className="text-gray-400" /> {describeHours(member.workingHours)}</span>
+                          </td>
+                          <td className="p-4 text-gray-600 text-sm">
+                              {member.qualifiedServiceIds.length === 0 ? 'ทุกบริการ' : `${member.qualifiedServiceIds.length} บริการ`}
+                          </td>
+                          <td className="p-4 text-center">
+                              <button
+                                  onClick={() => updateStaff(member.id, { active: !member.active })}
+                                  className={`px-2 py-1 rounded text-xs font-medium ${member.active ? 'bg-green-50 text-green-600' : 'bg-gray-100 text-gray-500'}`}
+                              >
+                                  {member.active ? 'ปฏิบัติงาน' : 'ปิดการใช้งาน'}
+                              </button>
+                          </td>
+                          <td className="p-4 text-right">
+                              <div className="flex items-center justify-end gap-2">
+                                  <button onClick={() => openModal(member)} className="p-1.5 hover:bg-blue-50 text-blue-600 rounded"><Edit size={18} /></button>
+                                  <button onClick={() => handleDelete(member.id)} className="p-1.5 hover:bg-red-50 text-red-600 rounded"><Trash2 size={18} /></button>
+                              </div>
+                          </td>
+                      </tr>
+                  ))}
+                  {staff.length === 0 && (
+                      <tr>
+                          <td colSpan={7} className="p-8 text-center text-gray-400">ยังไม่มีข้อมูลบุคลากร</td>
+                      </tr>
+                  )}
+              </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Holidays & Leave */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 mt-8">
+        <h3 className="text-lg font-bold text-gray-800 mb-1 flex items-center gap-2"><CalendarOff size={20} className="text-rose-500" /> วันหยุดคลินิก / วันลา</h3>
+        <p className="text-sm text-gray-500 mb-4">ระบบนัดหมายจะไม่ให้จองในวันที่คลินิกปิด หรือกับแพทย์ที่ลา</p>
+        <form onSubmit={handleAddHoliday} className="flex flex-col md:flex-row gap-2 mb-4">
+            <input
+                type="date" required
+                className="border border-gray-300 p-2 rounded-lg"
+                value={holidayForm.date}
+                onChange={e => setHolidayForm({...holidayForm, date: e.target.value})}
+            />
+            <select
+                className="border border-gray-300 p-2 rounded-lg bg-white"
+                value={holidayForm.staffId}
+                onChange={e => setHolidayForm({...holidayForm, staffId: e.target.value})}
+            >
+                <option value="">ทั้งคลินิก (ปิดทำการ)</option>
+                {staff.filter(s => s.active).map(s => <option key={s.id} value={s.id}>{s.name} (ลา)</option>)}
+            </select>
+            <input
+                placeholder="เหตุผล เช่น วันสงกรานต์"
+                className="border border-gray-300 p-2 rounded-lg flex-1"
+                value={holidayForm.reason}
+                onChange={e => setHolidayForm({...holidayForm, reason: e.target.value})}
+            />
+            <button type="submit" className="bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-gray-800 flex items-center gap-2 justify-center">
+                <Plus size={16} /> เพิ่ม
+            </button>
+        </form>
+        <div className="divide-y divide-gray-100">
+            {upcomingHolidays.map(h => (
+                <div key={h.id} className="flex items-center justify-between py-2 text-sm">
+                    <div>
+                        <span className="font-medium text-gray-800">{h.date}</span>
+                        <span className="text-gray-500 ml-3">{h.staffId ? `${staff.find(s => s.id === h.staffId)?.name || '-'} ลา` : 'คลินิกปิด'}</span>
+                        {h.reason && <span className="text-gray-400 ml-2">· {h.reason}</span>}
+                    </div>
+                    <button onClick={() => deleteHoliday(h.id)} className="p-1.5 hover:bg-red-50 text-red-600 rounded"><Trash2 size={16} /></button>
+                </div>
+            ))}
+            {upcomingHolidays.length === 0 && <p className="text-center text-gray-400 text-sm py-4">ยังไม่มีวันหยุดที่กำหนดไว้</p>}
+        </div>
+      </div>
+
+      {/* Staff Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white p-6 rounded-2xl w-full max-w-2xl shadow-xl max-h-[90vh] overflow-y-auto">
+                <h3 className="text-xl font-bold mb-4 text-gray-800">{editingId ? 'แก้ไขข้อมูลบุคลากร' : 'เพิ่มบุคลากร'}</h3>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <input
+                        required
+                        placeholder="ชื่อ (เช่น หมอฟ้า)"
+                        className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                        value={form.name}
+                        onChange={e => setForm({...form, name: e.target.value})}
+                    />
+                    {editingId && (
+                        <p className="text-xs text-gray-500 -mt-2">การเปลี่ยนชื่อจะแสดงชื่อใหม่ในรายงาน โดยประวัติเดิมยังผูกกับบุคลากรคนเดิม</p>
+                    )}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">ตำแหน่ง</label>
+                            <select
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none bg-white focus:ring-2 focus:ring-rose-500"
+                                value={form.role}
+                                onChange={e => setForm({...form, role: e.target.value as StaffRole})}
+                            >
+                                {(Object.keys(ROLE_LABELS) as StaffRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">เลขใบประกอบวิชาชีพ</label>
+                            <input
+                                className="w-full border border-gray-300 p-3 rounded-xl outline-none focus:ring-2 focus:ring-rose-500"
+                                value={form.licenseNumber}
+                                onChange={e => setForm({...form, licenseNumber: e.target.value})}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="bg-gray-50 p-4 rounded-xl border border-gray-200">
+                        <label className="text-sm font-bold text-gray-700 mb-3 flex items-center gap-2"><Clock size={16} /> เวลาทำงาน</label>
+                        <div className="space-y-2">
+                            {DAY_LABELS.map((label, day) => {
+                                const hours = form.workingHours.find(h => h.day === day);
+                                return (
+                                    <div key={day} className="flex items-center gap-2 text-sm">
+                                        <label className="flex items-center gap-2 w-16">
+                                            <input type="checkbox" checked={!!hours} onChange={() => toggleDay(day)} />
+                                            {label}
+                                        </label>
+                                        {hours ? (
+                                            <>
+                                                <input type="time" className="border p-1.5 rounded bg-white" value={hours.start} onChange={e => updateHours(day, 'start', e.target.value)} />
+                                                <span className="text-gray-400">-</span>
+                                                <input type="time" className="border p-1.5 rounded bg-white" value={hours.end} onChange={e => updateHours(day, 'end', e.target.value)} />
+                                                <span className="text-gray-400 text-xs ml-2">พัก</span>
+                                                <input type="time" className="border p-1.5 rounded bg-white w-24" value={hours.breakStart || ''} onChange={e => updateHours(day, 'breakStart', e.target.value)} />
+                                                <span className="text-gray-400">-</span>
+                                                <input type="time" className="border p-1.5 rounded bg-white w-24" value={hours.breakEnd || ''} onChange={e => updateHours(day, 'breakEnd', e.target.value)} />
+                                            </>
+                                        ) : (
+                                            <span className="text-gray-400 text-xs">วันหยุด</span>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    <div className="bg-gray-50 p-4 rounded-xl border border-gray-200">
+                        <label className="text-sm font-bold text-gray-700 mb-1 flex items-center gap-2"><BadgeCheck size={16} /> บริการที่ทำได้</label>
+                        <p className="text-xs text-gray-500 mb-3">ไม่เลือกเลย = ทำได้ทุกบริการ</p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+                            {services.map(s => (
+                                <label key={s.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={form.qualifiedServiceIds.includes(s.id)}
+                                        onChange={() => toggleService(s.id)}
+                                    />
+                                    <span className="truncate">{s.name}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={form.active}
+                            onChange={e => setForm({...form, active: e.target.checked})}
+                        />
+                        ปฏิบัติงานอยู่ (แสดงในรายการเลือกแพทย์)
+                    </label>
+
+                    <div className="flex gap-3 mt-4">
+                        <button type="button" onClick={() => setIsModalOpen(false)} className="flex-1 py-2 border rounded-lg hover:bg-gray-50">ยกเลิก</button>
+                        <button type="submit" className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 flex items-center justify-center gap-2">
+                             <Save size={18} /> บันทึก
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StaffPage;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { useClinic } from '../context/ClinicContext';
+import { FileText } from 'lucide-react';
+import { CustomerTaxInfo, Receipt } from '../types';
+import { printReceipt } from '../lib/receipts';
+
+interface TaxInvoiceModalProps {
+  transactionId: string;
+  customerId: string;
+  onClose: () => void;
+  onIssued?: (receipt: Receipt) => void;
+}
+
+// Collects the buyer's details, issues the full tax invoice and prints it
+const TaxInvoiceModal: React.FC<TaxInvoiceModalProps> = ({ transactionId, customerId, onClose, onIssued }) => {
+  const { customers, issueReceipt, markReceiptPrinted } = useClinic();
+  const customer = customers.find(c => c.id === customerId);
+  const [form, setForm] = useState<CustomerTaxInfo>(customer?.taxInfo || {
+    name: customer?.name || '',
+    taxId: '',
+    address: customer?.address || '',
+    branch: 'สำนักงานใหญ่'
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\d{13}$/.test(form.taxId)) {
+        alert('เลขประจำตัวผู้เสียภาษีต้องเป็นตัวเลข 13 หลัก');
+        return;
+    }
+    // Opened before the await so the popup blocker treats it as part of the click
+    const printWindow = window.open('', '_blank', 'width=820,height=960');
+    setIsSaving(true);
+    const receipt = await issueReceipt(transactionId, 'tax_invoice', form);
+    setIsSaving(false);
+    if (!receipt) {
+        printWindow?.close();
+        return;
+    }
+    printReceipt(receipt, printWindow);
+    markReceiptPrinted(receipt.id);
+    onIssued?.(receipt);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-md shadow-2xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-6 text-gray-800 flex items-center gap-2"><FileText className="text-rose-500" /> ออกใบกำกับภาษีเต็มรูป</h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">ชื่อผู้ซื้อ / บริษัท</label>
+            <input
+              required
+              className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 text-gray-900"
+              value={form.name}
+              onChange={e => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">เลขประจำตัวผู้เสียภาษี</label>
+              <input
+                required
+                inputMode="numeric"
+                maxLength={13}
+                placeholder="13 หลัก"
+                className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 text-gray-900"
+                value={form.taxId}
+                onChange={e => setForm({ ...form, taxId: e.target.value.replace(/\D/g, '') })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">สาขา</label>
+              <input
+                placeholder="สำนักงานใหญ่ / 00001"
+                className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 text-gray-900"
+                value={form.branch}
+                onChange={e => setForm({ ...form, branch: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">ที่อยู่</label>
+            <textarea
+              required
+              rows={3}
+              className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-rose-500 text-gray-900"
+              value={form.address}
+              onChange={e => setForm({ ...form, address: e.target.value })}
+            />
+          </div>
+          <p className="text-xs text-gray-400">ข้อมูลนี้จะถูกบันทึกไว้กับลูกค้าสำหรับการออกใบกำกับภาษีครั้งถัดไป</p>
+          <div className="flex gap-3 mt-6">
+            <button type="button" onClick={onClose} className="flex-1 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">ยกเลิก</button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 shadow-md shadow-rose-200 disabled:bg-gray-300"
+            >
+              {isSaving ? 'กำลังออกเอกสาร...' : 'ออกและพิมพ์'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TaxInvoiceModal;
@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { useClinic } from '../context/ClinicContext';
+import { usePermission } from '../context/AuthContext';
+import { Receipt as ReceiptIcon, Printer, FileText, Ban, FilePlus, RotateCcw, XCircle, Wallet } from 'lucide-react';
+import { Receipt, Transaction, TransactionKind } from '../types';
+import { PAYMENT_METHOD_LABELS, printReceipt, RECEIPT_TYPE_LABELS } from '../lib/receipts';
+import { getRefundableAmount, getRefunds, getRevenueTransactions } from '../lib/sales';
+import TaxInvoiceModal from './TaxInvoiceModal';
+import { getBalanceDue, getOverdueAmount, getPaymentsFor, tracksBalance } from '../lib/receivables';
+import RefundModal from './RefundModal';
+import CollectPaymentModal from './CollectPaymentModal';
+
+const TransactionsPage: React.FC = () => {
+  const { transactions, payments, customers, receipts, issueReceipt, voidReceipt, markReceiptPrinted, voidTransaction } = useClinic();
+  const { can } = usePermission();
+  const [taxInvoiceFor, setTaxInvoiceFor] = useState<Transaction | null>(null);
+  const [refundFor, setRefundFor] = useState<Transaction | null>(null);
+  const [collectFor, setCollectFor] = useState<Transaction | null>(null);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [customerFilter, setCustomerFilter] = useState('');
+  const [methodFilter, setMethodFilter] = useState<Transaction['paymentMethod'] | ''>('');
+  const [cashierFilter, setCashierFilter] = useState('');
+  const [kindFilter, setKindFilter] = useState<TransactionKind | ''>('');
+
+  const cashiers = [...new Set(transactions.map(t => t.createdBy).filter(Boolean))] as string[];
+  // Dates are compared in local time so "today" matches the clinic's day
+  const localDate = (iso: string) => new Date(iso).toLocaleDateString('sv-SE');
+  const filtered = transactions.filter(t =>
+      (!dateFrom || localDate(t.date) >= dateFrom) &&
+      (!dateTo || localDate(t.date) <= dateTo) &&
+      (!customerFilter || t.customerId === customerFilter) &&
+      (!methodFilter || t.paymentMethod === methodFilter || getPaymentsFor(payments, t.id).some(p => p.method === methodFilter)) &&
+      (!cashierFilter || t.createdBy === cashierFilter) &&
+      (!kindFilter || t.kind === kindFilter)
+  );
+  const netTotal = getRevenueTransactions(filtered).reduce((sum, t) => sum + t.totalAmount, 0);
+
+  const handlePrint = (receipt: Receipt) => {
+      printReceipt(receipt);
+      markReceiptPrinted(receipt.id);
+  };
+
+  const handleIssueReceipt = async (tx: Transaction) => {
+      const printWindow = window.open('', '_blank', 'width=820,height=960');
+      const receipt = await issueReceipt(tx.id, 'receipt');
+      if (!receipt) {
+          printWindow?.close();
+          return;
+      }
+      printReceipt(receipt, printWindow);
+      markReceiptPrinted(receipt.id);
+  };
+
+  const handleVoidSale = async (tx: Transaction) => {
+      const reason = window.prompt('ยกเลิกรายการขายทั้งบิล (คอร์ส ค่ามือแพทย์ และเอกสารจะถูกยกเลิก วัสดุจะคืนเข้าสต็อก)\nกรุณาระบุเหตุผล:');
+      if (!reason?.trim()) return;
+      await voidTransaction(tx.id, reason.trim());
+  };
+
+  const handleVoid = (receipt: Receipt) => {
+      const reason = window.prompt(`ยกเลิกเอกสาร ${receipt.documentNumber}\nกรุณาระบุเหตุผล:`);
+      if (!reason?.trim()) return;
+      voidReceipt(receipt.id, reason.trim());
+  };
+
+  return (
+    <div className="p-4 md:p-8 w-full">
+      <h2 className="text-2xl font-bold text-gray-800 mb-6 flex items-center gap-2">
+          <ReceiptIcon className="text-rose-500" /> ประวัติการขาย (Sales History)
+      </h2>
+
+      <div className="flex flex-wrap gap-2 mb-4 items-center">
+          <input type="date" className="border border-gray-200 rounded-lg p-2 bg-white text-gray-700 text-sm" value={dateFrom} onChange={e => setDateFrom(e.target.value)} title="ตั้งแต่วันที่" />
+          <span className="text-gray-400 text-sm">ถึง</span>
+          <input type="date" className="border border-gray-200 rounded-lg p-2 bg-white text-gray-700 text-sm" value={dateTo} onChange={e => setDateTo(e.target.value)} title="ถึงวันที่" />
+          <select className="border border-gray-200 rounded-lg p-2 bg-white text-gray-700 text-sm" value={customerFilter} onChange={e => setCustomerFilter(e.target.value)}>
+              <option value="">ลูกค้าทั้งหมด</option>
+              {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <select className="border border-gray-200 rounded-lg p-2 bg-white text-gray-700 text-sm" value={methodFilter} onChange={e => setMethodFilter(e.target.value as Transaction['paymentMethod'] | '')}>
+              <option value="">ทุกช่องทางชำระ</option>
+              {(Object.keys(PAYMENT_METHOD_LABELS) as Transaction['paymentMethod'][]).map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+          </select>
+          <select className="border border-gray-200 rounded-lg p-2 bg-white text-gray-700 text-sm" value={cashierFilter} onChange={e => setCashierFilter(e.target.value)}>
+              <option value="">แคชเชียร์ทั้งหมด</option>
+              {cashiers.map(email => <option key={email} value={email}>{email}</option>)}
+          </select>
+          <select className="border border-gray-200 rounded-lg p-2 bg-white text-gray-700 text-sm" value={kindFilter} onChange={e => setKindFilter(e.target.value as TransactionKind | '')}>
+              <option value="">ขายและคืนเงิน</option>
+              <option value="sale">เฉพาะการขาย</option>
+              <option value="refund">เฉพาะการคืนเงิน</option>
+              <option value="wallet">เติมเงิน / บัตรกำนัล</option>
+          </select>
+          <span className="ml-auto text-sm text-gray-600">ยอดสุทธิ <b className="text-gray-800">฿{netTotal.toLocaleString()}</b> <span className="text-xs text-gray-400">(ไม่รวมบิลที่ยกเลิก)</span></span>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-gray-50 border-b border-gray-100 whitespace-nowrap">
+                <th className="p-4 font-medium text-gray-500">วันที่</th>
+                <th className="p-4 font-medium text-gray-500">ลูกค้า</th>
+                <th className="p-4 font-medium text-gray-500">รายการ</th>
+                <th className="p-4 font-medium text-gray-500 text-right">ยอดรวม</th>
+                <th className="p-4 font-medium text-gray-500">ชำระโดย</th>
+                <th className="p-4 font-medium text-gray-500">แคชเชียร์</th>
+                <th className="p-4 font-medium text-gray-500">เอกสาร</th>
+                <th className="p-4 font-medium text-gray-500">จัดการ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.map(tx => {
+                const docs = receipts.filter(r => r.transactionId === tx.id);
+                const hasReceipt = docs.some(r => r.type === 'receipt' && !r.voided);
+                const hasTaxInvoice = docs.some(r => r.type === 'tax_invoice' && !r.voided);
+                const isOpenSale = tx.kind === 'sale' && tx.status === 'completed';
+                const refunds = isOpenSale ? getRefunds(transactions, tx.id) : [];
+                const original = tx.refundOfId ? transactions.find(t => t.id === tx.refundOfId) : undefined;
+                const taken = tracksBalance(tx) ? getPaymentsFor(payments, tx.id) : [];
+                const balance = isOpenSale ? getBalanceDue(tx, transactions, payments) : 0;
+                return (
+                  <tr key={tx.id} className={`border-b border-gray-50 hover:bg-gray-50 transition align-top ${tx.status === 'voided' ? 'opacity-60' : ''}`}>
+                    <td className="p-4 text-sm text-gray-700 whitespace-nowrap">
+                        {new Date(tx.date).toLocaleString('th-TH', { dateStyle: 'short', timeStyle: 'short' })}
+                        {tx.kind === 'refund' && <span className="block mt-1 w-fit px-2 py-0.5 rounded-full text-xs bg-amber-50 text-amber-700 border border-amber-200">คืนเงิน</span>}
+                        {tx.kind === 'wallet' && <span className="block mt-1 w-fit px-2 py-0.5 rounded-full text-xs bg-violet-50 text-violet-700 border border-violet-200">เติมเงิน / บัตรกำนัล</span>}
+                        {tx.status === 'voided' && <span className="block mt-1 w-fit px-2 py-0.5 rounded-full text-xs bg-red-50 text-red-600 border border-red-200">ยกเลิกบิล</span>}
+                    </td>
+                    <td className="p-4 font-medium text-gray-900 whitespace-nowrap">{customers.find(c => c.id === tx.customerId)?.name || '-'}</td>
+                    <td className="p-4 text-sm text-gray-600">
+                        {(tx.items || []).map((item, i) => <p key={i}>{item.name} x{item.quantity}</p>)}
+                        {tx.discountAmount ? <p className="text-xs text-rose-600 mt-1">ส่วนลด ฿{tx.discountAmount.toLocaleString()}{tx.promotionName ? ` · ${tx.promotionName}${tx.couponCode ? ` (${tx.couponCode})` : ''}` : ''}{tx.discountApprovedBy ? ` · อนุมัติโดย ${tx.discountApprovedBy}` : ''}</p> : null}
+                        {original && <p className="text-xs text-gray-400 mt-1">คืนจากบิลวันที่ {new Date(original.date).toLocaleString('th-TH', { dateStyle: 'short', timeStyle: 'short' })}</p>}
+                        {tx.reason && <p className="text-xs text-amber-600 mt-1">เหตุผล: {tx.reason}</p>}
+                        {tx.status === 'voided' && <p className="text-xs text-red-500 mt-1">ยกเลิกโดย {tx.voidedBy || '-'}{tx.voidReason ? ` · ${tx.voidReason}` : ''}</p>}
+                        {refunds.length > 0 && <p className="text-xs text-amber-600 mt-1">คืนเงินแล้ว ฿{(-refunds.reduce((sum, r) => sum + r.totalAmount, 0)).toLocaleString()}</p>}
+                    </td>
+                    <td className={`p-4 text-right font-bold whitespace-nowrap ${tx.status === 'voided' ? 'text-gray-400 line-through' : tx.totalAmount < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                        {tx.totalAmount < 0 ? '-' : ''}฿{Math.abs(tx.totalAmount).toLocaleString()}
+                    </td>
+                    <td className="p-4 text-sm text-gray-600 whitespace-nowrap">
+                        {taken.length > 1 || balance > 0
+                            ? taken.map(p => <p key={p.id}>{PAYMENT_METHOD_LABELS[p.method]} ฿{p.amount.toLocaleString()}</p>)
+                            : PAYMENT_METHOD_LABELS[tx.paymentMethod] || tx.paymentMethod}
+                        {balance > 0 && (
+                            <span className={`block mt-1 w-fit px-2 py-0.5 rounded-full text-xs border ${getOverdueAmount(tx, transactions, payments) > 0 ? 'bg-red-50 text-red-600 border-red-200' : 'bg-amber-50 text-amber-700 border-amber-200'}`}>
+                                ค้างชำระ ฿{balance.toLocaleString()}
+                            </span>
+                        )}
+                    </td>
+                    <td className="p-4 text-sm text-gray-600 whitespace-nowrap">{tx.createdBy || '-'}</td>
+                    <td className="p-4 text-sm">
+                        <div className="space-y-1">
+                            {docs.map(doc => (
+                                <div key={doc.id} className={`flex items-center gap-2 whitespace-nowrap ${doc.voided ? 'text-gray-400' : 'text-gray-700'}`}>
+                                    <span className={`font-mono ${doc.voided ? 'line-through' : ''}`}>{doc.documentNumber}</span>
+                                    <span className="text-xs text-gray-400">{RECEIPT_TYPE_LABELS[doc.type]}</span>
+                                    {doc.voided && <span className="text-xs text-red-500" title={doc.voidReason || ''}>ยกเลิก</span>}
+                                    <button onClick={() => handlePrint(doc)} className="p-1 hover:bg-gray-100 text-gray-600 rounded" title={doc.printCount > 0 ? 'พิมพ์สำเนา' : 'พิมพ์'}>
+                                        <Printer size={14} />
+                                    </button>
+                                    {!doc.voided && can('sales.void') && (
+                                        <button onClick={() => handleVoid(doc)} className="p-1 hover:bg-red-100 text-red-500 rounded" title="ยกเลิกเอกสาร">
+                                            <Ban size={14} />
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                            {docs.length === 0 && <span className="text-xs text-gray-400">{isOpenSale ? 'ยังไม่ออกเอกสาร' : '-'}</span>}
+                        </div>
+                    </td>
+                    <td className="p-4">
+                        <div className="flex gap-2">
+                            {balance > 0 && can('pos.sell') && (
+                                <button onClick={() => setCollectFor(tx)} className="p-1 hover:bg-emerald-100 text-emerald-600 rounded" title="รับชำระยอดค้าง">
+                                    <Wallet size={18} />
+                                </button>
+                            )}
+                            {isOpenSale && !hasReceipt && (
+                                <button onClick={() => handleIssueReceipt(tx)} className="p-1 hover:bg-gray-100 text-gray-700 rounded" title="ออกใบเสร็จ">
+                                    <FilePlus size={18} />
+                                </button>
+                            )}
+                            {isOpenSale && !hasTaxInvoice && (
+                                <button onClick={() => setTaxInvoiceFor(tx)} className="p-1 hover:bg-rose-100 text-rose-600 rounded" title="ออกใบกำกับภาษีเต็มรูป">
+                                    <FileText size={18} />
+                                </button>
+                            )}
+                            {isOpenSale && can('sales.void') && getRefundableAmount(tx, refunds) > 0 && (
+                                <button onClick={() => setRefundFor(tx)} className="p-1 hover:bg-amber-100 text-amber-600 rounded" title="คืนเงิน / คืนบางส่วน">
+                                    <RotateCcw size={18} />
+                                </button>
+                            )}
+                            {isOpenSale && can('sales.void') && refunds.length === 0 && (
+                                <button onClick={() => handleVoidSale(tx)} className="p-1 hover:bg-red-100 text-red-500 rounded" title="ยกเลิกบิล">
+                                    <XCircle size={18} />
+                                </button>
+                            )}
+                        </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              {filtered.length === 0 && (
+                  <tr>
+                      <td colSpan={8} className="p-8 text-center text-gray-400">ยังไม่มีรายการขาย</td>
+                  </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {taxInvoiceFor && (
+        <TaxInvoiceModal
+            transactionId={taxInvoiceFor.id}
+            customerId={taxInvoiceFor.customerId}
+            onClose={() => setTaxInvoiceFor(null)}
+        />
+      )}
+
+      {refundFor && <RefundModal transaction={refundFor} onClose={() => setRefundFor(null)} />}
+      {collectFor && <CollectPaymentModal transaction={collectFor} onClose={() => setCollectFor(null)} />}
+    </div>
+  );
+};
+
+export default TransactionsPage;
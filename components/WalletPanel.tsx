@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { Wallet, Plus, Gift } from 'lucide-react';
+import { useClinic } from '../context/ClinicContext';
+import { usePermission } from '../context/AuthContext';
+import { PaymentMethod, WalletEntry } from '../types';
+import { PAYMENT_METHOD_LABELS } from '../lib/receipts';
+import { addDays, toISODate } from '../lib/schedule';
+import { EXPIRY_NOTICE_DAYS, FUNDING_METHODS, getExpiringCredit, getForfeitedCredit, WALLET_ENTRY_LABELS } from '../lib/wallet';
+
+interface WalletPanelProps {
+  customerId: string;
+}
+
+// Balance, ledger, top-up and voucher redemption on the customer profile
+const WalletPanel: React.FC<WalletPanelProps> = ({ customerId }) => {
+  const { walletEntries, getCustomerWalletBalance, loadWalletLedger, topUpWallet, redeemGiftVoucher } = useClinic();
+  const { can } = usePermission();
+  // The customer's full ledger, reloaded whenever the shared data refreshes
+  const [ledger, setLedger] = useState<WalletEntry[]>([]);
+  useEffect(() => {
+      let cancelled = false;
+      loadWalletLedger(customerId).then(result => { if (!cancelled) setLedger(result); });
+      return () => { cancelled = true; };
+  }, [customerId, walletEntries]);
+  const entries = [...ledger].reverse();
+  const balance = getCustomerWalletBalance(customerId);
+  const expiring = getExpiringCredit(ledger, customerId);
+  const forfeited = getForfeitedCredit(ledger, customerId);
+  const today = toISODate(new Date());
+
+  const [isTopUpOpen, setIsTopUpOpen] = useState(false);
+  const [isRedeemOpen, setIsRedeemOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [voucherCode, setVoucherCode] = useState('');
+  const [topUpForm, setTopUpForm] = useState({
+      amount: 0,
+      bonus: 0,
+      method: 'Cash' as PaymentMethod,
+      expiresAt: '',
+      bonusExpiresAt: addDays(today, 180),
+      note: ''
+  });
+
+  const handleTopUp = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsSaving(true);
+      const ok = await topUpWallet(customerId, {
+          amount: topUpForm.amount,
+          bonus: topUpForm.bonus,
+          method: topUpForm.method,
+          expiresAt: topUpForm.expiresAt || null,
+          bonusExpiresAt: topUpForm.bonusExpiresAt || null,
+          note: topUpForm.note.trim() || undefined
+      });
+      setIsSaving(false);
+      if (ok) {
+          setIsTopUpOpen(false);
+          setTopUpForm({ ...topUpForm, amount: 0, bonus: 0, note: '' });
+      }
+  };
+
+  const handleRedeem = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsSaving(true);
+      const ok = await redeemGiftVoucher(voucherCode, customerId);
+      setIsSaving(false);
+      if (ok) {
+          setIsRedeemOpen(false);
+          setVoucherCode('');
+      }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-gray-200">
+        <h3 className="font-bold text-gray-800 mb-1 flex items-center gap-2"><Wallet size={18} className="text-amber-500" /> วอลเล็ท / เครดิตคงเหลือ</h3>
+        <p className="text-2xl font-bold text-gray-900">฿{balance.toLocaleString()}</p>
+        {expiring > 0 && <p className="text-xs text-amber-600">฿{expiring.toLocaleString()} จะหมดอายุภายใน {EXPIRY_NOTICE_DAYS} วัน</p>}
+        {forfeited > 0 && <p className="text-xs text-gray-400">หมดอายุไปแล้ว ฿{forfeited.toLocaleString()}</p>}
+
+        {can('pos.sell') && (
+            <div className="flex gap-2 mt-4">
+                <button onClick={() => setIsTopUpOpen(true)} className="flex-1 text-sm px-3 py-2 rounded-lg bg-amber-50 text-amber-700 hover:bg-amber-100 flex items-center justify-center gap-1"><Plus size={14} /> เติมเงิน</button>
+                <button onClick={() => setIsRedeemOpen(true)} className="flex-1 text-sm px-3 py-2 rounded-lg bg-rose-50 text-rose-700 hover:bg-rose-100 flex items-center justify-center gap-1"><Gift size={14} /> แลกบัตรกำนัล</button>
+            </div>
+        )}
+
+        <div className="mt-4 space-y-2 max-h-64 overflow-y-auto">
+            {entries.map(entry => (
+                <div key={entry.id} className="flex justify-between text-sm border-b border-gray-50 pb-2">
+                    <div>
+                        <p className="text-gray-700">{WALLET_ENTRY_LABELS[entry.type]}{entry.method ? ` (${PAYMENT_METHOD_LABELS[entry.method]})` : ''}</p>
+                        <p className="text-xs text-gray-400">
+                            {new Date(entry.date).toLocaleDateString('th-TH')}
+                            {entry.expiresAt && ` · หมดอายุ ${new Date(entry.expiresAt).toLocaleDateString('th-TH')}`}
+                            {entry.note && ` · ${entry.note}`}
+                        </p>
+                    </div>
+                    <span className={`font-medium whitespace-nowrap ${entry.amount < 0 ? 'text-red-500' : 'text-emerald-600'}`}>
+                        {entry.amount < 0 ? '-' : '+'}฿{Math.abs(entry.amount).toLocaleString()}
+                    </span>
+                </div>
+            ))}
+            {entries.length === 0 && <p className="text-sm text-gray-400">ยังไม่มีรายการ</p>}
+        </div>
+
+        {isTopUpOpen && (
+            <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                <div className="bg-white p-6 md:p-8 rounded-2xl w-full max-w-md shadow-2xl">
+                    <h3 className="text-xl font-bold mb-6 text-gray-800 flex items-center gap-2"><Wallet className="text-amber-500" /> เติมเงินเข้าวอลเล็ท</h3>
+                    <form onSubmit={handleTopUp} className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">ยอดเติม (บาท)</label>
+                                <input type="number" min="0" step="0.01" required className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={topUpForm.amount || ''} onChange={e => setTopUpForm({ ...topUpForm, amount: Math.max(0, parseFloat(e.target.value) || 0) })} />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">ชำระโดย</label>
+                                <select className="w-full border border-gray-300 rounded-lg p-2 bg-white text-gray-900" value={topUpForm.method} onChange={e => setTopUpForm({ ...topUpForm, method: e.target.value as PaymentMethod })}>
+                                    {FUNDING_METHODS.map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">หมดอายุ (เว้นว่าง = ไม่หมดอายุ)</label>
+                                <input type="date" min={today} className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={topUpForm.expiresAt} onChange={e => setTopUpForm({ ...topUpForm, expiresAt: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">เครดิตโบนัส (บาท)</label>
+                                <input type="number" min="0" step="0.01" className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={topUpForm.bonus || ''} onChange={e => setTopUpForm({ ...topUpForm, bonus: Math.max(0, parseFloat(e.target.value) || 0) })} />
+                            </div>
+                            {topUpForm.bonus > 0 && (
+                                <div className="col-span-2">
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">โบนัสหมดอายุ</label>
+                                    <input type="date" min={today} className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={topUpForm.bonusExpiresAt} onChange={e => setTopUpForm({ ...topUpForm, bonusExpiresAt: e.target.value })} />
+                                </div>
+                            )}
+                            <div className="col-span-2">
+                                <label className="block text-sm font-medium text-gray-700 mb-1">หมายเหตุ</label>
+                                <input className="w-full border border-gray-300 rounded-lg p-2 text-gray-900" value={topUpForm.note} onChange={e => setTopUpForm({ ...topUpForm, note: e.target.value })} />
+                            </div>
+                        </div>
+                        <div className="flex justify-between items-center p-3 bg-amber-50 rounded-xl">
+                            <span className="text-gray-700">เครดิตที่ได้รับ</span>
+                            <span className="text-xl font-bold text-amber-700">฿{(topUpForm.amount + topUpForm.bonus).toLocaleString()}</span>
+                        </div>
+                        <div className="flex gap-3 mt-6">
+                            <button type="button" onClick={() => setIsTopUpOpen(false)} className="flex-1 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">ยกเลิก</button>
+                            <button type="submit" disabled={isSaving || topUpForm.amount <= 0} className="flex-1 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 disabled:bg-gray-300">{isSaving ? 'กำลังบันทึก...' : 'ยืนยันเติมเงิน'}</button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        )}
+
+        {isRedeemOpen && (
+            <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                <div className="bg-white p-6 rounded-2xl w-full max-w-sm shadow-2xl">
+                    <h3 className="text-lg font-bold mb-4 text-gray-800 flex items-center gap-2"><Gift className="text-rose-500" /> แลกบัตรกำนัลเข้าวอลเล็ท</h3>
+                    <form onSubmit={handleRedeem} className="space-y-4">
+                        <input
+                          autoFocus
+                          required
+                          placeholder="GV-XXXX-XXXX"
+                          className="w-full border border-gray-300 rounded-lg p-2 text-gray-900 font-mono uppercase"
+                          value={voucherCode}
+                          onChange={e => setVoucherCode(e.target.value)}
+                        />
+                        <div className="flex gap-3">
+                            <button type="button" onClick={() => setIsRedeemOpen(false)} className="flex-1 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">ยกเลิก</button>
+                            <button type="submit" disabled={isSaving || !voucherCode.trim()} className="flex-1 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 disabled:bg-gray-300">{isSaving ? 'กำลังตรวจสอบ...' : 'แลกบัตร'}</button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default WalletPanel;
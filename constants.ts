@@ -1,12 +1,12 @@
 import { Customer, Service, Appointment, Status, InventoryItem, CourseDefinition } from './types';
 
 export const INITIAL_INVENTORY: InventoryItem[] = [
-  { id: 'inv1', name: 'Syringe 3ml', quantity: 500, unit: 'ชิ้น', minLevel: 100, pricePerUnit: 5 },
-  { id: 'inv2', name: 'Botox Allergan 100u', quantity: 10, unit: 'vial', minLevel: 5, pricePerUnit: 4000 },
-  { id: 'inv3', name: 'Vitamin C Ampoule', quantity: 200, unit: 'ampoule', minLevel: 50, pricePerUnit: 20 },
-  { id: 'inv4', name: 'Sterile Gloves (M)', quantity: 1000, unit: 'คู่', minLevel: 200, pricePerUnit: 10 },
-  { id: 'inv5', name: 'Gauze Pads', quantity: 50, unit: 'pack', minLevel: 10, pricePerUnit: 30 },
-  { id: 'inv6', name: 'Meso Fat Solution', quantity: 50, unit: 'vial', minLevel: 10, pricePerUnit: 500 },
+  { id: 'inv1', name: 'Syringe 3ml', quantity: 500, unit: 'ชิ้น', minLevel: 100, pricePerUnit: 5, lots: [] },
+  { id: 'inv2', name: 'Botox Allergan 100u', quantity: 10, unit: 'vial', minLevel: 5, pricePerUnit: 4000, lots: [] },
+  { id: 'inv3', name: 'Vitamin C Ampoule', quantity: 200, unit: 'ampoule', minLevel: 50, pricePerUnit: 20, lots: [] },
+  { id: 'inv4', name: 'Sterile Gloves (M)', quantity: 1000, unit: 'คู่', minLevel: 200, pricePerUnit: 10, lots: [] },
+  { id: 'inv5', name: 'Gauze Pads', quantity: 50, unit: 'pack', minLevel: 10, pricePerUnit: 30, lots: [] },
+  { id: 'inv6', name: 'Meso Fat Solution', quantity: 50, unit: 'vial', minLevel: 10, pricePerUnit: 500, lots: [] },
 ];
 
 export const INITIAL_SERVICES: Service[] = [
@@ -103,7 +103,7 @@ export const INITIAL_CUSTOMERS: Customer[] = [
 ];
 
 export const INITIAL_APPOINTMENTS: Appointment[] = [
-  { id: 'a1', customerId: 'c1', serviceId: 's2', date: new Date().toISOString().split('T')[0], time: '10:00', status: Status.CONFIRMED, doctorName: 'หมอฟ้า' },
-  { id: 'a2', customerId: 'c2', serviceId: 's3', date: new Date().toISOString().split('T')[0], time: '11:30', status: Status.PENDING, doctorName: 'หมอเอก' },
-  { id: 'a3', customerId: 'c3', serviceId: 's1', date: new Date().toISOString().split('T')[0], time: '14:00', status: Status.CONFIRMED, doctorName: 'หมอฟ้า' },
+  { id: 'a1', customerId: 'c1', serviceId: 's2', date: new Date().toISOString().split('T')[0], time: '10:00', status: Status.CONFIRMED, doctorName: 'หมอฟ้า', statusHistory: [] },
+  { id: 'a2', customerId: 'c2', serviceId: 's3', date: new Date().toISOString().split('T')[0], time: '11:30', status: Status.PENDING, doctorName: 'หมอเอก', statusHistory: [] },
+  { id: 'a3', customerId: 'c3', serviceId: 's1', date: new Date().toISOString().split('T')[0], time: '14:00', status: Status.CONFIRMED, doctorName: 'หมอฟ้า', statusHistory: [] },
 ];
\ No newline at end of file
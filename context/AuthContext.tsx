@@ -1,12 +1,17 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { supabase } from '../lib/supabaseClient';
+import { createIsolatedClient, supabase } from '../lib/supabaseClient';
 import { Session, User } from '@supabase/supabase-js';
+import { UserRole } from '../types';
+import { hasPermission, Permission } from '../lib/permissions';
 
 interface AuthContextType {
   session: Session | null;
   user: User | null;
+  role: UserRole | null;
+  roleError: string | null; // Role could not be loaded; the user gets no access until it can
   loading: boolean;
   signOut: () => Promise<void>;
+  verifyApprover: (email: string, password: string, permission: Permission) => Promise<string | null>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -14,6 +19,8 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<UserRole | null>(null);
+  const [roleError, setRoleError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -34,12 +41,65 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => subscription.unsubscribe();
   }, []);
 
+  useEffect(() => {
+    setRoleError(null);
+    if (user) {
+      loadRole(user);
+    } else {
+      setRole(null);
+    }
+  }, [user?.id]);
+
+  const loadRole = async (currentUser: User) => {
+    const { data, error } = await supabase.from('user_roles').select('role').eq('user_id', currentUser.id).maybeSingle();
+    if (error) {
+      // Fail closed: a lookup error must never grant access
+      console.error("Role lookup error:", error);
+      setRole(null);
+      setRoleError(error.message);
+      return;
+    }
+    if (data) {
+      setRole(data.role);
+      return;
+    }
+
+    // First account to sign in becomes admin; later sign-ups start with the least access until an admin assigns a role.
+    // Decided in the database under a table lock so two first sign-ins can't both become admin.
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_user_role');
+    if (claimError || !claimed) {
+      console.error("Role assignment error:", claimError);
+      setRole(null);
+      setRoleError(claimError?.message || 'No role assigned');
+      return;
+    }
+    setRole(claimed as UserRole);
+  };
+
   const signOut = async () => {
     await supabase.auth.signOut();
   };
 
+  // Checks another user's credentials for an on-the-spot approval; returns their email when they hold the permission
+  const verifyApprover = async (email: string, password: string, permission: Permission) => {
+    const client = createIsolatedClient();
+    const { data, error } = await client.auth.signInWithPassword({ email, password });
+    if (error || !data.user) {
+      alert('อีเมลหรือรหัสผ่านผู้อนุมัติไม่ถูกต้อง');
+      return null;
+    }
+    const { data: roleRow } = await client.from('user_roles').select('role').eq('user_id', data.user.id).maybeSingle();
+    // Local scope so the approver stays signed in on their own device
+    await client.auth.signOut({ scope: 'local' });
+    if (!hasPermission(roleRow?.role ?? null, permission)) {
+      alert('ผู้ใช้นี้ไม่มีสิทธิ์อนุมัติรายการนี้');
+      return null;
+    }
+    return data.user.email || email;
+  };
+
   return (
-    <AuthContext.Provider value={{ session, user, loading, signOut }}>
+    <AuthContext.Provider value={{ session, user, role, roleError, loading: loading || (!!user && !role && !roleError), signOut, verifyApprover }}>
       {children}
     </AuthContext.Provider>
   );
@@ -51,4 +111,12 @@ export const useAuth = () => {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-};
\ No newline at end of file
+};
+
+export const usePermission = () => {
+  const { role } = useAuth();
+  return {
+    role,
+    can: (permission: Permission) => hasPermission(role, permission)
+  };
+};
@@ -1,7 +1,230 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { Customer, Service, Appointment, Status, InventoryItem, CourseDefinition, Transaction, TreatmentRecord, CustomerCourse } from '../types';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { Customer, Service, Appointment, Status, InventoryItem, CourseDefinition, Transaction, TransactionKind, TreatmentRecord, CustomerCourse, Consumable, StockMovement, StockMovementType, InventoryLot, LotUsage, Supplier, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, PurchaseOrderReceipt, CommissionRule, DoctorFee, Staff, UserAccount, UserRole, Holiday, AppointmentStatusChange, NotificationMessage, ClinicProfile, Receipt, ReceiptType, CustomerTaxInfo, Discount, Promotion, Payment, PaymentLine, PaymentMethod, Installment, WalletEntry, GiftVoucher, CourseExtension, CourseAdjustment, TreatmentPhoto, PhotoUpload, ClinicalChart, ContraindicationHit, ContraindicationOverride, SafetyCheckContext, ConsentTemplate, SignedConsent, CustomerMerge } from '../types';
 import { supabase } from '../lib/supabaseClient';
+import { allocateFefo, getUsableQuantity } from '../lib/inventory';
+import { calculateCommission, findCommissionRule } from '../lib/commission';
+import { getStaffName } from '../lib/staff';
+import { addDays, BOOKED_STATUSES, daysBetween, DEFAULT_DURATION_MINUTES, findConflicts, getSeriesAppointments, toISODate } from '../lib/schedule';
 import { useAuth } from './AuthContext';
+import { hasPermission, Permission } from '../lib/permissions';
+import { calculateVat, DEFAULT_CLINIC_PROFILE, documentNumberPrefix } from '../lib/receipts';
+import { getRefundableAmount, getRefundedLines, getRefunds, lineKey } from '../lib/sales';
+import { isPromotionRunning, needsDiscountApproval, priceCart } from '../lib/pricing';
+import { getBalanceDue, getInstallmentStatus, getPaymentsFor, getReceivables, getRefundPayout, primaryMethod, tracksBalance } from '../lib/receivables';
+import { bundleTotalUnits, canUseCourse, courseSessionPrice, entitlementConsumables, expiryAtSale, expiryOnFirstUse, findCourseOwner, instanceEntitlements, isBundle, isCourseExpired, pickEntitlement, quoteConversion, removeEntitlementUnits } from '../lib/courses';
+import { courseSources, findContraindications, MEDICAL_FLAG_LABELS, serviceSources } from '../lib/medical';
+import { isChartEmpty } from '../lib/charting';
+import { CONSENT_BUCKET, CONSENT_GAP_LABELS, ConsentGap, consentPdfPath, currentConsentIds, fillConsentTemplate, findConsentGaps, renderConsentPdf } from '../lib/consent';
+import { formatPhone, mergedProfile } from '../lib/customers';
+import { makeThumbnail, PHOTO_BUCKET, photoPaths, resizeImage, SIGNED_URL_SECONDS } from '../lib/photos';
+import { getWalletReturns, normalizeVoucherCode, generateVoucherCode, getVoucherStatus } from '../lib/wallet';
+import { appointmentDedupeKey, CLAIM_TIMEOUT_MINUTES, collectDueNotifications, getTransport, isAppointmentReminder, isPaymentReminder, MAX_ATTEMPTS, nextRetryAt, paymentDedupeKey } from '../lib/notifications';
+
+export type SaleItem = { type: 'service' | 'course'; id: string; name?: string; price: number; quantity: number; staffId?: string; discount?: Discount };
+
+export interface SaleOptions {
+  billDiscount?: Discount;
+  promotionId?: string; // Automatic promotion or the coupon's promotion
+  couponCode?: string;
+  approvedBy?: string; // Manager who approved a discount above the limit
+  payments?: PaymentLine[]; // Taken at the counter; defaults to the whole total in paymentMethod
+  installments?: Installment[]; // Required when the payments fall short of the total
+  safetyNote?: string; // Staff's reason for going ahead despite contraindications
+}
+
+export interface CourseUseOptions {
+  entitlementId?: string; // Bundles only: the line being cut
+  photos?: PhotoUpload[]; // Uploaded after the treatment is saved
+  doctorFeeOverride?: number; // Replaces the fee from the commission rules
+  bookedServiceId?: string; // Service booked for the visit; its contraindications are checked with the course's
+  safetyNote?: string; // Staff's reason for going ahead despite contraindications
+}
+
+// One refunded line: visits for a service, units of a specific course instance for a course
+export interface RefundLine {
+  type: 'service' | 'course';
+  id: string;
+  name: string;
+  quantity: number;
+  amount: number; // Positive amount paid back for this line
+  customerCourseId?: string;
+  staffId?: string;
+}
+
+export interface WalletTopUp {
+  amount: number; // Paid by the customer
+  bonus: number; // Extra credit given on top
+  method: PaymentMethod;
+  expiresAt: string | null;
+  bonusExpiresAt: string | null;
+  note?: string;
+}
+
+export type VoucherSale = Pick<GiftVoucher, 'amount' | 'expiresAt' | 'soldMethod' | 'buyerName' | 'buyerCustomerId' | 'note'>;
+
+export interface SaleResult {
+  transactionId: string;
+  receipt: Receipt | null; // null when numbering failed; it can be issued again from the sales history
+}
+
+const toReceipt = (r: any): Receipt => ({
+  id: r.id,
+  transactionId: r.transaction_id,
+  type: r.doc_type,
+  documentNumber: r.document_number,
+  branchCode: r.branch_code,
+  year: r.year,
+  issuedAt: r.issued_at,
+  clinic: { ...DEFAULT_CLINIC_PROFILE, ...(r.clinic || {}) },
+  customerName: r.customer_name || '',
+  customerTax: r.customer_tax || undefined,
+  items: r.items || [],
+  subtotal: Number(r.subtotal) || 0,
+  vatRate: Number(r.vat_rate) || 0,
+  vatAmount: Number(r.vat_amount) || 0,
+  total: Number(r.total) || 0,
+  paymentMethod: r.payment_method,
+  payments: r.payments || undefined,
+  balanceDue: r.balance_due != null ? Number(r.balance_due) : undefined,
+  voided: !!r.voided,
+  voidedAt: r.voided_at,
+  voidReason: r.void_reason,
+  printCount: r.print_count || 0
+});
+
+const toTransaction = (t: any): Transaction => ({
+  id: t.id,
+  date: t.created_at,
+  customerId: t.customer_id,
+  items: t.items || [],
+  totalAmount: Number(t.total_amount) || 0,
+  paymentMethod: t.payment_method,
+  installments: t.installments || undefined,
+  subtotal: t.subtotal != null ? Number(t.subtotal) : undefined,
+  discountAmount: t.discount_amount != null ? Number(t.discount_amount) : undefined,
+  promotionDiscount: t.promotion_discount != null ? Number(t.promotion_discount) : undefined,
+  promotionId: t.promotion_id || undefined,
+  promotionName: t.promotion_name || undefined,
+  couponCode: t.coupon_code || undefined,
+  discountApprovedBy: t.discount_approved_by || undefined,
+  kind: t.kind || 'sale',
+  status: t.status || 'completed',
+  refundOfId: t.refund_of || undefined,
+  reason: t.reason || undefined,
+  createdBy: t.created_by || undefined,
+  voidReason: t.void_reason || undefined,
+  voidedAt: t.voided_at || undefined,
+  voidedBy: t.voided_by || undefined,
+  refundVersion: t.refund_version || 0
+});
+
+const toWalletEntry = (w: any): WalletEntry => ({
+  id: w.id,
+  date: w.created_at,
+  customerId: w.customer_id,
+  type: w.type,
+  amount: Number(w.amount) || 0,
+  expiresAt: w.expires_at,
+  method: w.method || undefined,
+  transactionId: w.transaction_id || undefined,
+  voucherId: w.voucher_id || undefined,
+  note: w.note || undefined,
+  createdBy: w.created_by || undefined
+});
+
+const toTreatmentPhoto = (p: any): TreatmentPhoto => ({
+  id: p.id,
+  treatmentRecordId: p.treatment_record_id,
+  customerId: p.customer_id,
+  kind: p.kind,
+  path: p.path,
+  thumbnailPath: p.thumbnail_path,
+  takenAt: p.created_at,
+  marketingConsent: !!p.marketing_consent,
+  uploadedBy: p.uploaded_by || undefined
+});
+
+const toContraindicationOverride = (o: any): ContraindicationOverride => ({
+  id: o.id,
+  date: o.created_at,
+  customerId: o.customer_id,
+  context: o.context,
+  itemName: o.item_name || '',
+  hits: o.hits || [],
+  note: o.note || '',
+  acknowledgedBy: o.acknowledged_by || undefined,
+  referenceType: o.reference_type || undefined,
+  referenceId: o.reference_id || undefined
+});
+
+const toCustomerMerge = (m: any): CustomerMerge => ({
+  id: m.id,
+  date: m.created_at,
+  survivorId: m.survivor_id,
+  mergedId: m.merged_id,
+  mergedName: m.merged_name || '',
+  mergedPhone: m.merged_phone || '',
+  moved: m.moved || {},
+  note: m.note || '',
+  mergedBy: m.merged_by || undefined
+});
+
+const toConsentTemplate = (t: any): ConsentTemplate => ({
+  id: t.id,
+  name: t.name,
+  body: t.body || '',
+  serviceIds: t.service_ids || [],
+  categories: t.categories || [],
+  courseIds: t.course_ids || [],
+  version: t.version || 1,
+  validMonths: t.valid_months,
+  active: t.active !== false,
+  updatedAt: t.updated_at || undefined
+});
+
+const toSignedConsent = (c: any): SignedConsent => ({
+  id: c.id,
+  templateId: c.template_id,
+  templateVersion: c.template_version,
+  templateName: c.template_name || '',
+  customerId: c.customer_id,
+  procedure: c.procedure || '',
+  signedAt: c.created_at,
+  pdfPath: c.pdf_path,
+  appointmentId: c.appointment_id || undefined,
+  witnessedBy: c.witnessed_by || undefined
+});
+
+const toGiftVoucher = (v: any): GiftVoucher => ({
+  id: v.id,
+  code: v.code,
+  amount: Number(v.amount) || 0,
+  expiresAt: v.expires_at,
+  soldAt: v.created_at,
+  soldMethod: v.sold_method,
+  soldBy: v.sold_by || undefined,
+  buyerName: v.buyer_name || undefined,
+  buyerCustomerId: v.buyer_customer_id || undefined,
+  redeemedBy: v.redeemed_by || undefined,
+  redeemedAt: v.redeemed_at || undefined,
+  transactionId: v.transaction_id || undefined,
+  voided: !!v.voided,
+  voidReason: v.void_reason || undefined,
+  note: v.note || undefined
+});
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// How often an open browser drafts and sends due reminders
+const OUTBOX_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface StockShortage {
+  inventoryItemId: string;
+  name: string;
+  unit: string;
+  required: number;
+  available: number;
+}
 
 interface ClinicContextType {
   customers: Customer[];
@@ -10,18 +233,49 @@ interface ClinicContextType {
   inventory: InventoryItem[];
   courseDefinitions: CourseDefinition[];
   transactions: Transaction[];
+  stockMovements: StockMovement[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  commissionRules: CommissionRule[];
+  doctorFees: DoctorFee[];
+  staff: Staff[];
+  userAccounts: UserAccount[];
+  holidays: Holiday[];
+  notifications: NotificationMessage[];
+  receipts: Receipt[];
+  clinicProfile: ClinicProfile;
+  promotions: Promotion[];
+  payments: Payment[];
+  walletEntries: WalletEntry[];
+  walletBalances: Record<string, number>; // Per customer, worked out in the database
+  giftVouchers: GiftVoucher[];
+  courseExtensions: CourseExtension[];
+  courseAdjustments: CourseAdjustment[];
+  contraindicationOverrides: ContraindicationOverride[];
+  consentTemplates: ConsentTemplate[];
+  signedConsents: SignedConsent[];
+  customerMerges: CustomerMerge[];
   isLoadingData: boolean;
   dbConnectionError: string | null;
   
   // Appointments
-  addAppointment: (apt: Omit<Appointment, 'id'>) => Promise<void>;
-  updateAppointmentStatus: (id: string, status: Status) => Promise<void>;
+  addAppointment: (apt: Omit<Appointment, 'id'>, safetyNote?: string) => Promise<boolean>;
+  updateAppointment: (id: string, data: Partial<Appointment>) => Promise<boolean>;
+  addAppointmentSeries: (occurrences: Omit<Appointment, 'id' | 'seriesId' | 'seriesIndex'>[], safetyNote?: string) => Promise<boolean>;
+  updateAppointmentSeries: (id: string, data: Partial<Pick<Appointment, 'date' | 'time' | 'staffId' | 'room'>>) => Promise<boolean>;
+  cancelAppointmentSeries: (id: string) => Promise<void>;
+  updateAppointmentStatus: (id: string, status: Status, note?: string) => Promise<void>;
+  completeAppointment: (id: string, customerCourseId: string, entitlementId?: string, safetyNote?: string) => Promise<void>;
   deleteAppointment: (id: string) => Promise<void>;
+  getAppointmentConflicts: (apt: Pick<Appointment, 'date' | 'time' | 'serviceId' | 'staffId' | 'room'>, excludeId?: string) => string[];
+  addHoliday: (holiday: Omit<Holiday, 'id'>) => Promise<void>;
+  deleteHoliday: (id: string) => Promise<void>;
 
   // Customers
   addCustomer: (customer: Omit<Customer, 'id' | 'history' | 'treatmentHistory' | 'activeCourses'>) => Promise<any>;
   updateCustomer: (id: string, data: Partial<Customer>) => Promise<void>;
   deleteCustomer: (id: string) => Promise<void>;
+  mergeCustomers: (survivorId: string, duplicateId: string, note: string) => Promise<boolean>;
 
   // Services
   addService: (service: Omit<Service, 'id'>) => Promise<void>;
@@ -29,19 +283,88 @@ interface ClinicContextType {
   deleteService: (id: string) => Promise<void>;
 
   // Inventory
-  updateStock: (id: string, quantityChange: number) => Promise<void>;
-  addInventoryItem: (item: Omit<InventoryItem, 'id'>) => Promise<void>;
+  updateStock: (id: string, quantityChange: number, type?: StockMovementType, reason?: string, lotId?: string) => Promise<void>;
+  receiveStock: (id: string, quantity: number, lot: { lotNumber: string; expiryDate: string | null; receivedDate: string }, reason?: string) => Promise<void>;
+  addInventoryItem: (item: Omit<InventoryItem, 'id' | 'lots'>) => Promise<void>;
   updateInventoryItem: (id: string, data: Partial<InventoryItem>) => Promise<void>;
   deleteInventoryItem: (id: string) => Promise<void>;
   
+  // Purchasing
+  addSupplier: (supplier: Omit<Supplier, 'id'>) => Promise<void>;
+  updateSupplier: (id: string, data: Partial<Supplier>) => Promise<void>;
+  deleteSupplier: (id: string) => Promise<void>;
+  createPurchaseOrder: (po: { supplierId: string | null; expectedDate?: string | null; notes?: string; lines: Omit<PurchaseOrderLine, 'id' | 'quantityReceived'>[] }) => Promise<void>;
+  updatePurchaseOrderStatus: (id: string, status: PurchaseOrderStatus) => Promise<void>;
+  deletePurchaseOrder: (id: string) => Promise<void>;
+  receivePurchaseOrder: (id: string, receipts: PurchaseOrderReceipt[]) => Promise<void>;
+  suggestReorder: () => Promise<number>;
+
+  // Staff
+  addStaff: (member: Omit<Staff, 'id'>) => Promise<void>;
+  updateStaff: (id: string, data: Partial<Staff>) => Promise<void>;
+  deleteStaff: (id: string) => Promise<void>;
+
+  // Users
+  updateUserRole: (userId: string, role: UserRole) => Promise<void>;
+
+  // Promotions
+  addPromotion: (promotion: Omit<Promotion, 'id' | 'usedCount'>) => Promise<void>;
+  updatePromotion: (id: string, data: Partial<Promotion>) => Promise<void>;
+  deletePromotion: (id: string) => Promise<void>;
+
+  // Wallet & gift vouchers
+  getCustomerWalletBalance: (customerId: string) => number;
+  loadWalletLedger: (customerId: string) => Promise<WalletEntry[]>;
+  topUpWallet: (customerId: string, topUp: WalletTopUp) => Promise<boolean>;
+  sellGiftVoucher: (voucher: VoucherSale) => Promise<GiftVoucher | null>;
+  redeemGiftVoucher: (code: string, customerId: string) => Promise<boolean>;
+  voidGiftVoucher: (id: string, reason: string) => Promise<void>;
+
+  // Receipts
+  updateClinicProfile: (profile: ClinicProfile) => Promise<void>;
+  issueReceipt: (transactionId: string, type: ReceiptType, customerTax?: CustomerTaxInfo) => Promise<Receipt | null>;
+  voidReceipt: (id: string, reason: string) => Promise<void>;
+  markReceiptPrinted: (id: string) => Promise<void>;
+
+  // Notifications
+  queueNotifications: () => Promise<number>;
+  processOutbox: () => Promise<{ sent: number; failed: number }>;
+  retryNotification: (id: string) => Promise<void>;
+  cancelNotification: (id: string) => Promise<void>;
+
+  // Commissions
+  addCommissionRule: (rule: Omit<CommissionRule, 'id'>) => Promise<void>;
+  updateCommissionRule: (id: string, data: Partial<CommissionRule>) => Promise<void>;
+  deleteCommissionRule: (id: string) => Promise<void>;
+  estimateDoctorFee: (staffId: string, targetType: 'service' | 'course', targetId: string, units: number, unitPrice: number) => { amount: number; ruleId?: string };
+
   // Courses
   addCourse: (course: Omit<CourseDefinition, 'id'>) => Promise<void>;
   updateCourse: (id: string, data: Partial<CourseDefinition>) => Promise<void>;
   deleteCourse: (id: string) => Promise<void>;
 
+  extendCourse: (customerCourseId: string, newExpiry: string, fee: number, paymentMethod: PaymentMethod, reason: string) => Promise<boolean>;
+  transferCourse: (customerCourseId: string, targetCustomerId: string, reason: string) => Promise<boolean>;
+  shareCourse: (customerCourseId: string, memberId: string, reason: string) => Promise<boolean>;
+  unshareCourse: (customerCourseId: string, memberId: string, reason: string) => Promise<boolean>;
+  convertCourse: (customerCourseId: string, targetCourseId: string, units: number, paymentMethod: PaymentMethod, reason: string) => Promise<boolean>;
+
   // Operations
-  processSale: (customerId: string, items: { type: 'service' | 'course'; id: string; price: number; quantity: number }[], paymentMethod: Transaction['paymentMethod']) => Promise<void>;
-  useCourse: (customerId: string, courseInstanceId: string, unitsToUse: number, treatmentDetails: Omit<TreatmentRecord, 'id' | 'date' | 'unitsUsed'>) => Promise<void>;
+  processSale: (customerId: string, items: SaleItem[], paymentMethod: Transaction['paymentMethod'], options?: SaleOptions) => Promise<SaleResult | null>;
+  getStockShortages: (items: SaleItem[]) => StockShortage[];
+  voidTransaction: (id: string, reason: string) => Promise<boolean>;
+  refundTransaction: (id: string, lines: RefundLine[], reason: string, restock: boolean) => Promise<boolean>;
+  recordPayment: (transactionId: string, lines: PaymentLine[], note?: string) => Promise<boolean>;
+  useCourse: (customerId: string, courseInstanceId: string, unitsToUse: number, treatmentDetails: Omit<TreatmentRecord, 'id' | 'date' | 'unitsUsed' | 'doctorFee'>, options?: CourseUseOptions) => Promise<boolean>;
+  updateTreatmentChart: (treatmentRecordId: string, chart: ClinicalChart) => Promise<boolean>;
+  uploadTreatmentPhotos: (treatmentRecordId: string, customerId: string, uploads: PhotoUpload[]) => Promise<boolean>;
+  setPhotoConsent: (photoId: string, consent: boolean) => Promise<void>;
+  getConsentGaps: (customerId: string, serviceIds: string[], courseId?: string) => ConsentGap[];
+  addConsentTemplate: (template: Omit<ConsentTemplate, 'id' | 'version' | 'updatedAt'>) => Promise<void>;
+  updateConsentTemplate: (id: string, data: Partial<ConsentTemplate>) => Promise<void>;
+  signConsent: (templateId: string, customerId: string, procedure: string, signatureDataUrl: string, appointmentId?: string) => Promise<boolean>;
+  getConsentUrl: (path: string) => Promise<string | null>;
+  getPhotoUrls: (paths: string[]) => Promise<Record<string, string>>;
   
   refreshData: () => Promise<void>;
   seedDatabase: () => Promise<void>;
@@ -52,13 +375,35 @@ interface ClinicContextType {
 const ClinicContext = createContext<ClinicContextType | undefined>(undefined);
 
 export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user } = useAuth();
+  const { user, role } = useAuth();
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [services, setServices] = useState<Service[]>([]);
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
   const [courseDefinitions, setCourseDefinitions] = useState<CourseDefinition[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [stockMovements, setStockMovements] = useState<StockMovement[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [commissionRules, setCommissionRules] = useState<CommissionRule[]>([]);
+  const [doctorFees, setDoctorFees] = useState<DoctorFee[]>([]);
+  const [staff, setStaff] = useState<Staff[]>([]);
+  const [userAccounts, setUserAccounts] = useState<UserAccount[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [notifications, setNotifications] = useState<NotificationMessage[]>([]);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [clinicProfile, setClinicProfile] = useState<ClinicProfile>(DEFAULT_CLINIC_PROFILE);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [walletEntries, setWalletEntries] = useState<WalletEntry[]>([]);
+  const [walletBalances, setWalletBalances] = useState<Record<string, number>>({});
+  const [giftVouchers, setGiftVouchers] = useState<GiftVoucher[]>([]);
+  const [courseExtensions, setCourseExtensions] = useState<CourseExtension[]>([]);
+  const [courseAdjustments, setCourseAdjustments] = useState<CourseAdjustment[]>([]);
+  const [contraindicationOverrides, setContraindicationOverrides] = useState<ContraindicationOverride[]>([]);
+  const [customerMerges, setCustomerMerges] = useState<CustomerMerge[]>([]);
+  const [consentTemplates, setConsentTemplates] = useState<ConsentTemplate[]>([]);
+  const [signedConsents, setSignedConsents] = useState<SignedConsent[]>([]);
   const [isLoadingData, setIsLoadingData] = useState(false);
   const [dbConnectionError, setDbConnectionError] = useState<string | null>(null);
 
@@ -68,7 +413,7 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     setDbConnectionError(null);
     try {
       // Fetch parallel
-      const [custRes, servRes, apptRes, invRes, courseRes, transRes, custCourseRes, treatRes] = await Promise.all([
+      const [custRes, servRes, apptRes, invRes, courseRes, transRes, custCourseRes, treatRes, moveRes, lotRes, suppRes, poRes, poLineRes, ruleRes, feeRes, staffRes, userRoleRes, holidayRes, notificationRes, receiptRes, profileRes, promotionRes, paymentRes, walletRes, voucherRes, extensionRes, adjustmentRes, photoRes, overrideRes, consentTemplateRes, signedConsentRes, mergeRes, stockBalanceRes, walletBalanceRes] = await Promise.all([
         supabase.from('customers').select('*').order('name'),
         supabase.from('services').select('*').order('name'),
         supabase.from('appointments').select('*').order('date', { ascending: false }),
@@ -76,7 +421,33 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         supabase.from('courses').select('*').order('name'),
         supabase.from('transactions').select('*').order('created_at', { ascending: false }),
         supabase.from('customer_courses').select('*'),
-        supabase.from('treatment_records').select('*').order('date', { ascending: false })
+        supabase.from('treatment_records').select('*').order('date', { ascending: false }),
+        supabase.from('stock_movements').select('*').order('created_at', { ascending: false }),
+        supabase.from('inventory_lots').select('*').order('expiry_date'),
+        supabase.from('suppliers').select('*').order('name'),
+        supabase.from('purchase_orders').select('*').order('created_at', { ascending: false }),
+        supabase.from('purchase_order_lines').select('*'),
+        supabase.from('commission_rules').select('*'),
+        supabase.from('doctor_fees').select('*').order('created_at', { ascending: false }),
+        supabase.from('staff').select('*').order('name'),
+        supabase.from('user_roles').select('*').order('email'),
+        supabase.from('holidays').select('*').order('date'),
+        supabase.from('notifications').select('*').order('scheduled_at', { ascending: false }).limit(500),
+        supabase.from('receipts').select('*').order('issued_at', { ascending: false }),
+        supabase.from('clinic_settings').select('*').eq('id', 1).maybeSingle(),
+        supabase.from('promotions').select('*').order('created_at', { ascending: false }),
+        supabase.from('payments').select('*').order('created_at', { ascending: false }),
+        supabase.from('wallet_entries').select('*').order('created_at', { ascending: false }),
+        supabase.from('gift_vouchers').select('*').order('created_at', { ascending: false }),
+        supabase.from('course_extensions').select('*').order('created_at', { ascending: false }),
+        supabase.from('course_adjustments').select('*').order('created_at', { ascending: false }),
+        supabase.from('treatment_photos').select('*').order('created_at', { ascending: true }),
+        supabase.from('contraindication_overrides').select('*').order('created_at', { ascending: false }),
+        supabase.from('consent_templates').select('*').order('name'),
+        supabase.from('signed_consents').select('*').order('created_at', { ascending: false }),
+        supabase.from('customer_merges').select('*').order('created_at', { ascending: false }),
+        supabase.from('stock_balances').select('*'),
+        supabase.from('wallet_balances').select('*')
       ]);
 
       // Check for "relation does not exist" error (Code 42P01)
@@ -89,15 +460,128 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           return;
       }
 
+      const staffList: Staff[] = staffRes.data?.map((s:any) => ({
+        id: s.id,
+        name: s.name,
+        role: s.role,
+        licenseNumber: s.license_number,
+        active: s.active,
+        workingHours: s.working_hours || [],
+        qualifiedServiceIds: s.qualified_service_ids || []
+      })) || [];
+      setStaff(staffList);
+      setHolidays(holidayRes.data?.map((h:any) => ({ id: h.id, date: h.date, staffId: h.staff_id, reason: h.reason || '' })) || []);
+      setNotifications(notificationRes.data?.map((n:any) => ({
+        id: n.id,
+        customerId: n.customer_id,
+        kind: n.kind,
+        channel: n.channel,
+        recipient: n.recipient,
+        subject: n.subject || undefined,
+        body: n.body,
+        status: n.status,
+        attempts: n.attempts || 0,
+        scheduledAt: n.scheduled_at,
+        nextAttemptAt: n.next_attempt_at,
+        sentAt: n.sent_at,
+        lastError: n.last_error,
+        sourceId: n.source_id || undefined,
+        dedupeKey: n.dedupe_key
+      })) || []);
+      setReceipts(receiptRes.data?.map(toReceipt) || []);
+      const p = profileRes.data;
+      setClinicProfile(p ? {
+        name: p.name || DEFAULT_CLINIC_PROFILE.name,
+        address: p.address || '',
+        phone: p.phone || '',
+        taxId: p.tax_id || '',
+        branchCode: p.branch_code || DEFAULT_CLINIC_PROFILE.branchCode,
+        branchName: p.branch_name || DEFAULT_CLINIC_PROFILE.branchName,
+        vatRegistered: p.vat_registered ?? DEFAULT_CLINIC_PROFILE.vatRegistered,
+        vatRate: p.vat_rate != null ? Number(p.vat_rate) : DEFAULT_CLINIC_PROFILE.vatRate,
+        pricesIncludeVat: p.prices_include_vat ?? DEFAULT_CLINIC_PROFILE.pricesIncludeVat,
+        maxDiscountPercent: p.max_discount_percent != null ? Number(p.max_discount_percent) : DEFAULT_CLINIC_PROFILE.maxDiscountPercent,
+        blockOverdueCourseUsage: p.block_overdue_course_usage ?? DEFAULT_CLINIC_PROFILE.blockOverdueCourseUsage
+      } : DEFAULT_CLINIC_PROFILE);
+      setPromotions(promotionRes.data?.map((pr:any) => ({
+        id: pr.id,
+        name: pr.name,
+        code: pr.code || undefined,
+        discountType: pr.discount_type,
+        discountValue: Number(pr.discount_value),
+        targetType: pr.target_type,
+        targetIds: pr.target_ids || [],
+        startDate: pr.start_date,
+        endDate: pr.end_date,
+        usageLimit: pr.usage_limit,
+        usedCount: pr.used_count || 0,
+        active: pr.active
+      })) || []);
+      setPayments(paymentRes.data?.map((pm:any) => ({
+        id: pm.id,
+        date: pm.created_at,
+        transactionId: pm.transaction_id,
+        customerId: pm.customer_id,
+        method: pm.method,
+        amount: Number(pm.amount) || 0,
+        receivedBy: pm.received_by || undefined,
+        note: pm.note || undefined
+      })) || []);
+      setWalletEntries(walletRes.data?.map(toWalletEntry) || []);
+      setWalletBalances(Object.fromEntries((walletBalanceRes.data || []).map((b: any) => [b.customer_id, Number(b.balance) || 0])));
+      setGiftVouchers(voucherRes.data?.map(toGiftVoucher) || []);
+      setCourseExtensions(extensionRes.data?.map((x:any) => ({
+        id: x.id,
+        date: x.created_at,
+        customerCourseId: x.customer_course_id,
+        customerId: x.customer_id,
+        previousExpiry: x.previous_expiry,
+        newExpiry: x.new_expiry,
+        fee: Number(x.fee) || 0,
+        transactionId: x.transaction_id || undefined,
+        reason: x.reason || '',
+        createdBy: x.created_by || undefined
+      })) || []);
+      setCourseAdjustments(adjustmentRes.data?.map((x:any) => ({
+        id: x.id,
+        date: x.created_at,
+        type: x.type,
+        customerCourseId: x.customer_course_id,
+        customerId: x.customer_id,
+        targetCustomerId: x.target_customer_id || undefined,
+        newCustomerCourseId: x.new_customer_course_id || undefined,
+        targetCourseId: x.target_course_id || undefined,
+        units: x.units || 0,
+        value: Number(x.value) || 0,
+        fee: Number(x.fee) || 0,
+        transactionId: x.transaction_id || undefined,
+        reason: x.reason || '',
+        createdBy: x.created_by || undefined
+      })) || []);
+      setContraindicationOverrides(overrideRes.data?.map(toContraindicationOverride) || []);
+      setConsentTemplates(consentTemplateRes.data?.map(toConsentTemplate) || []);
+      setSignedConsents(signedConsentRes.data?.map(toSignedConsent) || []);
+      setCustomerMerges(mergeRes.data?.map(toCustomerMerge) || []);
+      setUserAccounts(userRoleRes.data?.map((u:any) => ({ userId: u.user_id, email: u.email, role: u.role })) || []);
+      // Rows written before the staff table existed only carry the name
+      const resolveStaffId = (staffId: string | null, name: string | null) =>
+        staffId || staffList.find(s => s.name === name)?.id;
+
       // Map relational data for Customers
-      const rawCustomers = custRes.data || [];
+      // Merged duplicates stay in the table for the audit trail but are no longer customers
+      const rawCustomers = (custRes.data || []).filter((c: any) => !c.merged_into);
       const rawCustCourses = custCourseRes.data || [];
       const rawTreatments = treatRes.data || [];
+      const photoRows = (photoRes.data || []).map(toTreatmentPhoto);
 
       const enrichedCustomers = rawCustomers.map((c: any) => ({
         ...c,
         birthDate: c.birth_date,
         lineId: c.line_id,
+        allergies: c.allergies || [],
+        medications: c.medications || [],
+        conditions: c.conditions || [],
+        taxInfo: c.tax_id ? { name: c.tax_name || c.name, taxId: c.tax_id, address: c.tax_address || '', branch: c.tax_branch || '' } : undefined,
         activeCourses: rawCustCourses.filter((cc: any) => cc.customer_id === c.id).map((cc: any) => ({
              id: cc.id,
              courseId: cc.course_id,
@@ -106,16 +590,26 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
              remainingUnits: cc.remaining_units,
              purchaseDate: cc.purchase_date,
              expiryDate: cc.expiry_date,
-             active: cc.active
+             active: cc.active,
+             transactionId: cc.transaction_id || undefined,
+             validityMonths: cc.validity_months,
+             validityStart: cc.validity_start || undefined,
+             sharedWith: cc.shared_with || [],
+             entitlements: cc.entitlements?.length ? cc.entitlements : undefined
         })),
         treatmentHistory: rawTreatments.filter((t: any) => t.customer_id === c.id).map((t: any) => ({
              id: t.id,
              date: t.date,
              treatmentName: t.treatment_name,
              details: t.details,
+             staffId: resolveStaffId(t.staff_id, t.doctor_name),
              doctorName: t.doctor_name,
+             doctorFee: t.doctor_fee != null ? Number(t.doctor_fee) : undefined,
              unitsUsed: t.units_used,
-             photos: []
+             photos: photoRows.filter(p => p.treatmentRecordId === t.id),
+             lotsUsed: t.lots_used || [],
+             chart: t.chart || undefined,
+             consentIds: t.consent_ids || []
         })),
         history: [] // Legacy field
       }));
@@ -126,10 +620,95 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         durationMinutes: s.duration_minutes,
         imageUrl: s.image_url // Map from DB snake_case to camelCase
       })) || []);
-      setAppointments(apptRes.data?.map((a:any) => ({...a, customerId: a.customer_id, serviceId: a.service_id, doctorName: a.doctor_name})) || []);
-      setInventory(invRes.data?.map((i:any) => ({...i, minLevel: i.min_level, pricePerUnit: i.price_per_unit})) || []);
-      setCourseDefinitions(courseRes.data?.map((c:any) => ({...c, totalUnits: c.total_units})) || []);
-      setTransactions(transRes.data?.map((t:any) => ({...t, date: t.created_at, customerId: t.customer_id, totalAmount: t.total_amount, paymentMethod: t.payment_method})) || []);
+      setAppointments(apptRes.data?.map((a:any) => ({...a, customerId: a.customer_id, serviceId: a.service_id, staffId: resolveStaffId(a.staff_id, a.doctor_name), doctorName: a.doctor_name, customerCourseId: a.customer_course_id, seriesId: a.series_id, seriesIndex: a.series_index, statusHistory: a.status_history || []})) || []);
+      const movements: StockMovement[] = moveRes.data?.map((m:any) => ({
+        id: m.id,
+        date: m.created_at,
+        inventoryItemId: m.inventory_item_id,
+        lotId: m.lot_id,
+        type: m.movement_type,
+        quantity: Number(m.quantity),
+        unitCost: m.unit_cost != null ? Number(m.unit_cost) : undefined,
+        referenceType: m.reference_type,
+        referenceId: m.reference_id,
+        reason: m.reason,
+        createdBy: m.created_by
+      })) || [];
+      setStockMovements(movements);
+
+      // Stock on hand is the sum of the ledger, totalled in the database since the movement list
+      // above is capped (falls back to the legacy column if the ledger table is missing)
+      const balances = (stockBalanceRes.data || []).reduce((acc, b: any) => {
+        const quantity = Number(b.quantity) || 0;
+        acc[b.inventory_item_id] = (acc[b.inventory_item_id] || 0) + quantity;
+        if (b.lot_id) acc[b.lot_id] = (acc[b.lot_id] || 0) + quantity;
+        return acc;
+      }, {} as Record<string, number>);
+      const lots: InventoryLot[] = lotRes.data?.map((l:any) => ({
+        id: l.id,
+        inventoryItemId: l.inventory_item_id,
+        lotNumber: l.lot_number,
+        expiryDate: l.expiry_date,
+        receivedDate: l.received_date,
+        quantity: balances[l.id] || 0
+      })) || [];
+      setInventory(invRes.data?.map((i:any) => ({
+        ...i,
+        quantity: stockBalanceRes.error ? Number(i.quantity) : (balances[i.id] || 0),
+        minLevel: i.min_level,
+        targetLevel: i.target_level,
+        preferredSupplierId: i.preferred_supplier_id,
+        pricePerUnit: i.price_per_unit,
+        lots: lots.filter(l => l.inventoryItemId === i.id)
+      })) || []);
+
+      setSuppliers(suppRes.data?.map((s:any) => ({...s, contactName: s.contact_name, taxId: s.tax_id})) || []);
+      const rawPoLines = poLineRes.data || [];
+      setPurchaseOrders(poRes.data?.map((po:any) => ({
+        id: po.id,
+        poNumber: po.po_number,
+        supplierId: po.supplier_id,
+        status: po.status,
+        orderDate: po.order_date,
+        expectedDate: po.expected_date,
+        notes: po.notes,
+        createdAt: po.created_at,
+        lines: rawPoLines.filter((l: any) => l.purchase_order_id === po.id).map((l: any) => ({
+          id: l.id,
+          inventoryItemId: l.inventory_item_id,
+          quantityOrdered: Number(l.quantity_ordered),
+          quantityReceived: Number(l.quantity_received),
+          unitCost: Number(l.unit_cost)
+        }))
+      })) || []);
+
+      setCommissionRules(ruleRes.data?.map((r:any) => ({
+        id: r.id,
+        staffId: r.staff_id || (r.doctor_name ? resolveStaffId(null, r.doctor_name) || null : null),
+        targetType: r.target_type,
+        targetId: r.target_id,
+        method: r.method,
+        value: Number(r.value),
+        tiers: r.tiers || [],
+        tierValueType: r.tier_value_type,
+        active: r.active
+      })) || []);
+      setDoctorFees(feeRes.data?.map((f:any) => ({
+        id: f.id,
+        date: f.created_at,
+        staffId: resolveStaffId(f.staff_id, f.doctor_name),
+        doctorName: f.doctor_name,
+        sourceType: f.source_type,
+        sourceId: f.source_id,
+        itemId: f.item_id || undefined,
+        itemName: f.item_name,
+        units: Number(f.units),
+        unitPrice: Number(f.unit_price),
+        amount: Number(f.amount),
+        ruleId: f.rule_id
+      })) || []);
+      setCourseDefinitions(courseRes.data?.map((c:any) => ({...c, totalUnits: c.total_units, validityMonths: c.validity_months, validityStart: c.validity_start || 'purchase', entitlements: c.entitlements || []})) || []);
+      setTransactions(transRes.data?.map(toTransaction) || []);
 
     } catch (error: any) {
       console.error("Error fetching data:", error);
@@ -150,17 +729,33 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   const seedDatabase = async () => {
       setIsLoadingData(true);
       try {
-        // 1. Inventory
-        await supabase.from('inventory').insert([
+        // 1. Inventory (opening stock is posted to the ledger as receive movements)
+        const { data: invData } = await supabase.from('inventory').insert([
           { name: 'Syringe 3ml', quantity: 500, unit: 'ชิ้น', min_level: 100, price_per_unit: 5 },
           { name: 'Botox Allergan 100u', quantity: 20, unit: 'vial', min_level: 5, price_per_unit: 4000 },
           { name: 'Vitamin C Ampoule', quantity: 200, unit: 'ampoule', min_level: 50, price_per_unit: 20 },
           { name: 'Normal Saline 100ml', quantity: 100, unit: 'bag', min_level: 20, price_per_unit: 15 },
           { name: 'Sterile Gloves (M)', quantity: 1000, unit: 'pair', min_level: 100, price_per_unit: 10 },
           { name: 'Meso Fat Solution', quantity: 50, unit: 'vial', min_level: 10, price_per_unit: 500 },
+        ]).select();
+        if (invData) {
+          await supabase.from('stock_movements').insert(invData.map((i: any) => ({
+            inventory_item_id: i.id,
+            movement_type: 'receive',
+            quantity: i.quantity,
+            reason: 'Opening stock',
+            created_by: user?.email
+          })));
+        }
+
+        // 2. Staff
+        await supabase.from('staff').insert([
+          { name: 'หมอฟ้า', role: 'doctor' },
+          { name: 'หมอเอก', role: 'doctor' },
+          { name: 'หมอพิมพา', role: 'doctor' }
         ]);
 
-        // 2. Services
+        // 3. Services
         await supabase.from('services').insert([
            { name: 'Botox Injection (50u)', price: 8900, duration_minutes: 30, category: 'Injection' },
            { name: 'IV Drip Vitamin Glow', price: 2500, duration_minutes: 45, category: 'Wellness' },
@@ -169,16 +764,16 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
            { name: 'Meso Fat แก้มเหนียง', price: 3500, duration_minutes: 30, category: 'Injection' }
         ]);
 
-        // 3. Courses
+        // 4. Courses
         await supabase.from('courses').insert([
           { name: 'IV Drip Buffet (10 ครั้ง)', price: 20000, total_units: 10, description: 'วิตามินผิวสูตรเข้มข้น 10 ครั้ง' },
           { name: 'Laser Hair Removal (12 ครั้ง)', price: 12000, total_units: 12, description: 'เลเซอร์กำจัดขน 12 ครั้ง' },
           { name: 'Acne Clear (5 ครั้ง)', price: 4500, total_units: 5, description: 'รักษาสิว กดสิว มาส์กหน้า 5 ครั้ง' }
         ]);
 
-        // 4. Mock Customers
+        // 5. Mock Customers
         await supabase.from('customers').insert([
-          { name: 'คุณสุดา ใจดี', phone: '081-234-5678', email: 'suda@example.com', notes: 'แพ้ยา Penicillin' },
+          { name: 'คุณสุดา ใจดี', phone: '081-234-5678', email: 'suda@example.com', notes: 'แพ้ยา Penicillin', allergies: ['Penicillin'] },
           { name: 'คุณสมชาย มั่งคั่ง', phone: '089-987-6543', email: 'somchai@example.com', notes: 'ชอบนวดหน้าแรงๆ' },
           { name: 'คุณวิไล สวยเสมอ', phone: '065-432-1111', email: 'wilai@example.com' }
         ]);
@@ -192,7 +787,15 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       }
   };
 
+  // UI hides what a role cannot do; this is the backstop for the destructive operations themselves
+  const denied = (permission: Permission) => {
+      if (hasPermission(role, permission)) return false;
+      alert('คุณไม่มีสิทธิ์ทำรายการนี้ (Permission denied)');
+      return true;
+  };
+
   const exportToSQL = async (): Promise<string> => {
+      if (!hasPermission(role, 'data.export')) throw new Error('Permission denied');
       let sql = `-- Patricia Clinic Backup \n-- Date: ${new Date().toISOString()}\n\n`;
       
       // Customers
@@ -219,21 +822,54 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
            sql += courseDefinitions.map(c => `('${c.id}', '${c.name}', ${c.price}, ${c.totalUnits}, '${c.description || ''}')`).join(',\n') + ';\n\n';
       }
 
+      // Staff
+      if (staff.length > 0) {
+          sql += `-- Staff \nINSERT INTO staff (id, name, role, license_number, active) VALUES \n`;
+          sql += staff.map(s => `('${s.id}', '${s.name}', '${s.role}', '${s.licenseNumber || ''}', ${s.active})`).join(',\n') + ';\n\n';
+      }
+
       return sql;
   };
 
   const resetDatabase = async () => {
+      if (denied('data.reset')) return;
       if (!window.confirm('คำเตือน: การกระทำนี้จะลบข้อมูลในตาราง Inventory, Services, Courses, Customers ทั้งหมด! ยืนยันหรือไม่?')) return;
       setIsLoadingData(true);
       try {
+          await supabase.from('doctor_fees').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('commission_rules').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('stock_movements').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('inventory_lots').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('purchase_order_lines').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('purchase_orders').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('notifications').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          const { data: photoFiles } = await supabase.from('treatment_photos').select('path, thumbnail_path');
+          await removePhotoFiles(photoFiles || []);
+          await supabase.from('treatment_photos').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('contraindication_overrides').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          // Signed consents refuse plain deletes; this function lifts the guard for the reset only
+          const { error: consentError } = await supabase.rpc('reset_signed_consents');
+          if (consentError) throw consentError;
+          await supabase.from('customer_merges').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('consent_templates').delete().neq('id', '00000000-0000-0000-0000-000000000000');
           await supabase.from('treatment_records').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('course_extensions').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('course_adjustments').delete().neq('id', '00000000-0000-0000-0000-000000000000');
           await supabase.from('customer_courses').delete().neq('id', '00000000-0000-0000-0000-000000000000');
           await supabase.from('appointments').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('receipts').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('payments').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('wallet_entries').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('gift_vouchers').delete().neq('id', '00000000-0000-0000-0000-000000000000');
           await supabase.from('transactions').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('promotions').delete().neq('id', '00000000-0000-0000-0000-000000000000');
           await supabase.from('inventory').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('suppliers').delete().neq('id', '00000000-0000-0000-0000-000000000000');
           await supabase.from('services').delete().neq('id', '00000000-0000-0000-0000-000000000000');
           await supabase.from('courses').delete().neq('id', '00000000-0000-0000-0000-000000000000');
           await supabase.from('customers').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('holidays').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          await supabase.from('staff').delete().neq('id', '00000000-0000-0000-0000-000000000000');
           await refreshData();
       } catch (e) {
           console.error(e);
@@ -246,20 +882,266 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   // --- Operations ---
 
   // APPOINTMENTS
-  const addAppointment = async (apt: Omit<Appointment, 'id'>) => {
-    await supabase.from('appointments').insert([{
+  const getAppointmentConflicts = (apt: Pick<Appointment, 'date' | 'time' | 'serviceId' | 'staffId' | 'room'>, excludeId?: string) =>
+    findConflicts({
+        date: apt.date,
+        time: apt.time,
+        durationMinutes: services.find(s => s.id === apt.serviceId)?.durationMinutes || DEFAULT_DURATION_MINUTES,
+        staffId: apt.staffId,
+        room: apt.room,
+        excludeId
+    }, { appointments, services, staff, holidays });
+
+  const statusChange = (status: Status, note?: string): AppointmentStatusChange => ({
+    status,
+    at: new Date().toISOString(),
+    by: user?.email,
+    ...(note ? { note } : {})
+  });
+
+  const addAppointment = async (apt: Omit<Appointment, 'id'>, safetyNote?: string) => {
+    const conflicts = getAppointmentConflicts(apt);
+    if (conflicts.length > 0) {
+        alert('ไม่สามารถนัดหมายได้:\n- ' + conflicts.join('\n- '));
+        return false;
+    }
+    const hits = appointmentContraindications(apt.customerId, apt.serviceId, apt.customerCourseId);
+    if (safetyBlocked(hits, safetyNote)) return false;
+    const { data, error } = await supabase.from('appointments').insert([{
+        customer_id: apt.customerId,
+        service_id: apt.serviceId,
+        date: apt.date,
+        time: apt.time,
+        status: apt.status,
+        staff_id: apt.staffId,
+        doctor_name: getStaffName(staff, apt.staffId, apt.doctorName),
+        room: apt.room,
+        customer_course_id: apt.customerCourseId || null,
+        status_history: [statusChange(apt.status)]
+    }]).select('id').single();
+    if (error) {
+        alert('Failed to add appointment: ' + error.message);
+        return false;
+    }
+    await logContraindicationOverride(apt.customerId, 'appointment', services.find(s => s.id === apt.serviceId)?.name || '', hits, safetyNote, 'appointment', data.id);
+    refreshData();
+    return true;
+  };
+
+  const updateAppointment = async (id: string, data: Partial<Appointment>) => {
+    const current = appointments.find(a => a.id === id);
+    const reschedules = ['date', 'time', 'serviceId', 'staffId', 'room'].some(key => key in data);
+    if (current && reschedules) {
+        const conflicts = getAppointmentConflicts({ ...current, ...data }, id);
+        if (conflicts.length > 0) {
+            alert('ไม่สามารถย้ายนัดได้:\n- ' + conflicts.join('\n- '));
+            return false;
+        }
+    }
+    const updatePayload: any = {};
+    if (data.customerId) updatePayload.customer_id = data.customerId;
+    if (data.serviceId) updatePayload.service_id = data.serviceId;
+    if (data.date) updatePayload.date = data.date;
+    if (data.time) updatePayload.time = data.time;
+    if (data.status) updatePayload.status = data.status;
+    if (data.staffId !== undefined) {
+        updatePayload.staff_id = data.staffId || null;
+        updatePayload.doctor_name = getStaffName(staff, data.staffId, data.doctorName);
+    }
+    if (data.room !== undefined) updatePayload.room = data.room || null;
+    if (data.customerCourseId !== undefined) updatePayload.customer_course_id = data.customerCourseId || null;
+
+    // Moving an appointment to another day or time marks it as rescheduled
+    if (current && ((data.date && data.date !== current.date) || (data.time && data.time !== current.time))) {
+        updatePayload.status = Status.RESCHEDULED;
+        updatePayload.status_history = [...current.statusHistory, statusChange(Status.RESCHEDULED, `เลื่อนจาก ${current.date} ${current.time.slice(0, 5)}`)];
+    } else if (current && data.status && data.status !== current.status) {
+        updatePayload.status_history = [...current.statusHistory, statusChange(data.status)];
+    }
+
+    const { error } = await supabase.from('appointments').update(updatePayload).eq('id', id);
+    if (error) {
+        alert('Failed to update appointment: ' + error.message);
+        return false;
+    }
+    refreshData();
+    return true;
+  };
+
+  // Every occurrence is checked up front so a series is booked all-or-nothing
+  const addAppointmentSeries = async (occurrences: Omit<Appointment, 'id' | 'seriesId' | 'seriesIndex'>[], safetyNote?: string) => {
+    // Each occurrence is checked against the existing book and the earlier occurrences of the same series
+    const pending = occurrences.map((apt, i) => ({ ...apt, id: `pending-${i}` }));
+    const problems = pending
+        .map((apt, i) => ({
+            label: `ครั้งที่ ${i + 1} (${apt.date} ${apt.time.slice(0, 5)})`,
+            conflicts: findConflicts({
+                date: apt.date,
+                time: apt.time,
+                durationMinutes: services.find(s => s.id === apt.serviceId)?.durationMinutes || DEFAULT_DURATION_MINUTES,
+                staffId: apt.staffId,
+                room: apt.room
+            }, { appointments: [...appointments, ...pending.slice(0, i)], services, staff, holidays })
+        }))
+        .filter(p => p.conflicts.length > 0);
+    if (problems.length > 0) {
+        alert('ไม่สามารถนัดหมายเป็นชุดได้:\n' + problems.map(p => `${p.label}: ${p.conflicts.join(', ')}`).join('\n'));
+        return false;
+    }
+    const first = occurrences[0];
+    const hits = first ? appointmentContraindications(first.customerId, first.serviceId, first.customerCourseId) : [];
+    if (safetyBlocked(hits, safetyNote)) return false;
+    const seriesId = crypto.randomUUID();
+    const { data, error } = await supabase.from('appointments').insert(occurrences.map((apt, i) => ({
         customer_id: apt.customerId,
         service_id: apt.serviceId,
         date: apt.date,
         time: apt.time,
         status: apt.status,
-        doctor_name: apt.doctorName
-    }]);
+        staff_id: apt.staffId,
+        doctor_name: getStaffName(staff, apt.staffId, apt.doctorName),
+        room: apt.room,
+        customer_course_id: apt.customerCourseId || null,
+        series_id: seriesId,
+        series_index: i + 1,
+        status_history: [statusChange(apt.status, `นัดต่อเนื่อง ครั้งที่ ${i + 1}/${occurrences.length}`)]
+    }))).select('id, series_index');
+    if (error) {
+        alert('Failed to add appointment series: ' + error.message);
+        return false;
+    }
+    // One acknowledgement covers the series; it points at the first occurrence
+    const firstId = data?.find(a => a.series_index === 1)?.id;
+    if (firstId) await logContraindicationOverride(first.customerId, 'appointment', services.find(s => s.id === first.serviceId)?.name || '', hits, safetyNote, 'appointment', firstId);
+    refreshData();
+    return true;
+  };
+
+  // The given occurrence and every later one that is still booked
+  const getFutureOccurrences = (id: string) => {
+    const apt = appointments.find(a => a.id === id);
+    if (!apt?.seriesId) return apt ? [apt] : [];
+    return getSeriesAppointments(appointments, apt.seriesId)
+        .filter(a => a.id === id || ((a.seriesIndex || 0) > (apt.seriesIndex || 0) && BOOKED_STATUSES.includes(a.status)));
+  };
+
+  // A date change shifts each later occurrence by the same number of days
+  const updateAppointmentSeries = async (id: string, data: Partial<Pick<Appointment, 'date' | 'time' | 'staffId' | 'room'>>) => {
+    const current = appointments.find(a => a.id === id);
+    if (!current) return false;
+    const occurrences = getFutureOccurrences(id);
+    const shift = data.date ? daysBetween(current.date, data.date) : 0;
+    const movingIds = occurrences.map(a => a.id);
+    const others = appointments.filter(a => !movingIds.includes(a.id));
+
+    const moved = occurrences.map(a => ({
+        ...a,
+        ...data,
+        date: shift ? addDays(a.date, shift) : a.date,
+        time: data.time || a.time
+    }));
+    const problems = moved
+        .map(a => ({
+            label: `ครั้งที่ ${a.seriesIndex || 1} (${a.date} ${a.time.slice(0, 5)})`,
+            conflicts: findConflicts({
+                date: a.date,
+                time: a.time,
+                durationMinutes: services.find(s => s.id === a.serviceId)?.durationMinutes || DEFAULT_DURATION_MINUTES,
+                staffId: a.staffId,
+                room: a.room
+            }, { appointments: others, services, staff, holidays })
+        }))
+        .filter(p => p.conflicts.length > 0);
+    if (problems.length > 0) {
+        alert('ไม่สามารถย้ายนัดได้:\n' + problems.map(p => `${p.label}: ${p.conflicts.join(', ')}`).join('\n'));
+        return false;
+    }
+
+    const results = await Promise.all(moved.map((a, i) => {
+        const before = occurrences[i];
+        const reschedules = a.date !== before.date || a.time !== before.time;
+        const payload: any = { date: a.date, time: a.time };
+        if (data.staffId !== undefined) {
+            payload.staff_id = data.staffId || null;
+            payload.doctor_name = getStaffName(staff, data.staffId);
+        }
+        if (data.room !== undefined) payload.room = data.room || null;
+        if (reschedules) {
+            payload.status = Status.RESCHEDULED;
+            payload.status_history = [...before.statusHistory, statusChange(Status.RESCHEDULED, `เลื่อนจาก ${before.date} ${before.time.slice(0, 5)} (ทั้งชุด)`)];
+        }
+        return supabase.from('appointments').update(payload).eq('id', a.id);
+    }));
+    const failed = results.find(r => r.error);
+    if (failed?.error) alert('Failed to update appointment series: ' + failed.error.message);
+    refreshData();
+    return !failed;
+  };
+
+  const cancelAppointmentSeries = async (id: string) => {
+    const results = await Promise.all(getFutureOccurrences(id).map(a =>
+        supabase.from('appointments').update({
+            status: Status.CANCELLED,
+            status_history: [...a.statusHistory, statusChange(Status.CANCELLED, 'ยกเลิกทั้งชุด')]
+        }).eq('id', a.id)
+    ));
+    const failed = results.find(r => r.error);
+    if (failed?.error) alert('Failed to cancel appointment series: ' + failed.error.message);
     refreshData();
   };
 
-  const updateAppointmentStatus = async (id: string, status: Status) => {
-    await supabase.from('appointments').update({ status }).eq('id', id);
+  const addHoliday = async (holiday: Omit<Holiday, 'id'>) => {
+    const { error } = await supabase.from('holidays').insert([{ date: holiday.date, staff_id: holiday.staffId, reason: holiday.reason }]);
+    if (error) alert('Failed to add holiday: ' + error.message);
+    else refreshData();
+  };
+
+  const deleteHoliday = async (id: string) => {
+    const { error } = await supabase.from('holidays').delete().eq('id', id);
+    if (error) alert('Failed to delete holiday: ' + error.message);
+    else refreshData();
+  };
+
+  const updateAppointmentStatus = async (id: string, status: Status, note?: string) => {
+    const current = appointments.find(a => a.id === id);
+    if (status === Status.IN_TREATMENT && current && consentBlocked(current.customerId, [current.serviceId])) return;
+    const { error } = await supabase.from('appointments').update({
+        status,
+        status_history: [...(current?.statusHistory || []), statusChange(status, note)]
+    }).eq('id', id);
+    if (error) alert('Failed to update appointment status: ' + error.message);
+    else refreshData();
+  };
+
+  // Completing against a course cuts one unit the same way ตัดคอร์ส does
+  const completeAppointment = async (id: string, customerCourseId: string, entitlementId?: string, safetyNote?: string) => {
+    if (denied('courses.use')) return;
+    const apt = appointments.find(a => a.id === id);
+    const course = findCourseOwner(customers, customerCourseId)?.activeCourses.find(c => c.id === customerCourseId);
+    if (!apt || !course) return;
+    if (course.remainingUnits <= 0) {
+        alert('คอร์สนี้ไม่มีจำนวนครั้งคงเหลือ');
+        return;
+    }
+    if (consentBlocked(apt.customerId, [apt.serviceId])) return;
+    const service = services.find(s => s.id === apt.serviceId);
+    // A bundle cuts the line staff picked, or the one for the booked service
+    const entitlement = entitlementId
+        ? course.entitlements?.find(e => e.entitlementId === entitlementId)
+        : pickEntitlement(course, apt.serviceId);
+    const used = await useCourse(apt.customerId, customerCourseId, 1, {
+        treatmentName: course.courseName,
+        details: `ตามนัด ${apt.date} ${apt.time.slice(0, 5)}${service ? ' - ' + service.name : ''}`,
+        staffId: apt.staffId,
+        doctorName: apt.doctorName,
+        photos: []
+    }, { entitlementId: entitlement?.entitlementId, bookedServiceId: apt.serviceId, safetyNote });
+    if (!used) return;
+    await supabase.from('appointments').update({
+        status: Status.COMPLETED,
+        customer_course_id: customerCourseId,
+        status_history: [...apt.statusHistory, statusChange(Status.COMPLETED, `ตัดคอร์ส ${course.courseName}`)]
+    }).eq('id', id);
     refreshData();
   };
 
@@ -272,13 +1154,16 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   // CUSTOMERS
   const addCustomer = async (customer: Omit<Customer, 'id' | 'history' | 'treatmentHistory' | 'activeCourses'>) => {
     const { data, error } = await supabase.from('customers').insert([{
-        name: customer.name,
-        phone: customer.phone,
+        name: customer.name.trim(),
+        phone: formatPhone(customer.phone),
         email: customer.email,
         birth_date: customer.birthDate,
         notes: customer.notes,
         line_id: customer.lineId,
-        address: customer.address
+        address: customer.address,
+        allergies: customer.allergies || [],
+        medications: customer.medications || [],
+        conditions: customer.conditions || []
     }]).select().single();
     
     if (error) {
@@ -293,36 +1178,119 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   const updateCustomer = async (id: string, data: Partial<Customer>) => {
     await supabase.from('customers').update({
         name: data.name,
-        phone: data.phone,
+        phone: data.phone !== undefined ? formatPhone(data.phone) : undefined,
         email: data.email,
         birth_date: data.birthDate,
         notes: data.notes,
         address: data.address,
-        line_id: data.lineId
+        line_id: data.lineId,
+        allergies: data.allergies,
+        medications: data.medications,
+        conditions: data.conditions,
+        ...(data.taxInfo ? {
+            tax_name: data.taxInfo.name,
+            tax_id: data.taxInfo.taxId,
+            tax_address: data.taxInfo.address,
+            tax_branch: data.taxInfo.branch
+        } : {})
     }).eq('id', id);
     refreshData();
   };
 
   const deleteCustomer = async (id: string) => {
+    if (denied('customers.delete')) return;
     // Note: This might fail if there are foreign key constraints (history, appointments)
     // In a real app, you'd cascade delete or soft delete.
+    const { data: photoFiles } = await supabase.from('treatment_photos').select('path, thumbnail_path').eq('customer_id', id);
     const { error } = await supabase.from('customers').delete().eq('id', id);
     if (error) {
         alert('ไม่สามารถลบลูกค้าได้เนื่องจากมีประวัติการรักษาหรือข้อมูลที่เกี่ยวข้อง (Cannot delete customer with existing records)');
     } else {
+        await removePhotoFiles(photoFiles || []);
         refreshData();
     }
   };
 
+  // Folds a duplicate into the kept record: history moves over, the profile is combined,
+  // and the duplicate row is hidden (not deleted) with an audit entry. All of it runs in
+  // merge_customers so a failure part-way leaves both records as they were.
+  const mergeCustomers = async (survivorId: string, duplicateId: string, note: string) => {
+      if (denied('customers.merge')) return false;
+      const survivor = customers.find(c => c.id === survivorId);
+      const duplicate = customers.find(c => c.id === duplicateId);
+      if (!survivor || !duplicate || survivorId === duplicateId) return false;
+      if (!note.trim()) {
+          alert('กรุณาระบุเหตุผล');
+          return false;
+      }
+      const profile = mergedProfile(survivor, duplicate);
+      const { error } = await supabase.rpc('merge_customers', {
+          p_survivor: survivorId,
+          p_duplicate: duplicateId,
+          p_profile: {
+              email: profile.email || null,
+              birth_date: profile.birthDate || null,
+              line_id: profile.lineId || null,
+              address: profile.address || null,
+              notes: profile.notes,
+              allergies: profile.allergies,
+              medications: profile.medications,
+              conditions: profile.conditions
+          },
+          p_note: note.trim(),
+          p_by: user?.email
+      });
+      refreshData();
+      if (error) {
+          alert('รวมข้อมูลไม่สำเร็จ: ' + error.message);
+          return false;
+      }
+      return true;
+  };
+
+  // Staff may proceed past a contraindication only by giving a reason, which goes on record
+  const safetyBlocked = (hits: ContraindicationHit[], safetyNote?: string) => {
+      if (hits.length === 0 || safetyNote?.trim()) return false;
+      alert('พบข้อห้ามทางการแพทย์ กรุณายืนยันก่อนดำเนินการ:\n' + hits.map(h => `- ${h.source}: ${MEDICAL_FLAG_LABELS[h.rule.type]} "${h.match}"`).join('\n'));
+      return true;
+  };
+
+  // Written once the action has gone through, pointing at the record it created
+  const logContraindicationOverride = async (customerId: string, context: SafetyCheckContext, itemName: string, hits: ContraindicationHit[], note: string | undefined, referenceType: ContraindicationOverride['referenceType'], referenceId: string) => {
+      if (hits.length === 0) return;
+      const { error } = await supabase.from('contraindication_overrides').insert([{
+          customer_id: customerId,
+          context,
+          item_name: itemName,
+          hits,
+          note: note?.trim() || '',
+          acknowledged_by: user?.email,
+          reference_type: referenceType,
+          reference_id: referenceId
+      }]);
+      if (error) console.error('Failed to log contraindication override', error);
+  };
+
+  // The booked service, plus the course line it is done against
+  const appointmentContraindications = (customerId: string, serviceId: string, customerCourseId?: string) => {
+      const course = customerCourseId ? findCourseOwner(customers, customerCourseId)?.activeCourses.find(c => c.id === customerCourseId) : undefined;
+      return findContraindications(customers.find(c => c.id === customerId), [
+          ...serviceSources(services.find(s => s.id === serviceId), inventory),
+          ...(course ? courseSources(courseDefinitions.find(cd => cd.id === course.courseId), services, inventory, pickEntitlement(course, serviceId)?.entitlementId) : [])
+      ]);
+  };
+
   // SERVICES
   const addService = async (service: Omit<Service, 'id'>) => {
+    if (service.price && denied('pricing.edit')) return;
     const { error } = await supabase.from('services').insert([{
         name: service.name,
         price: service.price,
         duration_minutes: service.durationMinutes,
         category: service.category,
         consumables: service.consumables,
-        image_url: service.imageUrl
+        image_url: service.imageUrl,
+        contraindications: service.contraindications || []
     }]).select();
     
     if (error) {
@@ -333,6 +1301,8 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   };
 
   const updateService = async (id: string, data: Partial<Service>) => {
+    const current = services.find(s => s.id === id);
+    if (data.price !== undefined && data.price !== current?.price && denied('pricing.edit')) return;
     const updatePayload: any = {};
     if (data.name) updatePayload.name = data.name;
     if (data.price !== undefined) updatePayload.price = data.price;
@@ -340,6 +1310,7 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     if (data.category) updatePayload.category = data.category;
     if (data.consumables) updatePayload.consumables = data.consumables;
     if (data.imageUrl !== undefined) updatePayload.image_url = data.imageUrl;
+    if (data.contraindications) updatePayload.contraindications = data.contraindications;
 
     const { error } = await supabase.from('services').update(updatePayload).eq('id', id);
     if (error) {
@@ -359,37 +1330,112 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   };
 
   // INVENTORY
-  const updateStock = async (id: string, quantityChange: number) => {
+  // Stock never overwrites inventory.quantity; every change is an append-only ledger entry
+  const recordStockMovements = async (movements: Omit<StockMovement, 'id' | 'date' | 'createdBy'>[]) => {
+      if (movements.length === 0) return true;
+      const { error } = await supabase.from('stock_movements').insert(movements.map(m => ({
+          inventory_item_id: m.inventoryItemId,
+          lot_id: m.lotId,
+          movement_type: m.type,
+          quantity: m.quantity,
+          unit_cost: m.unitCost,
+          reference_type: m.referenceType,
+          reference_id: m.referenceId,
+          reason: m.reason,
+          created_by: user?.email
+      })));
+      if (error) {
+          console.error("Stock movement error:", error);
+          alert('บันทึกความเคลื่อนไหวสต็อกไม่สำเร็จ: ' + error.message);
+          return false;
+      }
+      return true;
+  };
+
+  const updateStock = async (id: string, quantityChange: number, type: StockMovementType = 'adjustment', reason?: string, lotId?: string) => {
      const item = inventory.find(i => i.id === id);
      if (item) {
-         const newQty = Math.max(0, item.quantity + quantityChange);
-         await supabase.from('inventory').update({ quantity: newQty }).eq('id', id);
+         // Never take stock (or the chosen lot) below zero
+         const lot = item.lots.find(l => l.id === lotId);
+         const change = Math.max(-(lot ? lot.quantity : item.quantity), quantityChange);
+         if (change === 0) return;
+         await recordStockMovements([{ inventoryItemId: id, lotId: lot?.id, type, quantity: change, reason }]);
          refreshData();
      }
   };
 
-  const addInventoryItem = async (item: Omit<InventoryItem, 'id'>) => {
-    await supabase.from('inventory').insert([{
+  // Returns the new lot id, undefined when no lot number was given, or null on failure
+  const createLot = async (inventoryItemId: string, lot: { lotNumber?: string; expiryDate?: string | null; receivedDate: string }) => {
+      if (!lot.lotNumber) return undefined;
+      const { data, error } = await supabase.from('inventory_lots').insert([{
+          inventory_item_id: inventoryItemId,
+          lot_number: lot.lotNumber,
+          expiry_date: lot.expiryDate || null,
+          received_date: lot.receivedDate
+      }]).select().single();
+      if (error) {
+          alert('Failed to add lot: ' + error.message);
+          return null;
+      }
+      return data.id as string;
+  };
+
+  const receiveStock = async (id: string, quantity: number, lot: { lotNumber: string; expiryDate: string | null; receivedDate: string }, reason?: string) => {
+      const lotId = await createLot(id, lot);
+      if (lotId === null) return;
+      await recordStockMovements([{ inventoryItemId: id, lotId, type: 'receive', quantity, reason }]);
+      refreshData();
+  };
+
+  const addInventoryItem = async (item: Omit<InventoryItem, 'id' | 'lots'>) => {
+    const { data, error } = await supabase.from('inventory').insert([{
         name: item.name,
-        quantity: item.quantity,
         unit: item.unit,
         min_level: item.minLevel,
-        price_per_unit: item.pricePerUnit
-    }]);
+        target_level: item.targetLevel,
+        preferred_supplier_id: item.preferredSupplierId || null,
+        price_per_unit: item.pricePerUnit,
+        contraindications: item.contraindications || []
+    }]).select().single();
+    if (error) {
+        alert('Failed to add inventory: ' + error.message);
+        return;
+    }
+    if (item.quantity > 0) {
+        await recordStockMovements([{ inventoryItemId: data.id, type: 'receive', quantity: item.quantity, reason: 'Opening stock' }]);
+    }
     refreshData();
   };
 
   const updateInventoryItem = async (id: string, data: Partial<InventoryItem>) => {
       const updatePayload: any = {};
       if (data.name) updatePayload.name = data.name;
-      if (data.quantity !== undefined) updatePayload.quantity = data.quantity;
       if (data.unit) updatePayload.unit = data.unit;
       if (data.minLevel !== undefined) updatePayload.min_level = data.minLevel;
+      if (data.targetLevel !== undefined) updatePayload.target_level = data.targetLevel;
+      if (data.preferredSupplierId !== undefined) updatePayload.preferred_supplier_id = data.preferredSupplierId || null;
       if (data.pricePerUnit !== undefined) updatePayload.price_per_unit = data.pricePerUnit;
+      if (data.contraindications) updatePayload.contraindications = data.contraindications;
 
       const { error } = await supabase.from('inventory').update(updatePayload).eq('id', id);
-      if (error) alert('Failed to update inventory: ' + error.message);
-      else refreshData();
+      if (error) {
+          alert('Failed to update inventory: ' + error.message);
+          return;
+      }
+
+      // A corrected count is posted as an adjustment for the difference from the database's
+      // balance, not from what this screen last loaded
+      const current = inventory.find(i => i.id === id);
+      if (current && data.quantity !== undefined && data.quantity !== current.quantity) {
+          const { error: countError } = await supabase.rpc('set_stock_count', {
+              p_item_id: id,
+              p_quantity: data.quantity,
+              p_reason: 'Stock count correction',
+              p_created_by: user?.email
+          });
+          if (countError) alert('Failed to record stock count: ' + countError.message);
+      }
+      refreshData();
   };
 
   const deleteInventoryItem = async (id: string) => {
@@ -398,26 +1444,372 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       else refreshData();
   };
 
+  // PURCHASING
+  const addSupplier = async (supplier: Omit<Supplier, 'id'>) => {
+      const { error } = await supabase.from('suppliers').insert([{
+          name: supplier.name,
+          contact_name: supplier.contactName,
+          phone: supplier.phone,
+          email: supplier.email,
+          tax_id: supplier.taxId,
+          notes: supplier.notes
+      }]);
+      if (error) alert('Failed to add supplier: ' + error.message);
+      else refreshData();
+  };
+
+  const updateSupplier = async (id: string, data: Partial<Supplier>) => {
+      const updatePayload: any = {};
+      if (data.name) updatePayload.name = data.name;
+      if (data.contactName !== undefined) updatePayload.contact_name = data.contactName;
+      if (data.phone !== undefined) updatePayload.phone = data.phone;
+      if (data.email !== undefined) updatePayload.email = data.email;
+      if (data.taxId !== undefined) updatePayload.tax_id = data.taxId;
+      if (data.notes !== undefined) updatePayload.notes = data.notes;
+
+      const { error } = await supabase.from('suppliers').update(updatePayload).eq('id', id);
+      if (error) alert('Failed to update supplier: ' + error.message);
+      else refreshData();
+  };
+
+  const deleteSupplier = async (id: string) => {
+      const { error } = await supabase.from('suppliers').delete().eq('id', id);
+      if (error) alert('ไม่สามารถลบผู้จำหน่ายที่มีใบสั่งซื้ออยู่ได้ (Cannot delete supplier with purchase orders)');
+      else refreshData();
+  };
+
+  // Clinic-local date plus a running number for the year handed out by the database, e.g. PO20240115-37,
+  // so two devices can't produce the same number; null when numbering failed
+  const nextPoNumber = async () => {
+      const today = new Date();
+      const { data: sequence, error } = await supabase.rpc('next_document_number', {
+          p_doc_type: 'purchase_order',
+          p_branch_code: clinicProfile.branchCode,
+          p_year: today.getFullYear()
+      });
+      if (error || !sequence) {
+          alert('ออกเลขที่ใบสั่งซื้อไม่สำเร็จ: ' + (error?.message || 'Unknown error'));
+          return null;
+      }
+      return `PO${toISODate(today).replace(/-/g, '')}-${sequence}`;
+  };
+
+  const insertPurchaseOrder = async (po: { supplierId: string | null; expectedDate?: string | null; notes?: string; lines: Omit<PurchaseOrderLine, 'id' | 'quantityReceived'>[] }) => {
+      const poNumber = await nextPoNumber();
+      if (!poNumber) return false;
+      const { data, error } = await supabase.from('purchase_orders').insert([{
+          po_number: poNumber,
+          supplier_id: po.supplierId,
+          status: 'draft',
+          expected_date: po.expectedDate || null,
+          notes: po.notes
+      }]).select().single();
+      if (error) {
+          alert('Failed to create purchase order: ' + error.message);
+          return false;
+      }
+      const { error: lineError } = await supabase.from('purchase_order_lines').insert(po.lines.map(l => ({
+          purchase_order_id: data.id,
+          inventory_item_id: l.inventoryItemId,
+          quantity_ordered: l.quantityOrdered,
+          quantity_received: 0,
+          unit_cost: l.unitCost
+      })));
+      if (lineError) {
+          alert('Failed to add purchase order lines: ' + lineError.message);
+          return false;
+      }
+      return true;
+  };
+
+  const createPurchaseOrder = async (po: { supplierId: string | null; expectedDate?: string | null; notes?: string; lines: Omit<PurchaseOrderLine, 'id' | 'quantityReceived'>[] }) => {
+      await insertPurchaseOrder(po);
+      refreshData();
+  };
+
+  const updatePurchaseOrderStatus = async (id: string, status: PurchaseOrderStatus) => {
+      const updatePayload: any = { status };
+      if (status === 'ordered') updatePayload.order_date = new Date().toISOString().split('T')[0];
+      const { error } = await supabase.from('purchase_orders').update(updatePayload).eq('id', id);
+      if (error) alert('Failed to update purchase order: ' + error.message);
+      else refreshData();
+  };
+
+  const deletePurchaseOrder = async (id: string) => {
+      const po = purchaseOrders.find(p => p.id === id);
+      if (po && po.status !== 'draft') {
+          alert('ลบได้เฉพาะใบสั่งซื้อฉบับร่างเท่านั้น (Only draft purchase orders can be deleted)');
+          return;
+      }
+      await supabase.from('purchase_order_lines').delete().eq('purchase_order_id', id);
+      const { error } = await supabase.from('purchase_orders').delete().eq('id', id);
+      if (error) alert('Failed to delete purchase order: ' + error.message);
+      else refreshData();
+  };
+
+  // Posts a receive movement per line at the actual unit cost and advances the PO status.
+  // Stops at the first failure; the status still reflects the lines that did go through.
+  const receivePurchaseOrder = async (id: string, receipts: PurchaseOrderReceipt[]) => {
+      const po = purchaseOrders.find(p => p.id === id);
+      if (!po) return;
+      const receivedDate = new Date().toISOString().split('T')[0];
+      const received: Record<string, number> = {};
+
+      for (const receipt of receipts.filter(r => r.quantity > 0)) {
+          const line = po.lines.find(l => l.id === receipt.lineId);
+          if (!line) continue;
+          const lotId = await createLot(line.inventoryItemId, { lotNumber: receipt.lotNumber, expiryDate: receipt.expiryDate, receivedDate });
+          if (lotId === null) break;
+          const moved = await recordStockMovements([{
+              inventoryItemId: line.inventoryItemId,
+              lotId,
+              type: 'receive',
+              quantity: receipt.quantity,
+              unitCost: receipt.unitCost,
+              referenceType: 'purchase_order',
+              referenceId: po.id,
+              reason: po.poNumber
+          }]);
+          if (!moved) break;
+          received[line.id] = receipt.quantity;
+          const { error } = await supabase.from('purchase_order_lines').update({ quantity_received: line.quantityReceived + receipt.quantity }).eq('id', line.id);
+          if (error) {
+              alert('Failed to update purchase order line: ' + error.message);
+              break;
+          }
+      }
+
+      if (Object.keys(received).length > 0 || po.lines.some(l => l.quantityReceived > 0)) {
+          const fullyReceived = po.lines.every(l => l.quantityReceived + (received[l.id] || 0) >= l.quantityOrdered);
+          await supabase.from('purchase_orders').update({ status: fullyReceived ? 'received' : 'partially_received' }).eq('id', id);
+      }
+      refreshData();
+  };
+
+  // Quantity still to arrive on draft and open purchase orders
+  const quantityOnOrder = (inventoryItemId: string) =>
+      purchaseOrders
+          .filter(po => po.status !== 'received')
+          .flatMap(po => po.lines)
+          .filter(l => l.inventoryItemId === inventoryItemId)
+          .reduce((sum, l) => sum + Math.max(0, l.quantityOrdered - l.quantityReceived), 0);
+
+  // Drafts one PO per preferred supplier covering every item whose usable stock plus
+  // what is already on order falls below its min level, so re-running adds no duplicates
+  const suggestReorder = async () => {
+      const position = (item: InventoryItem) => getUsableQuantity(item) + quantityOnOrder(item.id);
+      const lowItems = inventory.filter(i => position(i) < i.minLevel);
+      const bySupplier = lowItems.reduce((acc, item) => {
+          const key = item.preferredSupplierId || '';
+          (acc[key] = acc[key] || []).push(item);
+          return acc;
+      }, {} as Record<string, InventoryItem[]>);
+
+      let created = 0;
+      for (const supplierId of Object.keys(bySupplier)) {
+          const lines = bySupplier[supplierId].map(item => ({
+              inventoryItemId: item.id,
+              // Target level defaults to twice the reorder point
+              quantityOrdered: Math.ceil((item.targetLevel || item.minLevel * 2) - position(item)),
+              unitCost: item.pricePerUnit
+          })).filter(l => l.quantityOrdered > 0);
+          if (lines.length === 0) continue;
+          const ok = await insertPurchaseOrder({ supplierId: supplierId || null, notes: 'Suggested reorder', lines });
+          if (ok) created++;
+      }
+      refreshData();
+      return created;
+  };
+
+  // STAFF
+  const staffPayload = (member: Partial<Staff>) => {
+      const payload: any = {};
+      if (member.name !== undefined) payload.name = member.name;
+      if (member.role !== undefined) payload.role = member.role;
+      if (member.licenseNumber !== undefined) payload.license_number = member.licenseNumber;
+      if (member.active !== undefined) payload.active = member.active;
+      if (member.workingHours !== undefined) payload.working_hours = member.workingHours;
+      if (member.qualifiedServiceIds !== undefined) payload.qualified_service_ids = member.qualifiedServiceIds;
+      return payload;
+  };
+
+  const addStaff = async (member: Omit<Staff, 'id'>) => {
+      const { error } = await supabase.from('staff').insert([staffPayload(member)]);
+      if (error) alert('Failed to add staff: ' + error.message);
+      else refreshData();
+  };
+
+  // Renaming only touches the staff row; history keeps staff_id and its own name snapshot
+  const updateStaff = async (id: string, data: Partial<Staff>) => {
+      const { error } = await supabase.from('staff').update(staffPayload(data)).eq('id', id);
+      if (error) alert('Failed to update staff: ' + error.message);
+      else refreshData();
+  };
+
+  const deleteStaff = async (id: string) => {
+      const { error } = await supabase.from('staff').delete().eq('id', id);
+      if (error) alert('Failed to delete staff (ถ้ามีประวัติการรักษาแล้ว ให้ปิดการใช้งานแทน): ' + error.message);
+      else refreshData();
+  };
+
+  // USERS
+  const updateUserRole = async (userId: string, newRole: UserRole) => {
+      if (denied('users.manage')) return;
+      const admins = userAccounts.filter(u => u.role === 'admin');
+      if (newRole !== 'admin' && admins.length === 1 && admins[0].userId === userId) {
+          alert('ต้องมีผู้ดูแลระบบ (Admin) อย่างน้อย 1 คน');
+          return;
+      }
+      // Checked again in the database: only an admin's call is accepted there
+      const { error } = await supabase.rpc('set_user_role', { p_user_id: userId, p_role: newRole });
+      if (error) alert('Failed to update user role: ' + error.message);
+      else refreshData();
+  };
+
+  // COMMISSIONS
+  const commissionRulePayload = (rule: Partial<CommissionRule>) => {
+      const payload: any = {};
+      if (rule.staffId !== undefined) payload.staff_id = rule.staffId;
+      if (rule.targetType !== undefined) payload.target_type = rule.targetType;
+      if (rule.targetId !== undefined) payload.target_id = rule.targetId;
+      if (rule.method !== undefined) payload.method = rule.method;
+      if (rule.value !== undefined) payload.value = rule.value;
+      if (rule.tiers !== undefined) payload.tiers = rule.tiers;
+      if (rule.tierValueType !== undefined) payload.tier_value_type = rule.tierValueType;
+      if (rule.active !== undefined) payload.active = rule.active;
+      return payload;
+  };
+
+  const addCommissionRule = async (rule: Omit<CommissionRule, 'id'>) => {
+      const { error } = await supabase.from('commission_rules').insert([commissionRulePayload(rule)]);
+      if (error) alert('Failed to add commission rule: ' + error.message);
+      else refreshData();
+  };
+
+  const updateCommissionRule = async (id: string, data: Partial<CommissionRule>) => {
+      const { error } = await supabase.from('commission_rules').update(commissionRulePayload(data)).eq('id', id);
+      if (error) alert('Failed to update commission rule: ' + error.message);
+      else refreshData();
+  };
+
+  const deleteCommissionRule = async (id: string) => {
+      const { error } = await supabase.from('commission_rules').delete().eq('id', id);
+      if (error) alert('Failed to delete commission rule: ' + error.message);
+      else refreshData();
+  };
+
+  // PROMOTIONS
+  const promotionPayload = (promo: Partial<Promotion>) => {
+      const payload: any = {};
+      if (promo.name !== undefined) payload.name = promo.name;
+      if (promo.code !== undefined) payload.code = promo.code.trim().toUpperCase() || null;
+      if (promo.discountType !== undefined) payload.discount_type = promo.discountType;
+      if (promo.discountValue !== undefined) payload.discount_value = promo.discountValue;
+      if (promo.targetType !== undefined) payload.target_type = promo.targetType;
+      if (promo.targetIds !== undefined) payload.target_ids = promo.targetIds;
+      if (promo.startDate !== undefined) payload.start_date = promo.startDate || null;
+      if (promo.endDate !== undefined) payload.end_date = promo.endDate || null;
+      if (promo.usageLimit !== undefined) payload.usage_limit = promo.usageLimit;
+      if (promo.active !== undefined) payload.active = promo.active;
+      return payload;
+  };
+
+  const addPromotion = async (promo: Omit<Promotion, 'id' | 'usedCount'>) => {
+      if (denied('pricing.edit')) return;
+      const { error } = await supabase.from('promotions').insert([promotionPayload(promo)]);
+      if (error) alert('Failed to add promotion: ' + error.message);
+      else refreshData();
+  };
+
+  const updatePromotion = async (id: string, data: Partial<Promotion>) => {
+      if (denied('pricing.edit')) return;
+      const { error } = await supabase.from('promotions').update(promotionPayload(data)).eq('id', id);
+      if (error) alert('Failed to update promotion: ' + error.message);
+      else refreshData();
+  };
+
+  const deletePromotion = async (id: string) => {
+      if (denied('pricing.edit')) return;
+      // Promotions already used on a sale stay on file for campaign reports
+      if (transactions.some(t => t.promotionId === id)) {
+          const { error } = await supabase.from('promotions').update({ active: false }).eq('id', id);
+          if (error) alert('Failed to deactivate promotion: ' + error.message);
+          else {
+              alert('โปรโมชั่นนี้ถูกใช้ในการขายแล้ว จึงปิดการใช้งานแทนการลบ');
+              refreshData();
+          }
+          return;
+      }
+      const { error } = await supabase.from('promotions').delete().eq('id', id);
+      if (error) alert('Failed to delete promotion: ' + error.message);
+      else refreshData();
+  };
+
+  // Units the doctor has already been paid for under this rule in the current month (drives tiers)
+  const monthToDateUnits = (staffId: string, ruleId: string) => {
+      const month = new Date().toISOString().slice(0, 7);
+      return doctorFees
+        .filter(f => f.staffId === staffId && f.ruleId === ruleId && f.date?.startsWith(month))
+        .reduce((sum, f) => sum + f.units, 0);
+  };
+
+  const estimateDoctorFee = (staffId: string, targetType: 'service' | 'course', targetId: string, units: number, unitPrice: number, extraPriorUnits = 0) => {
+      const rule = findCommissionRule(commissionRules, staffId, targetType, targetId);
+      if (!rule) return { amount: 0 };
+      const priorUnits = monthToDateUnits(staffId, rule.id) + extraPriorUnits;
+      return { amount: Math.round(calculateCommission(rule, units, unitPrice, priorUnits) * 100) / 100, ruleId: rule.id };
+  };
+
+  const recordDoctorFees = async (fees: Omit<DoctorFee, 'id' | 'date'>[]) => {
+      // Negative amounts reverse fees on voided or refunded sales. Zero-amount rows under a rule
+      // are kept so their units still count towards the month's tiers.
+      const payable = fees.filter(f => f.staffId && (f.amount !== 0 || f.ruleId));
+      if (payable.length === 0) return;
+      const { error } = await supabase.from('doctor_fees').insert(payable.map(f => ({
+          staff_id: f.staffId,
+          doctor_name: f.doctorName,
+          source_type: f.sourceType,
+          source_id: f.sourceId,
+          item_id: f.itemId,
+          item_name: f.itemName,
+          units: f.units,
+          unit_price: f.unitPrice,
+          amount: f.amount,
+          rule_id: f.ruleId
+      })));
+      if (error) console.error("Doctor fee error:", error);
+  };
+
   // COURSES
   const addCourse = async (course: Omit<CourseDefinition, 'id'>) => {
+      if (course.price && denied('pricing.edit')) return;
       const { error } = await supabase.from('courses').insert([{
           name: course.name,
           price: course.price,
-          total_units: course.totalUnits,
+          total_units: isBundle(course) ? bundleTotalUnits(course) : course.totalUnits,
           description: course.description,
-          consumables: course.consumables
+          consumables: course.consumables,
+          validity_months: course.validityMonths || null,
+          validity_start: course.validityStart || 'purchase',
+          entitlements: course.entitlements || []
       }]);
       if (error) alert('Failed to add course: ' + error.message);
       else refreshData();
   };
 
   const updateCourse = async (id: string, data: Partial<CourseDefinition>) => {
+      const current = courseDefinitions.find(c => c.id === id);
+      if (data.price !== undefined && data.price !== current?.price && denied('pricing.edit')) return;
       const updatePayload: any = {};
       if (data.name) updatePayload.name = data.name;
       if (data.price !== undefined) updatePayload.price = data.price;
       if (data.totalUnits !== undefined) updatePayload.total_units = data.totalUnits;
+      if (data.entitlements?.length) updatePayload.total_units = bundleTotalUnits(data);
       if (data.description) updatePayload.description = data.description;
       if (data.consumables) updatePayload.consumables = data.consumables;
+      if (data.validityMonths !== undefined) updatePayload.validity_months = data.validityMonths || null;
+      if (data.validityStart) updatePayload.validity_start = data.validityStart;
+      if (data.entitlements) updatePayload.entitlements = data.entitlements;
 
       const { error } = await supabase.from('courses').update(updatePayload).eq('id', id);
       if (error) alert('Failed to update course: ' + error.message);
@@ -431,20 +1823,402 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   };
 
 
+  // Paid in full on the spot, as a one-line sale so it shows up in revenue and on receipts.
+  // Wallet top-ups and voucher sales use kind 'wallet': the money is on record but not revenue yet.
+  const recordFeeSale = async (customerId: string | null, itemName: string, fee: number, paymentMethod: PaymentMethod, kind: TransactionKind = 'sale') => {
+      const { data: feeSale, error } = await supabase.from('transactions').insert([{
+          customer_id: customerId,
+          total_amount: fee,
+          subtotal: fee,
+          payment_method: paymentMethod,
+          installments: [],
+          items: [{ name: itemName, price: fee, quantity: 1 }],
+          kind,
+          status: 'completed',
+          created_by: user?.email
+      }]).select().single();
+      if (error || !feeSale) {
+          alert(`บันทึก${itemName}ไม่สำเร็จ: ` + (error?.message || 'Unknown error'));
+          return null;
+      }
+      if (paymentMethod === 'Wallet' && customerId && !(await spendWallet(customerId, fee, feeSale.id))) {
+          await discardSale(feeSale.id);
+          return null;
+      }
+      await supabase.from('payments').insert([{ transaction_id: feeSale.id, customer_id: customerId, method: paymentMethod, amount: fee, received_by: user?.email }]);
+      return feeSale.id as string;
+  };
+
+  // Takes back a sale row whose payment or follow-up write could not be completed,
+  // along with any wallet credit it spent
+  const discardSale = async (id: string) => {
+      await supabase.from('wallet_entries').delete().eq('transaction_id', id).eq('type', 'spend');
+      await supabase.from('payments').delete().eq('transaction_id', id);
+      await supabase.from('transactions').delete().eq('id', id);
+  };
+
+  // Moves a course instance's expiry; a fee is billed as its own sale, a free extension needs a manager
+  const extendCourse = async (customerCourseId: string, newExpiry: string, fee: number, paymentMethod: PaymentMethod, reason: string) => {
+      if (denied('pos.sell')) return false;
+      if (fee <= 0 && denied('discounts.approve')) return false;
+      const customer = customers.find(c => c.activeCourses.some(cc => cc.id === customerCourseId));
+      const instance = customer?.activeCourses.find(cc => cc.id === customerCourseId);
+      if (!customer || !instance) return false;
+      if (newExpiry < toISODate(new Date()) || (instance.expiryDate && newExpiry <= instance.expiryDate.slice(0, 10))) {
+          alert('วันหมดอายุใหม่ต้องอยู่หลังวันหมดอายุเดิมและไม่ก่อนวันนี้');
+          return false;
+      }
+      if (!reason.trim()) {
+          alert('กรุณาระบุเหตุผลการต่ออายุ');
+          return false;
+      }
+      if (paymentMethod === 'Wallet' && fee > getCustomerWalletBalance(customer.id)) {
+          alert(`เครดิตในวอลเล็ทไม่พอ (คงเหลือ ฿${getCustomerWalletBalance(customer.id).toLocaleString()})`);
+          return false;
+      }
+
+      let transactionId: string | null = null;
+      if (fee > 0) {
+          transactionId = await recordFeeSale(customer.id, `ต่ออายุคอร์ส ${instance.courseName}`, fee, paymentMethod);
+          if (!transactionId) return false;
+      }
+
+      const { error } = await supabase.from('customer_courses').update({ expiry_date: newExpiry }).eq('id', customerCourseId);
+      if (error) {
+          if (transactionId) await discardSale(transactionId);
+          alert('Failed to extend course: ' + error.message);
+          return false;
+      }
+      await supabase.from('course_extensions').insert([{
+          customer_course_id: customerCourseId,
+          customer_id: customer.id,
+          previous_expiry: instance.expiryDate,
+          new_expiry: newExpiry,
+          fee: Math.max(0, fee),
+          transaction_id: transactionId,
+          reason: reason.trim(),
+          created_by: user?.email
+      }]);
+      refreshData();
+      return true;
+  };
+
+  const logCourseAdjustment = (row: Record<string, unknown>) =>
+      supabase.from('course_adjustments').insert([{ ...row, created_by: user?.email }]);
+
+  // Hands every remaining unit to another customer; the instance keeps its sale so void/refund still reach it
+  const transferCourse = async (customerCourseId: string, targetCustomerId: string, reason: string) => {
+      if (denied('pos.sell')) return false;
+      const owner = findCourseOwner(customers, customerCourseId);
+      const instance = owner?.activeCourses.find(cc => cc.id === customerCourseId);
+      if (!owner || !instance || !instance.active) return false;
+      if (targetCustomerId === owner.id) return false;
+      if (!reason.trim()) {
+          alert('กรุณาระบุเหตุผล');
+          return false;
+      }
+      // The new owner no longer needs to be listed as a member
+      const sharedWith = (instance.sharedWith || []).filter(id => id !== targetCustomerId);
+      const { data: moved, error } = await supabase.from('customer_courses')
+          .update({ customer_id: targetCustomerId, shared_with: sharedWith })
+          .eq('id', customerCourseId).eq('customer_id', owner.id).select();
+      if (error || !moved?.length) {
+          alert('โอนคอร์สไม่สำเร็จ: ' + (error?.message || 'คอร์สถูกเปลี่ยนแปลงไปแล้ว'));
+          refreshData();
+          return false;
+      }
+      await logCourseAdjustment({
+          type: 'transfer',
+          customer_course_id: customerCourseId,
+          customer_id: owner.id,
+          target_customer_id: targetCustomerId,
+          units: instance.remainingUnits,
+          reason: reason.trim()
+      });
+      refreshData();
+      return true;
+  };
+
+  const setCourseMember = async (customerCourseId: string, memberId: string, reason: string, add: boolean) => {
+      if (denied('pos.sell')) return false;
+      const owner = findCourseOwner(customers, customerCourseId);
+      const instance = owner?.activeCourses.find(cc => cc.id === customerCourseId);
+      if (!owner || !instance || memberId === owner.id) return false;
+      if (!reason.trim()) {
+          alert('กรุณาระบุเหตุผล');
+          return false;
+      }
+      const current = instance.sharedWith || [];
+      if (add === current.includes(memberId)) return true;
+      const sharedWith = add ? [...current, memberId] : current.filter(id => id !== memberId);
+      const { error } = await supabase.from('customer_courses').update({ shared_with: sharedWith }).eq('id', customerCourseId);
+      if (error) {
+          alert('Failed to update course members: ' + error.message);
+          return false;
+      }
+      await logCourseAdjustment({
+          type: add ? 'share' : 'unshare',
+          customer_course_id: customerCourseId,
+          customer_id: owner.id,
+          target_customer_id: memberId,
+          units: 0,
+          reason: reason.trim()
+      });
+      refreshData();
+      return true;
+  };
+
+  const shareCourse = (customerCourseId: string, memberId: string, reason: string) => setCourseMember(customerCourseId, memberId, reason, true);
+  const unshareCourse = (customerCourseId: string, memberId: string, reason: string) => setCourseMember(customerCourseId, memberId, reason, false);
+
+  // Closes the old instance and opens the target course, carrying over what the remaining units were worth
+  const convertCourse = async (customerCourseId: string, targetCourseId: string, units: number, paymentMethod: PaymentMethod, reason: string) => {
+      if (denied('pos.sell')) return false;
+      const owner = findCourseOwner(customers, customerCourseId);
+      const instance = owner?.activeCourses.find(cc => cc.id === customerCourseId);
+      const target = courseDefinitions.find(c => c.id === targetCourseId);
+      if (!owner || !instance || !target || !instance.active || instance.remainingUnits <= 0) return false;
+      if (target.id === instance.courseId) {
+          alert('กรุณาเลือกคอร์สปลายทางที่ต่างจากคอร์สเดิม');
+          return false;
+      }
+      if (isCourseExpired(instance)) {
+          alert('คอร์สนี้หมดอายุแล้ว กรุณาต่ออายุก่อนแปลงคอร์ส');
+          return false;
+      }
+      if (!Number.isInteger(units) || units < 1) {
+          alert('จำนวนครั้งของคอร์สใหม่ต้องเป็นจำนวนเต็มอย่างน้อย 1 ครั้ง');
+          return false;
+      }
+      if (isBundle(target) && units !== target.totalUnits) {
+          alert('คอร์สแบบแพ็กเกจต้องแปลงเป็นทั้งแพ็กเกจ');
+          return false;
+      }
+      if (!reason.trim()) {
+          alert('กรุณาระบุเหตุผล');
+          return false;
+      }
+      const quote = quoteConversion(instance, target, transactions, courseDefinitions, units);
+      if (quote.fee > 0 && paymentMethod === 'Wallet' && quote.fee > getCustomerWalletBalance(owner.id)) {
+          alert(`เครดิตในวอลเล็ทไม่พอ (คงเหลือ ฿${getCustomerWalletBalance(owner.id).toLocaleString()})`);
+          return false;
+      }
+
+      // Claim the remaining units so a concurrent cut or conversion can't spend them twice
+      const { data: claimed, error: claimError } = await supabase.from('customer_courses')
+          .update({ remaining_units: 0, active: false })
+          .eq('id', instance.id).eq('remaining_units', instance.remainingUnits).select();
+      if (claimError || !claimed?.length) {
+          alert('แปลงคอร์สไม่สำเร็จ: ' + (claimError?.message || 'คอร์สถูกใช้งานหรือเปลี่ยนแปลงไปแล้ว'));
+          refreshData();
+          return false;
+      }
+      const restore = () => supabase.from('customer_courses').update({ remaining_units: instance.remainingUnits, active: true }).eq('id', instance.id);
+
+      let transactionId: string | null = null;
+      if (quote.fee > 0) {
+          transactionId = await recordFeeSale(owner.id, `ส่วนต่างแปลงคอร์ส ${instance.courseName} → ${target.name}`, quote.fee, paymentMethod);
+          if (!transactionId) {
+              await restore();
+              return false;
+          }
+      }
+
+      const { data: created, error } = await supabase.from('customer_courses').insert([{
+          customer_id: owner.id,
+          course_id: target.id,
+          course_name: target.name,
+          total_units: units,
+          remaining_units: units,
+          active: true,
+          // Tied to the original sale so voiding it also cancels the converted course
+          transaction_id: instance.transactionId || transactionId,
+          expiry_date: expiryAtSale(target, toISODate(new Date())),
+          validity_months: target.validityMonths || null,
+          validity_start: target.validityStart || 'purchase',
+          shared_with: instance.sharedWith || [],
+          entitlements: isBundle(target) ? instanceEntitlements(target, services) : null
+      }]).select().single();
+      if (error || !created) {
+          if (transactionId) await discardSale(transactionId);
+          await restore();
+          alert('Failed to convert course: ' + (error?.message || 'Unknown error'));
+          return false;
+      }
+      await logCourseAdjustment({
+          type: 'convert',
+          customer_course_id: instance.id,
+          customer_id: owner.id,
+          new_customer_course_id: created.id,
+          target_course_id: target.id,
+          units,
+          value: quote.value,
+          fee: quote.fee,
+          transaction_id: transactionId,
+          reason: reason.trim()
+      });
+      refreshData();
+      return true;
+  };
+
   // TRANSACTIONS & COURSE USAGE
-  const processSale = async (customerId: string, items: { type: 'service' | 'course'; id: string; price: number; quantity: number }[], paymentMethod: Transaction['paymentMethod']) => {
-      const totalAmount = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-      
+
+  // Sum consumable requirements per inventory item (quantityUsed x units)
+  const collectConsumables = (lines: { consumables?: Consumable[]; units: number }[]) => {
+      const required: Record<string, number> = {};
+      lines.forEach(line => {
+          (line.consumables || []).forEach(con => {
+              required[con.inventoryItemId] = (required[con.inventoryItemId] || 0) + con.quantityUsed * line.units;
+          });
+      });
+      return required;
+  };
+
+  // Single-visit services consume stock at the point of sale; courses consume it on usage
+  const getSaleConsumables = (items: SaleItem[]) => collectConsumables(
+      items
+        .filter(item => item.type === 'service')
+        .map(item => ({ consumables: services.find(s => s.id === item.id)?.consumables, units: item.quantity }))
+  );
+
+  const getStockShortages = (items: SaleItem[]): StockShortage[] => findStockShortages(getSaleConsumables(items));
+
+  // Items whose unexpired lots plus untracked stock can't cover the required quantity
+  const findStockShortages = (required: Record<string, number>): StockShortage[] =>
+      Object.keys(required).reduce((acc, invId) => {
+          const invItem = inventory.find(i => i.id === invId);
+          const available = invItem ? getUsableQuantity(invItem) : 0;
+          if (required[invId] > available) {
+              acc.push({ inventoryItemId: invId, name: invItem?.name || invId, unit: invItem?.unit || '', required: required[invId], available });
+          }
+          return acc;
+      }, [] as StockShortage[]);
+
+  // Split required quantities across lots (FEFO) so every deduction is traceable to a lot
+  const allocateStock = (required: Record<string, number>): LotUsage[] =>
+      Object.keys(required).flatMap(invId => {
+          const invItem = inventory.find(i => i.id === invId);
+          return invItem ? allocateFefo(invItem, required[invId]) : [];
+      });
+
+  const deductStock = async (allocations: LotUsage[], type: StockMovementType, referenceType: StockMovement['referenceType'], referenceId?: string) => {
+      await recordStockMovements(allocations.map(a => ({
+          inventoryItemId: a.inventoryItemId,
+          lotId: a.lotId,
+          type,
+          quantity: -a.quantity,
+          referenceType,
+          referenceId
+      })));
+  };
+
+  const processSale = async (customerId: string, items: SaleItem[], paymentMethod: Transaction['paymentMethod'], options: SaleOptions = {}) => {
+      // Block the sale if any consumable would go below zero
+      const shortages = getStockShortages(items);
+      if (shortages.length > 0) {
+          alert('สต็อกไม่พอสำหรับการขาย (Insufficient stock):\n' + shortages.map(s => `- ${s.name}: ต้องใช้ ${s.required} ${s.unit}, คงเหลือ ${s.available} ${s.unit}`).join('\n'));
+          return null;
+      }
+      const hits = findContraindications(customers.find(c => c.id === customerId), items.flatMap(item => item.type === 'service'
+          ? serviceSources(services.find(s => s.id === item.id), inventory)
+          : courseSources(courseDefinitions.find(c => c.id === item.id), services, inventory)));
+      if (safetyBlocked(hits, options.safetyNote)) return null;
+      if (consentBlocked(customerId, items.filter(item => item.type === 'service').map(item => item.id))) return null;
+
+      // Discounts are worked out again here rather than trusting the cart's figures
+      const promotion = options.promotionId ? promotions.find(p => p.id === options.promotionId) : undefined;
+      if (options.promotionId && (!promotion || !isPromotionRunning(promotion))) {
+          alert('โปรโมชั่นหรือคูปองนี้หมดอายุหรือถูกใช้ครบแล้ว');
+          return null;
+      }
+      const pricing = priceCart(items, services, promotion, options.billDiscount);
+      const needsApproval = needsDiscountApproval(pricing, clinicProfile.maxDiscountPercent);
+      if (needsApproval && !options.approvedBy && !hasPermission(role, 'discounts.approve')) {
+          alert(`ส่วนลดเกิน ${clinicProfile.maxDiscountPercent}% ต้องได้รับอนุมัติจากผู้จัดการ`);
+          return null;
+      }
+      const totalAmount = pricing.total;
+
+      // Whatever is not paid today must be scheduled as installments
+      const paymentLines = (options.payments || [{ method: paymentMethod, amount: totalAmount }]).filter(p => p.amount > 0);
+      const paidNow = round2(paymentLines.reduce((sum, p) => sum + p.amount, 0));
+      const unpaid = round2(totalAmount - paidNow);
+      const installments = unpaid > 0 ? options.installments || [] : [];
+      if (unpaid < 0) {
+          alert('ยอดชำระเกินยอดที่ต้องชำระ');
+          return null;
+      }
+      if (unpaid > 0 && round2(installments.reduce((sum, i) => sum + i.amount, 0)) !== unpaid) {
+          alert(`กรุณากำหนดงวดผ่อนชำระให้ครบยอดค้างชำระ ฿${unpaid.toLocaleString()}`);
+          return null;
+      }
+      const mainMethod = primaryMethod(paymentLines, paymentMethod);
+      const walletAmount = walletPart(paymentLines);
+      if (walletAmount > getCustomerWalletBalance(customerId)) {
+          alert(`เครดิตในวอลเล็ทไม่พอ (คงเหลือ ฿${getCustomerWalletBalance(customerId).toLocaleString()})`);
+          return null;
+      }
+
+      // Lines keep their type and catalog id so the sale can be voided or refunded later
+      const lines = items.map((item, i) => ({
+          type: item.type,
+          id: item.id,
+          name: item.name || (item.type === 'service' ? services : courseDefinitions).find(x => x.id === item.id)?.name || '',
+          price: item.price,
+          quantity: item.quantity,
+          staffId: item.staffId,
+          discount: pricing.lines[i].discount || undefined
+      }));
+
+      // Counted in the database so a coupon cannot pass its limit from two counters at once
+      if (promotion) {
+          const { data: redeemed, error: redeemError } = await supabase.rpc('redeem_promotion', { p_id: promotion.id, p_delta: 1 });
+          if (redeemError || !redeemed) {
+              alert('โปรโมชั่นหรือคูปองนี้ถูกใช้ครบจำนวนแล้ว' + (redeemError ? ': ' + redeemError.message : ''));
+              refreshData();
+              return null;
+          }
+      }
+
       const { data: transData, error: transError } = await supabase.from('transactions').insert([{
           customer_id: customerId,
           total_amount: totalAmount,
-          payment_method: paymentMethod,
-          items: items
+          payment_method: mainMethod,
+          installments,
+          items: lines,
+          subtotal: pricing.subtotal,
+          discount_amount: pricing.discountAmount,
+          promotion_discount: pricing.promotionDiscount,
+          promotion_id: promotion?.id || null,
+          promotion_name: promotion?.name || null,
+          coupon_code: promotion?.code ? options.couponCode || promotion.code : null,
+          discount_approved_by: options.approvedBy || (needsApproval ? user?.email : null),
+          kind: 'sale',
+          status: 'completed',
+          created_by: user?.email
       }]).select();
 
       if (transError || !transData) {
           console.error("Sale failed", transError);
-          return;
+          alert('บันทึกการขายไม่สำเร็จ: ' + (transError?.message || 'Unknown error'));
+          if (promotion) await supabase.rpc('redeem_promotion', { p_id: promotion.id, p_delta: -1 });
+          return null;
+      }
+      if (walletAmount > 0 && !(await spendWallet(customerId, walletAmount, transData[0].id))) {
+          await discardSale(transData[0].id);
+          if (promotion) await supabase.rpc('redeem_promotion', { p_id: promotion.id, p_delta: -1 });
+          return null;
+      }
+
+      if (paymentLines.length > 0) {
+          const { error: paymentError } = await supabase.from('payments').insert(paymentLines.map(p => ({
+              transaction_id: transData[0].id,
+              customer_id: customerId,
+              method: p.method,
+              amount: p.amount,
+              received_by: user?.email
+          })));
+          if (paymentError) alert('บันทึกการชำระเงินไม่สำเร็จ กรุณาบันทึกรับชำระอีกครั้งจากประวัติการขาย: ' + paymentError.message);
       }
 
       const courseInserts: any[] = [];
@@ -459,7 +2233,12 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
                           course_name: def.name,
                           total_units: def.totalUnits,
                           remaining_units: def.totalUnits,
-                          active: true
+                          active: true,
+                          transaction_id: transData[0].id,
+                          expiry_date: expiryAtSale(def, toISODate(new Date())),
+                          validity_months: def.validityMonths || null,
+                          validity_start: def.validityStart || 'purchase',
+                          entitlements: isBundle(def) ? instanceEntitlements(def, services) : null
                       });
                   }
               }
@@ -470,53 +2249,1008 @@ export const ClinicProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           await supabase.from('customer_courses').insert(courseInserts);
       }
 
+      await deductStock(allocateStock(getSaleConsumables(items)), 'sale', 'transaction', transData[0].id);
+
+      // Doctor fees for single-visit services performed at the time of sale
+      const saleFees: Omit<DoctorFee, 'id' | 'date'>[] = [];
+      const unitsThisSale: Record<string, number> = {};
+      lines.filter(item => item.type === 'service' && item.staffId).forEach(item => {
+          // Fees are based on what the customer actually paid for the line
+          const unitPrice = (item.price * item.quantity - (item.discount || 0)) / item.quantity;
+          // Earlier lines of the same bill count towards tiers too
+          const key = `${item.staffId}|${findCommissionRule(commissionRules, item.staffId!, 'service', item.id)?.id}`;
+          const fee = estimateDoctorFee(item.staffId!, 'service', item.id, item.quantity, unitPrice, unitsThisSale[key] || 0);
+          unitsThisSale[key] = (unitsThisSale[key] || 0) + item.quantity;
+          saleFees.push({
+              staffId: item.staffId,
+              doctorName: getStaffName(staff, item.staffId),
+              sourceType: 'transaction',
+              sourceId: transData[0].id,
+              itemId: item.id,
+              itemName: item.name,
+              units: item.quantity,
+              unitPrice,
+              amount: fee.amount,
+              ruleId: fee.ruleId
+          });
+      });
+      await recordDoctorFees(saleFees);
+      await logContraindicationOverride(customerId, 'sale', lines.map(l => l.name).join(', '), hits, options.safetyNote, 'transaction', transData[0].id);
+
+      const receipt = await createReceipt(
+          { id: transData[0].id, customerId, items: lines, totalAmount, paymentMethod: mainMethod },
+          'receipt',
+          undefined,
+          paymentLines.length > 1 || unpaid > 0 ? { payments: paymentLines, balanceDue: unpaid } : undefined
+      );
+
       refreshData();
+      return { transactionId: transData[0].id, receipt };
   };
 
-  const useCourse = async (customerId: string, courseInstanceId: string, unitsToUse: number, treatmentDetails: Omit<TreatmentRecord, 'id' | 'date' | 'unitsUsed'>) => {
-      const customer = customers.find(c => c.id === customerId);
-      const courseInstance = customer?.activeCourses.find(c => c.id === courseInstanceId);
-      if (!customer || !courseInstance) return;
+  // Later installments or the rest of a deposit, taken against an earlier sale
+  const recordPayment = async (transactionId: string, lines: PaymentLine[], note?: string) => {
+      if (denied('pos.sell')) return false;
+      const tx = transactions.find(t => t.id === transactionId);
+      if (!tx) return false;
+      const paid = lines.filter(l => l.amount > 0);
+      const amount = round2(paid.reduce((sum, l) => sum + l.amount, 0));
+      const balance = getBalanceDue(tx, transactions, payments);
+      if (amount <= 0) {
+          alert('กรุณาระบุยอดรับชำระ');
+          return false;
+      }
+      if (amount > balance) {
+          alert(`ยอดรับชำระเกินยอดค้างชำระ (฿${balance.toLocaleString()})`);
+          return false;
+      }
+      const walletAmount = walletPart(paid);
+      if (walletAmount > getCustomerWalletBalance(tx.customerId)) {
+          alert(`เครดิตในวอลเล็ทไม่พอ (คงเหลือ ฿${getCustomerWalletBalance(tx.customerId).toLocaleString()})`);
+          return false;
+      }
+      const { data: inserted, error } = await supabase.from('payments').insert(paid.map(l => ({
+          transaction_id: tx.id,
+          customer_id: tx.customerId,
+          method: l.method,
+          amount: l.amount,
+          received_by: user?.email,
+          note: note || null
+      }))).select('id');
+      if (error) {
+          alert('Failed to record payment: ' + error.message);
+          return false;
+      }
+      if (walletAmount > 0 && !(await spendWallet(tx.customerId, walletAmount, tx.id))) {
+          await supabase.from('payments').delete().in('id', (inserted || []).map(p => p.id));
+          return false;
+      }
+      refreshData();
+      return true;
+  };
+
+  // customerId is who received the treatment: the owner or a member the course is shared with
+  const useCourse = async (customerId: string, courseInstanceId: string, unitsToUse: number, treatmentDetails: Omit<TreatmentRecord, 'id' | 'date' | 'unitsUsed' | 'doctorFee'>, options: CourseUseOptions = {}) => {
+      const { entitlementId, photos = [], doctorFeeOverride, bookedServiceId, safetyNote } = options;
+      // Checked before anything is saved so the treatment is not recorded without its photos
+      if (photos.length > 0 && denied('photos.view')) return false;
+      const owner = findCourseOwner(customers, courseInstanceId);
+      const courseInstance = owner?.activeCourses.find(c => c.id === courseInstanceId);
+      if (!owner || !courseInstance || !canUseCourse(courseInstance, owner.id, customerId)) return false;
+
+      if (isCourseExpired(courseInstance)) {
+          alert(`คอร์สนี้หมดอายุแล้วเมื่อ ${new Date(courseInstance.expiryDate!).toLocaleDateString('th-TH')} กรุณาต่ออายุคอร์สก่อนใช้งาน`);
+          return false;
+      }
+
+      if (clinicProfile.blockOverdueCourseUsage) {
+          const overdue = round2(getReceivables(transactions, payments, owner.id).reduce((sum, r) => sum + r.overdue, 0));
+          if (overdue > 0) {
+              alert(`ลูกค้ามียอดค้างชำระเกินกำหนด ฿${overdue.toLocaleString()} กรุณารับชำระก่อนตัดคอร์ส`);
+              return false;
+          }
+      }
+
+      // Bundles are cut per entitlement line; the instance totals follow the lines
+      const entitlement = courseInstance.entitlements?.find(e => e.entitlementId === entitlementId);
+      if (isBundle(courseInstance)) {
+          if (!entitlement) {
+              alert('กรุณาเลือกบริการในแพ็กเกจที่ต้องการตัด');
+              return false;
+          }
+          if (unitsToUse > entitlement.remainingUnits) {
+              alert(`${entitlement.serviceName} คงเหลือ ${entitlement.remainingUnits} ครั้ง`);
+              return false;
+          }
+      }
+      // A plain course has no services of its own, so the booked service stands in for it
+      const courseDef = courseDefinitions.find(c => c.id === courseInstance.courseId);
+      const consentServiceIds = entitlement ? [entitlement.serviceId]
+          : bookedServiceId ? [bookedServiceId]
+          : (courseDef?.entitlements || []).map(e => e.serviceId);
+      if (consentBlocked(customerId, consentServiceIds, courseInstance.courseId)) return false;
+
+      // Same rule as a sale: no cut that would take a consumable below zero
+      const hits = findContraindications(customers.find(c => c.id === customerId), [
+          ...serviceSources(services.find(s => s.id === bookedServiceId), inventory),
+          ...courseSources(courseDef, services, inventory, entitlement?.entitlementId)
+      ]);
+      if (safetyBlocked(hits, safetyNote)) return false;
+      const consumables = entitlementConsumables(courseDef, entitlement?.entitlementId);
+      const required = consumables ? collectConsumables([{ consumables, units: unitsToUse }]) : {};
+      const shortages = findStockShortages(required);
+      if (shortages.length > 0) {
+          alert('สต็อกไม่พอสำหรับการตัดคอร์ส (Insufficient stock):\n' + shortages.map(s => `- ${s.name}: ต้องใช้ ${s.required} ${s.unit}, คงเหลือ ${s.available} ${s.unit}`).join('\n'));
+          return false;
+      }
+
+      const entitlements = courseInstance.entitlements?.map(e =>
+          e === entitlement ? { ...e, remainingUnits: e.remainingUnits - unitsToUse } : e);
 
       const newRemaining = Math.max(0, courseInstance.remainingUnits - unitsToUse);
+      const firstUseExpiry = expiryOnFirstUse(courseInstance, toISODate(new Date()));
       await supabase.from('customer_courses').update({
           remaining_units: newRemaining,
-          active: newRemaining > 0
+          active: newRemaining > 0,
+          ...(entitlements ? { entitlements } : {}),
+          ...(firstUseExpiry ? { expiry_date: firstUseExpiry } : {})
       }).eq('id', courseInstanceId);
 
-      await supabase.from('treatment_records').insert([{
+      const allocations = allocateStock(required);
+
+      // Fee is calculated from the rules unless the caller passes an explicit override
+      const unitPrice = courseDef ? courseSessionPrice(courseDef, services, entitlement?.entitlementId) : 0;
+      const doctorName = getStaffName(staff, treatmentDetails.staffId, treatmentDetails.doctorName);
+      const calculatedFee = treatmentDetails.staffId
+          ? estimateDoctorFee(treatmentDetails.staffId, 'course', courseInstance.courseId, unitsToUse, unitPrice)
+          : { amount: 0 };
+      const doctorFee = doctorFeeOverride ?? calculatedFee.amount;
+
+      const { data: treatData } = await supabase.from('treatment_records').insert([{
           customer_id: customerId,
-          treatment_name: treatmentDetails.treatmentName,
-          details: treatmentDetails.details,
-          doctor_name: treatmentDetails.doctorName,
+          treatment_name: entitlement ? `${treatmentDetails.treatmentName} (${entitlement.serviceName})` : treatmentDetails.treatmentName,
+          details: owner.id === customerId ? treatmentDetails.details : `${treatmentDetails.details} (ใช้คอร์สของ ${owner.name})`,
+          staff_id: treatmentDetails.staffId,
+          doctor_name: doctorName,
           units_used: unitsToUse,
-          doctor_fee: treatmentDetails.doctorFee || 0
+          doctor_fee: doctorFee,
+          lots_used: allocations,
+          chart: chartWithLots(treatmentDetails.chart, allocations),
+          consent_ids: currentConsentIds(consentTemplates, signedConsents, customerId, services.filter(s => consentServiceIds.includes(s.id)), courseInstance.courseId)
+      }]).select().single();
+
+      await deductStock(allocations, 'course_usage', 'treatment_record', treatData?.id);
+
+      if (treatData) {
+          await recordDoctorFees([{
+              staffId: treatmentDetails.staffId,
+              doctorName,
+              sourceType: 'treatment_record',
+              sourceId: treatData.id,
+              itemId: courseInstance.courseId,
+              itemName: treatmentDetails.treatmentName,
+              units: unitsToUse,
+              unitPrice,
+              amount: doctorFee,
+              ruleId: calculatedFee.ruleId
+          }]);
+          await logContraindicationOverride(customerId, 'course_use', treatmentDetails.treatmentName, hits, safetyNote, 'treatment_record', treatData.id);
+          if (photos.length > 0) await uploadTreatmentPhotos(treatData.id, customerId, photos);
+      }
+
+      refreshData();
+      return true;
+  };
+
+  // Injection rows without a lot take the lot the stock deduction drew for that product
+  const chartWithLots = (chart: ClinicalChart | undefined, allocations: LotUsage[]) => {
+      if (isChartEmpty(chart)) return null;
+      return {
+          ...chart!,
+          injections: chart!.injections?.map(p => p.lotNumber || !p.inventoryItemId ? p : {
+              ...p,
+              lotNumber: allocations.find(a => a.inventoryItemId === p.inventoryItemId && a.lotNumber)?.lotNumber
+          })
+      };
+  };
+
+  const updateTreatmentChart = async (treatmentRecordId: string, chart: ClinicalChart) => {
+      if (denied('charts.manage')) return false;
+      const { error } = await supabase.from('treatment_records')
+          .update({ chart: isChartEmpty(chart) ? null : chart })
+          .eq('id', treatmentRecordId);
+      if (error) {
+          alert('Failed to save chart: ' + error.message);
+          return false;
+      }
+      refreshData();
+      return true;
+  };
+
+  // --- Treatment photos ---
+
+  // Deleting the rows leaves the files behind, so storage is cleared separately
+  const removePhotoFiles = async (rows: { path: string; thumbnail_path: string }[]) => {
+      const paths = rows.flatMap(r => [r.path, r.thumbnail_path]).filter(Boolean);
+      for (let i = 0; i < paths.length; i += 100) {
+          const { error } = await supabase.storage.from(PHOTO_BUCKET).remove(paths.slice(i, i + 100));
+          if (error) console.error('Failed to delete photo files', error);
+      }
+  };
+
+  // Uploads a web-sized copy and a thumbnail of each photo, then records them against the treatment
+  const uploadTreatmentPhotos = async (treatmentRecordId: string, customerId: string, uploads: PhotoUpload[]) => {
+      if (denied('photos.view')) return false;
+      const bucket = supabase.storage.from(PHOTO_BUCKET);
+      const rows: any[] = [];
+      for (const upload of uploads) {
+          const { path, thumbnailPath } = photoPaths(customerId, treatmentRecordId);
+          try {
+              const [full, thumb] = await Promise.all([resizeImage(upload.file, 2048), makeThumbnail(upload.file)]);
+              const { error } = await bucket.upload(path, full, { contentType: 'image/jpeg' });
+              if (error) throw error;
+              const { error: thumbError } = await bucket.upload(thumbnailPath, thumb, { contentType: 'image/jpeg' });
+              if (thumbError) throw thumbError;
+          } catch (e: any) {
+              console.error('Photo upload failed', e);
+              alert(`อัปโหลดรูป ${upload.file.name} ไม่สำเร็จ: ` + (e?.message || 'Unknown error'));
+              continue;
+          }
+          rows.push({
+              treatment_record_id: treatmentRecordId,
+              customer_id: customerId,
+              kind: upload.kind,
+              path,
+              thumbnail_path: thumbnailPath,
+              marketing_consent: upload.marketingConsent,
+              uploaded_by: user?.email
+          });
+      }
+      if (rows.length === 0) return false;
+      const { error } = await supabase.from('treatment_photos').insert(rows);
+      if (error) {
+          alert('Failed to save photos: ' + error.message);
+          return false;
+      }
+      refreshData();
+      return rows.length === uploads.length;
+  };
+
+  const setPhotoConsent = async (photoId: string, consent: boolean) => {
+      if (denied('photos.view')) return;
+      const { error } = await supabase.from('treatment_photos').update({ marketing_consent: consent }).eq('id', photoId);
+      if (error) alert('Failed to update consent: ' + error.message);
+      else refreshData();
+  };
+
+  // Signed URLs expire, so they are fetched when a photo is shown rather than kept with the data
+  const getPhotoUrls = async (paths: string[]): Promise<Record<string, string>> => {
+      if (!hasPermission(role, 'photos.view') || paths.length === 0) return {};
+      const { data, error } = await supabase.storage.from(PHOTO_BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS);
+      if (error) {
+          console.error('Failed to sign photo URLs', error);
+          return {};
+      }
+      const urls: Record<string, string> = {};
+      (data || []).forEach(d => { if (d.path && d.signedUrl) urls[d.path] = d.signedUrl; });
+      return urls;
+  };
+
+  // --- Consent forms ---
+
+  const getConsentGaps = (customerId: string, serviceIds: string[], courseId?: string): ConsentGap[] =>
+      findConsentGaps(consentTemplates, signedConsents, customerId, services.filter(s => serviceIds.includes(s.id)), courseId);
+
+  // Treatment can't start until every required consent is signed on its current version
+  const consentBlocked = (customerId: string, serviceIds: string[], courseId?: string) => {
+      const gaps = getConsentGaps(customerId, serviceIds, courseId);
+      if (gaps.length === 0) return false;
+      alert(`ต้องให้ลูกค้าลงนามใบยินยอมก่อนเริ่มการรักษา:\n${gaps.map(g => `- ${g.template.name} (${CONSENT_GAP_LABELS[g.status]})`).join('\n')}`);
+      return true;
+  };
+
+  const addConsentTemplate = async (template: Omit<ConsentTemplate, 'id' | 'version' | 'updatedAt'>) => {
+      if (denied('catalog.manage')) return;
+      const { error } = await supabase.from('consent_templates').insert([{
+          name: template.name,
+          body: template.body,
+          service_ids: template.serviceIds,
+          categories: template.categories,
+          course_ids: template.courseIds,
+          valid_months: template.validMonths || null,
+          active: template.active,
+          version: 1
       }]);
+      if (error) alert('Failed to add consent template: ' + error.message);
+      else refreshData();
+  };
 
-      const courseDef = courseDefinitions.find(c => c.id === courseInstance.courseId);
-      if (courseDef && courseDef.consumables) {
-          for (const con of courseDef.consumables) {
-              const invItem = inventory.find(i => i.id === con.inventoryItemId);
-              if (invItem) {
-                  const deductAmount = con.quantityUsed * unitsToUse;
-                  const newQty = Math.max(0, invItem.quantity - deductAmount);
-                  await supabase.from('inventory').update({ quantity: newQty }).eq('id', con.inventoryItemId);
-              }
+  // Changing the wording starts a new version, so everyone has to sign again
+  const updateConsentTemplate = async (id: string, data: Partial<ConsentTemplate>) => {
+      if (denied('catalog.manage')) return;
+      const current = consentTemplates.find(t => t.id === id);
+      if (!current) return;
+      const textChanged = data.body !== undefined && data.body !== current.body;
+      const { error } = await supabase.from('consent_templates').update({
+          name: data.name,
+          body: data.body,
+          service_ids: data.serviceIds,
+          categories: data.categories,
+          course_ids: data.courseIds,
+          valid_months: data.validMonths === undefined ? undefined : data.validMonths || null,
+          active: data.active,
+          version: textChanged ? current.version + 1 : undefined,
+          updated_at: new Date().toISOString()
+      }).eq('id', id);
+      if (error) alert('Failed to update consent template: ' + error.message);
+      else refreshData();
+  };
+
+  // Renders the filled form with the signature to a PDF, stores it and records the signature
+  const signConsent = async (templateId: string, customerId: string, procedure: string, signatureDataUrl: string, appointmentId?: string) => {
+      if (denied('customers.view')) return false;
+      const template = consentTemplates.find(t => t.id === templateId);
+      const customer = customers.find(c => c.id === customerId);
+      if (!template || !customer) return false;
+      const signedAt = new Date();
+      const path = consentPdfPath(customerId);
+      try {
+          const pdf = await renderConsentPdf({
+              clinicName: clinicProfile.name,
+              title: template.name,
+              text: fillConsentTemplate(template.body, {
+                  customerName: customer.name,
+                  procedure,
+                  date: signedAt.toLocaleDateString('th-TH'),
+                  clinicName: clinicProfile.name
+              }),
+              customerName: customer.name,
+              signatureDataUrl,
+              signedAt,
+              version: template.version
+          });
+          const { error } = await supabase.storage.from(CONSENT_BUCKET).upload(path, pdf, { contentType: 'application/pdf', upsert: false });
+          if (error) throw error;
+      } catch (e: any) {
+          console.error('Consent upload failed', e);
+          alert('บันทึกใบยินยอมไม่สำเร็จ: ' + (e?.message || 'Unknown error'));
+          return false;
+      }
+      const { error } = await supabase.from('signed_consents').insert([{
+          template_id: template.id,
+          template_version: template.version,
+          template_name: template.name,
+          customer_id: customerId,
+          procedure,
+          pdf_path: path,
+          appointment_id: appointmentId || null,
+          witnessed_by: user?.email
+      }]);
+      if (error) {
+          alert('Failed to record consent: ' + error.message);
+          return false;
+      }
+      await refreshData();
+      return true;
+  };
+
+  const getConsentUrl = async (path: string) => {
+      const { data, error } = await supabase.storage.from(CONSENT_BUCKET).createSignedUrl(path, SIGNED_URL_SECONDS);
+      if (error) {
+          console.error('Failed to sign consent URL', error);
+          return null;
+      }
+      return data.signedUrl;
+  };
+
+  // --- Wallet & gift vouchers ---
+
+  const walletPart = (lines: PaymentLine[]) =>
+      round2(lines.filter(l => l.method === 'Wallet').reduce((sum, l) => sum + l.amount, 0));
+
+  const getCustomerWalletBalance = (customerId: string) => walletBalances[customerId] || 0;
+
+  // A customer's whole ledger, read fresh; the list loaded with the rest of the data may be cut off
+  const loadWalletLedger = async (customerId: string) => {
+      const { data, error } = await supabase.from('wallet_entries').select('*').eq('customer_id', customerId).order('created_at');
+      if (error) {
+          console.error('Failed to load wallet ledger', error);
+          return [];
+      }
+      return (data || []).map(toWalletEntry);
+  };
+
+  // Taken from the wallet for a sale and not yet credited back
+  const walletReturnable = async (customerId: string, transactionId: string) =>
+      round2(-(await loadWalletLedger(customerId))
+          .filter(e => e.transactionId === transactionId && (e.type === 'spend' || e.type === 'refund'))
+          .reduce((sum, e) => sum + e.amount, 0));
+
+  // Balance checked and spend written in one database call so two counters cannot spend the same credit
+  const spendWallet = async (customerId: string, amount: number, transactionId: string) => {
+      const { data: spent, error } = await supabase.rpc('spend_wallet', {
+          p_customer_id: customerId,
+          p_amount: amount,
+          p_transaction_id: transactionId,
+          p_created_by: user?.email
+      });
+      if (error || !spent) {
+          alert(error ? 'Failed to update wallet: ' + error.message : 'เครดิตในวอลเล็ทไม่พอ กรุณาตรวจสอบยอดคงเหลืออีกครั้ง');
+          refreshData();
+          return false;
+      }
+      return true;
+  };
+
+  // Credit for a voided or refunded sale goes back with the expiry of the lots it was spent from
+  const returnToWallet = async (customerId: string, transactionId: string, amount: number, note: string) => {
+      const ledger = await loadWalletLedger(customerId);
+      const { error } = await supabase.from('wallet_entries').insert(getWalletReturns(ledger, customerId, transactionId, amount).map(r => ({
+          customer_id: customerId,
+          type: 'refund',
+          amount: r.amount,
+          expires_at: r.expiresAt,
+          transaction_id: transactionId,
+          note,
+          created_by: user?.email
+      })));
+      if (error) alert('Failed to update wallet: ' + error.message);
+      return !error;
+  };
+
+  const addWalletEntry = async (customerId: string, entry: { type: WalletEntry['type']; amount: number; expires_at?: string | null; method?: PaymentMethod; transaction_id?: string; voucher_id?: string; note?: string }) => {
+      const { error } = await supabase.from('wallet_entries').insert([{ customer_id: customerId, created_by: user?.email, ...entry }]);
+      if (error) alert('Failed to update wallet: ' + error.message);
+      return !error;
+  };
+
+  const topUpWallet = async (customerId: string, topUp: WalletTopUp) => {
+      if (denied('pos.sell')) return false;
+      if (!(topUp.amount > 0) || topUp.bonus < 0) {
+          alert('กรุณาระบุยอดเติมเงิน');
+          return false;
+      }
+      // The money taken is recorded like any other payment so the day's takings add up
+      const transactionId = await recordFeeSale(customerId, 'เติมเงินวอลเล็ท', topUp.amount, topUp.method, 'wallet');
+      if (!transactionId) return false;
+      const rows: any[] = [{ customer_id: customerId, type: 'topup', amount: topUp.amount, expires_at: topUp.expiresAt, method: topUp.method, transaction_id: transactionId, note: topUp.note || null, created_by: user?.email }];
+      if (topUp.bonus > 0) {
+          rows.push({ customer_id: customerId, type: 'bonus', amount: topUp.bonus, expires_at: topUp.bonusExpiresAt, note: topUp.note || null, created_by: user?.email });
+      }
+      const { error } = await supabase.from('wallet_entries').insert(rows);
+      if (error) {
+          alert('Failed to top up wallet: ' + error.message);
+          await discardSale(transactionId);
+          return false;
+      }
+      refreshData();
+      return true;
+  };
+
+  const sellGiftVoucher = async (voucher: VoucherSale) => {
+      if (denied('pos.sell')) return null;
+      if (!(voucher.amount > 0)) {
+          alert('กรุณาระบุมูลค่าบัตรกำนัล');
+          return null;
+      }
+      // A fresh code is drawn if one happens to be taken already
+      for (let attempt = 0; attempt < 3; attempt++) {
+          const { data, error } = await supabase.from('gift_vouchers').insert([{
+              code: generateVoucherCode(),
+              amount: voucher.amount,
+              expires_at: voucher.expiresAt,
+              sold_method: voucher.soldMethod,
+              sold_by: user?.email,
+              buyer_name: voucher.buyerName || null,
+              buyer_customer_id: voucher.buyerCustomerId || null,
+              note: voucher.note || null
+          }]).select().single();
+          if (error?.code === '23505') continue;
+          if (error || !data) {
+              alert('Failed to issue gift voucher: ' + (error?.message || 'Unknown error'));
+              return null;
+          }
+          const transactionId = await recordFeeSale(voucher.buyerCustomerId || null, `บัตรกำนัล ${data.code}`, voucher.amount, voucher.soldMethod, 'wallet');
+          if (!transactionId) {
+              await supabase.from('gift_vouchers').delete().eq('id', data.id);
+              return null;
+          }
+          await supabase.from('gift_vouchers').update({ transaction_id: transactionId }).eq('id', data.id);
+          refreshData();
+          return toGiftVoucher({ ...data, transaction_id: transactionId });
+      }
+      alert('ออกรหัสบัตรกำนัลไม่สำเร็จ กรุณาลองอีกครั้ง');
+      return null;
+  };
+
+  const redeemGiftVoucher = async (code: string, customerId: string) => {
+      if (denied('pos.sell')) return false;
+      const { data: found } = await supabase.from('gift_vouchers').select('*').eq('code', normalizeVoucherCode(code)).maybeSingle();
+      if (!found) {
+          alert('ไม่พบรหัสบัตรกำนัลนี้');
+          return false;
+      }
+      const voucher = toGiftVoucher(found);
+      const status = getVoucherStatus(voucher);
+      if (status !== 'active') {
+          alert(status === 'redeemed' ? 'บัตรกำนัลนี้ถูกแลกไปแล้ว' : status === 'expired' ? 'บัตรกำนัลนี้หมดอายุแล้ว' : 'บัตรกำนัลนี้ถูกยกเลิกแล้ว');
+          return false;
+      }
+      // Claimed in one update so the same code cannot be redeemed twice
+      const { data: claimed, error } = await supabase.from('gift_vouchers').update({
+          redeemed_by: customerId,
+          redeemed_at: new Date().toISOString()
+      }).eq('id', voucher.id).is('redeemed_at', null).eq('voided', false).select();
+      if (error || !claimed?.length) {
+          alert('แลกบัตรกำนัลไม่สำเร็จ: ' + (error?.message || 'บัตรกำนัลนี้ถูกแลกไปแล้ว'));
+          refreshData();
+          return false;
+      }
+      await addWalletEntry(customerId, { type: 'voucher', amount: voucher.amount, expires_at: voucher.expiresAt, voucher_id: voucher.id, note: voucher.code });
+      refreshData();
+      return true;
+  };
+
+  const voidGiftVoucher = async (id: string, reason: string) => {
+      if (denied('sales.void')) return;
+      const { data, error } = await supabase.from('gift_vouchers').update({
+          voided: true,
+          void_reason: reason
+      }).eq('id', id).is('redeemed_at', null).select();
+      if (error) alert('Failed to void gift voucher: ' + error.message);
+      else if (!data?.length) alert('บัตรกำนัลที่แลกแล้วไม่สามารถยกเลิกได้');
+      else if (data[0].transaction_id) {
+          await supabase.from('transactions').update({
+              status: 'voided',
+              void_reason: reason,
+              voided_at: new Date().toISOString(),
+              voided_by: user?.email
+          }).eq('id', data[0].transaction_id);
+      }
+      refreshData();
+  };
+
+  // --- Voids & refunds ---
+
+  const toSaleItems = (items: Transaction['items']): SaleItem[] =>
+      items.filter(item => item.type && item.id).map(item => ({ type: item.type!, id: item.id!, name: item.name, price: item.price, quantity: item.quantity, staffId: item.staffId }));
+
+  // Puts consumables back into the lots the sale took them from, never more than the sale still has out
+  const restockSaleConsumables = async (sale: Transaction, required: Record<string, number>, referenceId: string) => {
+      const related = new Set([sale.id, ...getRefunds(transactions, sale.id).map(r => r.id)]);
+      const outstanding = stockMovements
+          .filter(m => m.referenceType === 'transaction' && m.referenceId && related.has(m.referenceId))
+          .reduce((acc, m) => {
+              const key = `${m.inventoryItemId}|${m.lotId || ''}`;
+              acc[key] = (acc[key] || 0) - m.quantity;
+              return acc;
+          }, {} as Record<string, number>);
+      const returns: LotUsage[] = [];
+      Object.keys(required).forEach(invId => {
+          let remaining = required[invId];
+          Object.keys(outstanding).filter(key => key.startsWith(invId + '|')).forEach(key => {
+              const quantity = Math.min(remaining, outstanding[key]);
+              if (quantity <= 0) return;
+              returns.push({ inventoryItemId: invId, lotId: key.split('|')[1] || undefined, quantity });
+              remaining -= quantity;
+          });
+      });
+      await recordStockMovements(returns.map(r => ({
+          inventoryItemId: r.inventoryItemId,
+          lotId: r.lotId,
+          type: 'return' as StockMovementType,
+          quantity: r.quantity,
+          referenceType: 'transaction' as const,
+          referenceId
+      })));
+  };
+
+  const reverseDoctorFees = (sale: Transaction, referenceId: string, portion: (fee: DoctorFee) => number) =>
+      recordDoctorFees(doctorFees
+          .filter(f => f.sourceType === 'transaction' && f.sourceId === sale.id && f.units > 0)
+          .map(f => ({ fee: f, units: portion(f) }))
+          .filter(({ units }) => units > 0)
+          .map(({ fee, units }) => ({
+              staffId: fee.staffId,
+              doctorName: fee.doctorName,
+              sourceType: 'transaction' as const,
+              sourceId: referenceId,
+              itemId: fee.itemId,
+              itemName: fee.itemName,
+              units: -units,
+              unitPrice: fee.unitPrice,
+              amount: -Math.round(fee.amount / fee.units * units * 100) / 100,
+              ruleId: fee.ruleId
+          })));
+
+  // Cancels a sale entered by mistake: the row stays on file, everything it created is reversed
+  const voidTransaction = async (id: string, reason: string) => {
+      if (denied('sales.void')) return false;
+      const sale = transactions.find(t => t.id === id);
+      if (!sale || sale.kind !== 'sale' || sale.status === 'voided') return false;
+      if (getRefunds(transactions, id).length > 0) {
+          alert('รายการนี้มีการคืนเงินไปแล้ว ไม่สามารถยกเลิกทั้งบิลได้');
+          return false;
+      }
+      const courseInstances = customers.flatMap(c => c.activeCourses).filter(cc => cc.transactionId === id);
+      if (courseInstances.some(cc => cc.remainingUnits < cc.totalUnits)) {
+          alert('คอร์สจากรายการนี้ถูกใช้ไปแล้ว กรุณาทำรายการคืนเงินแทนการยกเลิก');
+          return false;
+      }
+
+      // Only one cashier can void the same sale
+      const { data: claimed, error } = await supabase.from('transactions').update({
+          status: 'voided',
+          void_reason: reason,
+          voided_at: new Date().toISOString(),
+          voided_by: user?.email
+      }).eq('id', id).eq('status', 'completed').eq('refund_version', sale.refundVersion).select();
+      if (error || !claimed?.length) {
+          alert('ยกเลิกรายการขายไม่สำเร็จ: ' + (error?.message || 'รายการถูกยกเลิกหรือคืนเงินไปแล้ว'));
+          refreshData();
+          return false;
+      }
+
+      await supabase.from('customer_courses').update({ remaining_units: 0, active: false }).eq('transaction_id', id);
+      await supabase.from('receipts').update({ voided: true, voided_at: new Date().toISOString(), void_reason: reason }).eq('transaction_id', id).eq('voided', false);
+      await restockSaleConsumables(sale, getSaleConsumables(toSaleItems(sale.items)), id);
+      await reverseDoctorFees(sale, id, fee => fee.units);
+      if (sale.promotionId) await supabase.rpc('redeem_promotion', { p_id: sale.promotionId, p_delta: -1 });
+      const walletOwed = await walletReturnable(sale.customerId, sale.id);
+      if (walletOwed > 0) await returnToWallet(sale.customerId, sale.id, walletOwed, 'ยกเลิกบิล');
+
+      refreshData();
+      return true;
+  };
+
+  // Pays back part or all of a sale as a separate negative transaction
+  const refundTransaction = async (id: string, lines: RefundLine[], reason: string, restock: boolean) => {
+      if (denied('sales.void')) return false;
+      const sale = transactions.find(t => t.id === id);
+      if (!sale || sale.kind !== 'sale' || sale.status === 'voided') return false;
+      const refundLines = lines.filter(l => l.quantity > 0);
+      if (refundLines.length === 0) {
+          alert('กรุณาเลือกรายการที่ต้องการคืน');
+          return false;
+      }
+
+      const refunds = getRefunds(transactions, id);
+      const refunded = getRefundedLines(refunds);
+      const soldQuantity = (item: RefundLine) => sale.items.filter(i => lineKey(i) === lineKey(item)).reduce((sum, i) => sum + i.quantity, 0);
+      // Only course instances created by this sale can be refunded against it
+      const instances = customers.flatMap(c => c.activeCourses).filter(cc => cc.transactionId === sale.id);
+      const invalid = refundLines.find(l => l.type === 'service'
+          ? l.quantity > soldQuantity(l) - (refunded[lineKey(l)]?.quantity || 0)
+          : l.quantity > (instances.find(cc => cc.id === l.customerCourseId)?.remainingUnits || 0));
+      if (invalid) {
+          alert(`จำนวนที่คืนของ ${invalid.name} เกินกว่าที่คืนได้`);
+          return false;
+      }
+      const total = refundLines.reduce((sum, l) => sum + l.amount, 0);
+      if (total > getRefundableAmount(sale, refunds) + 0.005) {
+          alert(`ยอดคืนเงินเกินยอดที่คืนได้ (คืนได้สูงสุด ฿${getRefundableAmount(sale, refunds).toLocaleString()})`);
+          return false;
+      }
+
+      // Unpaid installments absorb the refund first; only the rest is paid out,
+      // and whatever came out of the wallet goes back there first
+      const payout = getRefundPayout(sale, transactions, payments, round2(total));
+      const toWallet = Math.min(payout, await walletReturnable(sale.customerId, sale.id));
+
+      // Only one cashier can refund against these figures; anyone else has to reload and check again
+      const { data: claimed, error: claimError } = await supabase.from('transactions')
+          .update({ refund_version: sale.refundVersion + 1 })
+          .eq('id', id).eq('status', 'completed').eq('refund_version', sale.refundVersion).select();
+      if (claimError || !claimed?.length) {
+          alert('คืนเงินไม่สำเร็จ: ' + (claimError?.message || 'รายการนี้ถูกคืนเงินหรือยกเลิกไปพร้อมกันแล้ว กรุณาตรวจสอบอีกครั้ง'));
+          refreshData();
+          return false;
+      }
+      const { data: refundData, error } = await supabase.from('transactions').insert([{
+          customer_id: sale.customerId,
+          total_amount: -total,
+          payment_method: toWallet > 0 && toWallet >= payout ? 'Wallet' : sale.paymentMethod,
+          items: refundLines.map(l => ({
+              type: l.type,
+              id: l.id,
+              name: l.name,
+              price: -l.amount / l.quantity,
+              quantity: l.quantity,
+              staffId: l.staffId,
+              customerCourseId: l.customerCourseId
+          })),
+          kind: 'refund',
+          status: 'completed',
+          refund_of: id,
+          reason,
+          created_by: user?.email
+      }]).select().single();
+      if (error || !refundData) {
+          alert('บันทึกการคืนเงินไม่สำเร็จ: ' + (error?.message || 'Unknown error'));
+          return false;
+      }
+
+      if (toWallet > 0) await returnToWallet(sale.customerId, sale.id, toWallet, reason);
+
+      for (const line of refundLines.filter(l => l.type === 'course')) {
+          const instance = instances.find(cc => cc.id === line.customerCourseId);
+          if (!instance) continue;
+          const newRemaining = Math.max(0, instance.remainingUnits - line.quantity);
+          await supabase.from('customer_courses').update({
+              remaining_units: newRemaining,
+              active: newRemaining > 0,
+              ...(instance.entitlements ? { entitlements: removeEntitlementUnits(instance.entitlements, line.quantity) } : {})
+          }).eq('id', instance.id);
+      }
+
+      const serviceLines = refundLines.filter(l => l.type === 'service');
+      if (restock) {
+          await restockSaleConsumables(sale, getSaleConsumables(serviceLines.map(l => ({ type: l.type, id: l.id, price: 0, quantity: l.quantity }))), refundData.id);
+      }
+      await reverseDoctorFees(sale, refundData.id, fee => serviceLines
+          .filter(l => l.staffId === fee.staffId && (fee.itemId ? l.id === fee.itemId : l.name === fee.itemName))
+          .reduce((sum, l) => sum + l.quantity, 0));
+
+      refreshData();
+      return true;
+  };
+
+  // --- Receipts ---
+
+  const updateClinicProfile = async (profile: ClinicProfile) => {
+      if (denied('settings.manage')) return;
+      const { error } = await supabase.from('clinic_settings').upsert({
+          id: 1,
+          name: profile.name,
+          address: profile.address,
+          phone: profile.phone,
+          tax_id: profile.taxId,
+          branch_code: profile.branchCode,
+          branch_name: profile.branchName,
+          vat_registered: profile.vatRegistered,
+          vat_rate: profile.vatRate,
+          prices_include_vat: profile.pricesIncludeVat,
+          max_discount_percent: profile.maxDiscountPercent,
+          block_overdue_course_usage: profile.blockOverdueCourseUsage
+      });
+      if (error) alert('Failed to save clinic profile: ' + error.message);
+      else refreshData();
+  };
+
+  // Numbers come from a database counter so two counters can never issue the same one
+  const createReceipt = async (
+      tx: Pick<Transaction, 'id' | 'customerId' | 'items' | 'totalAmount' | 'paymentMethod'>,
+      type: ReceiptType,
+      customerTax?: CustomerTaxInfo,
+      collection?: Pick<Receipt, 'payments' | 'balanceDue'>
+  ) => {
+      const year = new Date().getFullYear();
+      const amounts = calculateVat(tx.totalAmount, clinicProfile);
+      // Numbered and saved in one database call so a failed save doesn't leave a gap in the sequence
+      const { data, error } = await supabase.rpc('issue_document', {
+          p_doc_type: type,
+          p_branch_code: clinicProfile.branchCode,
+          p_year: year,
+          p_prefix: documentNumberPrefix(type, clinicProfile.branchCode, year),
+          p_receipt: {
+              transaction_id: tx.id,
+              clinic: clinicProfile,
+              customer_name: customers.find(c => c.id === tx.customerId)?.name || '',
+              customer_tax: customerTax || null,
+              items: tx.items.map(item => ({ name: item.name || '', price: item.price, quantity: item.quantity, discount: item.discount || undefined })),
+              subtotal: amounts.subtotal,
+              vat_rate: clinicProfile.vatRegistered ? clinicProfile.vatRate : 0,
+              vat_amount: amounts.vatAmount,
+              total: amounts.total,
+              payment_method: tx.paymentMethod,
+              payments: collection?.payments || null,
+              balance_due: collection?.balanceDue ?? null
           }
+      }).single();
+      if (error || !data) {
+          console.error('Receipt issue failed:', error);
+          alert('บันทึกใบเสร็จไม่สำเร็จ: ' + (error?.message || 'Unknown error'));
+          return null;
+      }
+      return toReceipt(data);
+  };
+
+  const issueReceipt = async (transactionId: string, type: ReceiptType, customerTax?: CustomerTaxInfo) => {
+      if (denied('pos.sell')) return null;
+      // A sale made moments ago may not be in state until the refresh finishes
+      let tx = transactions.find(t => t.id === transactionId);
+      if (!tx) {
+          const { data } = await supabase.from('transactions').select('*').eq('id', transactionId).single();
+          if (!data) return null;
+          tx = toTransaction(data);
+      }
+      if (tx.kind === 'refund' || tx.status === 'voided') {
+          alert('ไม่สามารถออกเอกสารให้รายการที่ยกเลิกหรือรายการคืนเงินได้');
+          return null;
+      }
+      if (receipts.some(r => r.transactionId === transactionId && r.type === type && !r.voided)) {
+          alert('รายการขายนี้มีเอกสารประเภทนี้อยู่แล้ว กรุณายกเลิกฉบับเดิมก่อน');
+          return null;
+      }
+      if (type === 'tax_invoice' && (!customerTax?.name || !customerTax.taxId)) {
+          alert('กรุณากรอกชื่อและเลขประจำตัวผู้เสียภาษีของผู้ซื้อ');
+          return null;
       }
+      // Split or part-paid bills show what has been taken so far
+      const taken = getPaymentsFor(payments, tx.id);
+      const balanceDue = getBalanceDue(tx, transactions, payments);
+      const receipt = await createReceipt(tx, type, customerTax, tracksBalance(tx) && (taken.length > 1 || balanceDue > 0)
+          ? { payments: taken.map(p => ({ method: p.method, amount: p.amount })), balanceDue }
+          : undefined);
+      // Remember the buyer's details for their next invoice
+      if (receipt && customerTax) await updateCustomer(tx.customerId, { taxInfo: customerTax });
+      else refreshData();
+      return receipt;
+  };
+
+  const voidReceipt = async (id: string, reason: string) => {
+      if (denied('sales.void')) return;
+      const { error } = await supabase.from('receipts').update({ voided: true, voided_at: new Date().toISOString(), void_reason: reason }).eq('id', id);
+      if (error) alert('Failed to void receipt: ' + error.message);
+      else refreshData();
+  };
+
+  const markReceiptPrinted = async (id: string) => {
+      const receipt = receipts.find(r => r.id === id);
+      await supabase.from('receipts').update({ print_count: (receipt?.printCount || 0) + 1 }).eq('id', id);
+      refreshData();
+  };
 
+  // --- Notifications ---
+
+  // Drafts every reminder that is due soon; the unique dedupe_key keeps each event to one message
+  const queueNotifications = async () => {
+      if (!hasPermission(role, 'notifications.manage')) return 0;
+      const existing = new Set(notifications.map(n => n.dedupeKey));
+      const drafts = collectDueNotifications({ customers, appointments, services, staff, transactions, payments }).filter(d => !existing.has(d.dedupeKey));
+      if (drafts.length === 0) return 0;
+      const { error } = await supabase.from('notifications').upsert(drafts.map(d => ({
+          customer_id: d.customerId,
+          kind: d.kind,
+          channel: d.channel,
+          recipient: d.recipient,
+          subject: d.subject,
+          body: d.body,
+          status: 'pending',
+          attempts: 0,
+          scheduled_at: d.scheduledAt,
+          next_attempt_at: d.scheduledAt,
+          source_id: d.sourceId,
+          dedupe_key: d.dedupeKey
+      })), { onConflict: 'dedupe_key', ignoreDuplicates: true });
+      if (error) {
+          console.error('Failed to queue notifications:', error);
+          return 0;
+      }
       refreshData();
+      return drafts.length;
+  };
+
+  // Sends pending messages whose time has come; failures are retried with a growing delay
+  const processOutbox = async () => {
+      const result = { sent: 0, failed: 0 };
+      if (!hasPermission(role, 'notifications.manage')) return result;
+
+      // A browser closed mid-send leaves its claim behind; after the timeout the row goes back
+      // to the queue as a used attempt, since the message may or may not have gone out
+      const staleBefore = new Date(Date.now() - CLAIM_TIMEOUT_MINUTES * 60000).toISOString();
+      const { data: stale } = await supabase.from('notifications')
+          .select('id, attempts')
+          .eq('status', 'sending')
+          .or(`claimed_at.is.null,claimed_at.lt.${staleBefore}`);
+      for (const row of stale || []) {
+          const attempts = (row.attempts || 0) + 1;
+          await supabase.from('notifications').update({
+              status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+              attempts,
+              next_attempt_at: new Date().toISOString(),
+              last_error: 'การส่งค้างเกินเวลา'
+          }).eq('id', row.id).eq('status', 'sending');
+      }
+
+      const { data: due, error } = await supabase.from('notifications')
+          .select('*')
+          .eq('status', 'pending')
+          .lte('next_attempt_at', new Date().toISOString())
+          .order('scheduled_at')
+          .limit(50);
+      if (error) {
+          console.error('Failed to load outbox:', error);
+          return result;
+      }
+
+      for (const row of due || []) {
+          // Claim the row so another open browser does not send it too
+          const { data: claimed } = await supabase.from('notifications').update({ status: 'sending', claimed_at: new Date().toISOString() }).eq('id', row.id).eq('status', 'pending').select();
+          if (!claimed?.length) continue;
+
+          if (isAppointmentReminder(row.kind)) {
+              const apt = appointments.find(a => a.id === row.source_id);
+              if (!apt || !BOOKED_STATUSES.includes(apt.status) || appointmentDedupeKey(row.kind, apt) !== row.dedupe_key) {
+                  await supabase.from('notifications').update({ status: 'cancelled', last_error: 'นัดหมายถูกเลื่อนหรือยกเลิกแล้ว' }).eq('id', row.id);
+                  continue;
+              }
+          }
+          if (isPaymentReminder(row.kind)) {
+              const tx = transactions.find(t => t.id === row.source_id);
+              const stillOwed = tx && getInstallmentStatus(tx, transactions, payments)
+                  .some(inst => inst.outstanding > 0 && paymentDedupeKey(row.kind, tx.id, inst.dueDate) === row.dedupe_key);
+              if (!stillOwed) {
+                  await supabase.from('notifications').update({ status: 'cancelled', last_error: 'งวดนี้ชำระแล้ว' }).eq('id', row.id);
+                  continue;
+              }
+          }
+
+          const attempts = (row.attempts || 0) + 1;
+          try {
+              await getTransport(row.channel).send({ channel: row.channel, recipient: row.recipient, subject: row.subject || undefined, body: row.body });
+              await supabase.from('notifications').update({ status: 'sent', attempts, sent_at: new Date().toISOString(), last_error: null }).eq('id', row.id);
+              result.sent++;
+          } catch (e: any) {
+              console.error('Notification delivery failed:', e);
+              await supabase.from('notifications').update({
+                  status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+                  attempts,
+                  next_attempt_at: nextRetryAt(attempts),
+                  last_error: e?.message || String(e)
+              }).eq('id', row.id);
+              result.failed++;
+          }
+      }
+
+      if (due && due.length > 0) refreshData();
+      return result;
+  };
+
+  const retryNotification = async (id: string) => {
+      if (denied('notifications.manage')) return;
+      const { error } = await supabase.from('notifications').update({ status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString() }).eq('id', id);
+      if (error) alert('Failed to retry notification: ' + error.message);
+      else refreshData();
+  };
+
+  const cancelNotification = async (id: string) => {
+      if (denied('notifications.manage')) return;
+      const { error } = await supabase.from('notifications').update({ status: 'cancelled' }).eq('id', id).in('status', ['pending', 'failed']);
+      if (error) alert('Failed to cancel notification: ' + error.message);
+      else refreshData();
   };
 
+  // The interval outlives renders, so it always calls the latest closures through a ref
+  const outboxRunner = useRef<(() => Promise<void>) | null>(null);
+  outboxRunner.current = async () => {
+      await queueNotifications();
+      await processOutbox();
+  };
+
+  useEffect(() => {
+    if (!user || !hasPermission(role, 'notifications.manage')) return;
+    const timer = setInterval(() => outboxRunner.current?.(), OUTBOX_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [user, role]);
+
   return (
     <ClinicContext.Provider value={{ 
-      customers, services, appointments, inventory, courseDefinitions, transactions, isLoadingData, dbConnectionError,
-      addAppointment, updateAppointmentStatus, deleteAppointment,
-      addCustomer, updateCustomer, deleteCustomer,
+      customers, services, appointments, inventory, courseDefinitions, transactions, stockMovements, suppliers, purchaseOrders, commissionRules, doctorFees, staff, userAccounts, holidays, notifications, receipts, clinicProfile, promotions, payments, walletEntries, walletBalances, giftVouchers, courseExtensions, courseAdjustments, contraindicationOverrides, consentTemplates, signedConsents, customerMerges, isLoadingData, dbConnectionError,
+      addAppointment, updateAppointment, addAppointmentSeries, updateAppointmentSeries, cancelAppointmentSeries, updateAppointmentStatus, completeAppointment, deleteAppointment, getAppointmentConflicts, addHoliday, deleteHoliday,
+      addCustomer, updateCustomer, deleteCustomer, mergeCustomers,
       addService, updateService, deleteService,
-      updateStock, addInventoryItem, updateInventoryItem, deleteInventoryItem,
-      addCourse, updateCourse, deleteCourse,
-      processSale, useCourse, refreshData, seedDatabase, exportToSQL, resetDatabase
+      updateStock, receiveStock, addInventoryItem, updateInventoryItem, deleteInventoryItem,
+      addSupplier, updateSupplier, deleteSupplier, createPurchaseOrder, updatePurchaseOrderStatus, deletePurchaseOrder, receivePurchaseOrder, suggestReorder,
+      addStaff, updateStaff, deleteStaff, updateUserRole,
+      updateClinicProfile, issueReceipt, voidReceipt, markReceiptPrinted,
+      queueNotifications, processOutbox, retryNotification, cancelNotification,
+      addCommissionRule, updateCommissionRule, deleteCommissionRule, estimateDoctorFee,
+      addPromotion, updatePromotion, deletePromotion,
+      updateTreatmentChart, uploadTreatmentPhotos, setPhotoConsent, getPhotoUrls,
+      getConsentGaps, addConsentTemplate, updateConsentTemplate, signConsent, getConsentUrl,
+      addCourse, updateCourse, deleteCourse, extendCourse, transferCourse, shareCourse, unshareCourse, convertCourse,
+      processSale, getStockShortages, voidTransaction, refundTransaction, recordPayment, getCustomerWalletBalance, loadWalletLedger, topUpWallet, sellGiftVoucher, redeemGiftVoucher, voidGiftVoucher, useCourse, refreshData, seedDatabase, exportToSQL, resetDatabase
     }}>
       {children}
     </ClinicContext.Provider>
@@ -0,0 +1,109 @@
+import { ChartTemplate, ClinicalChart, Customer, InjectionPoint, TreatmentRecord } from '../types';
+
+export const CHART_TEMPLATE_LABELS: Record<ChartTemplate, string> = {
+  general: 'ทั่วไป (SOAP)',
+  injection: 'ฉีด (Injection)',
+  laser: 'เลเซอร์ (Laser)',
+  iv: 'ดริปวิตามิน (IV Drip)'
+};
+
+const TEMPLATE_BY_CATEGORY: Record<string, ChartTemplate> = {
+  Injection: 'injection',
+  Lifting: 'injection',
+  Laser: 'laser',
+  Wellness: 'iv'
+};
+
+export const templateForCategory = (category?: string): ChartTemplate =>
+  (category && TEMPLATE_BY_CATEGORY[category]) || 'general';
+
+export const emptyChart = (template: ChartTemplate): ClinicalChart => ({
+  template,
+  ...(template === 'injection' ? { injections: [] } : {}),
+  ...(template === 'laser' ? { laser: {} } : {}),
+  ...(template === 'iv' ? { vitals: {} } : {})
+});
+
+export interface FaceZone {
+  id: string;
+  label: string;
+  x: number; // Position on the 200x270 face diagram
+  y: number;
+}
+
+export const FACE_ZONES: FaceZone[] = [
+  { id: 'forehead', label: 'หน้าผาก', x: 100, y: 45 },
+  { id: 'glabella', label: 'หว่างคิ้ว (Glabella)', x: 100, y: 80 },
+  { id: 'crows_feet_r', label: 'หางตาขวา', x: 42, y: 100 },
+  { id: 'crows_feet_l', label: 'หางตาซ้าย', x: 158, y: 100 },
+  { id: 'under_eye_r', label: 'ใต้ตาขวา', x: 70, y: 115 },
+  { id: 'under_eye_l', label: 'ใต้ตาซ้าย', x: 130, y: 115 },
+  { id: 'nose', label: 'จมูก', x: 100, y: 125 },
+  { id: 'cheek_r', label: 'แก้มขวา', x: 55, y: 145 },
+  { id: 'cheek_l', label: 'แก้มซ้าย', x: 145, y: 145 },
+  { id: 'nasolabial_r', label: 'ร่องแก้มขวา', x: 75, y: 165 },
+  { id: 'nasolabial_l', label: 'ร่องแก้มซ้าย', x: 125, y: 165 },
+  { id: 'lips', label: 'ริมฝีปาก', x: 100, y: 185 },
+  { id: 'masseter_r', label: 'กรามขวา', x: 40, y: 185 },
+  { id: 'masseter_l', label: 'กรามซ้าย', x: 160, y: 185 },
+  { id: 'marionette_r', label: 'มุมปากขวา', x: 78, y: 202 },
+  { id: 'marionette_l', label: 'มุมปากซ้าย', x: 122, y: 202 },
+  { id: 'chin', label: 'คาง', x: 100, y: 225 },
+  { id: 'neck', label: 'คอ', x: 100, y: 252 }
+];
+
+export const zoneLabel = (zoneId: string) => FACE_ZONES.find(z => z.id === zoneId)?.label || zoneId;
+
+// Total units per zone, for the dots on the face diagram
+export const unitsByZone = (points: InjectionPoint[]) =>
+  points.reduce<Record<string, number>>((acc, p) => ({ ...acc, [p.zone]: (acc[p.zone] || 0) + (p.units || 0) }), {});
+
+// True when nothing was recorded, so an untouched chart form isn't saved
+export const isChartEmpty = (chart?: ClinicalChart) =>
+  !chart || (!chart.subjective && !chart.objective && !chart.assessment && !chart.plan
+    && !chart.injections?.length
+    && !Object.values(chart.laser || {}).some(v => v !== undefined && v !== '')
+    && !Object.values(chart.vitals || {}).some(v => v !== undefined));
+
+export interface ChartQuery {
+  zone?: string;
+  inventoryItemId?: string;
+  lotNumber?: string;
+  text?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface ChartMatch {
+  customer: Customer;
+  record: TreatmentRecord;
+  points: InjectionPoint[]; // Injection points that met the zone/product/lot filters
+}
+
+/**
+ * Finds charted treatments, e.g. "everyone injected in the glabella with lot X".
+ * Zone, product and lot must all match on the same injection point; text is
+ * searched across the SOAP sections, laser device and free-text details.
+ */
+export const searchCharts = (customers: Customer[], query: ChartQuery): ChartMatch[] => {
+  const text = query.text?.trim().toLowerCase();
+  const lot = query.lotNumber?.trim().toLowerCase();
+  const byPoint = !!(query.zone || query.inventoryItemId || lot);
+  return customers.flatMap(customer => customer.treatmentHistory.flatMap(record => {
+    const chart = record.chart;
+    if (!chart) return [];
+    const day = record.date.slice(0, 10);
+    if ((query.from && day < query.from) || (query.to && day > query.to)) return [];
+    const points = (chart.injections || []).filter(p =>
+      (!query.zone || p.zone === query.zone)
+      && (!query.inventoryItemId || p.inventoryItemId === query.inventoryItemId)
+      && (!lot || (p.lotNumber || '').toLowerCase().includes(lot)));
+    if (byPoint && points.length === 0) return [];
+    if (text) {
+      const haystack = [chart.subjective, chart.objective, chart.assessment, chart.plan, chart.laser?.device, record.details, record.treatmentName]
+        .filter(Boolean).join(' ').toLowerCase();
+      if (!haystack.includes(text)) return [];
+    }
+    return [{ customer, record, points: byPoint ? points : chart.injections || [] }];
+  })).sort((a, b) => b.record.date.localeCompare(a.record.date));
+};
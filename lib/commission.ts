@@ -0,0 +1,49 @@
+import { CommissionRule } from '../types';
+
+// Most specific rule wins: doctor + item, doctor + any, all doctors + item, all doctors + any
+export const findCommissionRule = (
+  rules: CommissionRule[],
+  staffId: string,
+  targetType: 'service' | 'course',
+  targetId: string
+): CommissionRule | undefined => {
+  const candidates = rules.filter(r =>
+    r.active &&
+    (r.staffId === null || r.staffId === staffId) &&
+    (r.targetType === 'any' || r.targetType === targetType) &&
+    (r.targetId === null || r.targetId === targetId)
+  );
+  const score = (r: CommissionRule) => (r.staffId ? 2 : 0) + (r.targetId ? 1 : 0);
+  return candidates.sort((a, b) => score(b) - score(a))[0];
+};
+
+const applyValue = (valueType: 'flat' | 'percent', value: number, unitPrice: number) =>
+  valueType === 'percent' ? unitPrice * value / 100 : value;
+
+/**
+ * Fee for `units` units at `unitPrice`.
+ * Tiered rules are marginal: each unit is paid at the tier its running monthly
+ * count falls into, so `priorUnits` is what the doctor already did this month.
+ */
+export const calculateCommission = (rule: CommissionRule, units: number, unitPrice: number, priorUnits = 0): number => {
+  if (rule.method === 'flat') return rule.value * units;
+  if (rule.method === 'percent') return unitPrice * rule.value / 100 * units;
+
+  const tiers = [...(rule.tiers || [])].sort((a, b) => a.fromUnits - b.fromUnits);
+  let total = 0;
+  for (let n = priorUnits + 1; n <= priorUnits + units; n++) {
+    const tier = tiers.filter(t => t.fromUnits <= n).pop();
+    total += tier ? applyValue(rule.tierValueType || 'flat', tier.value, unitPrice) : 0;
+  }
+  return total;
+};
+
+export const describeCommissionRule = (rule: CommissionRule) => {
+  if (rule.method === 'flat') return `฿${rule.value.toLocaleString()} / ครั้ง`;
+  if (rule.method === 'percent') return `${rule.value}% ของราคาต่อครั้ง`;
+  const suffix = rule.tierValueType === 'percent' ? '%' : '฿';
+  return 'ขั้นบันได: ' + [...(rule.tiers || [])]
+    .sort((a, b) => a.fromUnits - b.fromUnits)
+    .map(t => `ครั้งที่ ${t.fromUnits}+ ${suffix === '฿' ? '฿' + t.value : t.value + '%'}`)
+    .join(', ');
+};
@@ -0,0 +1,220 @@
+import { ConsentTemplate, Service, SignedConsent } from '../types';
+import { addMonths, toISODate } from './schedule';
+
+// Private bucket; signed PDFs are insert-only and read through signed URLs
+export const CONSENT_BUCKET = 'consent-forms';
+
+export const CONSENT_VARIABLES: { key: string; label: string }[] = [
+  { key: 'customerName', label: 'ชื่อลูกค้า' },
+  { key: 'procedure', label: 'หัตถการ' },
+  { key: 'date', label: 'วันที่' },
+  { key: 'clinicName', label: 'ชื่อคลินิก' }
+];
+
+export type ConsentGapStatus = 'missing' | 'outdated';
+
+export const CONSENT_GAP_LABELS: Record<ConsentGapStatus, string> = {
+  missing: 'ยังไม่ได้ลงนาม',
+  outdated: 'ต้องลงนามใหม่ (ฉบับแก้ไข/หมดอายุ)'
+};
+
+export interface ConsentGap {
+  template: ConsentTemplate;
+  status: ConsentGapStatus;
+}
+
+// Unknown variables are left as typed so a typo shows up on the printed form
+export const fillConsentTemplate = (body: string, vars: Record<string, string>) =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => vars[key] ?? match);
+
+export const requiredConsentTemplates = (templates: ConsentTemplate[], services: Service[], courseId?: string) =>
+  templates.filter(t => t.active && (
+    services.some(s => t.serviceIds.includes(s.id) || t.categories.includes(s.category))
+    || (!!courseId && t.courseIds.includes(courseId))
+  ));
+
+export const latestConsent = (signed: SignedConsent[], templateId: string, customerId: string) =>
+  signed
+    .filter(c => c.templateId === templateId && c.customerId === customerId)
+    .sort((a, b) => b.signedAt.localeCompare(a.signedAt))[0];
+
+// Current when signed on the template's current text and within its re-sign period
+export const isConsentCurrent = (consent: SignedConsent, template: ConsentTemplate, asOf = toISODate(new Date())) =>
+  consent.templateVersion >= template.version
+  && (!template.validMonths || addMonths(consent.signedAt.slice(0, 10), template.validMonths) >= asOf);
+
+export const findConsentGaps = (templates: ConsentTemplate[], signed: SignedConsent[], customerId: string, services: Service[], courseId?: string): ConsentGap[] =>
+  requiredConsentTemplates(templates, services, courseId).flatMap((template): ConsentGap[] => {
+    const consent = latestConsent(signed, template.id, customerId);
+    if (!consent) return [{ template, status: 'missing' }];
+    return isConsentCurrent(consent, template) ? [] : [{ template, status: 'outdated' }];
+  });
+
+// The consents a treatment is being performed under, for linking to its record
+export const currentConsentIds = (templates: ConsentTemplate[], signed: SignedConsent[], customerId: string, services: Service[], courseId?: string) =>
+  requiredConsentTemplates(templates, services, courseId)
+    .map(t => latestConsent(signed, t.id, customerId))
+    .filter((c): c is SignedConsent => !!c)
+    .map(c => c.id);
+
+export const consentPdfPath = (customerId: string) => `${customerId}/${crypto.randomUUID()}.pdf`;
+
+// --- Rendering ---
+
+const PAGE_WIDTH = 1240; // A4 at 150 dpi
+const PAGE_HEIGHT = 1754;
+const MARGIN = 110;
+const FONT = '"Sarabun", "Noto Sans Thai", "Leelawadee UI", Tahoma, sans-serif';
+
+// Thai has no spaces between words, so lines are broken on word segments rather than spaces
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const segmenter = new Intl.Segmenter('th', { granularity: 'word' });
+  return text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    for (const { segment } of segmenter.segment(paragraph)) {
+      if (line && ctx.measureText(line + segment).width > maxWidth) {
+        lines.push(line.trimEnd());
+        line = segment.trimStart();
+      } else {
+        line += segment;
+      }
+    }
+    lines.push(line);
+    return lines;
+  });
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Unreadable signature'));
+  img.src = src;
+});
+
+export interface ConsentDocument {
+  clinicName: string;
+  title: string;
+  text: string; // Already filled in
+  customerName: string;
+  signatureDataUrl: string;
+  signedAt: Date;
+  version: number;
+}
+
+const toJpeg = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Encoding failed')), 'image/jpeg', 0.9));
+
+// Draws the filled form onto as many A4 page images as the text needs; the signature goes
+// under the last line, or on a page of its own when the text runs down to the bottom
+const renderConsentPages = async (doc: ConsentDocument) => {
+  const pages: HTMLCanvasElement[] = [];
+  const newPage = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = PAGE_WIDTH;
+    canvas.height = PAGE_HEIGHT;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+    ctx.fillStyle = '#111827';
+    ctx.textBaseline = 'top';
+    pages.push(canvas);
+    return ctx;
+  };
+
+  let ctx = newPage();
+  let y = MARGIN;
+  ctx.font = `bold 30px ${FONT}`;
+  ctx.fillText(doc.clinicName, MARGIN, y);
+  y += 60;
+  ctx.font = `bold 40px ${FONT}`;
+  ctx.fillText(doc.title, MARGIN, y);
+  y += 80;
+
+  const textFont = `26px ${FONT}`;
+  const lineHeight = 40;
+  const textBottom = PAGE_HEIGHT - MARGIN;
+  const signatureTop = PAGE_HEIGHT - MARGIN - 260;
+  ctx.font = textFont;
+  for (const line of wrapText(ctx, doc.text, PAGE_WIDTH - MARGIN * 2)) {
+    if (y > textBottom - lineHeight) {
+      ctx = newPage();
+      ctx.font = textFont;
+      y = MARGIN;
+    }
+    ctx.fillText(line, MARGIN, y);
+    y += lineHeight;
+  }
+  if (y > signatureTop - lineHeight) ctx = newPage();
+
+  const signature = await loadImage(doc.signatureDataUrl);
+  const sigWidth = 420;
+  const sigHeight = Math.min(160, signature.height * (sigWidth / signature.width));
+  const sigLeft = PAGE_WIDTH - MARGIN - sigWidth;
+  ctx.drawImage(signature, sigLeft, signatureTop, sigWidth, sigHeight);
+  ctx.strokeStyle = '#9ca3af';
+  ctx.beginPath();
+  ctx.moveTo(sigLeft, signatureTop + 170);
+  ctx.lineTo(PAGE_WIDTH - MARGIN, signatureTop + 170);
+  ctx.stroke();
+  ctx.font = `24px ${FONT}`;
+  ctx.fillText(`ลงชื่อ ${doc.customerName}`, sigLeft, signatureTop + 185);
+  ctx.fillText(`วันที่ ${doc.signedAt.toLocaleString('th-TH')}`, sigLeft, signatureTop + 220);
+
+  // Every page carries the version and its place in the document so a loose page can be traced
+  pages.forEach((page, i) => {
+    const pageCtx = page.getContext('2d')!;
+    pageCtx.fillStyle = '#6b7280';
+    pageCtx.font = `18px ${FONT}`;
+    pageCtx.textBaseline = 'top';
+    pageCtx.fillText(`ฉบับที่ ${doc.version} · หน้า ${i + 1}/${pages.length}`, MARGIN, PAGE_HEIGHT - MARGIN + 20);
+  });
+
+  return Promise.all(pages.map(toJpeg));
+};
+
+// One JPEG per page; avoids embedding Thai fonts in the PDF itself
+const jpegsToPdf = async (jpegs: Blob[], width: number, height: number) => {
+  const images = await Promise.all(jpegs.map(async jpeg => new Uint8Array(await jpeg.arrayBuffer())));
+  const encoder = new TextEncoder();
+  const pageWidth = 595; // A4 in points
+  const pageHeight = 842;
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const object = (body: string) => {
+    offsets.push(length);
+    push(`${offsets.length} 0 obj\n${body}\nendobj\n`);
+  };
+
+  // Objects 1-2 are the catalog and page tree; each page then takes three: page, image, contents
+  const pageRef = (i: number) => 3 + i * 3;
+  push('%PDF-1.4\n');
+  object('<< /Type /Catalog /Pages 2 0 R >>');
+  object(`<< /Type /Pages /Kids [${images.map((_, i) => `${pageRef(i)} 0 R`).join(' ')}] /Count ${images.length} >>`);
+  images.forEach((image, i) => {
+    const ref = pageRef(i);
+    object(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im0 ${ref + 1} 0 R >> >> /Contents ${ref + 2} 0 R >>`);
+    offsets.push(length);
+    push(`${ref + 1} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.length} >>\nstream\n`);
+    push(image);
+    push('\nendstream\nendobj\n');
+    object(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  const xrefStart = length;
+  push(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => push(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefStart}\n%%EOF\n`);
+  return new Blob(parts, { type: 'application/pdf' });
+};
+
+export const renderConsentPdf = async (doc: ConsentDocument) =>
+  jpegsToPdf(await renderConsentPages(doc), PAGE_WIDTH, PAGE_HEIGHT);
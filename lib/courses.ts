@@ -0,0 +1,154 @@
+import { Consumable, CourseAdjustmentType, CourseDefinition, CourseValidityStart, Customer, CustomerCourse, CustomerCourseEntitlement, Service, Transaction } from '../types';
+import { addMonths, toISODate } from './schedule';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const COURSE_VALIDITY_START_LABELS: Record<CourseValidityStart, string> = {
+  purchase: 'นับจากวันที่ซื้อ',
+  first_use: 'นับจากวันที่ใช้ครั้งแรก'
+};
+
+export const COURSE_ADJUSTMENT_LABELS: Record<CourseAdjustmentType, string> = {
+  transfer: 'โอนคอร์ส',
+  share: 'เพิ่มผู้ใช้ร่วม',
+  unshare: 'ยกเลิกผู้ใช้ร่วม',
+  convert: 'แปลงคอร์ส'
+};
+
+export const describeValidity = (course: Pick<CourseDefinition, 'validityMonths' | 'validityStart'>) =>
+  course.validityMonths ? `${course.validityMonths} เดือน (${COURSE_VALIDITY_START_LABELS[course.validityStart || 'purchase']})` : 'ไม่หมดอายุ';
+
+// Courses counted from purchase get their expiry at the sale; first-use courses wait for the first cut
+export const expiryAtSale = (course: Pick<CourseDefinition, 'validityMonths' | 'validityStart'>, purchaseDate: string) =>
+  course.validityMonths && (course.validityStart || 'purchase') === 'purchase' ? addMonths(purchaseDate, course.validityMonths) : null;
+
+export const expiryOnFirstUse = (instance: CustomerCourse, useDate: string) =>
+  !instance.expiryDate && instance.validityMonths && instance.validityStart === 'first_use' ? addMonths(useDate, instance.validityMonths) : null;
+
+// Usable through the expiry date itself
+export const isCourseExpired = (instance: Pick<CustomerCourse, 'expiryDate'>, asOf = toISODate(new Date())) =>
+  !!instance.expiryDate && instance.expiryDate.slice(0, 10) < asOf;
+
+// What the customer actually paid per unit of this instance, after discounts
+export const courseUnitValue = (instance: CustomerCourse, transactions: Transaction[], courseDefinitions: CourseDefinition[]) => {
+  const sale = instance.transactionId ? transactions.find(t => t.id === instance.transactionId) : undefined;
+  const line = sale?.items.find(item => item.type === 'course' && item.id === instance.courseId);
+  const paid = line
+    ? line.price - (line.discount || 0) / line.quantity
+    : courseDefinitions.find(c => c.id === instance.courseId)?.price || 0;
+  return instance.totalUnits > 0 ? paid / instance.totalUnits : 0;
+};
+
+export interface ExpiredCourseRow {
+  customer: Customer;
+  course: CustomerCourse;
+  units: number;
+  value: number;
+}
+
+// Units left on courses whose validity has ended; the money paid for them is recognised as revenue
+export const getExpiredUnused = (customers: Customer[], transactions: Transaction[], courseDefinitions: CourseDefinition[], asOf = toISODate(new Date())): ExpiredCourseRow[] =>
+  customers.flatMap(customer => customer.activeCourses
+    .filter(cc => cc.remainingUnits > 0 && isCourseExpired(cc, asOf))
+    .map(cc => ({
+      customer,
+      course: cc,
+      units: cc.remainingUnits,
+      value: round2(cc.remainingUnits * courseUnitValue(cc, transactions, courseDefinitions))
+    })));
+
+export const findCourseOwner = (customers: Customer[], customerCourseId: string) =>
+  customers.find(c => c.activeCourses.some(cc => cc.id === customerCourseId));
+
+// Courses shared with this customer by someone else
+export const getSharedCourses = (customers: Customer[], customerId: string) =>
+  customers.flatMap(owner => owner.id === customerId ? [] : owner.activeCourses
+    .filter(cc => cc.active && cc.sharedWith?.includes(customerId))
+    .map(course => ({ owner, course })));
+
+// Everything this customer may cut from: their own courses plus those shared with them
+export const getUsableCourses = (customers: Customer[], customerId: string): CustomerCourse[] => [
+  ...(customers.find(c => c.id === customerId)?.activeCourses.filter(cc => cc.active) || []),
+  ...getSharedCourses(customers, customerId).map(s => s.course)
+];
+
+export const canUseCourse = (instance: CustomerCourse, ownerId: string, customerId: string) =>
+  ownerId === customerId || !!instance.sharedWith?.includes(customerId);
+
+export interface ConversionQuote {
+  value: number; // What the remaining units are worth
+  unitPrice: number; // Per-unit price of the target course
+  units: number; // Target units the value fully covers
+  fee: number; // Extra to pay for the requested number of units
+  forfeited: number; // Value left over that the customer gives up
+}
+
+// Remaining value carried into another course at that course's per-unit price
+export const quoteConversion = (
+  instance: CustomerCourse,
+  target: CourseDefinition,
+  transactions: Transaction[],
+  courseDefinitions: CourseDefinition[],
+  requestedUnits?: number
+): ConversionQuote => {
+  const value = round2(instance.remainingUnits * courseUnitValue(instance, transactions, courseDefinitions));
+  const unitPrice = target.totalUnits > 0 ? target.price / target.totalUnits : 0;
+  const covered = unitPrice > 0 ? Math.floor(value / unitPrice + 1e-9) : 0;
+  const units = requestedUnits ?? covered;
+  const cost = round2(units * unitPrice);
+  return {
+    value,
+    unitPrice: round2(unitPrice),
+    units: covered,
+    fee: round2(Math.max(0, cost - value)),
+    forfeited: round2(Math.max(0, value - cost))
+  };
+};
+
+// --- Bundled courses ---
+
+export const isBundle = (course: { entitlements?: unknown[] }) => !!course.entitlements?.length;
+
+export const bundleTotalUnits = (course: Pick<CourseDefinition, 'entitlements'>) =>
+  (course.entitlements || []).reduce((sum, e) => sum + e.units, 0);
+
+// Fresh balances for a newly sold bundle; service names are copied so renames don't change old purchases
+export const instanceEntitlements = (course: CourseDefinition, services: Service[], scale = 1): CustomerCourseEntitlement[] =>
+  (course.entitlements || []).map(e => ({
+    entitlementId: e.id,
+    serviceId: e.serviceId,
+    serviceName: services.find(s => s.id === e.serviceId)?.name || '-',
+    totalUnits: e.units * scale,
+    remainingUnits: e.units * scale
+  }));
+
+// The line matching the booked service if it still has units; otherwise staff must choose the line
+export const pickEntitlement = (instance: CustomerCourse, serviceId?: string) =>
+  (instance.entitlements || []).find(e => e.remainingUnits > 0 && !!serviceId && e.serviceId === serviceId);
+
+export const entitlementConsumables = (course: CourseDefinition | undefined, entitlementId?: string): Consumable[] | undefined =>
+  entitlementId ? course?.entitlements?.find(e => e.id === entitlementId)?.consumables : course?.consumables;
+
+/**
+ * Per-session value of a course, used for doctor fees. A bundle's price is
+ * split across its lines in proportion to each service's list price, so a
+ * Botox session is worth more than an Acne Clear session in the same package.
+ */
+export const courseSessionPrice = (course: CourseDefinition, services: Service[], entitlementId?: string) => {
+  if (!isBundle(course) || !entitlementId) return course.totalUnits > 0 ? course.price / course.totalUnits : 0;
+  const listPrice = (serviceId: string) => services.find(s => s.id === serviceId)?.price || 0;
+  const listTotal = course.entitlements!.reduce((sum, e) => sum + listPrice(e.serviceId) * e.units, 0);
+  const line = course.entitlements!.find(e => e.id === entitlementId);
+  if (!line) return 0;
+  return listTotal > 0 ? round2(course.price * listPrice(line.serviceId) / listTotal) : round2(course.price / bundleTotalUnits(course));
+};
+
+// Takes units off a bundle starting from the last line, for refunds that work on the overall count
+export const removeEntitlementUnits = (entitlements: CustomerCourseEntitlement[], units: number) => {
+  let due = units;
+  return [...entitlements].reverse().map(e => {
+    const take = Math.min(due, e.remainingUnits);
+    due -= take;
+    return { ...e, remainingUnits: e.remainingUnits - take };
+  }).reverse();
+};
@@ -0,0 +1,125 @@
+import { Customer } from '../types';
+
+// Digits only, with the +66 country code folded back to a leading 0 ("+66 81-234 5678" -> "0812345678")
+export const normalizePhone = (phone: string) => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.startsWith('66') && digits.length === 11 ? '0' + digits.slice(2) : digits;
+};
+
+// Stored form: mobiles as 0xx-xxx-xxxx, Bangkok landlines as 02-xxx-xxxx, anything else as typed digits
+export const formatPhone = (phone: string) => {
+  const digits = normalizePhone(phone);
+  if (/^0[689]\d{8}$/.test(digits)) return `${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}`;
+  if (/^02\d{7}$/.test(digits)) return `${digits.slice(0, 2)}-${digits.slice(2, 5)}-${digits.slice(5)}`;
+  if (/^0\d{8}$/.test(digits)) return `${digits.slice(0, 3)}-${digits.slice(3, 5)}-${digits.slice(5)}`;
+  return digits || (phone || '').trim();
+};
+
+const TITLES = /^(คุณ|นางสาว|นาง|นาย|น\.ส\.|ด\.ช\.|ด\.ญ\.|mrs?\.?|ms\.?|miss)\s*/i;
+
+// Lower-case, honorific dropped, spaces and punctuation removed, so "คุณ สมหญิง  ใจดี" == "สมหญิงใจดี"
+export const normalizeName = (name: string) =>
+  (name || '').trim().replace(TITLES, '').toLowerCase().replace(/[\s.\-_,'"()]/g, '');
+
+const editDistance = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+// 1 = same name after normalizing; a one-letter typo in an 8-letter name scores ~0.88
+export const nameSimilarity = (a: string, b: string) => {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  return 1 - editDistance(x, y) / Math.max(x.length, y.length);
+};
+
+export const NAME_MATCH_THRESHOLD = 0.8;
+
+export type DuplicateReason = 'phone' | 'name';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'เบอร์โทรตรงกัน',
+  name: 'ชื่อใกล้เคียง'
+};
+
+export interface DuplicateMatch {
+  customer: Customer;
+  reasons: DuplicateReason[];
+  score: number; // Name similarity
+}
+
+const matchCustomer = (customer: Customer, name: string, phone: string): DuplicateMatch | null => {
+  const reasons: DuplicateReason[] = [];
+  const digits = normalizePhone(phone);
+  if (digits.length >= 9 && normalizePhone(customer.phone) === digits) reasons.push('phone');
+  const score = nameSimilarity(name, customer.name);
+  if (score >= NAME_MATCH_THRESHOLD) reasons.push('name');
+  return reasons.length ? { customer, reasons, score } : null;
+};
+
+// Existing customers that look like the one being entered; phone matches first
+export const findDuplicateCustomers = (customers: Customer[], candidate: { name: string; phone: string }, excludeId?: string) =>
+  customers
+    .filter(c => c.id !== excludeId)
+    .map(c => matchCustomer(c, candidate.name, candidate.phone))
+    .filter((m): m is DuplicateMatch => !!m)
+    .sort((a, b) => b.reasons.length - a.reasons.length || Number(b.reasons.includes('phone')) - Number(a.reasons.includes('phone')) || b.score - a.score);
+
+export interface DuplicatePair {
+  first: Customer;
+  second: Customer;
+  reasons: DuplicateReason[];
+  score: number;
+}
+
+// Whole-list scan for the merge tool. Names are only compared within the same first letter
+// to keep this from being quadratic over the full customer list; shared phones are always caught.
+export const findDuplicatePairs = (customers: Customer[]): DuplicatePair[] => {
+  const buckets = new Map<string, Customer[]>();
+  customers.forEach(c => {
+    const phone = normalizePhone(c.phone);
+    if (phone.length >= 9) buckets.set(`p:${phone}`, [...(buckets.get(`p:${phone}`) || []), c]);
+    const initial = normalizeName(c.name)[0];
+    if (initial) buckets.set(`n:${initial}`, [...(buckets.get(`n:${initial}`) || []), c]);
+  });
+  const pairs = new Map<string, DuplicatePair>();
+  buckets.forEach(group => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const [first, second] = [group[i], group[j]];
+        const key = [first.id, second.id].sort().join(':');
+        if (pairs.has(key)) continue;
+        const match = matchCustomer(second, first.name, first.phone);
+        if (match) pairs.set(key, { first, second, reasons: match.reasons, score: match.score });
+      }
+    }
+  });
+  return [...pairs.values()].sort((a, b) => b.reasons.length - a.reasons.length || b.score - a.score);
+};
+
+// What the kept record ends up with: its own details, gaps filled from the duplicate,
+// and every allergy/medication/condition from both so no safety flag is lost
+export const mergedProfile = (survivor: Customer, duplicate: Customer) => {
+  const union = (a?: string[], b?: string[]) => [...new Set([...(a || []), ...(b || [])])];
+  const extraPhone = normalizePhone(duplicate.phone) && normalizePhone(duplicate.phone) !== normalizePhone(survivor.phone)
+    ? `เบอร์อื่น: ${duplicate.phone}` : '';
+  return {
+    email: survivor.email || duplicate.email,
+    birthDate: survivor.birthDate || duplicate.birthDate,
+    lineId: survivor.lineId || duplicate.lineId,
+    address: survivor.address || duplicate.address,
+    notes: [survivor.notes, duplicate.notes, extraPhone].filter(Boolean).join('\n'),
+    allergies: union(survivor.allergies, duplicate.allergies),
+    medications: union(survivor.medications, duplicate.medications),
+    conditions: union(survivor.conditions, duplicate.conditions)
+  };
+};
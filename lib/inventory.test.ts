@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { InventoryItem, InventoryLot } from '../types';
+import { allocateFefo, getExpiringLots, getUntrackedQuantity, getUsableLots, getUsableQuantity } from './inventory';
+
+const lot = (id: string, quantity: number, expiryDate: string | null): InventoryLot => ({
+  id,
+  inventoryItemId: 'botox',
+  lotNumber: id.toUpperCase(),
+  expiryDate,
+  receivedDate: '2024-12-01',
+  quantity
+});
+
+// 22 units in lots (4 of them expired) plus 2 received without a lot number
+const item: InventoryItem = {
+  id: 'botox',
+  name: 'Botox',
+  quantity: 24,
+  unit: 'vial',
+  minLevel: 5,
+  pricePerUnit: 3000,
+  lots: [
+    lot('june', 5, '2025-06-01'),
+    lot('march', 3, '2025-03-01'),
+    lot('open', 10, null),
+    lot('expired', 4, '2025-01-01'),
+    lot('empty', 0, '2025-02-15')
+  ]
+};
+const asOf = '2025-02-01';
+
+describe('usable stock', () => {
+  it('orders lots first-expiring first, with lots without expiry last', () => {
+    expect(getUsableLots(item, asOf).map(l => l.id)).toEqual(['march', 'june', 'open']);
+  });
+
+  it('still uses a lot on its expiry date', () => {
+    expect(getUsableLots(item, '2025-03-01').map(l => l.id)).toContain('march');
+    expect(getUsableLots(item, '2025-03-02').map(l => l.id)).not.toContain('march');
+  });
+
+  it('counts untracked stock but not expired lots', () => {
+    expect(getUntrackedQuantity(item)).toBe(2);
+    expect(getUsableQuantity(item, asOf)).toBe(20);
+  });
+});
+
+describe('allocateFefo', () => {
+  it('takes from the first-expiring lots first', () => {
+    expect(allocateFefo(item, 10, asOf).map(a => [a.lotId, a.quantity])).toEqual([['march', 3], ['june', 5], ['open', 2]]);
+  });
+
+  it('uses untracked stock only after every usable lot', () => {
+    expect(allocateFefo(item, 19, asOf).map(a => [a.lotId, a.quantity])).toEqual([['march', 3], ['june', 5], ['open', 10], [undefined, 1]]);
+  });
+
+  it('never allocates more than is usable', () => {
+    const total = allocateFefo(item, 25, asOf).reduce((sum, a) => sum + a.quantity, 0);
+    expect(total).toBe(20);
+  });
+});
+
+describe('getExpiringLots', () => {
+  it('lists lots with stock expiring within the window, including ones already expired', () => {
+    expect(getExpiringLots([item], 30, asOf).map(({ lot }) => lot.id)).toEqual(['expired', 'march']);
+  });
+});
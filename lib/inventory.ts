@@ -0,0 +1,59 @@
+import { InventoryItem, InventoryLot, LotUsage } from '../types';
+
+const todayISO = () => new Date().toISOString().split('T')[0];
+
+export const isLotExpired = (lot: InventoryLot, asOf: string = todayISO()) =>
+  !!lot.expiryDate && lot.expiryDate.split('T')[0] < asOf;
+
+// Lots that can still be dispensed, first-expiring first (lots without expiry go last)
+export const getUsableLots = (item: InventoryItem, asOf: string = todayISO()): InventoryLot[] =>
+  item.lots
+    .filter(lot => lot.quantity > 0 && !isLotExpired(lot, asOf))
+    .sort((a, b) => {
+      if (!a.expiryDate) return 1;
+      if (!b.expiryDate) return -1;
+      return a.expiryDate.localeCompare(b.expiryDate);
+    });
+
+// Stock received without a lot number
+export const getUntrackedQuantity = (item: InventoryItem) =>
+  Math.max(0, item.quantity - item.lots.reduce((sum, lot) => sum + Math.max(0, lot.quantity), 0));
+
+// On-hand stock excluding expired lots
+export const getUsableQuantity = (item: InventoryItem, asOf: string = todayISO()) =>
+  getUsableLots(item, asOf).reduce((sum, lot) => sum + lot.quantity, 0) + getUntrackedQuantity(item);
+
+/**
+ * Split a deduction across lots, First-Expired-First-Out.
+ * Untracked stock is used after every usable lot. The result never exceeds what is
+ * on hand; callers check getUsableQuantity first and block the shortfall.
+ */
+export const allocateFefo = (item: InventoryItem, quantity: number, asOf: string = todayISO()): LotUsage[] => {
+  const allocations: LotUsage[] = [];
+  let remaining = quantity;
+
+  for (const lot of getUsableLots(item, asOf)) {
+    if (remaining <= 0) break;
+    const take = Math.min(lot.quantity, remaining);
+    allocations.push({ inventoryItemId: item.id, lotId: lot.id, lotNumber: lot.lotNumber, quantity: take });
+    remaining -= take;
+  }
+
+  const untracked = Math.min(remaining, getUntrackedQuantity(item));
+  if (untracked > 0) {
+    allocations.push({ inventoryItemId: item.id, quantity: untracked });
+  }
+  return allocations;
+};
+
+// Lots (including already expired ones) that expire within the next N days
+export const getExpiringLots = (inventory: InventoryItem[], withinDays: number, asOf: string = todayISO()) => {
+  const limit = new Date(asOf);
+  limit.setDate(limit.getDate() + withinDays);
+  const limitISO = limit.toISOString().split('T')[0];
+
+  return inventory
+    .flatMap(item => item.lots.map(lot => ({ item, lot })))
+    .filter(({ lot }) => lot.quantity > 0 && !!lot.expiryDate && lot.expiryDate.split('T')[0] <= limitISO)
+    .sort((a, b) => (a.lot.expiryDate || '').localeCompare(b.lot.expiryDate || ''));
+};
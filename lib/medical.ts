@@ -0,0 +1,81 @@
+import { ContraindicationHit, ContraindicationRule, CourseDefinition, Customer, InventoryItem, MedicalFlagType, SafetyCheckContext, Service } from '../types';
+
+export const MEDICAL_FLAG_LABELS: Record<MedicalFlagType, string> = {
+  allergy: 'แพ้ยา/สาร (Allergy)',
+  medication: 'ยาที่ใช้อยู่ (Medication)',
+  condition: 'โรค/ภาวะ (Condition)'
+};
+
+export const SAFETY_CONTEXT_LABELS: Record<SafetyCheckContext, string> = {
+  appointment: 'จองนัด',
+  sale: 'ขาย',
+  course_use: 'ตัดคอร์ส'
+};
+
+// Quick picks for the customer form
+export const COMMON_MEDICAL_ENTRIES: Record<MedicalFlagType, string[]> = {
+  allergy: ['Penicillin', 'Lidocaine', 'Sulfa', 'Hyaluronidase', 'Latex'],
+  medication: ['Blood thinners (ยาละลายลิ่มเลือด)', 'Aspirin', 'Isotretinoin (Roaccutane)', 'Steroids'],
+  condition: ['Pregnancy (ตั้งครรภ์)', 'Breastfeeding (ให้นมบุตร)', 'Keloid (แผลเป็นนูน)', 'Bleeding disorder', 'Autoimmune disease']
+};
+
+// Quick picks for the service/product rule editor
+export const COMMON_CONTRAINDICATIONS: Omit<ContraindicationRule, 'id'>[] = [
+  { type: 'condition', term: 'Pregnancy', reason: 'ห้ามทำในหญิงตั้งครรภ์' },
+  { type: 'condition', term: 'Breastfeeding', reason: 'ห้ามทำในหญิงให้นมบุตร' },
+  { type: 'medication', term: 'Blood thinners', reason: 'เสี่ยงเลือดออก/ช้ำมาก' },
+  { type: 'medication', term: 'Aspirin', reason: 'เสี่ยงเลือดออก/ช้ำมาก' },
+  { type: 'medication', term: 'Isotretinoin', reason: 'ห้ามเลเซอร์/ผลัดเซลล์ผิวภายใน 6 เดือนหลังหยุดยา' },
+  { type: 'allergy', term: 'Lidocaine', reason: 'มียาชาเป็นส่วนผสม' }
+];
+
+const entriesOf = (customer: Customer, type: MedicalFlagType) =>
+  (type === 'allergy' ? customer.allergies : type === 'medication' ? customer.medications : customer.conditions) || [];
+
+// Either side may be the more specific wording ("Isotretinoin" vs "Isotretinoin (Roaccutane)")
+const matches = (entry: string, term: string) => {
+  const a = entry.trim().toLowerCase();
+  const b = term.trim().toLowerCase();
+  return !!a && !!b && (a.includes(b) || b.includes(a));
+};
+
+export interface ContraindicationSource {
+  name: string;
+  contraindications?: ContraindicationRule[];
+}
+
+export const findContraindications = (customer: Customer | undefined, sources: ContraindicationSource[]): ContraindicationHit[] => {
+  if (!customer) return [];
+  const seen = new Set<string>();
+  return sources.flatMap(source => (source.contraindications || []).flatMap(rule => {
+    const match = entriesOf(customer, rule.type).find(entry => matches(entry, rule.term));
+    const key = `${source.name}|${rule.type}|${rule.term}`;
+    if (!match || seen.has(key)) return [];
+    seen.add(key);
+    return [{ source: source.name, rule, match }];
+  }));
+};
+
+const consumableItems = (consumables: { inventoryItemId: string }[] | undefined, inventory: InventoryItem[]) =>
+  (consumables || []).flatMap(c => inventory.filter(i => i.id === c.inventoryItemId));
+
+// A service carries its own rules plus those of the products it uses
+export const serviceSources = (service: Service | undefined, inventory: InventoryItem[]): ContraindicationSource[] =>
+  service ? [service, ...consumableItems(service.consumables, inventory)] : [];
+
+// A course is checked against the services in its package and every product it consumes;
+// pass entitlementId to check just the line being used
+export const courseSources = (course: CourseDefinition | undefined, services: Service[], inventory: InventoryItem[], entitlementId?: string): ContraindicationSource[] => {
+  if (!course) return [];
+  const lines = (course.entitlements || []).filter(e => !entitlementId || e.id === entitlementId);
+  return [
+    ...consumableItems(course.consumables, inventory),
+    ...lines.flatMap(line => [
+      ...services.filter(s => s.id === line.serviceId),
+      ...consumableItems(line.consumables, inventory)
+    ])
+  ];
+};
+
+export const hasMedicalAlerts = (customer: Customer) =>
+  !!(customer.allergies?.length || customer.medications?.length || customer.conditions?.length);
@@ -0,0 +1,210 @@
+import { Appointment, Customer, NotificationChannel, NotificationKind, NotificationMessage, Payment, Service, Staff, Transaction } from '../types';
+import { BOOKED_STATUSES, toISODate } from './schedule';
+import { getStaffName } from './staff';
+import { getInstallmentStatus, tracksBalance } from './receivables';
+
+export const CLINIC_NAME = 'Patricia Clinic';
+
+export const MAX_ATTEMPTS = 3;
+export const CLAIM_TIMEOUT_MINUTES = 10; // A 'sending' row older than this is treated as abandoned
+const RETRY_DELAY_MINUTES = [5, 30, 120];
+
+export const COURSE_EXPIRY_NOTICE_DAYS = 7;
+const FOLLOW_UP_AFTER_DAYS = 1;
+const FOLLOW_UP_TIME = '10:00';
+const BIRTHDAY_TIME = '09:00';
+const PAYMENT_REMINDER_TIME = '10:00';
+const PAYMENT_OVERDUE_AFTER_DAYS = 3;
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  line: 'LINE',
+  sms: 'SMS',
+  email: 'Email'
+};
+
+export const KIND_LABELS: Record<NotificationKind, string> = {
+  appointment_day_before: 'เตือนนัดล่วงหน้า 1 วัน',
+  appointment_two_hours: 'เตือนนัดล่วงหน้า 2 ชั่วโมง',
+  course_expiry: 'คอร์สใกล้หมดอายุ',
+  birthday: 'อวยพรวันเกิด',
+  follow_up: 'ติดตามอาการหลังทำหัตถการ',
+  payment_due: 'เตือนครบกำหนดชำระงวด',
+  payment_overdue: 'แจ้งค้างชำระเกินกำหนด'
+};
+
+// {placeholders} are filled by renderTemplate
+export const NOTIFICATION_TEMPLATES: Record<NotificationKind, string> = {
+  appointment_day_before: 'เรียนคุณ{name} {clinic} ขอเตือนนัดหมาย {service} วันพรุ่งนี้ ({date}) เวลา {time} น.{doctor} หากต้องการเลื่อนนัดกรุณาติดต่อคลินิก',
+  appointment_two_hours: 'เรียนคุณ{name} อีก 2 ชั่วโมงถึงเวลานัด {service} เวลา {time} น. ที่ {clinic} แล้วพบกันค่ะ',
+  course_expiry: 'เรียนคุณ{name} คอร์ส {course} ของคุณเหลืออีก {remaining} ครั้ง และจะหมดอายุวันที่ {expiry} กรุณานัดหมายเพื่อใช้บริการก่อนหมดอายุค่ะ',
+  birthday: 'สุขสันต์วันเกิดคุณ{name} ขอให้มีความสุขและสุขภาพแข็งแรง จาก {clinic} ค่ะ',
+  follow_up: 'เรียนคุณ{name} หลังจากทำ {treatment} เมื่อวันที่ {date} อาการเป็นอย่างไรบ้างคะ หากมีข้อสงสัยสามารถติดต่อ {clinic} ได้ตลอดค่ะ',
+  payment_due: 'เรียนคุณ{name} {clinic} ขอแจ้งว่างวดชำระ {amount} บาท จะครบกำหนดในวันพรุ่งนี้ ({date}) สามารถชำระได้ที่คลินิกหรือโอนเงินและแจ้งหลักฐานค่ะ',
+  payment_overdue: 'เรียนคุณ{name} {clinic} ขอแจ้งว่างวดชำระ {amount} บาท ที่ครบกำหนดวันที่ {date} ยังไม่ได้รับชำระ กรุณาติดต่อคลินิกเพื่อชำระค่ะ'
+};
+
+export const renderTemplate = (template: string, vars: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => (key in vars ? String(vars[key]) : match));
+
+// LINE first (free and read most), then SMS, then email
+export const pickChannel = (customer: Customer): { channel: NotificationChannel; recipient: string } | null => {
+  if (customer.lineId) return { channel: 'line', recipient: customer.lineId };
+  if (customer.phone) return { channel: 'sms', recipient: customer.phone };
+  if (customer.email) return { channel: 'email', recipient: customer.email };
+  return null;
+};
+
+export const nextRetryAt = (attempts: number, from = new Date()) =>
+  new Date(from.getTime() + RETRY_DELAY_MINUTES[Math.min(attempts, RETRY_DELAY_MINUTES.length) - 1] * 60000).toISOString();
+
+const thaiDate = (date: string) =>
+  new Date(date.slice(0, 10) + 'T00:00:00').toLocaleDateString('th-TH', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const at = (date: string, time: string) => new Date(`${date.slice(0, 10)}T${time.slice(0, 5)}:00`);
+
+// --- Transports ---
+
+export interface OutgoingMessage {
+  channel: NotificationChannel;
+  recipient: string;
+  subject?: string;
+  body: string;
+}
+
+// LINE, SMS and SMTP providers implement this; send() throws when delivery fails
+export interface NotificationTransport {
+  name: string;
+  send: (message: OutgoingMessage) => Promise<void>;
+}
+
+// Stand-in used until a real provider is registered: logs instead of sending
+export const consoleTransport: NotificationTransport = {
+  name: 'console',
+  send: async message => {
+    console.info(`[${CHANNEL_LABELS[message.channel]}] -> ${message.recipient}${message.subject ? ` (${message.subject})` : ''}\n${message.body}`);
+  }
+};
+
+const transports: Partial<Record<NotificationChannel, NotificationTransport>> = {};
+
+export const registerTransport = (channel: NotificationChannel, transport: NotificationTransport) => {
+  transports[channel] = transport;
+};
+
+export const getTransport = (channel: NotificationChannel) => transports[channel] || consoleTransport;
+
+// --- Scheduling ---
+
+export type NotificationDraft = Pick<NotificationMessage, 'customerId' | 'kind' | 'channel' | 'recipient' | 'subject' | 'body' | 'scheduledAt' | 'sourceId' | 'dedupeKey'>;
+
+export interface NotificationSources {
+  customers: Customer[];
+  appointments: Appointment[];
+  services: Service[];
+  staff: Staff[];
+  transactions: Transaction[];
+  payments: Payment[];
+}
+
+// Appointment reminders carry the slot in their key so a rescheduled visit gets a fresh reminder
+export const appointmentDedupeKey = (kind: NotificationKind, apt: Pick<Appointment, 'id' | 'date' | 'time'>) =>
+  `${kind}:${apt.id}:${apt.date}T${apt.time.slice(0, 5)}`;
+
+export const isAppointmentReminder = (kind: NotificationKind) =>
+  kind === 'appointment_day_before' || kind === 'appointment_two_hours';
+
+export const paymentDedupeKey = (kind: NotificationKind, transactionId: string, dueDate: string) =>
+  `${kind}:${transactionId}:${dueDate}`;
+
+export const isPaymentReminder = (kind: NotificationKind) =>
+  kind === 'payment_due' || kind === 'payment_overdue';
+
+/**
+ * Messages that are due within the next day. Appointment reminders are only
+ * drafted once their send time is near, so a visit moved before then is never
+ * reminded at its old slot.
+ */
+export const collectDueNotifications = (sources: NotificationSources, now = new Date()): NotificationDraft[] => {
+  const drafts: NotificationDraft[] = [];
+  const horizon = now.getTime() + 24 * 60 * 60000;
+  const today = toISODate(now);
+
+  const draft = (customer: Customer, kind: NotificationKind, vars: Record<string, string | number>, scheduledAt: Date, dedupeKey: string, sourceId?: string) => {
+    const target = pickChannel(customer);
+    if (!target) return;
+    drafts.push({
+      customerId: customer.id,
+      kind,
+      ...target,
+      subject: target.channel === 'email' ? `${CLINIC_NAME} - ${KIND_LABELS[kind]}` : undefined,
+      body: renderTemplate(NOTIFICATION_TEMPLATES[kind], { name: customer.name, clinic: CLINIC_NAME, ...vars }),
+      scheduledAt: (scheduledAt < now ? now : scheduledAt).toISOString(),
+      sourceId,
+      dedupeKey
+    });
+  };
+
+  sources.appointments
+    .filter(apt => BOOKED_STATUSES.includes(apt.status))
+    .forEach(apt => {
+      const customer = sources.customers.find(c => c.id === apt.customerId);
+      const start = at(apt.date, apt.time);
+      if (!customer || start <= now) return;
+      const doctor = getStaffName(sources.staff, apt.staffId, apt.doctorName);
+      const vars = {
+        service: sources.services.find(s => s.id === apt.serviceId)?.name || 'การรักษา',
+        date: thaiDate(apt.date),
+        time: apt.time.slice(0, 5),
+        doctor: doctor ? ` กับ${doctor}` : ''
+      };
+      const reminders: [NotificationKind, number][] = [['appointment_day_before', 24 * 60], ['appointment_two_hours', 120]];
+      reminders.forEach(([kind, minutesBefore]) => {
+        const sendAt = new Date(start.getTime() - minutesBefore * 60000);
+        // Skip the day-before reminder for visits booked at short notice; the 2-hour one still goes out
+        if (sendAt.getTime() > horizon || (kind === 'appointment_day_before' && start.getTime() - now.getTime() < 3 * 60 * 60000)) return;
+        draft(customer, kind, vars, sendAt, appointmentDedupeKey(kind, apt), apt.id);
+      });
+    });
+
+  sources.customers.forEach(customer => {
+    customer.activeCourses
+      .filter(cc => cc.active && cc.remainingUnits > 0 && cc.expiryDate)
+      .forEach(cc => {
+        const expiry = cc.expiryDate!.slice(0, 10);
+        const daysLeft = Math.round((at(expiry, '00:00').getTime() - at(today, '00:00').getTime()) / 86400000);
+        if (daysLeft < 0 || daysLeft > COURSE_EXPIRY_NOTICE_DAYS) return;
+        draft(customer, 'course_expiry', { course: cc.courseName, remaining: cc.remainingUnits, expiry: thaiDate(expiry) }, now, `course_expiry:${cc.id}:${expiry}`, cc.id);
+      });
+
+    if (customer.birthDate && customer.birthDate.slice(5, 10) === today.slice(5, 10)) {
+      draft(customer, 'birthday', {}, at(today, BIRTHDAY_TIME), `birthday:${customer.id}:${today.slice(0, 4)}`);
+    }
+
+    customer.treatmentHistory.forEach(record => {
+      const sendAt = at(record.date, FOLLOW_UP_TIME);
+      sendAt.setDate(sendAt.getDate() + FOLLOW_UP_AFTER_DAYS);
+      // Only recent treatments; older ones predate the outbox
+      if (sendAt.getTime() > horizon || now.getTime() - sendAt.getTime() > 2 * 24 * 60 * 60000) return;
+      draft(customer, 'follow_up', { treatment: record.treatmentName, date: thaiDate(record.date) }, sendAt, `follow_up:${record.id}`, record.id);
+    });
+  });
+
+  sources.transactions.filter(tracksBalance).forEach(tx => {
+    const customer = sources.customers.find(c => c.id === tx.customerId);
+    if (!customer) return;
+    getInstallmentStatus(tx, sources.transactions, sources.payments)
+      .filter(inst => inst.outstanding > 0)
+      .forEach(inst => {
+        const reminders: [NotificationKind, number][] = [['payment_due', -1], ['payment_overdue', PAYMENT_OVERDUE_AFTER_DAYS]];
+        reminders.forEach(([kind, daysAfterDue]) => {
+          const sendAt = at(inst.dueDate, PAYMENT_REMINDER_TIME);
+          sendAt.setDate(sendAt.getDate() + daysAfterDue);
+          // Late drafting still reminds before the due date, but old installments are not chased all at once
+          if (sendAt.getTime() > horizon || (kind === 'payment_due' ? inst.dueDate < today : now.getTime() - sendAt.getTime() > 2 * 24 * 60 * 60000)) return;
+          draft(customer, kind, { amount: inst.outstanding.toLocaleString(), date: thaiDate(inst.dueDate) }, sendAt, paymentDedupeKey(kind, tx.id, inst.dueDate), tx.id);
+        });
+      });
+  });
+
+  return drafts;
+};
@@ -0,0 +1,51 @@
+import { UserRole } from '../types';
+
+export type Permission =
+  | 'appointments.manage'
+  | 'customers.view'
+  | 'customers.delete'
+  | 'customers.merge'
+  | 'courses.use'
+  | 'photos.view'
+  | 'charts.manage'
+  | 'pos.sell'
+  | 'revenue.view'
+  | 'inventory.manage'
+  | 'purchasing.manage'
+  | 'catalog.manage'
+  | 'pricing.edit'
+  | 'staff.manage'
+  | 'commissions.view'
+  | 'notifications.manage'
+  | 'sales.void'
+  | 'discounts.approve'
+  | 'settings.manage'
+  | 'ai.use'
+  | 'data.export'
+  | 'data.reset'
+  | 'users.manage';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'ผู้ดูแลระบบ (Admin)',
+  doctor: 'แพทย์ (Doctor)',
+  front_desk: 'เคาน์เตอร์ (Front Desk)',
+  accountant: 'บัญชี (Accountant)'
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'appointments.manage', 'customers.view', 'customers.delete', 'customers.merge', 'courses.use', 'photos.view', 'charts.manage', 'pos.sell', 'revenue.view',
+    'inventory.manage', 'purchasing.manage', 'catalog.manage', 'pricing.edit', 'staff.manage', 'commissions.view',
+    'notifications.manage', 'sales.void', 'discounts.approve', 'settings.manage', 'ai.use', 'data.export', 'data.reset', 'users.manage'
+  ],
+  doctor: ['appointments.manage', 'customers.view', 'courses.use', 'photos.view', 'charts.manage', 'inventory.manage', 'catalog.manage', 'ai.use'],
+  front_desk: ['appointments.manage', 'customers.view', 'courses.use', 'pos.sell', 'notifications.manage', 'ai.use'],
+  accountant: ['pos.sell', 'revenue.view', 'inventory.manage', 'purchasing.manage', 'catalog.manage', 'pricing.edit', 'commissions.view', 'sales.void', 'settings.manage', 'data.export']
+};
+
+export const hasPermission = (role: UserRole | null, permission: Permission) =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+// Roles holding a permission, for checks that run in the database (e.g. storage policies)
+export const rolesWith = (permission: Permission) =>
+  (Object.keys(ROLE_PERMISSIONS) as UserRole[]).filter(role => ROLE_PERMISSIONS[role].includes(permission));
@@ -0,0 +1,46 @@
+import { PhotoKind, TreatmentPhoto, TreatmentRecord } from '../types';
+
+// Private bucket; files are only reachable through signed URLs
+export const PHOTO_BUCKET = 'treatment-photos';
+export const SIGNED_URL_SECONDS = 60 * 60;
+const THUMBNAIL_SIZE = 320;
+
+export const PHOTO_KIND_LABELS: Record<PhotoKind, string> = {
+  before: 'ก่อนทำ (Before)',
+  after: 'หลังทำ (After)'
+};
+
+export const photoPaths = (customerId: string, treatmentRecordId: string) => {
+  const base = `${customerId}/${treatmentRecordId}/${crypto.randomUUID()}`;
+  return { path: `${base}.jpg`, thumbnailPath: `${base}_thumb.jpg` };
+};
+
+const loadImage = (file: Blob) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+  img.onerror = () => { URL.revokeObjectURL(url); reject(new Error('Unreadable image')); };
+  img.src = url;
+});
+
+// Scales the longest side down to maxSize and re-encodes as JPEG
+export const resizeImage = async (file: Blob, maxSize: number, quality = 0.85): Promise<Blob> => {
+  const img = await loadImage(file);
+  const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Encoding failed')), 'image/jpeg', quality));
+};
+
+export const makeThumbnail = (file: Blob) => resizeImage(file, THUMBNAIL_SIZE, 0.75);
+
+// Records with photos, oldest first, for the comparison timeline
+export const getPhotoTimeline = (history: TreatmentRecord[]) =>
+  history
+    .filter(rec => rec.photos.length > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+export const photosOfKind = (photos: TreatmentPhoto[], kind: PhotoKind) => photos.filter(p => p.kind === kind);
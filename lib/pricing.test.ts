@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Promotion, Service } from '../types';
+import { discountValue, findPromotionByCode, isPromotionRunning, needsDiscountApproval, pickBestPromotion, priceCart, PricingLine } from './pricing';
+
+const services: Service[] = [
+  { id: 'laser', name: 'Laser', price: 1000, durationMinutes: 30, category: 'Laser' },
+  { id: 'facial', name: 'Facial', price: 500, durationMinutes: 60, category: 'Facial' }
+];
+
+const promotion = (overrides: Partial<Promotion> = {}): Promotion => ({
+  id: 'promo',
+  name: 'Promo',
+  discountType: 'percent',
+  discountValue: 10,
+  targetType: 'all',
+  targetIds: [],
+  startDate: null,
+  endDate: null,
+  usageLimit: null,
+  usedCount: 0,
+  active: true,
+  ...overrides
+});
+
+describe('discountValue', () => {
+  it('never takes off more than the base', () => {
+    expect(discountValue({ type: 'amount', value: 800 }, 500)).toBe(500);
+    expect(discountValue({ type: 'percent', value: 150 }, 500)).toBe(500);
+  });
+
+  it('ignores empty and negative discounts', () => {
+    expect(discountValue(undefined, 500)).toBe(0);
+    expect(discountValue({ type: 'amount', value: -50 }, 500)).toBe(0);
+    expect(discountValue({ type: 'percent', value: 10 }, 0)).toBe(0);
+  });
+});
+
+describe('priceCart', () => {
+  it('applies line discounts, then the promotion, then the bill discount', () => {
+    const lines: PricingLine[] = [
+      { type: 'service', id: 'laser', price: 1000, quantity: 2, discount: { type: 'percent', value: 10 } },
+      { type: 'course', id: 'course', price: 3000, quantity: 1 }
+    ];
+    const pricing = priceCart(lines, services, promotion({ targetType: 'service', targetIds: ['laser'] }), { type: 'amount', value: 462 });
+
+    expect(pricing.subtotal).toBe(5000);
+    expect(pricing.promotionDiscount).toBe(180);
+    expect(pricing.manualDiscount).toBe(662);
+    expect(pricing.total).toBe(4158);
+    expect(pricing.lines).toEqual([{ discount: 542, net: 1458 }, { discount: 300, net: 2700 }]);
+  });
+
+  it('puts bill discount rounding on the last line so lines add up to the total', () => {
+    const lines: PricingLine[] = [
+      { type: 'service', id: 'laser', price: 100, quantity: 1 },
+      { type: 'service', id: 'facial', price: 100, quantity: 1 },
+      { type: 'service', id: 'laser', price: 100, quantity: 1 }
+    ];
+    const pricing = priceCart(lines, services, null, { type: 'amount', value: 100 });
+
+    expect(pricing.lines.map(l => l.discount)).toEqual([33.33, 33.33, 33.34]);
+    expect(pricing.lines.reduce((sum, l) => sum + l.net, 0)).toBeCloseTo(pricing.total, 2);
+  });
+
+  it('limits a category promotion to services in that category', () => {
+    const lines: PricingLine[] = [
+      { type: 'service', id: 'laser', price: 1000, quantity: 1 },
+      { type: 'service', id: 'facial', price: 500, quantity: 1 },
+      { type: 'course', id: 'course', price: 2000, quantity: 1 }
+    ];
+    const pricing = priceCart(lines, services, promotion({ targetType: 'category', targetIds: ['Laser'] }));
+
+    expect(pricing.promotionDiscount).toBe(100);
+    expect(pricing.lines.map(l => l.discount)).toEqual([100, 0, 0]);
+  });
+});
+
+describe('isPromotionRunning', () => {
+  it('checks the active flag, the date range and the usage limit', () => {
+    const dated = promotion({ startDate: '2025-03-01', endDate: '2025-03-31' });
+    expect(isPromotionRunning(dated, '2025-03-01')).toBe(true);
+    expect(isPromotionRunning(dated, '2025-03-31')).toBe(true);
+    expect(isPromotionRunning(dated, '2025-04-01')).toBe(false);
+    expect(isPromotionRunning(promotion({ active: false }), '2025-03-10')).toBe(false);
+    expect(isPromotionRunning(promotion({ usageLimit: 5, usedCount: 5 }), '2025-03-10')).toBe(false);
+    expect(isPromotionRunning(promotion({ usageLimit: 5, usedCount: 4 }), '2025-03-10')).toBe(true);
+  });
+});
+
+describe('promotion lookup', () => {
+  it('matches coupon codes regardless of case and spacing', () => {
+    const coupon = promotion({ code: 'SONGKRAN25' });
+    expect(findPromotionByCode([promotion(), coupon], ' songkran25 ')).toBe(coupon);
+    expect(findPromotionByCode([promotion()], '')).toBeUndefined();
+  });
+
+  it('picks the automatic promotion with the biggest saving and skips coupons', () => {
+    const lines: PricingLine[] = [{ type: 'service', id: 'laser', price: 1000, quantity: 1 }];
+    const small = promotion({ id: 'small', discountType: 'amount', discountValue: 50 });
+    const big = promotion({ id: 'big', discountValue: 20 });
+    const coupon = promotion({ id: 'coupon', code: 'VIP', discountValue: 50 });
+    expect(pickBestPromotion([small, big, coupon], lines, services)?.id).toBe('big');
+  });
+});
+
+describe('needsDiscountApproval', () => {
+  const lines: PricingLine[] = [{ type: 'service', id: 'laser', price: 1000, quantity: 1 }];
+
+  it('counts only discounts keyed in by staff', () => {
+    expect(needsDiscountApproval(priceCart(lines, services, promotion({ discountValue: 50 })), 10)).toBe(false);
+    expect(needsDiscountApproval(priceCart(lines, services, null, { type: 'percent', value: 10 }), 10)).toBe(false);
+    expect(needsDiscountApproval(priceCart(lines, services, null, { type: 'amount', value: 101 }), 10)).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+import { Discount, DiscountType, Promotion, PromotionTarget, Service } from '../types';
+import { toISODate } from './schedule';
+
+export const PROMOTION_TARGET_LABELS: Record<PromotionTarget, string> = {
+  all: 'ทุกรายการ',
+  service: 'บริการที่เลือก',
+  course: 'คอร์สที่เลือก',
+  category: 'หมวดบริการ'
+};
+
+export interface PricingLine {
+  type: 'service' | 'course';
+  id: string;
+  price: number;
+  quantity: number;
+  discount?: Discount; // Line discount keyed in at the counter
+}
+
+export interface CartPricing {
+  lines: { discount: number; net: number }[];
+  subtotal: number;
+  promotionDiscount: number;
+  manualDiscount: number; // Line and bill discounts keyed in by staff
+  discountAmount: number;
+  total: number;
+  manualDiscountPercent: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const formatDiscount = (type: DiscountType, value: number) =>
+  type === 'percent' ? `${value}%` : `฿${value.toLocaleString()}`;
+
+// Baht taken off a base amount; never more than the base itself
+export const discountValue = (discount: Discount | undefined, base: number) => {
+  if (!discount || !(discount.value > 0) || base <= 0) return 0;
+  const amount = discount.type === 'percent' ? base * Math.min(100, discount.value) / 100 : discount.value;
+  return round2(Math.min(base, amount));
+};
+
+export const isPromotionRunning = (promo: Promotion, date: string = toISODate(new Date())) =>
+  promo.active &&
+  (!promo.startDate || date >= promo.startDate) &&
+  (!promo.endDate || date <= promo.endDate) &&
+  (promo.usageLimit == null || promo.usedCount < promo.usageLimit);
+
+export const promotionCoversLine = (promo: Promotion, line: Pick<PricingLine, 'type' | 'id'>, services: Service[]) => {
+  switch (promo.targetType) {
+    case 'all': return true;
+    case 'service': return line.type === 'service' && promo.targetIds.includes(line.id);
+    case 'course': return line.type === 'course' && promo.targetIds.includes(line.id);
+    case 'category': return line.type === 'service' && promo.targetIds.includes(services.find(s => s.id === line.id)?.category || '');
+  }
+};
+
+export const findPromotionByCode = (promotions: Promotion[], code: string) =>
+  promotions.find(p => !!p.code && p.code.trim().toUpperCase() === code.trim().toUpperCase());
+
+// Splits an amount across lines in proportion to their value; the last line absorbs rounding
+const spread = (amount: number, bases: number[]) => {
+  const total = bases.reduce((sum, b) => sum + b, 0);
+  if (amount <= 0 || total <= 0) return bases.map(() => 0);
+  const lastIndex = bases.map(b => b > 0).lastIndexOf(true);
+  let left = amount;
+  return bases.map((base, i) => {
+    if (i === lastIndex) return round2(left);
+    const share = round2(amount * base / total);
+    left -= share;
+    return share;
+  });
+};
+
+/**
+ * Prices a cart: line discounts first, then the promotion on the lines it covers,
+ * then the bill discount on what is left. Every baht of discount ends up on a line
+ * so refunds and doctor fees work from what was actually paid.
+ */
+export const priceCart = (lines: PricingLine[], services: Service[], promotion?: Promotion | null, billDiscount?: Discount): CartPricing => {
+  const gross = lines.map(l => round2(l.price * l.quantity));
+  const lineDiscounts = lines.map((l, i) => discountValue(l.discount, gross[i]));
+  const afterLine = gross.map((g, i) => g - lineDiscounts[i]);
+
+  const eligible = afterLine.map((amount, i) => promotion && promotionCoversLine(promotion, lines[i], services) ? amount : 0);
+  const promotionDiscount = promotion
+    ? discountValue({ type: promotion.discountType, value: promotion.discountValue }, eligible.reduce((sum, a) => sum + a, 0))
+    : 0;
+  const promotionShares = spread(promotionDiscount, eligible);
+  const afterPromotion = afterLine.map((a, i) => a - promotionShares[i]);
+
+  const billAmount = discountValue(billDiscount, afterPromotion.reduce((sum, a) => sum + a, 0));
+  const billShares = spread(billAmount, afterPromotion);
+
+  const lineResults = gross.map((g, i) => {
+    const discount = round2(lineDiscounts[i] + promotionShares[i] + billShares[i]);
+    return { discount, net: round2(g - discount) };
+  });
+  const subtotal = round2(gross.reduce((sum, g) => sum + g, 0));
+  const manualDiscount = round2(lineDiscounts.reduce((sum, d) => sum + d, 0) + billAmount);
+  const discountAmount = round2(manualDiscount + promotionDiscount);
+  return {
+    lines: lineResults,
+    subtotal,
+    promotionDiscount,
+    manualDiscount,
+    discountAmount,
+    total: round2(subtotal - discountAmount),
+    manualDiscountPercent: subtotal > 0 ? manualDiscount / subtotal * 100 : 0
+  };
+};
+
+// Automatic promotions (no code) that are running today, best saving first
+export const pickBestPromotion = (promotions: Promotion[], lines: PricingLine[], services: Service[]) =>
+  promotions
+    .filter(p => !p.code && isPromotionRunning(p))
+    .map(p => ({ promotion: p, saving: priceCart(lines, services, p).promotionDiscount }))
+    .filter(p => p.saving > 0)
+    .sort((a, b) => b.saving - a.saving)[0]?.promotion || null;
+
+export const needsDiscountApproval = (pricing: CartPricing, maxDiscountPercent: number) =>
+  pricing.manualDiscount > 0 && pricing.manualDiscountPercent > maxDiscountPercent + 1e-9;
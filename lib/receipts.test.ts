@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { bahtText } from './receipts';
+
+describe('bahtText', () => {
+  it('reads whole and fractional amounts', () => {
+    expect(bahtText(0)).toBe('ศูนย์บาทถ้วน');
+    expect(bahtText(1250.5)).toBe('หนึ่งพันสองร้อยห้าสิบบาทห้าสิบสตางค์');
+    expect(bahtText(0.25)).toBe('ยี่สิบห้าสตางค์');
+  });
+
+  it('uses เอ็ด for a trailing one after other digits', () => {
+    expect(bahtText(1)).toBe('หนึ่งบาทถ้วน');
+    expect(bahtText(11)).toBe('สิบเอ็ดบาทถ้วน');
+    expect(bahtText(101)).toBe('หนึ่งร้อยเอ็ดบาทถ้วน');
+  });
+
+  it('uses เอ็ด after a million group', () => {
+    expect(bahtText(1000000)).toBe('หนึ่งล้านบาทถ้วน');
+    expect(bahtText(1000001)).toBe('หนึ่งล้านเอ็ดบาทถ้วน');
+    expect(bahtText(21000001)).toBe('ยี่สิบเอ็ดล้านเอ็ดบาทถ้วน');
+  });
+
+  it('marks negative amounts', () => {
+    expect(bahtText(-5)).toBe('ลบห้าบาทถ้วน');
+  });
+});
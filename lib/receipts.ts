@@ -0,0 +1,201 @@
+import { ClinicProfile, Receipt, ReceiptType, Transaction } from '../types';
+
+export const DEFAULT_CLINIC_PROFILE: ClinicProfile = {
+  name: 'Patricia Clinic',
+  address: '',
+  phone: '',
+  taxId: '',
+  branchCode: '00000',
+  branchName: 'สำนักงานใหญ่',
+  vatRegistered: true,
+  vatRate: 7,
+  pricesIncludeVat: true,
+  maxDiscountPercent: 10,
+  blockOverdueCourseUsage: false
+};
+
+const DOCUMENT_PREFIX: Record<ReceiptType, string> = {
+  receipt: 'RC',
+  tax_invoice: 'TI'
+};
+
+export const RECEIPT_TYPE_LABELS: Record<ReceiptType, string> = {
+  receipt: 'ใบเสร็จรับเงิน',
+  tax_invoice: 'ใบกำกับภาษีเต็มรูป'
+};
+
+export const PAYMENT_METHOD_LABELS: Record<Transaction['paymentMethod'], string> = {
+  'Cash': 'เงินสด',
+  'Credit Card': 'บัตรเครดิต',
+  'Transfer': 'โอนเงิน',
+  'Wallet': 'เครดิตวอลเล็ท'
+};
+
+// e.g. RC00000-2025-: issue_document appends the 6-digit running number (RC00000-2025-000042),
+// which restarts every year and runs separately per branch
+export const documentNumberPrefix = (type: ReceiptType, branchCode: string, year: number) =>
+  `${DOCUMENT_PREFIX[type]}${branchCode}-${year}-`;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const calculateVat = (amount: number, profile: Pick<ClinicProfile, 'vatRegistered' | 'vatRate' | 'pricesIncludeVat'>) => {
+  if (!profile.vatRegistered || profile.vatRate <= 0) return { subtotal: round2(amount), vatAmount: 0, total: round2(amount) };
+  if (profile.pricesIncludeVat) {
+    const subtotal = round2(amount * 100 / (100 + profile.vatRate));
+    return { subtotal, vatAmount: round2(amount - subtotal), total: round2(amount) };
+  }
+  const vatAmount = round2(amount * profile.vatRate / 100);
+  return { subtotal: round2(amount), vatAmount, total: round2(amount + vatAmount) };
+};
+
+const DIGITS = ['ศูนย์', 'หนึ่ง', 'สอง', 'สาม', 'สี่', 'ห้า', 'หก', 'เจ็ด', 'แปด', 'เก้า'];
+const PLACES = ['', 'สิบ', 'ร้อย', 'พัน', 'หมื่น', 'แสน'];
+
+// Up to six digits; longer numbers are read in groups joined by ล้าน. A trailing one is read เอ็ด
+// whenever anything precedes it, including a higher million group (1,000,001 = หนึ่งล้านเอ็ด).
+const readThaiNumber = (digits: string, afterHigherGroup = false): string => {
+  if (digits.length > 6) {
+    const high = digits.slice(0, -6);
+    return readThaiNumber(high, afterHigherGroup) + 'ล้าน' + readThaiNumber(digits.slice(-6), afterHigherGroup || /[1-9]/.test(high));
+  }
+  let text = '';
+  [...digits].forEach((ch, i) => {
+    const d = Number(ch);
+    const place = digits.length - 1 - i;
+    if (d === 0) return;
+    if (place === 1 && d === 1) text += 'สิบ';
+    else if (place === 1 && d === 2) text += 'ยี่สิบ';
+    else if (place === 0 && d === 1 && (afterHigherGroup || /[1-9]/.test(digits.slice(0, -1)))) text += 'เอ็ด';
+    else text += DIGITS[d] + PLACES[place];
+  });
+  return text;
+};
+
+// Amount in words as printed on Thai receipts, e.g. 1250.50 -> หนึ่งพันสองร้อยห้าสิบบาทห้าสิบสตางค์
+export const bahtText = (amount: number) => {
+  const satangTotal = Math.round(Math.abs(amount) * 100);
+  const baht = Math.floor(satangTotal / 100);
+  const satang = satangTotal % 100;
+  const bahtPart = baht > 0 ? readThaiNumber(String(baht)) + 'บาท' : satang > 0 ? '' : 'ศูนย์บาท';
+  return (amount < 0 ? 'ลบ' : '') + bahtPart + (satang > 0 ? readThaiNumber(String(satang)) + 'สตางค์' : 'ถ้วน');
+};
+
+export const getReceiptTitle = (receipt: Pick<Receipt, 'type' | 'clinic'>) =>
+  receipt.type === 'tax_invoice'
+    ? 'ใบเสร็จรับเงิน / ใบกำกับภาษี'
+    : receipt.clinic.vatRegistered ? 'ใบเสร็จรับเงิน / ใบกำกับภาษีอย่างย่อ' : 'ใบเสร็จรับเงิน';
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch] as string));
+
+const money = (n: number) => n.toLocaleString('th-TH', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Standalone A4 page; the browser's print dialog doubles as "Save as PDF"
+export const renderReceiptHtml = (receipt: Receipt) => {
+  const { clinic } = receipt;
+  const copy = receipt.printCount > 0;
+  const buyer = receipt.customerTax;
+  const rows = receipt.items.map((item, i) => `
+    <tr>
+      <td class="c">${i + 1}</td>
+      <td>${escapeHtml(item.name)}${item.discount ? `<div class="muted">ส่วนลด ${money(item.discount)}</div>` : ''}</td>
+      <td class="r">${item.quantity}</td>
+      <td class="r">${money(item.price)}</td>
+      <td class="r">${money(item.price * item.quantity - (item.discount || 0))}</td>
+    </tr>`).join('');
+  const totalDiscount = receipt.items.reduce((sum, item) => sum + (item.discount || 0), 0);
+
+  return `<!DOCTYPE html>
+<html lang="th">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(receipt.documentNumber)}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { font-family: 'Sarabun', 'Tahoma', sans-serif; color: #111; font-size: 13px; position: relative; }
+  h1 { font-size: 18px; margin: 0; }
+  .muted { color: #555; }
+  .head { display: flex; justify-content: space-between; border-bottom: 2px solid #111; padding-bottom: 8px; margin-bottom: 12px; }
+  .title { text-align: right; }
+  .title h2 { font-size: 16px; margin: 0 0 4px; }
+  .box { border: 1px solid #ccc; padding: 8px 10px; margin-bottom: 12px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #ddd; padding: 6px; text-align: left; }
+  th { background: #f5f5f5; }
+  .r { text-align: right; } .c { text-align: center; }
+  .totals td { border: none; padding: 3px 6px; }
+  .grand td { font-weight: bold; font-size: 15px; border-top: 2px solid #111; }
+  .words { margin-top: 8px; padding: 6px 10px; background: #f5f5f5; }
+  .sign { display: flex; justify-content: space-between; margin-top: 48px; text-align: center; }
+  .sign div { width: 40%; border-top: 1px dotted #111; padding-top: 4px; }
+  .void { position: fixed; top: 40%; left: 0; right: 0; text-align: center; font-size: 96px; color: rgba(220, 38, 38, 0.25); transform: rotate(-20deg); font-weight: bold; }
+</style>
+</head>
+<body>
+  ${receipt.voided ? `<div class="void">ยกเลิก</div>` : ''}
+  <div class="head">
+    <div>
+      <h1>${escapeHtml(clinic.name)}</h1>
+      <div class="muted">${escapeHtml(clinic.address)}</div>
+      ${clinic.phone ? `<div class="muted">โทร ${escapeHtml(clinic.phone)}</div>` : ''}
+      ${clinic.taxId ? `<div>เลขประจำตัวผู้เสียภาษี ${escapeHtml(clinic.taxId)} (${escapeHtml(clinic.branchCode === '00000' ? 'สำนักงานใหญ่' : `สาขาที่ ${clinic.branchCode} ${clinic.branchName}`)})</div>` : ''}
+    </div>
+    <div class="title">
+      <h2>${getReceiptTitle(receipt)}</h2>
+      <div>${copy ? 'สำเนา (Copy)' : 'ต้นฉบับ (Original)'}</div>
+      <div>เลขที่ <b>${escapeHtml(receipt.documentNumber)}</b></div>
+      <div>วันที่ ${new Date(receipt.issuedAt).toLocaleDateString('th-TH', { day: 'numeric', month: 'long', year: 'numeric' })}</div>
+    </div>
+  </div>
+
+  <div class="box">
+    ${buyer ? `
+      <div><b>ผู้ซื้อ:</b> ${escapeHtml(buyer.name)}</div>
+      <div><b>เลขประจำตัวผู้เสียภาษี:</b> ${escapeHtml(buyer.taxId)} ${buyer.branch ? `(${escapeHtml(buyer.branch)})` : ''}</div>
+      <div><b>ที่อยู่:</b> ${escapeHtml(buyer.address)}</div>
+    ` : `<div><b>ลูกค้า:</b> ${escapeHtml(receipt.customerName || '-')}</div>`}
+  </div>
+
+  <table>
+    <thead><tr><th class="c">#</th><th>รายการ</th><th class="r">จำนวน</th><th class="r">ราคา/หน่วย</th><th class="r">จำนวนเงิน</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+
+  <table class="totals" style="width: 50%; margin-left: auto; margin-top: 8px;">
+    ${totalDiscount > 0 ? `<tr><td>ส่วนลดรวม</td><td class="r">${money(totalDiscount)}</td></tr>` : ''}
+    ${receipt.vatAmount > 0 ? `
+      <tr><td>มูลค่าสินค้า/บริการ (ก่อนภาษี)</td><td class="r">${money(receipt.subtotal)}</td></tr>
+      <tr><td>ภาษีมูลค่าเพิ่ม ${receipt.vatRate}%</td><td class="r">${money(receipt.vatAmount)}</td></tr>
+    ` : ''}
+    <tr class="grand"><td>รวมทั้งสิ้น</td><td class="r">${money(receipt.total)}</td></tr>
+  </table>
+  <div class="words">(${bahtText(receipt.total)})</div>
+  ${receipt.payments ? `
+    <p>ชำระโดย: ${receipt.payments.map(p => `${PAYMENT_METHOD_LABELS[p.method] || escapeHtml(p.method)} ${money(p.amount)}`).join(', ') || '-'}</p>
+    ${receipt.balanceDue ? `<p>ยอดค้างชำระ: ${money(receipt.balanceDue)} บาท</p>` : ''}
+  ` : `<p>ชำระโดย: ${PAYMENT_METHOD_LABELS[receipt.paymentMethod] || escapeHtml(receipt.paymentMethod)}</p>`}
+  ${receipt.voided ? `<p style="color:#dc2626">เอกสารนี้ถูกยกเลิกเมื่อ ${new Date(receipt.voidedAt || receipt.issuedAt).toLocaleString('th-TH')} ${receipt.voidReason ? `เหตุผล: ${escapeHtml(receipt.voidReason)}` : ''}</p>` : ''}
+
+  <div class="sign"><div>ผู้รับเงิน</div><div>ผู้ชำระเงิน</div></div>
+</body>
+</html>`;
+};
+
+/**
+ * Opens the document in a new window and shows the print dialog.
+ * Pass a window opened synchronously in the click handler when the receipt is
+ * issued asynchronously first, otherwise the popup blocker may stop it.
+ */
+export const printReceipt = (receipt: Receipt, target?: Window | null) => {
+  const win = target || window.open('', '_blank', 'width=820,height=960');
+  if (!win) {
+    alert('กรุณาอนุญาตป๊อปอัปเพื่อพิมพ์ใบเสร็จ');
+    return;
+  }
+  win.document.open();
+  win.document.write(renderReceiptHtml(receipt));
+  win.document.close();
+  win.focus();
+  // Give the new window a moment to lay out before printing
+  setTimeout(() => win.print(), 300);
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Payment, Transaction } from '../types';
+import { buildInstallments, getBalanceDue, getInstallmentStatus, getOverdueAmount, getReceivables, getRefundPayout, primaryMethod } from './receivables';
+
+const sale = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 'sale',
+  date: '2025-01-15T10:00:00',
+  customerId: 'cust',
+  items: [{ name: 'Course', price: 20000, quantity: 1 }],
+  totalAmount: 20000,
+  paymentMethod: 'Cash',
+  installments: [{ dueDate: '2025-02-15', amount: 5000 }, { dueDate: '2025-03-15', amount: 5000 }],
+  kind: 'sale',
+  status: 'completed',
+  refundVersion: 0,
+  ...overrides
+});
+
+const payment = (amount: number, transactionId = 'sale'): Payment => ({
+  id: `pay-${amount}`,
+  date: '2025-01-15T10:00:00',
+  transactionId,
+  customerId: 'cust',
+  method: 'Cash',
+  amount
+});
+
+const refund = (amount: number): Transaction => sale({ id: `refund-${amount}`, kind: 'refund', refundOfId: 'sale', totalAmount: -amount, installments: undefined });
+
+describe('buildInstallments', () => {
+  it('splits evenly, puts rounding on the last one and keeps month ends', () => {
+    expect(buildInstallments(1000, 3, '2025-01-31')).toEqual([
+      { dueDate: '2025-01-31', amount: 333.33 },
+      { dueDate: '2025-02-28', amount: 333.33 },
+      { dueDate: '2025-03-31', amount: 333.34 }
+    ]);
+  });
+});
+
+describe('balances', () => {
+  const tx = sale();
+  const payments = [payment(10000), payment(3000)];
+
+  it('owes the total less every payment', () => {
+    expect(getBalanceDue(tx, [tx], payments)).toBe(7000);
+  });
+
+  it('settles installments oldest first', () => {
+    expect(getInstallmentStatus(tx, [tx], payments).map(i => i.outstanding)).toEqual([2000, 5000]);
+    expect(getOverdueAmount(tx, [tx], payments, '2025-02-16')).toBe(2000);
+    expect(getOverdueAmount(tx, [tx], payments, '2025-02-15')).toBe(0);
+    expect(getOverdueAmount(tx, [tx], payments, '2025-03-16')).toBe(7000);
+  });
+
+  it('lets a refund clear the balance before anything is paid out', () => {
+    expect(getRefundPayout(tx, [tx], payments, 5000)).toBe(0);
+    expect(getRefundPayout(tx, [tx], payments, 9000)).toBe(2000);
+    const refunded = [tx, refund(4000)];
+    expect(getBalanceDue(tx, refunded, payments)).toBe(3000);
+  });
+
+  it('treats sales without a schedule as paid in full and voided sales as owing nothing', () => {
+    const legacy = sale({ installments: undefined });
+    expect(getBalanceDue(legacy, [legacy], [])).toBe(0);
+    expect(getRefundPayout(legacy, [legacy], [], 500)).toBe(500);
+    const voided = sale({ status: 'voided' });
+    expect(getBalanceDue(voided, [voided], [])).toBe(0);
+  });
+
+  it('lists only open balances for the customer', () => {
+    const paidOff = sale({ id: 'paid', totalAmount: 1000 });
+    const other = sale({ id: 'other', customerId: 'someone-else' });
+    const receivables = getReceivables([tx, paidOff, other], [...payments, payment(1000, 'paid')], 'cust', '2025-02-16');
+    expect(receivables).toHaveLength(1);
+    expect(receivables[0]).toMatchObject({ balance: 7000, overdue: 2000, nextDueDate: '2025-02-15' });
+  });
+});
+
+describe('primaryMethod', () => {
+  it('picks the method that took the most money', () => {
+    expect(primaryMethod([{ method: 'Cash', amount: 2000 }, { method: 'Credit Card', amount: 18000 }], 'Cash')).toBe('Credit Card');
+    expect(primaryMethod([], 'Transfer')).toBe('Transfer');
+  });
+});
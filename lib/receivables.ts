@@ -0,0 +1,77 @@
+import { Installment, Payment, PaymentLine, Transaction } from '../types';
+import { countsAsRevenue, getRefunds } from './sales';
+import { addMonths, toISODate } from './schedule';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const MAX_INSTALLMENTS = 12;
+
+// Sales made before split payments have no schedule and were paid in full at the counter
+export const tracksBalance = (tx: Transaction) => tx.kind === 'sale' && !!tx.installments;
+
+export const getPaymentsFor = (payments: Payment[], transactionId: string) =>
+  payments.filter(p => p.transactionId === transactionId);
+
+export const getPaidAmount = (tx: Transaction, payments: Payment[]) =>
+  tracksBalance(tx) ? round2(getPaymentsFor(payments, tx.id).reduce((sum, p) => sum + p.amount, 0)) : tx.totalAmount;
+
+// What the customer still owes; refunds on the bill reduce it before any money is paid back
+export const getBalanceDue = (tx: Transaction, transactions: Transaction[], payments: Payment[]) => {
+  if (!tracksBalance(tx) || !countsAsRevenue(tx)) return 0;
+  const refunded = -getRefunds(transactions, tx.id).reduce((sum, r) => sum + r.totalAmount, 0);
+  return Math.max(0, round2(tx.totalAmount - refunded - getPaidAmount(tx, payments)));
+};
+
+// The part of a refund paid back to the customer; the rest clears what is still owed on the bill,
+// so the payout never exceeds what was actually paid less earlier payouts
+export const getRefundPayout = (tx: Transaction, transactions: Transaction[], payments: Payment[], amount: number) =>
+  Math.max(0, round2(amount - getBalanceDue(tx, transactions, payments)));
+
+export interface InstallmentStatus extends Installment {
+  outstanding: number;
+}
+
+// Payments after the deposit settle installments oldest first
+export const getInstallmentStatus = (tx: Transaction, transactions: Transaction[], payments: Payment[]): InstallmentStatus[] => {
+  let balance = getBalanceDue(tx, transactions, payments);
+  // Walk from the last installment back so the balance sits on the latest ones
+  return [...(tx.installments || [])].reverse().map(inst => {
+    const outstanding = round2(Math.min(inst.amount, balance));
+    balance = round2(balance - outstanding);
+    return { ...inst, outstanding };
+  }).reverse();
+};
+
+export const getOverdueAmount = (tx: Transaction, transactions: Transaction[], payments: Payment[], asOf = toISODate(new Date())) =>
+  round2(getInstallmentStatus(tx, transactions, payments).filter(i => i.dueDate < asOf).reduce((sum, i) => sum + i.outstanding, 0));
+
+export interface Receivable {
+  transaction: Transaction;
+  balance: number;
+  overdue: number;
+  nextDueDate: string | null;
+}
+
+export const getReceivables = (transactions: Transaction[], payments: Payment[], customerId?: string, asOf = toISODate(new Date())): Receivable[] =>
+  transactions
+    .filter(t => tracksBalance(t) && (!customerId || t.customerId === customerId))
+    .map(t => ({
+      transaction: t,
+      balance: getBalanceDue(t, transactions, payments),
+      overdue: getOverdueAmount(t, transactions, payments, asOf),
+      nextDueDate: getInstallmentStatus(t, transactions, payments).find(i => i.outstanding > 0)?.dueDate || null
+    }))
+    .filter(r => r.balance > 0);
+
+// Equal monthly installments; the last one absorbs rounding
+export const buildInstallments = (amount: number, count: number, firstDueDate: string): Installment[] => {
+  const each = Math.floor(amount / count * 100) / 100;
+  return [...Array(count)].map((_, i) => ({
+    dueDate: addMonths(firstDueDate, i),
+    amount: i === count - 1 ? round2(amount - each * (count - 1)) : each
+  }));
+};
+
+// The method that took the most money stands for the bill in single-method views
+export const primaryMethod = (lines: PaymentLine[], fallback: PaymentLine['method']) =>
+  [...lines].sort((a, b) => b.amount - a.amount)[0]?.method || fallback;
@@ -0,0 +1,30 @@
+import { Transaction, TransactionItem } from '../types';
+
+// Voided sales drop out of revenue; refunds stay in as negative amounts; wallet funding counts when spent
+export const countsAsRevenue = (tx: Transaction) => tx.status !== 'voided' && tx.kind !== 'wallet';
+
+export const getRevenueTransactions = (transactions: Transaction[]) => transactions.filter(countsAsRevenue);
+
+export const getRefunds = (transactions: Transaction[], saleId: string) =>
+  transactions.filter(t => t.kind === 'refund' && t.refundOfId === saleId && countsAsRevenue(t));
+
+// Refund lines point back at the sale line they reverse by type + catalog id
+export const lineKey = (item: Pick<TransactionItem, 'type' | 'id' | 'name'>) => `${item.type || ''}|${item.id || item.name}`;
+
+export interface RefundedLine {
+  quantity: number; // Services: visits refunded; courses: units refunded
+  amount: number; // Positive amount already paid back
+}
+
+export const getRefundedLines = (refunds: Transaction[]) =>
+  refunds.reduce((acc, refund) => {
+    refund.items.forEach(item => {
+      const key = lineKey(item);
+      const line = acc[key] || { quantity: 0, amount: 0 };
+      acc[key] = { quantity: line.quantity + item.quantity, amount: line.amount - item.price * item.quantity };
+    });
+    return acc;
+  }, {} as Record<string, RefundedLine>);
+
+export const getRefundableAmount = (sale: Transaction, refunds: Transaction[]) =>
+  Math.max(0, sale.totalAmount + refunds.reduce((sum, r) => sum + r.totalAmount, 0));
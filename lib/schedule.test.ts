@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Appointment, Service, Staff, Status } from '../types';
+import { findConflicts, findNextAvailableSlots, ScheduleContext } from './schedule';
+
+const MONDAY = '2025-03-03';
+const TUESDAY = '2025-03-04';
+
+const services: Service[] = [{ id: 'botox', name: 'Botox', price: 5000, durationMinutes: 60, category: 'Injection' }];
+
+const doctor: Staff = {
+  id: 'dr-a',
+  name: 'Dr. A',
+  role: 'doctor',
+  active: true,
+  workingHours: [{ day: 1, start: '10:00', end: '18:00', breakStart: '12:00', breakEnd: '13:00' }],
+  qualifiedServiceIds: []
+};
+
+const appointment = (overrides: Partial<Appointment> = {}): Appointment => ({
+  id: 'apt',
+  customerId: 'cust',
+  serviceId: 'botox',
+  date: MONDAY,
+  time: '10:30',
+  status: Status.CONFIRMED,
+  staffId: doctor.id,
+  doctorName: doctor.name,
+  statusHistory: [],
+  ...overrides
+});
+
+const context = (overrides: Partial<ScheduleContext> = {}): ScheduleContext => ({
+  appointments: [],
+  services,
+  staff: [doctor],
+  holidays: [],
+  ...overrides
+});
+
+const request = (time: string, overrides = {}) => ({ date: MONDAY, time, durationMinutes: 60, staffId: doctor.id, ...overrides });
+
+describe('findConflicts', () => {
+  it('accepts a free slot inside working hours', () => {
+    expect(findConflicts(request('10:00'), context())).toEqual([]);
+  });
+
+  it('catches overlap with the doctor\'s other appointments using the service duration', () => {
+    const ctx = context({ appointments: [appointment()] });
+    expect(findConflicts(request('11:00'), ctx)).toEqual(['Dr. A มีนัดอื่นแล้ว 10:30-11:30']);
+    expect(findConflicts(request('11:30', { durationMinutes: 30 }), ctx)).toEqual([]);
+  });
+
+  it('ignores cancelled and no-show bookings and the appointment being moved', () => {
+    expect(findConflicts(request('10:30'), context({ appointments: [appointment({ status: Status.CANCELLED })] }))).toEqual([]);
+    expect(findConflicts(request('10:30'), context({ appointments: [appointment({ status: Status.NO_SHOW })] }))).toEqual([]);
+    expect(findConflicts(request('10:30', { excludeId: 'apt' }), context({ appointments: [appointment()] }))).toEqual([]);
+  });
+
+  it('checks working hours, breaks and days off', () => {
+    expect(findConflicts(request('17:30'), context())).toEqual(['นอกเวลาทำงานของ Dr. A (10:00-18:00)']);
+    expect(findConflicts(request('11:30'), context())).toEqual(['ตรงกับเวลาพักของ Dr. A (12:00-13:00)']);
+    expect(findConflicts(request('10:00', { date: TUESDAY }), context())).toEqual(['Dr. A ไม่ได้เข้างานวันนี้']);
+  });
+
+  it('checks clinic holidays and staff leave', () => {
+    const closed = context({ holidays: [{ id: 'h', date: MONDAY, staffId: null, reason: 'สงกรานต์' }] });
+    expect(findConflicts(request('10:00'), closed)).toEqual(['คลินิกปิดทำการ (สงกรานต์)']);
+    const leave = context({ holidays: [{ id: 'l', date: MONDAY, staffId: doctor.id, reason: '' }] });
+    expect(findConflicts(request('10:00'), leave)).toEqual(['Dr. A ลางาน']);
+  });
+
+  it('uses clinic hours when no doctor is chosen and still checks the room', () => {
+    const ctx = context({ appointments: [appointment({ staffId: undefined, room: 'ห้อง 1' })] });
+    expect(findConflicts(request('20:30', { staffId: undefined }), ctx)).toEqual(['นอกเวลาทำการของคลินิก (09:00-21:00)']);
+    expect(findConflicts(request('10:00', { staffId: undefined, room: 'ห้อง 1' }), ctx)).toEqual(['ห้อง 1 ถูกจองแล้ว 10:30-11:30']);
+    expect(findConflicts(request('10:00', { staffId: undefined, room: 'ห้อง 2' }), ctx)).toEqual([]);
+  });
+});
+
+describe('findNextAvailableSlots', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('skips booked times and the break', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(`${MONDAY}T08:00:00`));
+    const ctx = context({ appointments: [appointment({ time: '10:00' })] });
+    expect(findNextAvailableSlots(request('10:00'), ctx, 3)).toEqual([
+      { date: MONDAY, time: '11:00' },
+      { date: MONDAY, time: '13:00' },
+      { date: MONDAY, time: '13:15' }
+    ]);
+  });
+});
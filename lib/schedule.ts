@@ -0,0 +1,149 @@
+import { Appointment, Holiday, Service, Staff, Status } from '../types';
+
+export const DEFAULT_DURATION_MINUTES = 30;
+
+// Opening hours used when no doctor is chosen (doctors use their own working hours)
+export const CLINIC_OPEN_TIME = '09:00';
+export const CLINIC_CLOSE_TIME = '21:00';
+const SLOT_STEP_MINUTES = 15;
+
+// 'HH:mm' (or 'HH:mm:ss') -> minutes since midnight
+export const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+export const fromMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Appointments that are still waiting for the customer to arrive
+export const BOOKED_STATUSES = [Status.PENDING, Status.CONFIRMED, Status.RESCHEDULED];
+
+// Cancelled and no-show appointments no longer hold their slot
+export const releasesSlot = (status: Status) => status === Status.CANCELLED || status === Status.NO_SHOW;
+
+export const countNoShows = (appointments: Appointment[], customerId: string) =>
+  appointments.filter(a => a.customerId === customerId && a.status === Status.NO_SHOW).length;
+
+export const getAppointmentDuration = (apt: Appointment, services: Service[]) =>
+  services.find(s => s.id === apt.serviceId)?.durationMinutes || DEFAULT_DURATION_MINUTES;
+
+export const addDays = (date: string, days: number) => {
+  const d = new Date(date + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  return toISODate(d);
+};
+
+export const addMonths = (date: string, months: number) => {
+  const d = new Date(date + 'T00:00:00');
+  const day = d.getDate();
+  d.setMonth(d.getMonth() + months);
+  // 31 Jan + 1 month lands on the last day of February, not in March
+  if (d.getDate() < day) d.setDate(0);
+  return toISODate(d);
+};
+
+// Local calendar date; toISOString() would shift the day for UTC+7 before 07:00
+export const toISODate = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// Monday-to-Sunday week containing the date
+export const getWeekDates = (date: string) => {
+  const day = new Date(date + 'T00:00:00').getDay();
+  const monday = addDays(date, day === 0 ? -6 : 1 - day);
+  return [...Array(7)].map((_, i) => addDays(monday, i));
+};
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to + 'T00:00:00').getTime() - new Date(from + 'T00:00:00').getTime()) / 86400000);
+
+// Dates of a recurring booking: the start date and then every intervalDays
+export const buildSeriesDates = (startDate: string, intervalDays: number, count: number) =>
+  [...Array(Math.max(0, count))].map((_, i) => addDays(startDate, i * intervalDays));
+
+export const getSeriesAppointments = (appointments: Appointment[], seriesId: string) =>
+  appointments.filter(a => a.seriesId === seriesId).sort((a, b) => (a.seriesIndex || 0) - (b.seriesIndex || 0));
+
+export interface BookingRequest {
+  date: string;
+  time: string;
+  durationMinutes: number;
+  staffId?: string;
+  room?: string;
+  excludeId?: string; // The appointment being moved
+}
+
+export interface ScheduleContext {
+  appointments: Appointment[];
+  services: Service[];
+  staff: Staff[];
+  holidays: Holiday[];
+}
+
+const overlaps = (startA: number, endA: number, startB: number, endB: number) => startA < endB && startB < endA;
+
+// Human-readable reasons (Thai) why the slot cannot be booked; empty when it is free
+export const findConflicts = (req: BookingRequest, ctx: ScheduleContext): string[] => {
+  const conflicts: string[] = [];
+  const start = toMinutes(req.time);
+  const end = start + req.durationMinutes;
+  const day = new Date(req.date + 'T00:00:00').getDay();
+  const member = req.staffId ? ctx.staff.find(s => s.id === req.staffId) : undefined;
+
+  const clinicHoliday = ctx.holidays.find(h => h.date === req.date && !h.staffId);
+  if (clinicHoliday) conflicts.push(`คลินิกปิดทำการ${clinicHoliday.reason ? ` (${clinicHoliday.reason})` : ''}`);
+
+  if (member) {
+    const leave = ctx.holidays.find(h => h.date === req.date && h.staffId === member.id);
+    if (leave) conflicts.push(`${member.name} ลางาน${leave.reason ? ` (${leave.reason})` : ''}`);
+
+    // Staff without any working hours set are treated as available during clinic hours
+    const hours = member.workingHours.length > 0
+      ? member.workingHours.find(h => h.day === day)
+      : { day, start: CLINIC_OPEN_TIME, end: CLINIC_CLOSE_TIME };
+    if (!hours) {
+      conflicts.push(`${member.name} ไม่ได้เข้างานวันนี้`);
+    } else {
+      if (start < toMinutes(hours.start) || end > toMinutes(hours.end)) {
+        conflicts.push(`นอกเวลาทำงานของ ${member.name} (${hours.start}-${hours.end})`);
+      }
+      if (hours.breakStart && hours.breakEnd && overlaps(start, end, toMinutes(hours.breakStart), toMinutes(hours.breakEnd))) {
+        conflicts.push(`ตรงกับเวลาพักของ ${member.name} (${hours.breakStart}-${hours.breakEnd})`);
+      }
+    }
+  } else if (start < toMinutes(CLINIC_OPEN_TIME) || end > toMinutes(CLINIC_CLOSE_TIME)) {
+    conflicts.push(`นอกเวลาทำการของคลินิก (${CLINIC_OPEN_TIME}-${CLINIC_CLOSE_TIME})`);
+  }
+
+  ctx.appointments
+    .filter(a => a.id !== req.excludeId && a.date === req.date && !releasesSlot(a.status))
+    .forEach(a => {
+      const aStart = toMinutes(a.time);
+      if (!overlaps(start, end, aStart, aStart + getAppointmentDuration(a, ctx.services))) return;
+      const range = `${a.time.slice(0, 5)}-${fromMinutes(aStart + getAppointmentDuration(a, ctx.services))}`;
+      if (member && a.staffId === member.id) conflicts.push(`${member.name} มีนัดอื่นแล้ว ${range}`);
+      if (req.room && a.room === req.room) conflicts.push(`${req.room} ถูกจองแล้ว ${range}`);
+    });
+
+  return conflicts;
+};
+
+// First free start times on or after the requested date/time, stepping in 15-minute slots
+export const findNextAvailableSlots = (req: BookingRequest, ctx: ScheduleContext, count = 5, searchDays = 14) => {
+  const slots: { date: string; time: string }[] = [];
+  const now = new Date();
+  const today = toISODate(now);
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  for (let d = 0; d < searchDays && slots.length < count; d++) {
+    const date = addDays(req.date, d);
+    if (date < today) continue;
+    for (let t = 0; t + req.durationMinutes <= 24 * 60 && slots.length < count; t += SLOT_STEP_MINUTES) {
+      if (d === 0 && t < toMinutes(req.time)) continue;
+      if (date === today && t < nowMinutes) continue;
+      const time = fromMinutes(t);
+      if (findConflicts({ ...req, date, time }, ctx).length === 0) slots.push({ date, time });
+    }
+  }
+  return slots;
+};
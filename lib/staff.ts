@@ -0,0 +1,12 @@
+import { Staff } from '../types';
+
+// Current name of a staff member; rows saved before staff existed (or for removed staff) keep their snapshot
+export const getStaffName = (staff: Staff[], staffId?: string | null, snapshot?: string) =>
+  (staffId && staff.find(s => s.id === staffId)?.name) || snapshot || '';
+
+export const isQualifiedFor = (member: Staff, serviceId?: string) =>
+  !serviceId || member.qualifiedServiceIds.length === 0 || member.qualifiedServiceIds.includes(serviceId);
+
+// Active doctors, optionally only those qualified to perform the given service
+export const getActiveDoctors = (staff: Staff[], serviceId?: string) =>
+  staff.filter(s => s.active && s.role === 'doctor' && isQualifiedFor(s, serviceId));
@@ -31,6 +31,12 @@ const supabaseAnonKey = LOCAL_KEY || ENV_KEY || DEFAULT_KEY;
 // Initialize Client
 export const supabase = createClient(supabaseUrl!, supabaseAnonKey!);
 
+// Separate client that keeps no session, for checking someone else's password (e.g. a manager approving a discount)
+// without signing out whoever is using this browser
+export const createIsolatedClient = () => createClient(supabaseUrl!, supabaseAnonKey!, {
+  auth: { persistSession: false, autoRefreshToken: false, storageKey: 'sb-isolated-auth' }
+});
+
 export const isConfigured = () => {
   // Since we now have valid defaults, the app is always configured.
   return true;
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { WalletEntry } from '../types';
+import { getExpiringCredit, getForfeitedCredit, getWalletBalance, getWalletReturns, normalizeVoucherCode } from './wallet';
+
+let nextId = 0;
+const entry = (type: WalletEntry['type'], amount: number, date: string, overrides: Partial<WalletEntry> = {}): WalletEntry => ({
+  id: `w${++nextId}`,
+  date: `${date}T10:00:00`,
+  customerId: 'cust',
+  type,
+  amount,
+  expiresAt: null,
+  ...overrides
+});
+
+describe('wallet balance', () => {
+  it('spends the soonest-expiring credit first', () => {
+    const entries = [
+      entry('topup', 1000, '2025-01-01'),
+      entry('bonus', 200, '2025-01-01', { expiresAt: '2025-03-01' }),
+      entry('spend', -500, '2025-02-01', { transactionId: 'sale' })
+    ];
+    expect(getWalletBalance(entries, 'cust', '2025-02-10')).toBe(700);
+    // The bonus was used up, so nothing is left to run out or be forfeited
+    expect(getExpiringCredit(entries, 'cust', 30, '2025-02-10')).toBe(0);
+    expect(getForfeitedCredit(entries, 'cust', '2025-03-10')).toBe(0);
+  });
+
+  it('forfeits credit left on an expired lot and never spends from it', () => {
+    const entries = [
+      entry('topup', 1000, '2025-01-01'),
+      entry('bonus', 200, '2025-01-01', { expiresAt: '2025-01-31' }),
+      entry('spend', -300, '2025-02-05', { transactionId: 'sale' })
+    ];
+    expect(getExpiringCredit(entries, 'cust', 30, '2025-01-10')).toBe(200);
+    expect(getWalletBalance(entries, 'cust', '2025-02-10')).toBe(700);
+    expect(getForfeitedCredit(entries, 'cust', '2025-02-10')).toBe(200);
+  });
+
+  it('keeps customers apart', () => {
+    const entries = [entry('topup', 1000, '2025-01-01'), entry('topup', 50, '2025-01-01', { customerId: 'other' })];
+    expect(getWalletBalance(entries, 'other', '2025-01-02')).toBe(50);
+  });
+});
+
+describe('getWalletReturns', () => {
+  const ledger = [
+    entry('topup', 300, '2025-01-01'),
+    entry('bonus', 200, '2025-01-01', { expiresAt: '2025-03-01' }),
+    entry('spend', -500, '2025-02-01', { transactionId: 'sale' })
+  ];
+
+  it('gives credit back with the expiry it was spent from, latest-expiring first', () => {
+    expect(getWalletReturns(ledger, 'cust', 'sale', 500)).toEqual([
+      { amount: 300, expiresAt: null },
+      { amount: 200, expiresAt: '2025-03-01' }
+    ]);
+    expect(getWalletReturns(ledger, 'cust', 'sale', 350)).toEqual([
+      { amount: 300, expiresAt: null },
+      { amount: 50, expiresAt: '2025-03-01' }
+    ]);
+  });
+
+  it('skips what an earlier refund already returned', () => {
+    const afterPartial = [...ledger, entry('refund', 300, '2025-02-10', { transactionId: 'sale' })];
+    expect(getWalletReturns(afterPartial, 'cust', 'sale', 200)).toEqual([{ amount: 200, expiresAt: '2025-03-01' }]);
+  });
+
+  it('returns spending it cannot trace to a lot without an expiry', () => {
+    const untraced = [entry('spend', -100, '2025-02-01', { transactionId: 'old-sale' })];
+    expect(getWalletReturns(untraced, 'cust', 'old-sale', 100)).toEqual([{ amount: 100, expiresAt: null }]);
+  });
+});
+
+describe('normalizeVoucherCode', () => {
+  it('trims and upper-cases codes read back by customers', () => {
+    expect(normalizeVoucherCode(' gv-ab12-cd34 ')).toBe('GV-AB12-CD34');
+  });
+});
@@ -0,0 +1,142 @@
+import { GiftVoucher, PaymentMethod, WalletEntry, WalletEntryType } from '../types';
+import { toISODate } from './schedule';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const WALLET_ENTRY_LABELS: Record<WalletEntryType, string> = {
+  topup: 'เติมเงิน',
+  bonus: 'เครดิตโบนัส',
+  voucher: 'แลกบัตรกำนัล',
+  spend: 'ชำระค่าบริการ',
+  refund: 'คืนเครดิต'
+};
+
+// Methods that bring money in; a wallet cannot be topped up from itself
+export const FUNDING_METHODS: PaymentMethod[] = ['Cash', 'Credit Card', 'Transfer'];
+
+export const EXPIRY_NOTICE_DAYS = 30;
+
+const isExpired = (entry: WalletEntry, date: string) => !!entry.expiresAt && entry.expiresAt < date.slice(0, 10);
+
+export interface WalletLot {
+  entry: WalletEntry;
+  remaining: number;
+  expired: boolean;
+}
+
+interface WalletTake {
+  spend: WalletEntry;
+  lot: WalletEntry;
+  amount: number;
+}
+
+const replayWallet = (entries: WalletEntry[], customerId: string) => {
+  const lots: { entry: WalletEntry; remaining: number }[] = [];
+  const takes: WalletTake[] = [];
+  entries
+    .filter(e => e.customerId === customerId)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(entry => {
+      if (entry.amount > 0) {
+        lots.push({ entry, remaining: entry.amount });
+        return;
+      }
+      let due = -entry.amount;
+      lots
+        .filter(l => l.remaining > 0 && !isExpired(l.entry, entry.date))
+        .sort((a, b) => (a.entry.expiresAt || '9999').localeCompare(b.entry.expiresAt || '9999'))
+        .forEach(l => {
+          const take = Math.min(due, l.remaining);
+          if (take <= 0) return;
+          l.remaining = round2(l.remaining - take);
+          due = round2(due - take);
+          takes.push({ spend: entry, lot: l.entry, amount: take });
+        });
+    });
+  return { lots, takes };
+};
+
+/**
+ * Replays a customer's ledger: each spend takes from the credit that expires
+ * soonest among what was still valid on the day, so bonus credit with a short
+ * expiry is used before open-ended top-ups. Credit left on an expired lot is forfeited.
+ */
+export const getWalletLots = (entries: WalletEntry[], customerId: string, asOf = toISODate(new Date())): WalletLot[] =>
+  replayWallet(entries, customerId).lots.map(l => ({ ...l, expired: isExpired(l.entry, asOf) }));
+
+export interface WalletReturn {
+  amount: number;
+  expiresAt: string | null;
+}
+
+/**
+ * Credit to put back for a voided or refunded sale, split by the expiry of the lots
+ * the sale's spending came from so returned credit does not outlive the original.
+ * The latest-expiring credit goes back first; whatever was already returned is skipped.
+ */
+export const getWalletReturns = (entries: WalletEntry[], customerId: string, transactionId: string, amount: number): WalletReturn[] => {
+  let skip = round2(entries
+    .filter(e => e.customerId === customerId && e.transactionId === transactionId && e.type === 'refund')
+    .reduce((sum, e) => sum + e.amount, 0));
+  let due = round2(amount);
+  const returns: WalletReturn[] = [];
+  replayWallet(entries, customerId).takes
+    .filter(t => t.spend.transactionId === transactionId)
+    .sort((a, b) => (b.lot.expiresAt || '9999').localeCompare(a.lot.expiresAt || '9999'))
+    .forEach(t => {
+      const skipped = Math.min(skip, t.amount);
+      skip = round2(skip - skipped);
+      const give = Math.min(due, round2(t.amount - skipped));
+      if (give <= 0) return;
+      due = round2(due - give);
+      const same = returns.find(r => r.expiresAt === t.lot.expiresAt);
+      if (same) same.amount = round2(same.amount + give);
+      else returns.push({ amount: give, expiresAt: t.lot.expiresAt });
+    });
+  // Spending the ledger cannot trace to a lot comes back without an expiry
+  if (due > 0) returns.push({ amount: due, expiresAt: null });
+  return returns;
+};
+
+export const getWalletBalance = (entries: WalletEntry[], customerId: string, asOf?: string) =>
+  round2(getWalletLots(entries, customerId, asOf).filter(l => !l.expired).reduce((sum, l) => sum + l.remaining, 0));
+
+// Unused credit that runs out within the notice window
+export const getExpiringCredit = (entries: WalletEntry[], customerId: string, days = EXPIRY_NOTICE_DAYS, asOf = toISODate(new Date())) => {
+  const limit = new Date(asOf + 'T00:00:00');
+  limit.setDate(limit.getDate() + days);
+  const until = toISODate(limit);
+  return round2(getWalletLots(entries, customerId, asOf)
+    .filter(l => !l.expired && l.entry.expiresAt && l.entry.expiresAt <= until)
+    .reduce((sum, l) => sum + l.remaining, 0));
+};
+
+export const getForfeitedCredit = (entries: WalletEntry[], customerId: string, asOf?: string) =>
+  round2(getWalletLots(entries, customerId, asOf).filter(l => l.expired).reduce((sum, l) => sum + l.remaining, 0));
+
+// No 0/O or 1/I so codes read back over the phone are unambiguous
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateVoucherCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  const chars = Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  return `GV-${chars.slice(0, 4)}-${chars.slice(4)}`;
+};
+
+export const normalizeVoucherCode = (code: string) => code.trim().toUpperCase();
+
+export type VoucherStatus = 'active' | 'redeemed' | 'expired' | 'voided';
+
+export const VOUCHER_STATUS_LABELS: Record<VoucherStatus, string> = {
+  active: 'ใช้ได้',
+  redeemed: 'แลกแล้ว',
+  expired: 'หมดอายุ',
+  voided: 'ยกเลิก'
+};
+
+export const getVoucherStatus = (voucher: GiftVoucher, asOf = toISODate(new Date())): VoucherStatus => {
+  if (voucher.voided) return 'voided';
+  if (voucher.redeemedAt) return 'redeemed';
+  if (voucher.expiresAt && voucher.expiresAt < asOf) return 'expired';
+  return 'active';
+};
@@ -1,17 +1,175 @@
 export enum Status {
   PENDING = 'รอการยืนยัน',
   CONFIRMED = 'ยืนยันแล้ว',
+  RESCHEDULED = 'เลื่อนนัด',
+  ARRIVED = 'มาถึงแล้ว',
+  IN_TREATMENT = 'กำลังรักษา',
   COMPLETED = 'เสร็จสิ้น',
+  NO_SHOW = 'ไม่มาตามนัด',
   CANCELLED = 'ยกเลิก'
 }
 
+export interface AppointmentStatusChange {
+  status: Status;
+  at: string; // ISO timestamp
+  by?: string; // Email of the staff who made the change
+  note?: string; // e.g. the previous date/time for a reschedule
+}
+
+export interface InventoryLot {
+  id: string;
+  inventoryItemId: string;
+  lotNumber: string;
+  expiryDate: string | null;
+  receivedDate: string;
+  quantity: number; // Derived from the stock_movements ledger
+}
+
 export interface InventoryItem {
   id: string;
   name: string;
-  quantity: number;
+  quantity: number; // Derived from the stock_movements ledger
   unit: string;
   minLevel: number;
+  targetLevel?: number; // Stock level a reorder should bring the item back up to
+  preferredSupplierId?: string;
   pricePerUnit: number;
+  lots: InventoryLot[];
+  contraindications?: ContraindicationRule[];
+}
+
+// Which lot a deduction was taken from (lotId is empty for stock not tracked by lot)
+export interface LotUsage {
+  inventoryItemId: string;
+  lotId?: string;
+  lotNumber?: string;
+  quantity: number;
+}
+
+export type StockMovementType = 'receive' | 'sale' | 'course_usage' | 'adjustment' | 'wastage' | 'transfer' | 'return';
+
+export interface StockMovement {
+  id: string;
+  date: string;
+  inventoryItemId: string;
+  lotId?: string;
+  type: StockMovementType;
+  quantity: number; // Signed change: + stock in, - stock out
+  unitCost?: number; // Cost per unit for received stock
+  referenceType?: 'transaction' | 'treatment_record' | 'purchase_order';
+  referenceId?: string;
+  reason?: string;
+  createdBy?: string; // Email of the staff who recorded it
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  taxId?: string;
+  notes?: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received';
+
+export interface PurchaseOrderLine {
+  id: string;
+  inventoryItemId: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  supplierId: string | null;
+  status: PurchaseOrderStatus;
+  orderDate: string | null;
+  expectedDate?: string | null;
+  notes?: string;
+  createdAt: string;
+  lines: PurchaseOrderLine[];
+}
+
+// One line of goods arriving against a purchase order
+export interface PurchaseOrderReceipt {
+  lineId: string;
+  quantity: number;
+  unitCost: number;
+  lotNumber?: string;
+  expiryDate?: string | null;
+}
+
+export type UserRole = 'admin' | 'doctor' | 'front_desk' | 'accountant';
+
+export interface UserAccount {
+  userId: string;
+  email: string;
+  role: UserRole;
+}
+
+export type StaffRole = 'doctor' | 'nurse' | 'therapist';
+
+export interface WorkingHours {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:mm
+  end: string; // HH:mm
+  breakStart?: string; // HH:mm, e.g. lunch
+  breakEnd?: string;
+}
+
+export interface Holiday {
+  id: string;
+  date: string;
+  staffId: string | null; // null = whole clinic closed
+  reason: string;
+}
+
+export interface Staff {
+  id: string;
+  name: string;
+  role: StaffRole;
+  licenseNumber?: string; // เลขที่ใบประกอบวิชาชีพ
+  active: boolean;
+  workingHours: WorkingHours[];
+  qualifiedServiceIds: string[]; // Empty = qualified for every service
+}
+
+export type CommissionMethod = 'flat' | 'percent' | 'tiered';
+
+export interface CommissionTier {
+  fromUnits: number; // Applies from this unit of the month onwards (1-based)
+  value: number;
+}
+
+export interface CommissionRule {
+  id: string;
+  staffId: string | null; // null = applies to every doctor
+  targetType: 'service' | 'course' | 'any';
+  targetId: string | null; // null = every service/course of targetType
+  method: CommissionMethod;
+  value: number; // Baht per unit (flat) or % of unit price (percent)
+  tiers?: CommissionTier[];
+  tierValueType?: 'flat' | 'percent';
+  active: boolean;
+}
+
+export interface DoctorFee {
+  id: string;
+  date: string;
+  staffId?: string;
+  doctorName: string; // Name at the time the fee was earned
+  sourceType: 'treatment_record' | 'transaction';
+  sourceId: string;
+  itemId?: string; // Service or course the fee was earned on
+  itemName: string;
+  units: number;
+  unitPrice: number;
+  amount: number;
+  ruleId?: string;
 }
 
 export interface Consumable {
@@ -23,11 +181,34 @@ export interface CourseDefinition {
   id: string;
   name: string;
   price: number;
-  totalUnits: number; // จำนวนครั้งที่ใช้ได้
+  totalUnits: number; // จำนวนครั้งที่ใช้ได้; for a bundle, the sum of its entitlements
   description: string;
   consumables?: Consumable[]; // Items used per session
+  validityMonths?: number | null; // null/0 = never expires
+  validityStart?: CourseValidityStart;
+  entitlements?: CourseEntitlement[]; // Set for packages like "5 Acne Clear + 2 IV Drip"; empty = single counter
+}
+
+// One line of a bundled course
+export interface CourseEntitlement {
+  id: string;
+  serviceId: string;
+  units: number;
+  consumables?: Consumable[]; // Items used per session of this line
 }
 
+// A purchased entitlement line with its own balance
+export interface CustomerCourseEntitlement {
+  entitlementId: string;
+  serviceId: string;
+  serviceName: string;
+  totalUnits: number;
+  remainingUnits: number;
+}
+
+// When the validity period starts counting
+export type CourseValidityStart = 'purchase' | 'first_use';
+
 export interface CustomerCourse {
   id: string; // Unique ID of this purchase
   courseId: string;
@@ -37,6 +218,45 @@ export interface CustomerCourse {
   purchaseDate: string;
   expiryDate: string | null;
   active: boolean;
+  transactionId?: string; // Sale that created this instance, used to reverse it on void/refund
+  validityMonths?: number | null; // Copied from the course at sale; sets the expiry on first use
+  validityStart?: CourseValidityStart;
+  sharedWith?: string[]; // Other customers (e.g. family) allowed to use this instance
+  entitlements?: CustomerCourseEntitlement[]; // Bundles only; totalUnits/remainingUnits are their sums
+}
+
+export type CourseAdjustmentType = 'transfer' | 'share' | 'unshare' | 'convert';
+
+// Audit trail for moving a course between customers or into a different course
+export interface CourseAdjustment {
+  id: string;
+  date: string;
+  type: CourseAdjustmentType;
+  customerCourseId: string; // Instance the change was made on
+  customerId: string; // Owner before the change
+  targetCustomerId?: string; // New owner (transfer) or member added/removed (share)
+  newCustomerCourseId?: string; // Instance created by a conversion
+  targetCourseId?: string;
+  units: number; // Units moved, or units received on conversion
+  value: number; // Remaining value carried into a conversion
+  fee: number; // Extra paid when the new course costs more than the value carried over
+  transactionId?: string;
+  reason: string;
+  createdBy?: string;
+}
+
+// Audit trail for every change to a course instance's expiry date
+export interface CourseExtension {
+  id: string;
+  date: string;
+  customerCourseId: string;
+  customerId: string;
+  previousExpiry: string | null;
+  newExpiry: string;
+  fee: number; // 0 = free extension
+  transactionId?: string; // Sale recording the fee
+  reason: string;
+  createdBy?: string;
 }
 
 export interface TreatmentRecord {
@@ -44,10 +264,82 @@ export interface TreatmentRecord {
   date: string;
   treatmentName: string;
   details: string; // Diagnosis/Notes
-  doctorName: string;
+  staffId?: string;
+  doctorName: string; // Snapshot of the staff name at treatment time
   doctorFee?: number; // Calculated commission/fee
   unitsUsed: number; // For courses
-  photos: string[]; // Mock URLs
+  photos: TreatmentPhoto[];
+  lotsUsed?: LotUsage[]; // Lots consumed, for recall tracing
+  chart?: ClinicalChart; // Structured charting alongside the free-text details
+  consentIds?: string[]; // Signed consents the treatment was performed under
+}
+
+// Which sections the chart form shows; picked from the service category
+export type ChartTemplate = 'general' | 'injection' | 'laser' | 'iv';
+
+export interface InjectionPoint {
+  zone: string; // FACE_ZONES id
+  inventoryItemId?: string; // Product injected
+  lotNumber?: string;
+  units: number; // Units (toxin) or ml (filler), as the product is counted
+}
+
+export interface LaserSettings {
+  device?: string;
+  energy?: number; // J/cm²
+  shots?: number;
+  spotSize?: number; // mm
+  passes?: number;
+}
+
+export interface VitalSigns {
+  bpSystolic?: number;
+  bpDiastolic?: number;
+  pulse?: number;
+  temperature?: number;
+  spo2?: number;
+}
+
+// SOAP note plus the measurements each template adds
+export interface ClinicalChart {
+  template: ChartTemplate;
+  subjective?: string;
+  objective?: string;
+  assessment?: string;
+  plan?: string;
+  injections?: InjectionPoint[];
+  laser?: LaserSettings;
+  vitals?: VitalSigns;
+}
+
+export type PhotoKind = 'before' | 'after';
+
+// Stored in the private treatment-photos bucket; shown through short-lived signed URLs
+export interface TreatmentPhoto {
+  id: string;
+  treatmentRecordId: string;
+  customerId: string;
+  kind: PhotoKind;
+  path: string;
+  thumbnailPath: string;
+  takenAt: string;
+  marketingConsent: boolean; // Customer agreed to use in reviews/ads
+  uploadedBy?: string;
+}
+
+// A photo picked in the ตัดคอร์ส modal, before it is uploaded
+export interface PhotoUpload {
+  file: File;
+  kind: PhotoKind;
+  marketingConsent: boolean;
+}
+
+// Buyer details printed on a full tax invoice (ใบกำกับภาษีเต็มรูป)
+export interface CustomerTaxInfo {
+  name: string; // Person or company name
+  taxId: string; // 13-digit tax ID / national ID
+  address: string;
+  branch: string; // 'สำนักงานใหญ่' or branch number for companies
 }
 
 export interface Customer {
@@ -58,10 +350,87 @@ export interface Customer {
   birthDate?: string;
   lineId?: string;
   address?: string;
+  taxInfo?: CustomerTaxInfo; // Billing details for full tax invoices
   history: string[]; // Legacy simple history
   treatmentHistory: TreatmentRecord[]; // Detailed history
   activeCourses: CustomerCourse[];
   notes: string;
+  allergies?: string[]; // Drugs/substances, e.g. "Penicillin", "Lidocaine"
+  medications?: string[]; // Current medicines, e.g. blood thinners, isotretinoin
+  conditions?: string[]; // e.g. pregnancy, keloid scarring
+}
+
+// Audit trail for folding a duplicate customer into the record that is kept
+export interface CustomerMerge {
+  id: string;
+  date: string;
+  survivorId: string;
+  mergedId: string; // Left in place, hidden, pointing at the survivor
+  mergedName: string;
+  mergedPhone: string;
+  moved: Record<string, number>; // Rows re-pointed per table
+  note: string;
+  mergedBy?: string;
+}
+
+// Thai consent text with {{variables}}; applies to the listed services, categories and courses
+export interface ConsentTemplate {
+  id: string;
+  name: string;
+  body: string;
+  serviceIds: string[];
+  categories: string[];
+  courseIds: string[];
+  version: number; // Bumped whenever the text changes; older signatures become outdated
+  validMonths?: number | null; // Re-sign after this long; null/0 = valid until the text changes
+  active: boolean;
+  updatedAt?: string;
+}
+
+// A signed consent is never edited; the PDF in storage is the record
+export interface SignedConsent {
+  id: string;
+  templateId: string;
+  templateVersion: number;
+  templateName: string;
+  customerId: string;
+  procedure: string;
+  signedAt: string;
+  pdfPath: string;
+  appointmentId?: string;
+  witnessedBy?: string;
+}
+
+export type MedicalFlagType = 'allergy' | 'medication' | 'condition';
+
+// Attached to a service or product: customers whose matching list contains the term must not receive it
+export interface ContraindicationRule {
+  id: string;
+  type: MedicalFlagType;
+  term: string; // Matched case-insensitively against the customer's entries
+  reason?: string;
+}
+
+export interface ContraindicationHit {
+  source: string; // Service or product the rule belongs to
+  rule: ContraindicationRule;
+  match: string; // The customer's entry that triggered it
+}
+
+export type SafetyCheckContext = 'appointment' | 'sale' | 'course_use';
+
+// Logged when staff proceed despite a contraindication warning
+export interface ContraindicationOverride {
+  id: string;
+  date: string;
+  customerId: string;
+  context: SafetyCheckContext;
+  itemName: string;
+  hits: ContraindicationHit[];
+  note: string;
+  acknowledgedBy?: string;
+  referenceType?: 'appointment' | 'transaction' | 'treatment_record'; // Record the action created
+  referenceId?: string;
 }
 
 export interface Service {
@@ -72,6 +441,7 @@ export interface Service {
   category: string;
   consumables?: Consumable[]; // Items used per service
   imageUrl?: string; // Base64 or URL
+  contraindications?: ContraindicationRule[];
 }
 
 export interface Appointment {
@@ -81,16 +451,206 @@ export interface Appointment {
   date: string; // ISO Date string
   time: string;
   status: Status;
-  doctorName: string;
+  staffId?: string;
+  doctorName: string; // Snapshot of the staff name at booking time
+  room?: string;
+  customerCourseId?: string; // Course instance the visit will be cut from
+  seriesId?: string; // Shared by every occurrence of a recurring booking
+  seriesIndex?: number; // 1-based position within the series
+  statusHistory: AppointmentStatusChange[];
+}
+
+export type NotificationChannel = 'line' | 'sms' | 'email';
+
+export type NotificationKind = 'appointment_day_before' | 'appointment_two_hours' | 'course_expiry' | 'birthday' | 'follow_up' | 'payment_due' | 'payment_overdue';
+
+// 'sending' is held while one browser delivers the message so others skip it
+export type NotificationStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+export interface NotificationMessage {
+  id: string;
+  customerId: string;
+  kind: NotificationKind;
+  channel: NotificationChannel;
+  recipient: string; // LINE ID, phone number or email address
+  subject?: string; // Email only
+  body: string;
+  status: NotificationStatus;
+  attempts: number;
+  scheduledAt: string; // ISO timestamp
+  nextAttemptAt: string; // ISO timestamp
+  sentAt: string | null;
+  lastError: string | null;
+  sourceId?: string; // Appointment, course instance or treatment record the message is about
+  dedupeKey: string; // One message per event, e.g. 'birthday:<customer>:2025'
+}
+
+export type DiscountType = 'percent' | 'amount';
+
+export interface Discount {
+  type: DiscountType;
+  value: number; // Percent (0-100) or baht
+}
+
+export type PromotionTarget = 'all' | 'service' | 'course' | 'category';
+
+// Time-bound campaign; with a code it is a coupon, without one it applies automatically
+export interface Promotion {
+  id: string;
+  name: string;
+  code?: string;
+  discountType: DiscountType;
+  discountValue: number;
+  targetType: PromotionTarget;
+  targetIds: string[]; // Service/course ids, or service category names
+  startDate: string | null;
+  endDate: string | null;
+  usageLimit: number | null; // null = unlimited
+  usedCount: number;
+  active: boolean;
 }
 
+export interface TransactionItem {
+  type?: 'service' | 'course'; // Missing on sales recorded before refunds existed
+  id?: string;
+  name: string;
+  price: number; // List price per unit; negative on refund lines
+  quantity: number;
+  discount?: number; // Baht off the whole line (line, promotion and bill discounts combined)
+  staffId?: string;
+  customerCourseId?: string; // Course instance a refund line reversed
+}
+
+export type PaymentMethod = 'Cash' | 'Credit Card' | 'Transfer' | 'Wallet';
+
+export interface PaymentLine {
+  method: PaymentMethod;
+  amount: number;
+}
+
+// Money actually received against a sale: at the counter, or later installments
+export interface Payment extends PaymentLine {
+  id: string;
+  date: string;
+  transactionId: string;
+  customerId: string;
+  receivedBy?: string;
+  note?: string;
+}
+
+export interface Installment {
+  dueDate: string;
+  amount: number;
+}
+
+// topup/bonus/voucher/refund add credit; spend takes it away (negative amount)
+export type WalletEntryType = 'topup' | 'bonus' | 'voucher' | 'spend' | 'refund';
+
+export interface WalletEntry {
+  id: string;
+  date: string;
+  customerId: string;
+  type: WalletEntryType;
+  amount: number; // Signed: credit positive, spend negative
+  expiresAt: string | null; // Credit is usable through this date; null = never expires
+  method?: PaymentMethod; // How a top-up was paid
+  transactionId?: string; // Sale paid from (or refunded to) the wallet
+  voucherId?: string;
+  note?: string;
+  createdBy?: string;
+}
+
+// Sold to anyone, redeemed into the wallet of whoever brings the code
+export interface GiftVoucher {
+  id: string;
+  code: string;
+  amount: number;
+  expiresAt: string | null; // Last day to redeem; redeemed credit keeps this expiry
+  soldAt: string;
+  soldMethod: PaymentMethod;
+  soldBy?: string;
+  buyerName?: string;
+  buyerCustomerId?: string;
+  redeemedBy?: string; // Customer id
+  redeemedAt?: string;
+  transactionId?: string; // Record of the money taken for it
+  voided: boolean;
+  voidReason?: string;
+  note?: string;
+}
+
+// 'wallet' = money taken for a top-up or gift voucher; it becomes revenue when the credit is spent
+export type TransactionKind = 'sale' | 'refund' | 'wallet';
+export type TransactionStatus = 'completed' | 'voided';
+
+// History is never deleted: voids keep the row, refunds are separate negative rows
 export interface Transaction {
   id: string;
   date: string;
   customerId: string;
-  items: { name: string; price: number; quantity: number }[];
+  items: TransactionItem[];
   totalAmount: number;
-  paymentMethod: 'Cash' | 'Credit Card' | 'Transfer';
+  paymentMethod: PaymentMethod; // Largest payment line; refunds are paid back this way
+  installments?: Installment[]; // Schedule for the unpaid part; missing on sales made before split payments (paid in full)
+  subtotal?: number; // Before discounts
+  discountAmount?: number;
+  promotionDiscount?: number; // Part of discountAmount that came from the promotion
+  promotionId?: string;
+  promotionName?: string;
+  couponCode?: string;
+  discountApprovedBy?: string; // Manager who approved a discount above the limit
+  kind: TransactionKind;
+  status: TransactionStatus;
+  refundOfId?: string;
+  reason?: string; // Why the refund was given
+  createdBy?: string; // Cashier email
+  voidReason?: string;
+  voidedAt?: string;
+  voidedBy?: string;
+  refundVersion: number; // Bumped by every refund so two cashiers can't refund or void from the same figures
+}
+
+// Seller details printed on every receipt (a snapshot is stored with each document)
+export interface ClinicProfile {
+  name: string;
+  address: string;
+  phone: string;
+  taxId: string;
+  branchCode: string; // '00000' = head office
+  branchName: string;
+  vatRegistered: boolean;
+  vatRate: number; // Percent, e.g. 7
+  pricesIncludeVat: boolean;
+  maxDiscountPercent: number; // Manual discounts above this need manager approval
+  blockOverdueCourseUsage: boolean; // Refuse to cut course units while the customer has an overdue balance
+}
+
+// receipt = ใบเสร็จรับเงิน (ใบกำกับภาษีอย่างย่อ when VAT registered), tax_invoice = ใบกำกับภาษีเต็มรูป
+export type ReceiptType = 'receipt' | 'tax_invoice';
+
+export interface Receipt {
+  id: string;
+  transactionId: string;
+  type: ReceiptType;
+  documentNumber: string;
+  branchCode: string;
+  year: number;
+  issuedAt: string;
+  clinic: ClinicProfile;
+  customerName: string;
+  customerTax?: CustomerTaxInfo;
+  items: { name: string; price: number; quantity: number; discount?: number }[];
+  subtotal: number; // Before VAT
+  vatRate: number;
+  vatAmount: number;
+  total: number;
+  paymentMethod: Transaction['paymentMethod'];
+  payments?: PaymentLine[]; // Money taken with this document when the bill was split or part-paid
+  balanceDue?: number; // Still owed on the bill when the document was issued
+  voided: boolean; // Voided documents keep their number and stay on file
+  voidedAt: string | null;
+  voidReason: string | null;
+  printCount: number;
 }
 
 export interface StatCardProps {